@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+/**
+ * Generates one documentation page per validation rule (docs/rules/<id>.md)
+ * plus an index, from the rule registry in src/server/handlers/validation/rules.ts.
+ * Diagnostics link to these pages through codeDescription.href.
+ *
+ * Run with: npm run generate-rule-docs (compiles first)
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const rulesPath = path.join(__dirname, '../out/server/handlers/validation/rules.js');
+const docsDir = path.join(__dirname, '../docs/rules');
+
+if (!fs.existsSync(rulesPath)) {
+    console.error('rules.js not found. Run compile first.');
+    process.exit(1);
+}
+
+const { RULES } = require(rulesPath);
+
+const CATEGORY_TITLES = {
+    'syntax': 'Syntax',
+    'imports': 'Imports',
+    'declarations': 'Declarations',
+    'types': 'Types',
+    'decorators': 'Decorators',
+    'control-flow': 'Control Flow',
+    'code-quality': 'Code Quality',
+};
+
+function capitalize(text) {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function rulePage(rule) {
+    return `# ${rule.code} \`${rule.id}\`
+
+${rule.description}
+
+| | |
+|---|---|
+| **Code** | \`${rule.code}\` |
+| **Category** | ${CATEGORY_TITLES[rule.category]} |
+| **Default severity** | ${capitalize(rule.defaultSeverity)} |
+
+## Example
+
+\`\`\`kite
+${rule.example}
+\`\`\`
+
+## Configuration
+
+Change the severity or turn the rule off in settings or \`kite.config.json\`:
+
+\`\`\`json
+{
+  "validation": {
+    "rules": {
+      "${rule.id}": "off"
+    }
+  }
+}
+\`\`\`
+
+Suppress a single occurrence:
+
+\`\`\`kite
+// kite-ignore-next-line ${rule.id}
+\`\`\`
+`;
+}
+
+function indexPage(rules) {
+    let content = '# Validation Rules\n\n';
+    content += 'Generated from `src/server/handlers/validation/rules.ts` by `npm run generate-rule-docs`.\n';
+
+    for (const [category, title] of Object.entries(CATEGORY_TITLES)) {
+        const categoryRules = rules.filter(rule => rule.category === category);
+        if (categoryRules.length === 0) continue;
+
+        content += `\n## ${title}\n\n`;
+        content += '| Code | Rule | Default severity | Description |\n';
+        content += '|------|------|------------------|-------------|\n';
+        for (const rule of categoryRules) {
+            content += `| ${rule.code} | [\`${rule.id}\`](${rule.id}.md) | ${capitalize(rule.defaultSeverity)} | ${rule.description} |\n`;
+        }
+    }
+
+    return content;
+}
+
+fs.mkdirSync(docsDir, { recursive: true });
+
+for (const rule of RULES) {
+    fs.writeFileSync(path.join(docsDir, `${rule.id}.md`), rulePage(rule));
+}
+fs.writeFileSync(path.join(docsDir, 'README.md'), indexPage(RULES));
+
+console.log(`Generated ${RULES.length} rule pages in docs/rules/`);
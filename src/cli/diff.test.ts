@@ -0,0 +1,85 @@
+/**
+ * Tests for unified diffs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff } from './diff';
+
+const lines = (...values: string[]) => values.map(v => v + '\n').join('');
+
+describe('createUnifiedDiff', () => {
+    it('should return an empty string for equal texts', () => {
+        expect(createUnifiedDiff('a\n', 'a\n', 'a', 'b')).toBe('');
+    });
+
+    it('should show changes with three lines of context', () => {
+        const diff = createUnifiedDiff(
+            lines('a', 'b', 'c', 'd', 'e', 'f'),
+            lines('a', 'b', 'c', 'D', 'e', 'f'),
+            'a/main.kite', 'b/main.kite'
+        );
+
+        expect(diff).toBe([
+            '--- a/main.kite',
+            '+++ b/main.kite',
+            '@@ -1,6 +1,6 @@',
+            ' a',
+            ' b',
+            ' c',
+            '-d',
+            '+D',
+            ' e',
+            ' f',
+            '',
+        ].join('\n'));
+    });
+
+    it('should split distant changes into hunks', () => {
+        const oldText = lines('1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12');
+        const newText = lines('one', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', 'twelve');
+
+        const hunks = createUnifiedDiff(oldText, newText, 'a', 'b').split('\n').filter(l => l.startsWith('@@'));
+
+        expect(hunks).toEqual(['@@ -1,4 +1,4 @@', '@@ -9,4 +9,4 @@']);
+    });
+
+    it('should number insertions into an empty file after line 0', () => {
+        expect(createUnifiedDiff('', lines('x'), 'a', 'b')).toBe('--- a\n+++ b\n@@ -0,0 +1 @@\n+x\n');
+    });
+
+    it('should show deleted lines', () => {
+        expect(createUnifiedDiff(lines('x', 'y'), lines('y'), 'a', 'b')).toBe('--- a\n+++ b\n@@ -1,2 +1 @@\n-x\n y\n');
+    });
+
+    it('should mark a missing newline at the end of the file', () => {
+        const diff = createUnifiedDiff('a\nb', 'a\nb\n', 'a', 'b');
+
+        expect(diff).toBe([
+            '--- a',
+            '+++ b',
+            '@@ -1,2 +1,2 @@',
+            ' a',
+            '-b',
+            '\\ No newline at end of file',
+            '+b',
+            '',
+        ].join('\n'));
+    });
+
+    it('should diff re-indented blocks line by line', () => {
+        const diff = createUnifiedDiff(
+            lines('schema Config {', 'string name', 'number port', '}'),
+            lines('schema Config {', '    string name', '    number port', '}'),
+            'a', 'b'
+        );
+
+        expect(diff.split('\n').filter(l => l.startsWith('-') && !l.startsWith('---'))).toEqual([
+            '-string name',
+            '-number port',
+        ]);
+        expect(diff.split('\n').filter(l => l.startsWith('+') && !l.startsWith('+++'))).toEqual([
+            '+    string name',
+            '+    number port',
+        ]);
+    });
+});
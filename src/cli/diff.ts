@@ -0,0 +1,186 @@
+/**
+ * Unified diffs for the Kite command-line tools.
+ * Lines are compared with the Myers algorithm; the output matches `diff -u`.
+ */
+
+/** Unchanged lines shown around each change */
+const DEFAULT_CONTEXT = 3;
+
+/**
+ * One line of an edit script
+ */
+interface DiffLine {
+    type: ' ' | '-' | '+';
+    text: string;
+    /** Set on the last line of a text that does not end with a newline */
+    noNewline?: boolean;
+}
+
+/**
+ * Create a unified diff between two texts
+ * @returns The diff, or an empty string when the texts are equal
+ */
+export function createUnifiedDiff(
+    oldText: string,
+    newText: string,
+    oldLabel: string,
+    newLabel: string,
+    context: number = DEFAULT_CONTEXT
+): string {
+    if (oldText === newText) return '';
+
+    const lines = diffLines(splitLines(oldText), splitLines(newText));
+    const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+    // Group changes that are close together into hunks
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i].type === ' ') {
+            i++;
+            continue;
+        }
+
+        const start = Math.max(0, i - context);
+        let end = i;
+        let unchangedRun = 0;
+        while (end < lines.length && unchangedRun <= context * 2) {
+            unchangedRun = lines[end].type === ' ' ? unchangedRun + 1 : 0;
+            end++;
+        }
+        end -= Math.max(0, unchangedRun - context);
+
+        output.push(...formatHunk(lines, start, end));
+        i = end;
+    }
+
+    return output.join('\n') + '\n';
+}
+
+/**
+ * Format the lines in [start, end) as a hunk, with its `@@` header
+ */
+function formatHunk(lines: DiffLine[], start: number, end: number): string[] {
+    let oldStart = 1;
+    let newStart = 1;
+    for (let i = 0; i < start; i++) {
+        if (lines[i].type !== '+') oldStart++;
+        if (lines[i].type !== '-') newStart++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let i = start; i < end; i++) {
+        const line = lines[i];
+        if (line.type !== '+') oldCount++;
+        if (line.type !== '-') newCount++;
+        body.push(line.type + line.text);
+        if (line.noNewline) body.push('\\ No newline at end of file');
+    }
+
+    // Empty ranges are numbered after the line they follow
+    const range = (lineStart: number, count: number) =>
+        count === 1 ? `${lineStart}` : `${count === 0 ? lineStart - 1 : lineStart},${count}`;
+    return [`@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`, ...body];
+}
+
+interface SplitLine {
+    text: string;
+    noNewline: boolean;
+}
+
+function splitLines(text: string): SplitLine[] {
+    if (text === '') return [];
+    const parts = text.split('\n');
+    const endsWithNewline = parts[parts.length - 1] === '';
+    if (endsWithNewline) parts.pop();
+    return parts.map((part, i) => ({ text: part, noNewline: !endsWithNewline && i === parts.length - 1 }));
+}
+
+function sameLine(a: SplitLine, b: SplitLine): boolean {
+    return a.text === b.text && a.noNewline === b.noNewline;
+}
+
+/**
+ * Compute an edit script that turns a into b (Myers' O(ND) algorithm)
+ */
+function diffLines(a: SplitLine[], b: SplitLine[]): DiffLine[] {
+    // Common prefix and suffix need no search
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && sameLine(a[prefix], b[prefix])) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix && suffix < b.length - prefix
+        && sameLine(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+    ) suffix++;
+
+    const oldMiddle = a.slice(prefix, a.length - suffix);
+    const newMiddle = b.slice(prefix, b.length - suffix);
+    const toLine = (type: DiffLine['type'], line: SplitLine): DiffLine =>
+        line.noNewline ? { type, text: line.text, noNewline: true } : { type, text: line.text };
+
+    return [
+        ...a.slice(0, prefix).map(line => toLine(' ', line)),
+        ...myers(oldMiddle, newMiddle).map(([type, line]) => toLine(type, line)),
+        ...a.slice(a.length - suffix).map(line => toLine(' ', line)),
+    ];
+}
+
+function myers(a: SplitLine[], b: SplitLine[]): [DiffLine['type'], SplitLine][] {
+    const n = a.length;
+    const m = b.length;
+    // Furthest x reached on each diagonal k (stored at k + d) after each number of edits d
+    const trace: Int32Array[] = [];
+    let previous = new Int32Array(1);
+
+    search:
+    for (let d = 0; d <= n + m; d++) {
+        const v = new Int32Array(2 * d + 1);
+        const get = (k: number) => previous[k + d - 1];
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? get(k + 1) : get(k - 1) + 1;
+            if (d === 0) x = 0;
+            let y = x - k;
+            while (x < n && y < m && sameLine(a[x], b[y])) {
+                x++;
+                y++;
+            }
+            v[k + d] = x;
+            if (x >= n && y >= m) {
+                trace.push(v);
+                break search;
+            }
+        }
+        trace.push(v);
+        previous = v;
+    }
+
+    // Walk back through the trace to recover the edits
+    const script: [DiffLine['type'], SplitLine][] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const prev = trace[d - 1];
+        const get = (k: number) => prev[k + d - 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+        const prevX = get(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            script.push([' ', a[--x]]);
+            y--;
+        }
+        if (x === prevX) {
+            script.push(['+', b[--y]]);
+        } else {
+            script.push(['-', a[--x]]);
+        }
+    }
+    while (x > 0 && y > 0) {
+        script.push([' ', a[--x]]);
+        y--;
+    }
+
+    return script.reverse();
+}
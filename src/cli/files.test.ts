@@ -0,0 +1,94 @@
+/**
+ * Tests for command-line file discovery.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expandFileArguments, findKiteFiles } from './files';
+
+describe('files', () => {
+    let root: string;
+    const file = (name: string) => path.join(root, name);
+
+    beforeAll(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'kite-files-'));
+        for (const name of [
+            'main.kite',
+            'README.md',
+            'stacks/prod.kite',
+            'stacks/dev.kite',
+            'stacks/generated/out.kite',
+            'node_modules/pkg/lib.kite',
+            '.hidden/secret.kite',
+        ]) {
+            fs.mkdirSync(path.dirname(file(name)), { recursive: true });
+            fs.writeFileSync(file(name), '');
+        }
+    });
+
+    afterAll(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    describe('findKiteFiles', () => {
+        it('should find .kite files, skipping dot-folders and node_modules', () => {
+            expect(findKiteFiles(root)).toEqual([
+                file('main.kite'),
+                file('stacks/dev.kite'),
+                file('stacks/generated/out.kite'),
+                file('stacks/prod.kite'),
+            ]);
+        });
+
+        it('should skip excluded paths', () => {
+            const isExcluded = (p: string) => p === file('stacks/generated');
+            expect(findKiteFiles(path.join(root, 'stacks'), isExcluded)).toEqual([
+                file('stacks/dev.kite'),
+                file('stacks/prod.kite'),
+            ]);
+        });
+    });
+
+    describe('expandFileArguments', () => {
+        it('should expand files and directories', () => {
+            const result = expandFileArguments(['main.kite', 'stacks'], root);
+
+            expect(result.files).toEqual([
+                file('main.kite'),
+                file('stacks/dev.kite'),
+                file('stacks/generated/out.kite'),
+                file('stacks/prod.kite'),
+            ]);
+            expect(result.unmatched).toEqual([]);
+        });
+
+        it('should expand globs', () => {
+            expect(expandFileArguments(['stacks/*.kite'], root).files).toEqual([
+                file('stacks/dev.kite'),
+                file('stacks/prod.kite'),
+            ]);
+            expect(expandFileArguments(['**/out.kite'], root).files).toEqual([file('stacks/generated/out.kite')]);
+        });
+
+        it('should not return duplicates', () => {
+            expect(expandFileArguments(['stacks/prod.kite', 'stacks'], root).files).toHaveLength(3);
+        });
+
+        it('should keep excluded files that are named explicitly', () => {
+            const isExcluded = (p: string) => p.includes('generated');
+
+            expect(expandFileArguments(['stacks'], root, isExcluded).files).not.toContain(file('stacks/generated/out.kite'));
+            expect(expandFileArguments(['stacks/generated/out.kite'], root, isExcluded).files)
+                .toEqual([file('stacks/generated/out.kite')]);
+        });
+
+        it('should report arguments that match nothing', () => {
+            const result = expandFileArguments(['missing.kite', 'docs/**/*.kite', 'main.kite'], root);
+
+            expect(result.files).toEqual([file('main.kite')]);
+            expect(result.unmatched).toEqual(['missing.kite', 'docs/**/*.kite']);
+        });
+    });
+});
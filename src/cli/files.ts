@@ -0,0 +1,131 @@
+/**
+ * File discovery for the Kite command-line tools.
+ * Expands file, directory and glob arguments to .kite files.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createGlobMatcher, globToRegExp } from '../server/utils/glob-utils';
+import { KITE_CONFIG_FILENAME, KiteSettings, parseKiteConfig } from '../server/config';
+import { readFileContent } from '../server/utils/text-utils';
+
+/**
+ * Result of expanding command-line arguments
+ */
+export interface ExpandedFiles {
+    /** Absolute paths of the .kite files found, sorted and without duplicates */
+    files: string[];
+    /** Arguments that matched nothing */
+    unmatched: string[];
+}
+
+/**
+ * Expand file, directory and glob arguments to .kite files.
+ * Directories are searched recursively. Files and globs found while searching
+ * are skipped when isExcluded matches them; files named explicitly are always kept.
+ *
+ * @param args - Command-line arguments
+ * @param cwd - Directory relative arguments are resolved against
+ * @param isExcluded - Exclude check for absolute paths
+ */
+export function expandFileArguments(
+    args: string[],
+    cwd: string,
+    isExcluded: (filePath: string) => boolean = () => false
+): ExpandedFiles {
+    const files = new Set<string>();
+    const unmatched: string[] = [];
+
+    for (const arg of args) {
+        const found = isGlob(arg)
+            ? expandGlob(arg, cwd, isExcluded)
+            : expandPath(path.resolve(cwd, arg), isExcluded);
+        if (found.length === 0) {
+            unmatched.push(arg);
+        }
+        for (const file of found) {
+            files.add(file);
+        }
+    }
+
+    return { files: [...files].sort(), unmatched };
+}
+
+/**
+ * Find all .kite files below a directory, skipping dot-folders and node_modules
+ */
+export function findKiteFiles(dir: string, isExcluded: (filePath: string) => boolean = () => false): string[] {
+    const kiteFiles: string[] = [];
+
+    const scanDirectory = (current: string) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(current, { withFileTypes: true });
+        } catch {
+            // Ignore permission errors, etc.
+            return;
+        }
+        for (const entry of entries) {
+            const fullPath = path.join(current, entry.name);
+            if (isExcluded(fullPath)) continue;
+            if (entry.isDirectory()) {
+                if (!entry.name.startsWith('.') && entry.name !== 'node_modules') {
+                    scanDirectory(fullPath);
+                }
+            } else if (entry.isFile() && entry.name.endsWith('.kite')) {
+                kiteFiles.push(fullPath);
+            }
+        }
+    };
+
+    scanDirectory(dir);
+    return kiteFiles.sort();
+}
+
+/**
+ * Create the exclude check of a workspace from the `exclude` patterns of its root kite.config.json.
+ * Files outside the root are never excluded.
+ *
+ * @param root - Workspace root; patterns match paths relative to it
+ * @param readConfig - Reads and parses a kite.config.json file, null when missing or invalid
+ */
+export function createExcludeFilter(
+    root: string,
+    readConfig: (configPath: string) => KiteSettings | null = readKiteConfig
+): (filePath: string) => boolean {
+    const matchesExclude = createGlobMatcher(readConfig(path.join(root, KITE_CONFIG_FILENAME))?.exclude ?? []);
+    return filePath => {
+        const relativePath = path.relative(root, filePath);
+        return !relativePath.startsWith('..') && !path.isAbsolute(relativePath) && matchesExclude(relativePath);
+    };
+}
+
+function readKiteConfig(configPath: string): KiteSettings | null {
+    const content = readFileContent(configPath);
+    return content !== null ? parseKiteConfig(content) : null;
+}
+
+function isGlob(arg: string): boolean {
+    return /[*?{[]/.test(arg);
+}
+
+function expandPath(filePath: string, isExcluded: (filePath: string) => boolean): string[] {
+    try {
+        const stats = fs.statSync(filePath);
+        if (stats.isDirectory()) return findKiteFiles(filePath, isExcluded);
+        return stats.isFile() ? [filePath] : [];
+    } catch {
+        return [];
+    }
+}
+
+function expandGlob(pattern: string, cwd: string, isExcluded: (filePath: string) => boolean): string[] {
+    // Search from the longest leading part of the pattern without glob characters
+    const segments = pattern.replace(/\\/g, '/').split('/');
+    const firstGlob = segments.findIndex(isGlob);
+    const base = path.resolve(cwd, segments.slice(0, firstGlob).join('/') || '.');
+    const regex = globToRegExp(segments.slice(firstGlob).join('/'));
+
+    return findKiteFiles(base, isExcluded)
+        .filter(file => regex.test(path.relative(base, file).split(path.sep).join('/')));
+}
@@ -0,0 +1,57 @@
+/**
+ * Tests for kite-fmt formatting options.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { readEditorFormatOptions, resolveFormatOptions, stripJsonComments, DEFAULT_FORMAT_OPTIONS } from './format-options';
+
+const root = path.resolve('/project');
+
+function createReader(files: Record<string, string>) {
+    return (filePath: string) => files[filePath] ?? null;
+}
+
+describe('format options', () => {
+    describe('stripJsonComments', () => {
+        it('should remove comments and trailing commas', () => {
+            const text = '{\n  // line\n  "a": 1, /* block */\n  "b": "// not a comment",\n}';
+            expect(JSON.parse(stripJsonComments(text))).toEqual({ a: 1, b: '// not a comment' });
+        });
+
+        it('should keep commas before closing brackets inside strings', () => {
+            const text = '{ "a": ",}", "b": [",]", "\\",}",], }';
+            expect(JSON.parse(stripJsonComments(text))).toEqual({ a: ',}', b: [',]', '",}'] });
+        });
+    });
+
+    describe('readEditorFormatOptions', () => {
+        it('should read editor options with [kite] overrides', () => {
+            const settings = '{ "editor.tabSize": 2, "editor.insertSpaces": true, "[kite]": { "editor.insertSpaces": false } }';
+            expect(readEditorFormatOptions(settings)).toEqual({ tabSize: 2, insertSpaces: false });
+        });
+
+        it('should ignore invalid settings', () => {
+            expect(readEditorFormatOptions('{ "editor.tabSize": "2" }')).toEqual({});
+            expect(readEditorFormatOptions('not json')).toEqual({});
+        });
+    });
+
+    describe('resolveFormatOptions', () => {
+        const filePath = path.join(root, 'stacks', 'main.kite');
+
+        it('should use VS Code defaults without settings', () => {
+            expect(resolveFormatOptions(filePath, root, {}, createReader({}))).toEqual(DEFAULT_FORMAT_OPTIONS);
+        });
+
+        it('should layer editor settings, kite.config.json and overrides', () => {
+            const readFile = createReader({
+                [path.join(root, '.vscode', 'settings.json')]: '{ "editor.tabSize": 2, "editor.insertSpaces": false }',
+                [path.join(root, 'stacks', 'kite.config.json')]: '{ "format": { "insertSpaces": true } }',
+            });
+
+            expect(resolveFormatOptions(filePath, root, {}, readFile)).toEqual({ tabSize: 2, insertSpaces: true });
+            expect(resolveFormatOptions(filePath, root, { tabSize: 8 }, readFile)).toEqual({ tabSize: 8, insertSpaces: true });
+        });
+    });
+});
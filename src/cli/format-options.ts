@@ -0,0 +1,125 @@
+/**
+ * Formatting options for the kite-fmt command-line tool.
+ *
+ * Options are resolved the way the editor resolves them, so the CLI produces
+ * the same style as "Format Document":
+ * 1. VS Code defaults (4 spaces)
+ * 2. `editor.tabSize` / `editor.insertSpaces` in the workspace's .vscode/settings.json,
+ *    then the `[kite]` language overrides
+ * 3. `format` in the nearest kite.config.json (also applied by the language server)
+ * 4. Command-line flags
+ */
+
+import * as path from 'path';
+import { FormatOptions } from '../server/handlers/formatting';
+import { findKiteConfigPath, parseKiteConfig, KiteSettings } from '../server/config';
+import { readFileContent } from '../server/utils/text-utils';
+
+/** VS Code's default formatting options */
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = { tabSize: 4, insertSpaces: true };
+
+/**
+ * Read `editor.tabSize` and `editor.insertSpaces` from VS Code settings text,
+ * with `[kite]` overrides applied
+ */
+export function readEditorFormatOptions(settingsText: string): Partial<FormatOptions> {
+    let settings: unknown;
+    try {
+        settings = JSON.parse(stripJsonComments(settingsText));
+    } catch {
+        return {};
+    }
+    if (!isObject(settings)) return {};
+
+    const options: Partial<FormatOptions> = {};
+    for (const scope of [settings, settings['[kite]']]) {
+        if (!isObject(scope)) continue;
+        if (typeof scope['editor.tabSize'] === 'number') options.tabSize = scope['editor.tabSize'];
+        if (typeof scope['editor.insertSpaces'] === 'boolean') options.insertSpaces = scope['editor.insertSpaces'];
+    }
+    return options;
+}
+
+/**
+ * Resolve the formatting options for a file
+ * @param root - Workspace root (.vscode/settings.json location and kite.config.json search boundary)
+ * @param overrides - Options given on the command line
+ */
+export function resolveFormatOptions(
+    filePath: string,
+    root: string,
+    overrides: Partial<FormatOptions> = {},
+    readFile: (filePath: string) => string | null = readFileContent
+): FormatOptions {
+    const editorSettings = readFile(path.join(root, '.vscode', 'settings.json'));
+    const configPath = findKiteConfigPath(filePath, [root], p => readFile(p) !== null);
+    const configText = configPath ? readFile(configPath) : null;
+    const config: KiteSettings | null = configText !== null ? parseKiteConfig(configText) : null;
+
+    return {
+        ...DEFAULT_FORMAT_OPTIONS,
+        ...(editorSettings !== null ? readEditorFormatOptions(editorSettings) : {}),
+        ...config?.format,
+        ...overrides,
+    };
+}
+
+/**
+ * Remove comments and trailing commas from JSON with comments (as used by VS Code settings)
+ */
+export function stripJsonComments(text: string): string {
+    let result = '';
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"') {
+            // Copy strings unchanged
+            const start = i++;
+            while (i < text.length && text[i] !== '"') {
+                i += text[i] === '\\' ? 2 : 1;
+            }
+            result += text.substring(start, ++i);
+        } else if (ch === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') i++;
+        } else if (ch === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 2;
+        } else {
+            result += ch;
+            i++;
+        }
+    }
+
+    return removeTrailingCommas(result);
+}
+
+/**
+ * Remove commas before a closing brace or bracket, leaving strings unchanged
+ */
+function removeTrailingCommas(text: string): string {
+    let result = '';
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '"') {
+            const start = i++;
+            while (i < text.length && text[i] !== '"') {
+                i += text[i] === '\\' ? 2 : 1;
+            }
+            result += text.substring(start, ++i);
+        } else {
+            if (ch !== ',' || !/^\s*[}\]]/.test(text.substring(i + 1))) {
+                result += ch;
+            }
+            i++;
+        }
+    }
+
+    return result;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,133 @@
+/**
+ * Tests for kite-lint report formats.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { formatHuman, formatJson, formatSarif, hasErrors } from './formatters';
+import { LintResult } from './lint';
+
+const cwd = path.resolve('/project');
+
+function diagnostic(line: number, message: string, severity: DiagnosticSeverity, code?: string): Diagnostic {
+    return {
+        range: { start: { line, character: 4 }, end: { line, character: 9 } },
+        message,
+        severity,
+        code,
+    };
+}
+
+const results: LintResult[] = [
+    {
+        filePath: path.join(cwd, 'stacks', 'main.kite'),
+        diagnostics: [
+            diagnostic(5, 'Unused variable \'x\'', DiagnosticSeverity.Warning, 'KITE1019'),
+            diagnostic(1, 'Cannot resolve schema \'Config\'', DiagnosticSeverity.Error, 'KITE1003'),
+        ],
+    },
+    { filePath: path.join(cwd, 'clean.kite'), diagnostics: [] },
+];
+
+describe('formatters', () => {
+    describe('formatHuman', () => {
+        it('should print one line per diagnostic, sorted by position, and a summary', () => {
+            expect(formatHuman(results, cwd)).toBe([
+                'stacks/main.kite:2:5  error  Cannot resolve schema \'Config\'  KITE1003',
+                'stacks/main.kite:6:5  warning  Unused variable \'x\'  KITE1019',
+                '',
+                '1 error, 1 warning, 0 other in 1 file.',
+                '',
+            ].join('\n'));
+        });
+
+        it('should report when there are no problems', () => {
+            expect(formatHuman([results[1]], cwd)).toBe('No problems found in 1 file.\n');
+        });
+    });
+
+    describe('formatJson', () => {
+        it('should use 1-based positions and include rule ids', () => {
+            const files = JSON.parse(formatJson(results, cwd));
+
+            expect(files).toHaveLength(2);
+            expect(files[0].file).toBe('stacks/main.kite');
+            expect(files[0].diagnostics[0]).toEqual({
+                line: 2,
+                column: 5,
+                endLine: 2,
+                endColumn: 10,
+                severity: 'error',
+                code: 'KITE1003',
+                rule: 'symbol-resolution',
+                message: 'Cannot resolve schema \'Config\'',
+            });
+            expect(files[1].diagnostics).toEqual([]);
+        });
+    });
+
+    describe('formatSarif', () => {
+        it('should produce a SARIF 2.1.0 log', () => {
+            const log = JSON.parse(formatSarif(results, cwd));
+            const run = log.runs[0];
+
+            expect(log.version).toBe('2.1.0');
+            expect(run.tool.driver.name).toBe('kite-lint');
+            expect(run.tool.driver.rules.find((r: { id: string }) => r.id === 'KITE1003').name).toBe('symbol-resolution');
+            expect(run.results).toHaveLength(2);
+            expect(run.results[0]).toEqual({
+                ruleId: 'KITE1003',
+                level: 'error',
+                message: { text: 'Cannot resolve schema \'Config\'' },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: 'stacks/main.kite', uriBaseId: '%SRCROOT%' },
+                        region: { startLine: 2, startColumn: 5, endLine: 2, endColumn: 10 },
+                    },
+                }],
+            });
+        });
+
+        it('should use absolute file URIs for files outside the source root', () => {
+            const outside = path.resolve(cwd, '..', 'shared', 'common.kite');
+            const log = JSON.parse(formatSarif([{
+                filePath: outside,
+                diagnostics: [diagnostic(0, 'Unused', DiagnosticSeverity.Warning)],
+            }], cwd));
+
+            expect(log.runs[0].results[0].locations[0].physicalLocation.artifactLocation).toEqual({
+                uri: URI.file(outside).toString(),
+            });
+        });
+
+        it('should encode relative paths as URI references', () => {
+            const log = JSON.parse(formatSarif([{
+                filePath: path.join(cwd, 'my stacks', 'main.kite'),
+                diagnostics: [diagnostic(0, 'Unused', DiagnosticSeverity.Warning)],
+            }], cwd));
+
+            expect(log.runs[0].results[0].locations[0].physicalLocation.artifactLocation).toEqual({
+                uri: 'my%20stacks/main.kite',
+                uriBaseId: '%SRCROOT%',
+            });
+        });
+
+        it('should map information and hints to notes', () => {
+            const log = JSON.parse(formatSarif([{
+                filePath: path.join(cwd, 'main.kite'),
+                diagnostics: [diagnostic(0, 'Hint', DiagnosticSeverity.Hint)],
+            }], cwd));
+
+            expect(log.runs[0].results[0].level).toBe('note');
+        });
+    });
+
+    describe('hasErrors', () => {
+        it('should only count errors', () => {
+            expect(hasErrors(results)).toBe(true);
+            expect(hasErrors([{ filePath: 'a.kite', diagnostics: [results[0].diagnostics[0]] }])).toBe(false);
+        });
+    });
+});
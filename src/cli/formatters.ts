@@ -0,0 +1,216 @@
+/**
+ * Report formats for the kite-lint command-line tool:
+ * human-readable text, JSON and SARIF 2.1.0 (for code scanning in CI).
+ */
+
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { RULES, findRule, getRuleDocsUrl } from '../server/handlers/validation/rules';
+import type { LintResult } from './lint';
+
+/** Supported output formats */
+export const OUTPUT_FORMATS = ['human', 'json', 'sarif'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/** Severity names used in human and JSON output */
+type SeverityName = 'error' | 'warning' | 'info' | 'hint';
+
+/**
+ * Diagnostic in JSON output. Lines and columns are 1-based.
+ */
+export interface JsonDiagnostic {
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    severity: SeverityName;
+    /** Diagnostic code (e.g. 'KITE1019') */
+    code?: string;
+    /** Rule id (e.g. 'long-function') */
+    rule?: string;
+    message: string;
+}
+
+/**
+ * Format results in the requested format
+ * @param cwd - Directory file paths are shown relative to
+ */
+export function formatResults(results: LintResult[], format: OutputFormat, cwd: string): string {
+    switch (format) {
+        case 'json':
+            return formatJson(results, cwd);
+        case 'sarif':
+            return formatSarif(results, cwd);
+        default:
+            return formatHuman(results, cwd);
+    }
+}
+
+/**
+ * Format results as `file:line:column  severity  message  code` lines with a summary
+ */
+export function formatHuman(results: LintResult[], cwd: string): string {
+    const lines: string[] = [];
+    const counts = countBySeverity(results);
+
+    for (const result of results) {
+        if (result.diagnostics.length === 0) continue;
+        const file = toDisplayPath(result.filePath, cwd);
+        for (const diagnostic of sortDiagnostics(result.diagnostics)) {
+            const { line, character } = diagnostic.range.start;
+            const code = diagnostic.code !== undefined ? `  ${diagnostic.code}` : '';
+            lines.push(`${file}:${line + 1}:${character + 1}  ${getSeverityName(diagnostic)}  ${diagnostic.message}${code}`);
+        }
+    }
+
+    const filesWithProblems = results.filter(r => r.diagnostics.length > 0).length;
+    if (filesWithProblems === 0) {
+        lines.push(`No problems found in ${plural(results.length, 'file')}.`);
+    } else {
+        if (lines.length > 0) lines.push('');
+        lines.push(
+            `${plural(counts.error, 'error')}, ${plural(counts.warning, 'warning')}, ` +
+            `${counts.info + counts.hint} other in ${plural(filesWithProblems, 'file')}.`
+        );
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Format results as a JSON array of files with their diagnostics
+ */
+export function formatJson(results: LintResult[], cwd: string): string {
+    const files = results.map(result => ({
+        file: toDisplayPath(result.filePath, cwd),
+        diagnostics: sortDiagnostics(result.diagnostics).map((diagnostic): JsonDiagnostic => {
+            const rule = typeof diagnostic.code === 'string' ? findRule(diagnostic.code) : undefined;
+            return {
+                line: diagnostic.range.start.line + 1,
+                column: diagnostic.range.start.character + 1,
+                endLine: diagnostic.range.end.line + 1,
+                endColumn: diagnostic.range.end.character + 1,
+                severity: getSeverityName(diagnostic),
+                code: diagnostic.code !== undefined ? String(diagnostic.code) : undefined,
+                rule: rule?.id,
+                message: diagnostic.message,
+            };
+        }),
+    }));
+    return JSON.stringify(files, null, 2) + '\n';
+}
+
+/**
+ * Format results as a SARIF 2.1.0 log. Every rule of the registry is listed,
+ * and results reference rules by their diagnostic code.
+ */
+export function formatSarif(results: LintResult[], cwd: string): string {
+    const sarifResults = results.flatMap(result => sortDiagnostics(result.diagnostics).map(diagnostic => ({
+        ruleId: diagnostic.code !== undefined ? String(diagnostic.code) : undefined,
+        level: getSarifLevel(diagnostic),
+        message: { text: diagnostic.message },
+        locations: [{
+            physicalLocation: {
+                artifactLocation: toArtifactLocation(result.filePath, cwd),
+                region: {
+                    startLine: diagnostic.range.start.line + 1,
+                    startColumn: diagnostic.range.start.character + 1,
+                    endLine: diagnostic.range.end.line + 1,
+                    endColumn: diagnostic.range.end.character + 1,
+                },
+            },
+        }],
+    })));
+
+    const log = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'kite-lint',
+                    informationUri: 'https://github.com/kitelang/kite-vscode-plugin',
+                    rules: RULES.map(rule => ({
+                        id: rule.code,
+                        name: rule.id,
+                        shortDescription: { text: rule.description },
+                        helpUri: getRuleDocsUrl(rule.id),
+                        defaultConfiguration: {
+                            level: rule.defaultSeverity === 'error' ? 'error'
+                                : rule.defaultSeverity === 'warning' ? 'warning' : 'note',
+                        },
+                    })),
+                },
+            },
+            originalUriBaseIds: {
+                '%SRCROOT%': { uri: `${URI.file(path.resolve(cwd)).toString()}/` },
+            },
+            results: sarifResults,
+        }],
+    };
+    return JSON.stringify(log, null, 2) + '\n';
+}
+
+/**
+ * Check whether any result has an error
+ */
+export function hasErrors(results: LintResult[]): boolean {
+    return results.some(r => r.diagnostics.some(d => getSeverityName(d) === 'error'));
+}
+
+function countBySeverity(results: LintResult[]): Record<SeverityName, number> {
+    const counts: Record<SeverityName, number> = { error: 0, warning: 0, info: 0, hint: 0 };
+    for (const result of results) {
+        for (const diagnostic of result.diagnostics) {
+            counts[getSeverityName(diagnostic)]++;
+        }
+    }
+    return counts;
+}
+
+function getSeverityName(diagnostic: Diagnostic): SeverityName {
+    switch (diagnostic.severity) {
+        case DiagnosticSeverity.Warning: return 'warning';
+        case DiagnosticSeverity.Information: return 'info';
+        case DiagnosticSeverity.Hint: return 'hint';
+        // Diagnostics without a severity are errors, as in the editor
+        default: return 'error';
+    }
+}
+
+function getSarifLevel(diagnostic: Diagnostic): 'error' | 'warning' | 'note' {
+    const severity = getSeverityName(diagnostic);
+    return severity === 'error' || severity === 'warning' ? severity : 'note';
+}
+
+function sortDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+    return [...diagnostics].sort((a, b) =>
+        a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character
+    );
+}
+
+function toDisplayPath(filePath: string, cwd: string): string {
+    const relativePath = path.relative(cwd, filePath);
+    const display = relativePath.startsWith('..') || path.isAbsolute(relativePath) ? filePath : relativePath;
+    return display.split(path.sep).join('/');
+}
+
+/**
+ * SARIF location of a file: relative to %SRCROOT% (the cwd) when inside it, else an absolute file URI
+ */
+function toArtifactLocation(filePath: string, cwd: string): { uri: string; uriBaseId?: string } {
+    const relativePath = path.relative(cwd, filePath);
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        return { uri: URI.file(path.resolve(filePath)).toString() };
+    }
+    return {
+        uri: relativePath.split(path.sep).map(encodeURIComponent).join('/'),
+        uriBaseId: '%SRCROOT%',
+    };
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
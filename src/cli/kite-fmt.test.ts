@@ -0,0 +1,104 @@
+/**
+ * Tests for the kite-fmt command.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseFmtArgs, runFmt, FmtIO } from './kite-fmt';
+
+const unformatted = 'schema Config {\nstring name\n}';
+const formatted = 'schema Config {\n    string name\n}';
+
+describe('kite-fmt', () => {
+    describe('parseFmtArgs', () => {
+        it('should parse options and paths', () => {
+            expect(parseFmtArgs(['--check', '--tab-size', '2', '--use-tabs', 'src'])).toEqual({
+                check: true,
+                format: { tabSize: 2, insertSpaces: false },
+                paths: ['src'],
+                help: false,
+            });
+        });
+
+        it('should reject invalid arguments', () => {
+            expect(() => parseFmtArgs(['--tab-size', 'two'])).toThrow(/positive integer/);
+            expect(() => parseFmtArgs(['--write'])).toThrow(/Unknown option/);
+        });
+    });
+
+    describe('runFmt', () => {
+        let root: string;
+        let stdout: string;
+        let stderr: string;
+        let io: FmtIO;
+        const read = (name: string) => fs.readFileSync(path.join(root, name), 'utf-8');
+        const write = (name: string, content: string) => {
+            fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+            fs.writeFileSync(path.join(root, name), content);
+        };
+
+        beforeEach(() => {
+            root = fs.mkdtempSync(path.join(os.tmpdir(), 'kite-fmt-'));
+            stdout = '';
+            stderr = '';
+            io = { cwd: root, stdout: text => { stdout += text; }, stderr: text => { stderr += text; } };
+        });
+
+        afterEach(() => {
+            fs.rmSync(root, { recursive: true, force: true });
+        });
+
+        it('should format files in place', () => {
+            write('main.kite', unformatted);
+            write('clean.kite', formatted);
+
+            expect(runFmt(['.'], io)).toBe(0);
+            expect(read('main.kite')).toBe(formatted);
+            expect(stdout).toBe('Formatted main.kite\n');
+        });
+
+        it('should print a diff and fail in check mode', () => {
+            write('main.kite', unformatted);
+
+            expect(runFmt(['--check', 'main.kite'], io)).toBe(1);
+            expect(read('main.kite')).toBe(unformatted);
+            expect(stdout).toContain('--- a/main.kite\n+++ b/main.kite\n');
+            expect(stdout).toContain('-string name\n+    string name\n');
+            expect(stderr).toContain('1 of 1 files are not formatted');
+        });
+
+        it('should pass check mode for formatted files', () => {
+            write('main.kite', formatted);
+
+            expect(runFmt(['--check', 'main.kite'], io)).toBe(0);
+            expect(stdout).toBe('');
+        });
+
+        it('should use the editor settings of the workspace', () => {
+            write('.vscode/settings.json', '{ "[kite]": { "editor.tabSize": 2 } }');
+            write('main.kite', unformatted);
+
+            runFmt(['main.kite'], io);
+
+            expect(read('main.kite')).toBe('schema Config {\n  string name\n}');
+        });
+
+        it('should skip files excluded in kite.config.json', () => {
+            write('kite.config.json', '{ "exclude": ["generated/**"] }');
+            write('main.kite', unformatted);
+            write('generated/out.kite', unformatted);
+
+            runFmt(['.'], io);
+
+            expect(read('main.kite')).toBe(formatted);
+            expect(read('generated/out.kite')).toBe(unformatted);
+        });
+
+        it('should exit with 2 when no files match', () => {
+            expect(runFmt(['*.kite'], io)).toBe(2);
+            expect(stderr).toContain('No .kite files match');
+        });
+    });
+});
@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+/**
+ * kite-fmt: format Kite files from the command line, with the same
+ * formatter and options as the editor.
+ *
+ *   kite-fmt [--check] [--tab-size <n>] [--use-tabs | --use-spaces] [--root <dir>] <files, directories or globs...>
+ *
+ * Exit codes: 0 = formatted (or already formatted), 1 = --check found unformatted files,
+ * 2 = invalid arguments or no files found.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatKiteCode, FormatOptions } from '../server/handlers/formatting';
+import { createExcludeFilter, expandFileArguments } from './files';
+import { resolveFormatOptions } from './format-options';
+import { createUnifiedDiff } from './diff';
+
+const USAGE = `Usage: kite-fmt [options] <files, directories or globs...>
+
+Options:
+      --check            Do not write files; print a diff and exit with 1 if any file is not formatted
+      --tab-size <n>     Spaces per indentation level
+      --use-tabs         Indent with tabs
+      --use-spaces       Indent with spaces
+      --root <dir>       Workspace root for .vscode/settings.json and kite.config.json (default: current directory)
+  -h, --help             Show this help
+
+Without options, files are formatted with the editor's options: .vscode/settings.json,
+then "format" in kite.config.json.
+`;
+
+/**
+ * Parsed command-line options
+ */
+export interface FmtOptions {
+    check: boolean;
+    format: Partial<FormatOptions>;
+    root?: string;
+    paths: string[];
+    help: boolean;
+}
+
+/**
+ * Output streams and working directory of a run (injectable for testing)
+ */
+export interface FmtIO {
+    cwd: string;
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+}
+
+/**
+ * Parse command-line arguments
+ * @throws Error with a user-facing message for invalid arguments
+ */
+export function parseFmtArgs(argv: string[]): FmtOptions {
+    const options: FmtOptions = { check: false, format: {}, paths: [], help: false };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            const next = argv[++i];
+            if (next === undefined) throw new Error(`Missing value for ${arg}`);
+            return next;
+        };
+
+        if (arg === '-h' || arg === '--help') {
+            options.help = true;
+        } else if (arg === '--check') {
+            options.check = true;
+        } else if (arg === '--tab-size') {
+            const tabSize = Number(value());
+            if (!Number.isInteger(tabSize) || tabSize < 1) {
+                throw new Error('--tab-size must be a positive integer');
+            }
+            options.format.tabSize = tabSize;
+        } else if (arg === '--use-tabs') {
+            options.format.insertSpaces = false;
+        } else if (arg === '--use-spaces') {
+            options.format.insertSpaces = true;
+        } else if (arg === '--root') {
+            options.root = value();
+        } else if (arg.startsWith('-')) {
+            throw new Error(`Unknown option '${arg}'`);
+        } else {
+            options.paths.push(arg);
+        }
+    }
+
+    return options;
+}
+
+/**
+ * Run kite-fmt
+ * @returns The process exit code
+ */
+export function runFmt(argv: string[], io: FmtIO): number {
+    let options: FmtOptions;
+    try {
+        options = parseFmtArgs(argv);
+    } catch (error) {
+        io.stderr(`kite-fmt: ${(error as Error).message}\n\n${USAGE}`);
+        return 2;
+    }
+
+    if (options.help) {
+        io.stdout(USAGE);
+        return 0;
+    }
+    if (options.paths.length === 0) {
+        io.stderr(`kite-fmt: No files given\n\n${USAGE}`);
+        return 2;
+    }
+
+    const root = path.resolve(io.cwd, options.root ?? '.');
+    const { files, unmatched } = expandFileArguments(options.paths, io.cwd, createExcludeFilter(root));
+    for (const arg of unmatched) {
+        io.stderr(`kite-fmt: No .kite files match '${arg}'\n`);
+    }
+    if (files.length === 0) {
+        return 2;
+    }
+
+    const unformatted: string[] = [];
+    for (const filePath of files) {
+        const text = fs.readFileSync(filePath, 'utf-8');
+        const formatted = formatKiteCode(text, resolveFormatOptions(filePath, root, options.format));
+        if (formatted === text) continue;
+
+        const displayPath = path.relative(io.cwd, filePath).split(path.sep).join('/');
+        unformatted.push(displayPath);
+        if (options.check) {
+            io.stdout(createUnifiedDiff(text, formatted, `a/${displayPath}`, `b/${displayPath}`));
+        } else {
+            fs.writeFileSync(filePath, formatted);
+            io.stdout(`Formatted ${displayPath}\n`);
+        }
+    }
+
+    if (options.check && unformatted.length > 0) {
+        io.stderr(`kite-fmt: ${unformatted.length} of ${files.length} files are not formatted\n`);
+        return 1;
+    }
+    return 0;
+}
+
+if (require.main === module) {
+    process.exitCode = runFmt(process.argv.slice(2), {
+        cwd: process.cwd(),
+        stdout: text => process.stdout.write(text),
+        stderr: text => process.stderr.write(text),
+    });
+}
@@ -0,0 +1,121 @@
+/**
+ * Tests for the kite-lint command.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseLintArgs, runLint, LintIO } from './kite-lint';
+
+describe('kite-lint', () => {
+    describe('parseLintArgs', () => {
+        it('should parse options and paths', () => {
+            expect(parseLintArgs(['-f', 'sarif', '--output', 'out.sarif', 'src', '*.kite'])).toEqual({
+                format: 'sarif',
+                output: 'out.sarif',
+                paths: ['src', '*.kite'],
+                help: false,
+            });
+        });
+
+        it('should reject unknown formats and options', () => {
+            expect(() => parseLintArgs(['--format', 'xml'])).toThrow(/Unknown format/);
+            expect(() => parseLintArgs(['--fix'])).toThrow(/Unknown option/);
+            expect(() => parseLintArgs(['--output'])).toThrow(/Missing value/);
+        });
+    });
+
+    describe('runLint', () => {
+        let root: string;
+        let stdout: string;
+        let stderr: string;
+        let io: LintIO;
+
+        const write = (name: string, content: string) => {
+            fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+            fs.writeFileSync(path.join(root, name), content);
+        };
+
+        beforeEach(() => {
+            root = fs.mkdtempSync(path.join(os.tmpdir(), 'kite-lint-'));
+            stdout = '';
+            stderr = '';
+            io = { cwd: root, stdout: text => { stdout += text; }, stderr: text => { stderr += text; } };
+        });
+
+        afterEach(() => {
+            fs.rmSync(root, { recursive: true, force: true });
+        });
+
+        it('should exit with 0 when there are no errors', () => {
+            write('main.kite', 'var x = 1\n');
+
+            expect(runLint(['.'], io)).toBe(0);
+            expect(stdout).not.toContain('  error  ');
+        });
+
+        it('should exit with 1 when errors are found', () => {
+            write('main.kite', 'import * from "missing.kite"\n');
+
+            expect(runLint(['main.kite'], io)).toBe(1);
+            expect(stdout).toMatch(/main\.kite:1:\d+ {2}error/);
+        });
+
+        it('should respect rules in kite.config.json', () => {
+            write('main.kite', 'import * from "missing.kite"\n');
+            write('kite.config.json', '{ "validation": { "rules": { "invalid-import-path": "off" } } }');
+
+            runLint(['--format', 'json', 'main.kite'], io);
+            const files = JSON.parse(stdout);
+
+            expect(files[0].diagnostics.some((d: { rule?: string }) => d.rule === 'invalid-import-path')).toBe(false);
+        });
+
+        it('should respect suppression comments', () => {
+            write('main.kite', '// kite-ignore-next-line invalid-import-path\nimport * from "missing.kite"\n');
+
+            runLint(['--format', 'json', 'main.kite'], io);
+            const files = JSON.parse(stdout);
+
+            expect(files[0].diagnostics.some((d: { rule?: string }) => d.rule === 'invalid-import-path')).toBe(false);
+        });
+
+        it('should accept decorators defined in kite.decorators.json', () => {
+            write('main.kite', '@provisionOn("aws")\nresource Storage backup { }\n');
+            write('kite.decorators.json', JSON.stringify({
+                decorators: [{ name: 'provisionOn', targets: ['resource'], argType: 'array' }],
+            }));
+
+            runLint(['--format', 'json', 'main.kite'], io);
+            const rules = JSON.parse(stdout)[0].diagnostics.map((d: { rule?: string }) => d.rule);
+
+            expect(rules).not.toContain('unknown-decorator');
+            expect(rules).toContain('decorator-arguments');
+        });
+
+        it('should resolve imports across files', () => {
+            write('common.kite', 'schema Config {\n  string name\n}\n');
+            write('main.kite', 'import Config from "common.kite"\nresource Config app {\n  name = "app"\n}\n');
+
+            runLint(['--format', 'json', 'main.kite'], io);
+            const files = JSON.parse(stdout);
+
+            expect(files[0].diagnostics.filter((d: { severity: string }) => d.severity === 'error')).toEqual([]);
+        });
+
+        it('should write the report to a file', () => {
+            write('main.kite', 'var x = 1\n');
+
+            runLint(['--format', 'sarif', '--output', 'report.sarif', 'main.kite'], io);
+
+            expect(JSON.parse(fs.readFileSync(path.join(root, 'report.sarif'), 'utf-8')).version).toBe('2.1.0');
+            expect(stdout).toBe('');
+        });
+
+        it('should exit with 2 when no files match', () => {
+            expect(runLint(['missing/**/*.kite'], io)).toBe(2);
+            expect(stderr).toContain('No .kite files match');
+        });
+    });
+});
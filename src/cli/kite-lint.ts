@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+/**
+ * kite-lint: run the Kite validation checks from the command line.
+ *
+ *   kite-lint [--format human|json|sarif] [--output <file>] [--root <dir>] <files, directories or globs...>
+ *
+ * Exit codes: 0 = no errors, 1 = errors found, 2 = invalid arguments or no files found.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { expandFileArguments } from './files';
+import { createLintWorkspace, lintFiles } from './lint';
+import { formatResults, hasErrors, OutputFormat, OUTPUT_FORMATS } from './formatters';
+
+const USAGE = `Usage: kite-lint [options] <files, directories or globs...>
+
+Options:
+  -f, --format <format>  Output format: ${OUTPUT_FORMATS.join(', ')} (default: human)
+  -o, --output <file>    Write the report to a file instead of stdout
+      --root <dir>       Workspace root for imports and kite.config.json (default: current directory)
+  -h, --help             Show this help
+`;
+
+/**
+ * Parsed command-line options
+ */
+export interface LintOptions {
+    format: OutputFormat;
+    output?: string;
+    root?: string;
+    paths: string[];
+    help: boolean;
+}
+
+/**
+ * Output streams and working directory of a run (injectable for testing)
+ */
+export interface LintIO {
+    cwd: string;
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+}
+
+/**
+ * Parse command-line arguments
+ * @throws Error with a user-facing message for invalid arguments
+ */
+export function parseLintArgs(argv: string[]): LintOptions {
+    const options: LintOptions = { format: 'human', paths: [], help: false };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            const next = argv[++i];
+            if (next === undefined) throw new Error(`Missing value for ${arg}`);
+            return next;
+        };
+
+        if (arg === '-h' || arg === '--help') {
+            options.help = true;
+        } else if (arg === '-f' || arg === '--format') {
+            const format = value();
+            if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+                throw new Error(`Unknown format '${format}'. Use one of: ${OUTPUT_FORMATS.join(', ')}`);
+            }
+            options.format = format as OutputFormat;
+        } else if (arg === '-o' || arg === '--output') {
+            options.output = value();
+        } else if (arg === '--root') {
+            options.root = value();
+        } else if (arg.startsWith('-')) {
+            throw new Error(`Unknown option '${arg}'`);
+        } else {
+            options.paths.push(arg);
+        }
+    }
+
+    return options;
+}
+
+/**
+ * Run kite-lint
+ * @returns The process exit code
+ */
+export function runLint(argv: string[], io: LintIO): number {
+    let options: LintOptions;
+    try {
+        options = parseLintArgs(argv);
+    } catch (error) {
+        io.stderr(`kite-lint: ${(error as Error).message}\n\n${USAGE}`);
+        return 2;
+    }
+
+    if (options.help) {
+        io.stdout(USAGE);
+        return 0;
+    }
+    if (options.paths.length === 0) {
+        io.stderr(`kite-lint: No files given\n\n${USAGE}`);
+        return 2;
+    }
+
+    const root = path.resolve(io.cwd, options.root ?? '.');
+    const workspace = createLintWorkspace(root);
+    const { files, unmatched } = expandFileArguments(options.paths, io.cwd, workspace.isExcluded);
+    for (const arg of unmatched) {
+        io.stderr(`kite-lint: No .kite files match '${arg}'\n`);
+    }
+    if (files.length === 0) {
+        return 2;
+    }
+
+    const results = lintFiles(files, workspace);
+    const report = formatResults(results, options.format, io.cwd);
+    if (options.output) {
+        fs.writeFileSync(path.resolve(io.cwd, options.output), report);
+    } else {
+        io.stdout(report);
+    }
+
+    return hasErrors(results) ? 1 : 0;
+}
+
+if (require.main === module) {
+    process.exitCode = runLint(process.argv.slice(2), {
+        cwd: process.cwd(),
+        stdout: text => process.stdout.write(text),
+        stderr: text => process.stderr.write(text),
+    });
+}
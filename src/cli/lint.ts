@@ -0,0 +1,147 @@
+/**
+ * Lint engine for the kite-lint command-line tool.
+ *
+ * Runs the same validation as the language server, without a VS Code
+ * connection: the validation context is built from the file system, rules
+ * come from kite.config.json files, decorators from the root kite.decorators.json
+ * and suppression comments apply as in the editor.
+ */
+
+import * as path from 'path';
+import { Diagnostic } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { validateDocument, ValidationContext } from '../server/handlers/validation';
+import { findSchemaDefinition, findComponentDefinition, findFunctionDefinition } from '../server/handlers/definition';
+import { ImportSuggestion } from '../server/types';
+import { extractImports, isSymbolImported } from '../server/utils/import-utils';
+import { readFileContent } from '../server/utils/text-utils';
+import { createDocumentModelStore } from '../server/document-model';
+import { createWorkspaceIndex } from '../server/workspace-index';
+import {
+    KiteSettings,
+    findKiteConfigPath,
+    mergeSettings,
+    parseKiteConfig,
+} from '../server/config';
+import { KITE_DECORATORS_FILENAME, mergeDecorators, parseDecoratorsFile } from '../server/decorator-catalog';
+import { createExcludeFilter, findKiteFiles } from './files';
+
+/**
+ * Diagnostics of one linted file
+ */
+export interface LintResult {
+    /** Absolute path of the file */
+    filePath: string;
+    diagnostics: Diagnostic[];
+}
+
+/**
+ * A workspace read from the file system
+ */
+export interface LintWorkspace {
+    /** Workspace root: imports resolve within it and kite.config.json files are searched up to it */
+    root: string;
+    /** Check whether a file is excluded by the root kite.config.json */
+    isExcluded: (filePath: string) => boolean;
+    /** Read a file (cached) */
+    getFileContent: (filePath: string) => string | null;
+    /** Settings that apply to a file (the nearest kite.config.json) */
+    getSettings: (filePath: string) => KiteSettings;
+    /** Validation context for a file's settings */
+    createContext: (settings: KiteSettings) => ValidationContext;
+}
+
+/**
+ * Create a workspace rooted at a directory. File contents, parse trees and
+ * config files are read once and shared by all linted files.
+ */
+export function createLintWorkspace(root: string): LintWorkspace {
+    const fileContents = new Map<string, string | null>();
+    const configFiles = new Map<string, KiteSettings | null>();
+    const documentModels = createDocumentModelStore();
+    const diagnosticData = new Map<string, Map<string, ImportSuggestion>>();
+    let kiteFiles: string[] | undefined;
+
+    const getFileContent = (filePath: string): string | null => {
+        if (!fileContents.has(filePath)) {
+            fileContents.set(filePath, readFileContent(filePath));
+        }
+        return fileContents.get(filePath)!;
+    };
+
+    const readConfig = (configPath: string): KiteSettings | null => {
+        if (!configFiles.has(configPath)) {
+            const content = readFileContent(configPath);
+            configFiles.set(configPath, content !== null ? parseKiteConfig(content) : null);
+        }
+        return configFiles.get(configPath)!;
+    };
+
+    const isExcluded = createExcludeFilter(root, readConfig);
+
+    const decoratorsContent = readFileContent(path.join(root, KITE_DECORATORS_FILENAME));
+    const decorators = mergeDecorators(decoratorsContent !== null ? parseDecoratorsFile(decoratorsContent) : null);
+
+    const findKiteFilesInWorkspace = (): string[] => kiteFiles ??= findKiteFiles(root, isExcluded);
+    const getDocumentModel = (uriOrPath: string, text: string) => documentModels.get(uriOrPath, text);
+    const workspaceIndex = createWorkspaceIndex({ findKiteFilesInWorkspace, getFileContent });
+
+    return {
+        root,
+        isExcluded,
+        getFileContent,
+
+        getSettings(filePath) {
+            const configPath = findKiteConfigPath(filePath, [root]);
+            return mergeSettings(configPath ? readConfig(configPath) : null);
+        },
+
+        createContext(settings) {
+            return {
+                getDeclarations: (uri: string) => {
+                    const content = getFileContent(URI.parse(uri).fsPath);
+                    return content !== null ? getDocumentModel(uri, content).declarations : undefined;
+                },
+                getDocumentModel,
+                getDiagnosticData: (uri: string) => {
+                    if (!diagnosticData.has(uri)) {
+                        diagnosticData.set(uri, new Map());
+                    }
+                    return diagnosticData.get(uri)!;
+                },
+                clearDiagnosticData: (uri: string) => diagnosticData.set(uri, new Map()),
+                findKiteFilesInWorkspace,
+                getFileContent,
+                workspaceIndex,
+                extractImports,
+                isSymbolImported,
+                findSchemaDefinition: (text, name, uri) => findSchemaDefinition(text, name, uri, getDocumentModel(uri, text).parseResult),
+                findComponentDefinition: (text, name, uri) => findComponentDefinition(text, name, uri, getDocumentModel(uri, text).parseResult),
+                findFunctionDefinition: (text, name, uri) => findFunctionDefinition(text, name, uri, getDocumentModel(uri, text).parseResult),
+                rules: settings.validation.rules,
+                decorators,
+                tagPolicy: settings.validation.tags,
+                providers: settings.providers,
+            };
+        },
+    };
+}
+
+/**
+ * Validate files with the rules that apply to each of them
+ */
+export function lintFiles(filePaths: string[], workspace: LintWorkspace): LintResult[] {
+    const results: LintResult[] = [];
+
+    for (const filePath of filePaths) {
+        const content = workspace.getFileContent(filePath);
+        if (content === null) continue;
+
+        const document = TextDocument.create(URI.file(filePath).toString(), 'kite', 0, content);
+        const ctx = workspace.createContext(workspace.getSettings(filePath));
+        results.push({ filePath, diagnostics: validateDocument(document, ctx) });
+    }
+
+    return results;
+}
@@ -1,5 +1,5 @@
 import * as path from 'path';
-import { workspace, ExtensionContext, window } from 'vscode';
+import { commands, languages, workspace, ExtensionContext, Uri, window } from 'vscode';
 
 import {
     LanguageClient,
@@ -7,12 +7,22 @@ import {
     ServerOptions,
     TransportKind
 } from 'vscode-languageclient/node';
+import { registerDependencyGraphView } from './dependency-graph-view';
 
 // Create output channel for logging
 const outputChannel = window.createOutputChannel('Kite Language Server');
 
 let client: LanguageClient;
 
+// Resolves once the client is running
+let clientReady: Promise<void>;
+
+// Dependency graph export commands: command id and export format
+const EXPORT_GRAPH_COMMANDS: [string, 'dot' | 'mermaid'][] = [
+    ['kite.exportDependencyGraphDot', 'dot'],
+    ['kite.exportDependencyGraphMermaid', 'mermaid'],
+];
+
 export function activateClient(context: ExtensionContext): void {
     // Path to the server module
     const serverModule = context.asAbsolutePath(
@@ -40,7 +50,19 @@ export function activateClient(context: ExtensionContext): void {
         documentSelector: [{ scheme: 'file', language: 'kite' }],
         synchronize: {
             // Synchronize settings and file changes
-            fileEvents: workspace.createFileSystemWatcher('**/*.kite')
+            fileEvents: [
+                workspace.createFileSystemWatcher('**/*.kite'),
+                workspace.createFileSystemWatcher('**/kite.config.json'),
+                workspace.createFileSystemWatcher('**/kite.decorators.json'),
+            ]
+        },
+        // Persist the workspace index in the extension's workspace storage;
+        // diagnostics are pushed unless pull diagnostics are turned on
+        initializationOptions: {
+            indexStoragePath: workspace.getConfiguration('kite').get<boolean>('index.persist', true)
+                ? context.storageUri?.fsPath
+                : undefined,
+            pullDiagnostics: workspace.getConfiguration('kite').get<boolean>('diagnostics.pull', false)
         },
         // Output channel for server logs
         outputChannel: outputChannel,
@@ -58,7 +80,37 @@ export function activateClient(context: ExtensionContext): void {
     );
 
     // Start the client (also starts the server)
-    client.start();
+    clientReady = client.start();
+
+    registerExportCommands(context);
+    registerDependencyGraphView(context, async (params) => {
+        await clientReady;
+        return client.sendRequest('kite/dependencyGraph', params);
+    });
+}
+
+/**
+ * Register the dependency graph export commands.
+ * Run on a .kite file (explorer or editor context menu) they export that file's graph,
+ * from the command palette the whole workspace's graph. The result opens in a new editor.
+ */
+function registerExportCommands(context: ExtensionContext): void {
+    for (const [command, format] of EXPORT_GRAPH_COMMANDS) {
+        context.subscriptions.push(commands.registerCommand(command, async (uri?: Uri) => {
+            await clientReady;
+            const content = await client.sendRequest<string>('kite/exportDependencyGraph', {
+                uri: uri instanceof Uri ? uri.toString() : undefined,
+                format,
+            });
+            // Fall back to plain text when no extension provides the language
+            const known = await languages.getLanguages();
+            const document = await workspace.openTextDocument({
+                content,
+                language: known.includes(format) ? format : 'plaintext',
+            });
+            await window.showTextDocument(document);
+        }));
+    }
 }
 
 export function deactivateClient(): Thenable<void> | undefined {
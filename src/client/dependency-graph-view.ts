@@ -0,0 +1,264 @@
+import * as path from 'path';
+import {
+    commands,
+    workspace,
+    Disposable,
+    ExtensionContext,
+    Range,
+    Uri,
+    ViewColumn,
+    WebviewPanel,
+    window,
+} from 'vscode';
+import type { DependencyGraph, DependencyGraphParams } from '../server/handlers/dependency-graph';
+
+/**
+ * Send a `kite/dependencyGraph` request to the language server
+ */
+export type DependencyGraphRequest = (params: DependencyGraphParams) => Promise<DependencyGraph>;
+
+/** Messages the webview posts to the extension */
+type WebviewMessage =
+    | { type: 'ready' }
+    | { type: 'reveal'; uri: string; range: { start: { line: number; character: number }; end: { line: number; character: number } } };
+
+let panel: WebviewPanel | undefined;
+
+// File the open panel shows the graph of; undefined for the whole workspace
+let panelUri: Uri | undefined;
+
+/**
+ * Register the "Kite: Show Dependency Graph" command.
+ * Run on a .kite file (explorer or editor context menu) it shows that file's graph,
+ * from the command palette the whole workspace's graph. The graph comes from the
+ * language server and is redrawn whenever a Kite file is saved.
+ */
+export function registerDependencyGraphView(context: ExtensionContext, requestGraph: DependencyGraphRequest): void {
+    context.subscriptions.push(commands.registerCommand('kite.showDependencyGraph', async (uri?: Uri) => {
+        panelUri = uri instanceof Uri ? uri : undefined;
+        if (panel) {
+            panel.reveal();
+            await refresh(requestGraph);
+            return;
+        }
+        panel = createPanel(context, requestGraph);
+    }));
+}
+
+function createPanel(context: ExtensionContext, requestGraph: DependencyGraphRequest): WebviewPanel {
+    const created = window.createWebviewPanel(
+        'kiteDependencyGraph',
+        panelTitle(),
+        ViewColumn.Beside,
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+    created.webview.html = getWebviewHtml(created.webview.cspSource, createNonce());
+
+    const subscriptions: Disposable[] = [
+        created.webview.onDidReceiveMessage(async (message: WebviewMessage) => {
+            if (message.type === 'ready') {
+                await refresh(requestGraph);
+            } else if (message.type === 'reveal') {
+                const { start, end } = message.range;
+                await window.showTextDocument(Uri.parse(message.uri), {
+                    viewColumn: ViewColumn.One,
+                    selection: new Range(start.line, start.character, end.line, end.character),
+                });
+            }
+        }),
+        workspace.onDidSaveTextDocument(async (document) => {
+            if (document.languageId === 'kite') {
+                await refresh(requestGraph);
+            }
+        }),
+    ];
+
+    created.onDidDispose(() => {
+        subscriptions.forEach(subscription => subscription.dispose());
+        panel = undefined;
+    }, null, context.subscriptions);
+
+    return created;
+}
+
+/**
+ * Request the graph of the panel's file or workspace and send it to the webview
+ */
+async function refresh(requestGraph: DependencyGraphRequest): Promise<void> {
+    if (!panel) return;
+    panel.title = panelTitle();
+    try {
+        const graph = await requestGraph({ uri: panelUri?.toString() });
+        await panel?.webview.postMessage({ type: 'update', graph });
+    } catch (error) {
+        window.showErrorMessage(`Could not build the dependency graph: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+function panelTitle(): string {
+    return `Dependency Graph: ${panelUri ? path.basename(panelUri.fsPath) : 'Workspace'}`;
+}
+
+function createNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
+}
+
+/**
+ * Webview page: lays out the resources and component instances of the graph in
+ * columns (a node left of what it depends on) and draws them as SVG. Nodes are
+ * colored by their first provider, or by schema or component type when they have none.
+ */
+function getWebviewHtml(cspSource: string, nonce: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+    body { margin: 0; padding: 12px; color: var(--vscode-foreground); font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); }
+    #legend { display: flex; flex-wrap: wrap; gap: 12px; margin-bottom: 12px; }
+    .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 4px; border-radius: 2px; }
+    #empty { opacity: 0.7; }
+    svg text { fill: #ffffff; font-family: var(--vscode-font-family); pointer-events: none; }
+    .node { cursor: pointer; }
+    .node:hover rect { stroke: var(--vscode-focusBorder); stroke-width: 2; }
+    .edge { fill: none; stroke: var(--vscode-foreground); stroke-opacity: 0.6; }
+    .edge.dependsOn { stroke-dasharray: 5 4; }
+</style>
+</head>
+<body>
+<div id="legend"></div>
+<div id="empty" hidden>No resources or component instances.</div>
+<svg id="graph" xmlns="http://www.w3.org/2000/svg"></svg>
+<script nonce="${nonce}">
+(function () {
+    const vscode = acquireVsCodeApi();
+    const SVG = 'http://www.w3.org/2000/svg';
+    const NODE_WIDTH = 180, NODE_HEIGHT = 40, COLUMN_GAP = 80, ROW_GAP = 24;
+    const PALETTE = ['#4e79a7', '#f28e2b', '#59a14f', '#e15759', '#76b7b2', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'];
+
+    function group(node) {
+        return (node.providers && node.providers[0]) || node.typeName || node.kind;
+    }
+
+    function label(node) {
+        return (node.component ? node.component + '.' : '') + node.name;
+    }
+
+    function element(name, attributes) {
+        const el = document.createElementNS(SVG, name);
+        for (const key in attributes) el.setAttribute(key, attributes[key]);
+        return el;
+    }
+
+    // Column of each node: one more than the deepest node depending on it (cycles are cut off)
+    function columns(graph) {
+        const column = new Map(graph.nodes.map(n => [n.id, 0]));
+        for (let pass = 0; pass < graph.nodes.length; pass++) {
+            let changed = false;
+            for (const edge of graph.edges) {
+                const next = column.get(edge.from) + 1;
+                if (column.has(edge.to) && next > column.get(edge.to)) {
+                    column.set(edge.to, next);
+                    changed = true;
+                }
+            }
+            if (!changed) break;
+        }
+        return column;
+    }
+
+    function render(fullGraph) {
+        // Inputs and outputs of component definitions are left out
+        const nodes = fullGraph.nodes.filter(n => n.kind === 'resource' || n.kind === 'component');
+        const ids = new Set(nodes.map(n => n.id));
+        const graph = { nodes, edges: fullGraph.edges.filter(e => ids.has(e.from) && ids.has(e.to)) };
+
+        const svg = document.getElementById('graph');
+        const legend = document.getElementById('legend');
+        svg.replaceChildren();
+        legend.replaceChildren();
+        document.getElementById('empty').hidden = graph.nodes.length > 0;
+
+        const colors = new Map();
+        for (const node of graph.nodes) {
+            const key = group(node);
+            if (!colors.has(key)) colors.set(key, PALETTE[colors.size % PALETTE.length]);
+        }
+        for (const [key, color] of colors) {
+            const item = document.createElement('span');
+            const swatch = document.createElement('span');
+            swatch.className = 'swatch';
+            swatch.style.background = color;
+            item.append(swatch, key);
+            legend.append(item);
+        }
+
+        const column = columns(graph);
+        const rows = new Map();
+        const position = new Map();
+        for (const node of graph.nodes) {
+            const c = column.get(node.id);
+            const r = rows.get(c) || 0;
+            rows.set(c, r + 1);
+            position.set(node.id, { x: c * (NODE_WIDTH + COLUMN_GAP), y: r * (NODE_HEIGHT + ROW_GAP) });
+        }
+        const width = (Math.max(0, ...column.values()) + 1) * (NODE_WIDTH + COLUMN_GAP);
+        const height = Math.max(0, ...rows.values()) * (NODE_HEIGHT + ROW_GAP);
+        svg.setAttribute('width', width);
+        svg.setAttribute('height', height);
+
+        const defs = element('defs', {});
+        const marker = element('marker', { id: 'arrow', viewBox: '0 0 10 10', refX: '10', refY: '5', markerWidth: '8', markerHeight: '8', orient: 'auto-start-reverse' });
+        marker.append(element('path', { d: 'M 0 0 L 10 5 L 0 10 z', fill: 'var(--vscode-foreground)' }));
+        defs.append(marker);
+        svg.append(defs);
+
+        for (const edge of graph.edges) {
+            const from = position.get(edge.from), to = position.get(edge.to);
+            if (!from || !to) continue;
+            const x1 = from.x + NODE_WIDTH, y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x, y2 = to.y + NODE_HEIGHT / 2;
+            const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+            const path = element('path', {
+                class: 'edge ' + edge.kind,
+                d: 'M ' + x1 + ' ' + y1 + ' C ' + (x1 + bend) + ' ' + y1 + ', ' + (x2 - bend) + ' ' + y2 + ', ' + x2 + ' ' + y2,
+                'marker-end': 'url(#arrow)',
+            });
+            const title = element('title', {});
+            title.textContent = edge.kind === 'dependsOn' ? '@dependsOn' : 'reference';
+            path.append(title);
+            svg.append(path);
+        }
+
+        for (const node of graph.nodes) {
+            const { x, y } = position.get(node.id);
+            const g = element('g', { class: 'node', transform: 'translate(' + x + ',' + y + ')' });
+            g.append(element('rect', { width: NODE_WIDTH, height: NODE_HEIGHT, rx: node.kind === 'component' ? 12 : 3, fill: colors.get(group(node)) }));
+            const name = element('text', { x: 8, y: 17, 'font-weight': 'bold' });
+            name.textContent = label(node);
+            const type = element('text', { x: 8, y: 32, 'font-size': '11' });
+            type.textContent = node.kind + (node.typeName ? ': ' + node.typeName : '');
+            const title = element('title', {});
+            title.textContent = label(node) + (node.providers ? ' (' + node.providers.join(', ') + ')' : '');
+            g.append(name, type, title);
+            g.addEventListener('click', () => vscode.postMessage({ type: 'reveal', uri: node.uri, range: node.range }));
+            svg.append(g);
+        }
+    }
+
+    window.addEventListener('message', event => {
+        if (event.data.type === 'update') render(event.data.graph);
+    });
+    vscode.postMessage({ type: 'ready' });
+})();
+</script>
+</body>
+</html>`;
+}
@@ -58,38 +58,11 @@ export interface CursorContext {
     alreadySetProperties: Set<string>;
 }
 
-/**
- * Cache for parsed documents to avoid reparsing
- */
-const parseCache = new Map<string, { text: string; result: ParseResult }>();
-
-/**
- * Get or create parsed result for text
- */
-function getParsedResult(text: string): ParseResult {
-    const cached = parseCache.get(text);
-    if (cached && cached.text === text) {
-        return cached.result;
-    }
-
-    const result = parseKite(text);
-    parseCache.set(text, { text, result });
-
-    // Limit cache size
-    if (parseCache.size > 10) {
-        const firstKey = parseCache.keys().next().value;
-        if (firstKey) parseCache.delete(firstKey);
-    }
-
-    return result;
-}
-
 /**
  * Get the cursor context at a given offset in the text
+ * @param result - Parse result of the text, if already parsed
  */
-export function getCursorContext(text: string, offset: number): CursorContext {
-    const result = getParsedResult(text);
-
+export function getCursorContext(text: string, offset: number, result: ParseResult = parseKite(text)): CursorContext {
     const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
     const lineBeforeCursor = text.substring(lineStart, offset);
     const isValueContext = checkIsValueContext(lineBeforeCursor);
@@ -13,6 +13,7 @@ export interface SchemaProperty {
     typeName: string;
     hasDefault: boolean;
     isCloud: boolean;  // Properties marked with @cloud are set by cloud provider
+    isSensitive: boolean;  // Properties marked with @sensitive hold secrets
 }
 
 /**
@@ -42,14 +43,17 @@ export interface ComponentOutput {
 }
 
 /**
- * Check if a property has the @cloud decorator
+ * Check if a property has a decorator (e.g. 'cloud')
  */
-function hasCloudDecorator(decoratorList: ReturnType<typeof import('./grammar/KiteParser').SchemaPropertyContext.prototype.decoratorList>): boolean {
+function hasDecorator(
+    decoratorList: ReturnType<typeof import('./grammar/KiteParser').SchemaPropertyContext.prototype.decoratorList>,
+    decoratorName: string
+): boolean {
     if (!decoratorList) return false;
 
     for (const decorator of decoratorList.decorator_list()) {
         const name = decorator.identifier()?.getText();
-        if (name === 'cloud') {
+        if (name === decoratorName) {
             return true;
         }
     }
@@ -69,10 +73,11 @@ export function extractSchemaPropertiesAST(schemaCtx: SchemaDeclarationContext):
         const typeId = prop.typeIdentifier();
         const typeName = typeId?.getText() ?? 'any';
         const hasDefault = prop.propertyInitializer() !== null;
-        const isCloud = hasCloudDecorator(prop.decoratorList());
+        const isCloud = hasDecorator(prop.decoratorList(), 'cloud');
+        const isSensitive = hasDecorator(prop.decoratorList(), 'sensitive');
 
         if (name) {
-            properties.push({ name, typeName, hasDefault, isCloud });
+            properties.push({ name, typeName, hasDefault, isCloud, isSensitive });
         }
     }
 
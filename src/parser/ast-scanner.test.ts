@@ -291,9 +291,39 @@ component WebServer api {
             expect(comp?.indexedBy?.indexType).toBe('numeric');
             expect(comp?.indexedBy?.countValue).toBe(2);
         });
+
+        it('should resolve a constant @count argument', () => {
+            const doc = createDocument(`
+var replicas = 1 + 2
+@count(replicas)
+resource ServerConfig server {
+    host = "localhost"
+}
+`);
+            const decls = scanDocumentAST(doc);
+
+            const resource = decls.find(d => d.name === 'server' && d.type === 'resource');
+            expect(resource?.indexedBy?.countValue).toBe(3);
+        });
     });
 
     describe('indexed resources in for loops', () => {
+        it('should resolve the string keys of a constant iterated variable', () => {
+            const doc = createDocument(`
+var environments = ["dev", "prod"]
+for env in environments {
+    resource S3.Bucket bucket {
+        name = "bucket-\${env}"
+    }
+}
+`);
+            const decls = scanDocumentAST(doc);
+
+            const resource = decls.find(d => d.name === 'bucket' && d.type === 'resource');
+            expect(resource?.indexedBy?.indexType).toBe('string');
+            expect(resource?.indexedBy?.stringKeys).toEqual(['dev', 'prod']);
+        });
+
         it('should extract indexedBy for resource in range loop', () => {
             const doc = createDocument(`
 for i in 0..5 {
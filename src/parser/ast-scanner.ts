@@ -18,8 +18,9 @@
  *    name, type, location, scope bounds, parameters, etc.
  *
  * 3. **Scope Tracking**: The scanner calculates and stores scope information (scopeStart/scopeEnd)
- *    for variables, parameters, and other scoped declarations. This enables scope-aware
- *    symbol resolution in validation and autocomplete.
+ *    for variables, parameters, and other scoped declarations. Autocomplete uses it to filter
+ *    visible declarations; name resolution for validation, references and rename goes
+ *    through the scope tree of the semantic model (semantic-model.ts).
  *
  * ## How It's Used
  *
@@ -59,7 +60,8 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Range, Position } from 'vscode-languageserver/node';
 import { ParserRuleContext, TerminalNode } from 'antlr4';
 import { Declaration, DeclarationType, FunctionParameter, IndexedResourceInfo, IndexType } from '../server/types';
-import { parseKite } from './parse-utils';
+import { parseKite, ParseResult } from './parse-utils';
+import { buildConstantEvaluator, ConstantEvaluator } from './constant-evaluator';
 import KiteParser, {
     ProgramContext,
     DeclarationContext,
@@ -105,14 +107,22 @@ interface LoopContext {
     rangeEnd?: number;
     /** For array iteration: the string keys (if known) */
     stringKeys?: string[];
+    /** Iterated expression when it is not a literal */
+    expression?: { start: number; end: number };
 }
 
 /**
  * Scan document for all declarations using the ANTLR parser.
+ * @param result - Parse result of the document, if already parsed
+ * @param getConstants - Constant evaluator of the document, used for `@count` arguments
+ *                       and loop iterables that are not literals; only requested when needed
  */
-export function scanDocumentAST(document: TextDocument): Declaration[] {
+export function scanDocumentAST(
+    document: TextDocument,
+    result: ParseResult = parseKite(document.getText()),
+    getConstants: () => ConstantEvaluator = () => buildConstantEvaluator(document.getText(), result)
+): Declaration[] {
     const text = document.getText();
-    const result = parseKite(text);
 
     // If there are parse errors, fall back gracefully
     // We still try to extract what we can from the partial tree
@@ -122,11 +132,36 @@ export function scanDocumentAST(document: TextDocument): Declaration[] {
 
     if (result.tree) {
         visitProgram(result.tree, declarations, uri, text);
+        resolveIndexedExpressions(declarations, getConstants);
     }
 
     return declarations;
 }
 
+/**
+ * Fill in the count or string keys of indexed declarations whose `@count` argument
+ * or loop iterable is a constant expression (`@count(replicas)`, `for env in environments`).
+ * Input defaults are not used: callers can override them.
+ */
+function resolveIndexedExpressions(declarations: Declaration[], getConstants: () => ConstantEvaluator): void {
+    let constants: ConstantEvaluator | undefined;
+
+    for (const decl of declarations) {
+        const info = decl.indexedBy;
+        if (!info?.expression) continue;
+
+        constants ??= getConstants();
+        const value = constants.expressionAt(info.expression.start, info.expression.end, { useInputDefaults: false })?.value;
+        if (info.indexType === 'numeric') {
+            if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+                info.countValue = value;
+            }
+        } else if (Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'string')) {
+            info.stringKeys = value as string[];
+        }
+    }
+}
+
 /**
  * Visit the program root and extract declarations
  */
@@ -478,6 +513,7 @@ function visitResourceDeclaration(
             indexType: 'numeric',
             loopVariable: 'count',
             countValue: countInfo.value,
+            expression: countInfo.expression,
         };
     } else if (loopContext) {
         decl.indexedBy = {
@@ -486,6 +522,7 @@ function visitResourceDeclaration(
             rangeStart: loopContext.rangeStart,
             rangeEnd: loopContext.rangeEnd,
             stringKeys: loopContext.stringKeys,
+            expression: loopContext.expression,
         };
     }
 
@@ -537,6 +574,7 @@ function visitComponentDeclaration(
                 indexType: 'numeric',
                 loopVariable: 'count',
                 countValue: countInfo.value,
+                expression: countInfo.expression,
             };
         } else if (loopContext) {
             decl.indexedBy = {
@@ -545,6 +583,7 @@ function visitComponentDeclaration(
                 rangeStart: loopContext.rangeStart,
                 rangeEnd: loopContext.rangeEnd,
                 stringKeys: loopContext.stringKeys,
+                expression: loopContext.expression,
             };
         }
 
@@ -913,7 +952,9 @@ function extractDocumentation(decl: Declaration, ctx: ParserRuleContext, text: s
 /**
  * Extract @count decorator value from decorator list
  */
-function extractCountDecorator(decoratorList: DecoratorListContext | null): { value?: number } | null {
+function extractCountDecorator(
+    decoratorList: DecoratorListContext | null
+): { value?: number; expression?: { start: number; end: number } } | null {
     if (!decoratorList) return null;
 
     for (const decorator of decoratorList.decorator_list()) {
@@ -955,11 +996,8 @@ function extractCountDecorator(decoratorList: DecoratorListContext | null): { va
                 return { value: isNaN(value) ? undefined : value };
             }
 
-            // Check for identifier (variable reference)
-            const idArg = argCtx.identifier();
-            if (idArg) {
-                return { value: undefined }; // Dynamic count via variable
-            }
+            // Variable reference or expression, resolved once the document is scanned
+            return { value: undefined, expression: offsetRange(argCtx) };
         }
 
         return { value: undefined };
@@ -1003,20 +1041,22 @@ function extractLoopContext(ctx: ForStatementContext, loopVariable: string): Loo
                 stringKeys,
             };
         }
-        // Array of non-strings or complex expressions - treat as string indexed but unknown keys
+        // Array of non-strings or complex expressions - treat as string indexed, keys known if constant
         return {
             loopVariable,
             indexType: 'string',
+            expression: offsetRange(arrayExpr),
         };
     }
 
-    // Check for identifier (variable reference) - we can't know the type at parse time
+    // Check for identifier (variable reference) - keys known if its value is constant
     const identifiers = ctx.identifier_list();
     if (identifiers.length >= 2) {
         // for x in someVar - assume string keys for safety
         return {
             loopVariable,
             indexType: 'string',
+            expression: offsetRange(identifiers[1]),
         };
     }
 
@@ -1027,6 +1067,13 @@ function extractLoopContext(ctx: ForStatementContext, loopVariable: string): Loo
     };
 }
 
+/**
+ * Source offsets of a parse tree node
+ */
+function offsetRange(ctx: ParserRuleContext): { start: number; end: number } {
+    return { start: ctx.start.start, end: (ctx.stop ?? ctx.start).stop + 1 };
+}
+
 /**
  * Extract string values from an array expression literal
  */
@@ -1161,6 +1208,7 @@ function visitArrayExpressionForLoop(
                 loopContext = {
                     loopVariable: name,
                     indexType: 'string',
+                    expression: offsetRange(arrayExpr),
                 };
             }
         } else {
@@ -1168,6 +1216,7 @@ function visitArrayExpressionForLoop(
             loopContext = {
                 loopVariable: name,
                 indexType: 'string',
+                expression: identifiers.length >= 2 ? offsetRange(identifiers[1]) : undefined,
             };
         }
     }
@@ -0,0 +1,203 @@
+/**
+ * Tests for constant expression evaluation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildConstantEvaluator, ConstantEvaluator, ConstantValue, formatConstant } from './constant-evaluator';
+
+/** Constant value of the last symbol with a name */
+function valueOf(constants: ConstantEvaluator, name: string, useInputDefaults = true): ConstantValue | undefined {
+    const symbol = constants.model.symbols.filter(s => s.name === name).pop()!;
+    return constants.valueOfSymbol(symbol, { useInputDefaults });
+}
+
+function evaluateVar(text: string, name: string): ConstantValue | undefined {
+    return valueOf(buildConstantEvaluator(text), name);
+}
+
+describe('buildConstantEvaluator', () => {
+    describe('literals', () => {
+        it('should evaluate literals', () => {
+            const text = `var s = "a"
+var n = 42
+var f = 1.5
+var b = true
+var z = null`;
+            const constants = buildConstantEvaluator(text);
+
+            expect(valueOf(constants, 's')).toBe('a');
+            expect(valueOf(constants, 'n')).toBe(42);
+            expect(valueOf(constants, 'f')).toBe(1.5);
+            expect(valueOf(constants, 'b')).toBe(true);
+            expect(valueOf(constants, 'z')).toBeNull();
+        });
+
+        it('should evaluate arrays and objects', () => {
+            expect(evaluateVar('var a = [1, "x", [true]]', 'a')).toEqual([1, 'x', [true]]);
+            expect(evaluateVar(`var o = {
+    host: "localhost"
+    port: 80
+}`, 'o')).toEqual({ host: 'localhost', port: 80 });
+        });
+
+        it('should decode escape sequences', () => {
+            expect(evaluateVar('var s = "a\\"b\\\\c"', 's')).toBe('a"b\\c');
+        });
+    });
+
+    describe('identifiers', () => {
+        it('should follow variables with constant initializers', () => {
+            expect(evaluateVar('var a = 2\nvar b = a * 3\nvar c = b + 1', 'c')).toBe(7);
+        });
+
+        it('should not evaluate reassigned variables', () => {
+            expect(evaluateVar('var a = 1\na = 2\nvar b = a', 'b')).toBeUndefined();
+        });
+
+        it('should not evaluate parameters, undeclared names or recursive initializers', () => {
+            expect(evaluateVar('fun f(number n) {\n    var m = n\n}', 'm')).toBeUndefined();
+            expect(evaluateVar('var a = unknown', 'a')).toBeUndefined();
+            expect(evaluateVar('var a = b\nvar b = a', 'a')).toBeUndefined();
+        });
+
+        it('should use input defaults only when asked to', () => {
+            const text = `component App {
+    input number replicas = 3
+    var total = replicas * 2
+}`;
+            const constants = buildConstantEvaluator(text);
+
+            expect(valueOf(constants, 'total')).toBe(6);
+            expect(valueOf(constants, 'total', false)).toBeUndefined();
+        });
+    });
+
+    describe('operators', () => {
+        it('should fold arithmetic and string concatenation', () => {
+            const text = `var a = (1 + 2) * 4 - 10 / 5
+var b = 10 % 3
+var c = -a
+var d = "port: " + 80`;
+            const constants = buildConstantEvaluator(text);
+
+            expect(valueOf(constants, 'a')).toBe(10);
+            expect(valueOf(constants, 'b')).toBe(1);
+            expect(valueOf(constants, 'c')).toBe(-10);
+            expect(valueOf(constants, 'd')).toBe('port: 80');
+        });
+
+        it('should not evaluate division by zero', () => {
+            expect(evaluateVar('var a = 1 / 0', 'a')).toBeUndefined();
+        });
+
+        it('should fold comparisons and logical operators', () => {
+            expect(evaluateVar('var x = 1 < 2 && !false', 'x')).toBe(true);
+            expect(evaluateVar('var x = "a" == "b" || [1] == [1]', 'x')).toBe(true);
+        });
+
+        it('should decide logical operators by one constant operand', () => {
+            expect(evaluateVar('var x = unknown || true', 'x')).toBe(true);
+            expect(evaluateVar('var x = false && unknown', 'x')).toBe(false);
+            expect(evaluateVar('var x = true && unknown', 'x')).toBeUndefined();
+        });
+
+        it('should pick the ternary branch of a constant condition', () => {
+            expect(evaluateVar('var env = "prod"\nvar size = env == "prod" ? "large" : unknown', 'size')).toBe('large');
+        });
+    });
+
+    describe('strings', () => {
+        it('should interpolate constant expressions and names', () => {
+            const text = `var name = "web"
+var env = "prod"
+var id = "\${name}-$env-\${1 + 1}"`;
+            expect(evaluateVar(text, 'id')).toBe('web-prod-2');
+        });
+
+        it('should not interpolate single-quoted strings', () => {
+            expect(evaluateVar("var env = 'x'\nvar s = '$env'", 's')).toBe('$env');
+        });
+
+        it('should not evaluate strings with non-constant interpolations', () => {
+            expect(evaluateVar('var s = "id-${unknown}"', 's')).toBeUndefined();
+        });
+    });
+
+    describe('ranges and comprehensions', () => {
+        it('should expand ranges without their end', () => {
+            expect(evaluateVar('var r = 0..3', 'r')).toEqual([0, 1, 2]);
+            expect(evaluateVar('var n = 2\nvar r = 1..n + 1', 'r')).toEqual([1, 2]);
+        });
+
+        it('should evaluate comprehensions', () => {
+            expect(evaluateVar('var d = [for x in [1, 2, 3]: x * 2]', 'd')).toEqual([2, 4, 6]);
+            expect(evaluateVar('var d = [for i in 0..4: "s-${i}"]', 'd')).toEqual(['s-0', 's-1', 's-2', 's-3']);
+        });
+
+        it('should filter comprehension elements', () => {
+            expect(evaluateVar('var d = [for x in 0..6: if x > 3 { x }]', 'd')).toEqual([4, 5]);
+        });
+
+        it('should not evaluate comprehensions over unknown values', () => {
+            expect(evaluateVar('var d = [for x in items: x]', 'd')).toBeUndefined();
+        });
+    });
+
+    describe('access and calls', () => {
+        it('should evaluate member access and indexing', () => {
+            const text = `var config = { hosts: ["a", "b"], port: 80 }
+var second = config.hosts[1]
+var port = config["port"]`;
+            const constants = buildConstantEvaluator(text);
+
+            expect(valueOf(constants, 'second')).toBe('b');
+            expect(valueOf(constants, 'port')).toBe(80);
+        });
+
+        it('should evaluate built-in functions', () => {
+            const text = `var a = len("abc")
+var b = toString(42)
+var c = toNumber("8080")
+var d = typeof([1])`;
+            const constants = buildConstantEvaluator(text);
+
+            expect(valueOf(constants, 'a')).toBe(3);
+            expect(valueOf(constants, 'b')).toBe('42');
+            expect(valueOf(constants, 'c')).toBe(8080);
+            expect(valueOf(constants, 'd')).toBe('array');
+        });
+
+        it('should not evaluate functions declared in the file', () => {
+            expect(evaluateVar('fun len(string s) number { return 0 }\nvar a = len("abc")', 'a')).toBeUndefined();
+        });
+    });
+
+    describe('expressionAt and operandAt', () => {
+        it('should evaluate an expression covering a range', () => {
+            const text = 'var n = 5\nif n > 3 { }';
+            const start = text.indexOf('n > 3');
+            const constants = buildConstantEvaluator(text);
+
+            expect(constants.expressionAt(start, start + 'n > 3'.length)?.value).toBe(true);
+            expect(constants.expressionAt(start, start + 'n >'.length)).toBeNull();
+        });
+
+        it('should evaluate only the operand at an offset', () => {
+            const text = 'var zero = 0\nvar x = 10 / zero + 1';
+            const start = text.indexOf('zero +');
+            const operand = buildConstantEvaluator(text).operandAt(start);
+
+            expect(operand?.value).toBe(0);
+            expect(operand?.end).toBe(start + 'zero'.length);
+        });
+    });
+});
+
+describe('formatConstant', () => {
+    it('should format values as Kite literals', () => {
+        expect(formatConstant('a"b')).toBe('"a\\"b"');
+        expect(formatConstant([1, true, null])).toBe('[1, true, null]');
+        expect(formatConstant({ host: 'x', ports: [80] })).toBe('{ host: "x", ports: [80] }');
+        expect(formatConstant({})).toBe('{}');
+    });
+});
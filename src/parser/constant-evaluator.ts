@@ -0,0 +1,777 @@
+/**
+ * Constant expression evaluation for Kite.
+ *
+ * Folds expressions whose value is known without running the program:
+ * literals, variables with constant initializers that are never reassigned,
+ * input defaults, arithmetic, comparison and logical operators, string
+ * interpolation (`"${name}-$env"`), ranges (`0..3`), array and object
+ * literals, `[for ...]` comprehensions, member access, indexing and the
+ * built-in functions `len`, `toString`, `toNumber` and `typeof`.
+ *
+ * Values that are not constant are `undefined`; `null` is the Kite null value.
+ */
+
+import { Token } from 'antlr4';
+import KiteLexer from './grammar/KiteLexer';
+import { parseKite, ParseResult } from './parse-utils';
+import { buildSemanticModel, SemanticModel, SemanticSymbol } from './semantic-model';
+import { expressionTokens, firstTokenAt } from './expression-tokens';
+
+/**
+ * A constant Kite value
+ */
+export type ConstantValue = string | number | boolean | null | ConstantValue[] | { [key: string]: ConstantValue };
+
+/**
+ * An expression with its constant value
+ */
+export interface EvaluatedExpression {
+    /** Value of the expression, or undefined when it is not constant */
+    value: ConstantValue | undefined;
+    start: number;
+    end: number;
+}
+
+/**
+ * Options of an evaluation
+ */
+export interface EvaluationOptions {
+    /**
+     * Use the default values of inputs (default true).
+     * Callers can override inputs, so checks that warn about values should not rely on them.
+     */
+    useInputDefaults?: boolean;
+}
+
+/**
+ * Constant evaluation over one file
+ */
+export interface ConstantEvaluator {
+    readonly model: SemanticModel;
+    /**
+     * Evaluate the expression starting at an offset.
+     * With an end offset the expression must cover the range exactly; without one
+     * it extends as far as the expression syntax allows.
+     * Returns null when no expression can be parsed there.
+     */
+    expressionAt(start: number, end?: number, options?: EvaluationOptions): EvaluatedExpression | null;
+    /**
+     * Evaluate the operand of a binary operator starting at an offset:
+     * a unary expression such as `-x`, `len(s)` or `(a + b)`
+     */
+    operandAt(start: number, options?: EvaluationOptions): EvaluatedExpression | null;
+    /** Constant value of a variable, input or output; undefined when it is not constant */
+    valueOfSymbol(symbol: SemanticSymbol, options?: EvaluationOptions): ConstantValue | undefined;
+}
+
+/** Ranges and comprehensions with more elements are not evaluated */
+export const MAX_CONSTANT_ELEMENTS = 1000;
+
+type BuiltinFunction = (value: ConstantValue) => ConstantValue | undefined;
+
+/** Built-in functions that are evaluated; each takes one argument */
+const BUILTIN_FUNCTIONS: ReadonlyMap<string, BuiltinFunction> = new Map<string, BuiltinFunction>([
+    ['len', value => {
+        if (typeof value === 'string' || Array.isArray(value)) return value.length;
+        return isObject(value) ? Object.keys(value).length : undefined;
+    }],
+    ['toString', value => stringify(value)],
+    ['toNumber', value => {
+        if (typeof value === 'number') return value;
+        if (typeof value !== 'string' || value.trim() === '') return undefined;
+        const number = Number(value);
+        return Number.isFinite(number) ? number : undefined;
+    }],
+    ['typeof', value => typeName(value)],
+]);
+
+/** Escape sequences of string literals */
+const ESCAPES: Readonly<Record<string, string>> = {
+    n: '\n',
+    t: '\t',
+    r: '\r',
+    '\\': '\\',
+    '"': '"',
+    "'": "'",
+    $: '$',
+};
+
+/**
+ * Build the constant evaluator of a file
+ * @param result - Parse result of the text, if already parsed
+ * @param model - Semantic model of the text, if already built
+ */
+export function buildConstantEvaluator(
+    text: string,
+    result: ParseResult = parseKite(text),
+    model: SemanticModel = buildSemanticModel(text, result)
+): ConstantEvaluator {
+    const tokens = expressionTokens(result);
+    // Symbol values with and without input defaults
+    const symbolValues = [new Map<SemanticSymbol, ConstantValue | undefined>(), new Map<SemanticSymbol, ConstantValue | undefined>()];
+    const inProgress = new Set<SemanticSymbol>();
+    // Values of comprehension variables while their body is evaluated
+    const bindings = new Map<SemanticSymbol, ConstantValue>();
+
+    function valueOfSymbol(symbol: SemanticSymbol, useInputDefaults: boolean): ConstantValue | undefined {
+        const cache = symbolValues[useInputDefaults ? 0 : 1];
+        if (cache.has(symbol)) return cache.get(symbol);
+        // Recursive initializers (var a = b, var b = a) are not constant
+        if (inProgress.has(symbol)) return undefined;
+
+        inProgress.add(symbol);
+        const value = computeSymbolValue(symbol, useInputDefaults);
+        inProgress.delete(symbol);
+        cache.set(symbol, value);
+        return value;
+    }
+
+    function computeSymbolValue(symbol: SemanticSymbol, useInputDefaults: boolean): ConstantValue | undefined {
+        if (!symbol.value) return undefined;
+        switch (symbol.kind) {
+            case 'variable':
+                // Reassigned variables have no single value
+                if (symbol.references.some(r => r.isWrite)) return undefined;
+                break;
+            case 'input':
+                if (!useInputDefaults) return undefined;
+                break;
+            case 'output':
+                break;
+            default:
+                return undefined;
+        }
+        return evaluate(firstTokenAt(tokens, symbol.value.start), symbol.value.end, useInputDefaults, false)?.value;
+    }
+
+    function evaluate(
+        startIndex: number,
+        end: number,
+        useInputDefaults: boolean,
+        exact: boolean
+    ): EvaluatedExpression | null {
+        const parser = createExpressionParser(startIndex, end, useInputDefaults);
+        const expression = parser.parse();
+        if (!expression) return null;
+        if (exact && !parser.atEnd()) return null;
+        return expression;
+    }
+
+    /**
+     * Recursive-descent parser over the tokens from an index up to an end offset that
+     * evaluates while parsing. Inside parentheses and brackets newlines are skipped;
+     * elsewhere they end the expression.
+     */
+    function createExpressionParser(startIndex: number, end: number, useInputDefaults: boolean) {
+        let index = startIndex;
+        let bracketDepth = 0;
+
+        const inRange = (i: number) => i < tokens.length && tokens[i].start < end;
+        const skipNewlines = () => {
+            while (inRange(index) && tokens[index].type === KiteLexer.NL) index++;
+        };
+        const peek = (): Token | null => {
+            if (bracketDepth > 0) skipNewlines();
+            return inRange(index) ? tokens[index] : null;
+        };
+        const peekText = () => peek()?.text ?? '';
+        const previousEnd = () => tokens[index - 1].stop + 1;
+
+        function parseExpression(): EvaluatedExpression | null {
+            const condition = parseBinary(0);
+            if (!condition || peekText() !== '?') return condition;
+
+            index++;
+            skipNewlines();
+            const whenTrue = parseExpression();
+            skipNewlines();
+            if (!whenTrue || peekText() !== ':') return null;
+            index++;
+            skipNewlines();
+            const whenFalse = parseExpression();
+            if (!whenFalse) return null;
+
+            const value = condition.value === true ? whenTrue.value
+                : condition.value === false ? whenFalse.value
+                    : undefined;
+            return { value, start: condition.start, end: whenFalse.end };
+        }
+
+        /** Operator precedence levels, loosest first */
+        const LEVELS: ReadonlySet<string>[] = [
+            new Set(['||', 'or']),
+            new Set(['&&', 'and']),
+            new Set(['==', '!=']),
+            new Set(['<', '>', '<=', '>=']),
+            new Set(['..']),
+            new Set(['+', '-']),
+            new Set(['*', '/', '%']),
+        ];
+
+        function parseBinary(level: number): EvaluatedExpression | null {
+            if (level === LEVELS.length) return parseUnary();
+
+            let left = parseBinary(level + 1);
+            while (left && LEVELS[level].has(peekText())) {
+                const operator = tokens[index++].text;
+                skipNewlines();
+                const right = parseBinary(level + 1);
+                if (!right) return null;
+                left = { value: binaryValue(operator, left.value, right.value), start: left.start, end: right.end };
+            }
+            return left;
+        }
+
+        function parseUnary(): EvaluatedExpression | null {
+            const token = peek();
+            if (token && (token.text === '!' || token.text === 'not' || token.text === '-')) {
+                index++;
+                const operand = parseUnary();
+                if (!operand) return null;
+                return { value: unaryValue(token.text, operand.value), start: token.start, end: operand.end };
+            }
+            return parsePostfix();
+        }
+
+        function parsePostfix(): EvaluatedExpression | null {
+            let expression = parsePrimary();
+            while (expression) {
+                const next = peekText();
+                if (next === '.' || next === '?.') {
+                    index++;
+                    const member = peek();
+                    if (!member || member.type !== KiteLexer.IDENTIFIER) return null;
+                    index++;
+                    const value = next === '?.' && expression.value === null
+                        ? null
+                        : memberValue(expression.value, member.text);
+                    expression = { value, start: expression.start, end: member.stop + 1 };
+                } else if (next === '[') {
+                    const key: EvaluatedExpression[] = [];
+                    const indexed = parseDelimited('[', ']', () => collect(key, parseExpression()), false);
+                    if (!indexed || key.length !== 1) return null;
+                    expression = { value: indexValue(expression.value, key[0].value), start: expression.start, end: indexed.end };
+                } else if (next === '(') {
+                    const args: EvaluatedExpression[] = [];
+                    const call = parseDelimited('(', ')', () => {
+                        // Named arguments: name: value
+                        if (tokens[index]?.type === KiteLexer.IDENTIFIER && tokens[index + 1]?.text === ':') index += 2;
+                        return collect(args, parseExpression());
+                    });
+                    if (!call) return null;
+                    expression = { value: callValue(expression, args), start: expression.start, end: call.end };
+                } else {
+                    break;
+                }
+            }
+            return expression;
+        }
+
+        function parsePrimary(): EvaluatedExpression | null {
+            const token = peek();
+            if (!token) return null;
+            const tokenText = token.text;
+            const start = token.start;
+            const tokenEnd = token.stop + 1;
+
+            if (token.type === KiteLexer.NUMBER) {
+                index++;
+                const value = Number(tokenText.replace(/_/g, ''));
+                return { value: Number.isNaN(value) ? undefined : value, start, end: tokenEnd };
+            }
+            if (tokenText === 'true' || tokenText === 'false') {
+                index++;
+                return { value: tokenText === 'true', start, end: tokenEnd };
+            }
+            if (tokenText === 'null') {
+                index++;
+                return { value: null, start, end: tokenEnd };
+            }
+            if (tokenText.startsWith("'") || tokenText.startsWith('"')) {
+                return parseString();
+            }
+            if (token.type === KiteLexer.IDENTIFIER) {
+                index++;
+                return { value: identifierValue(start), start, end: tokenEnd };
+            }
+            if (tokenText === '(') {
+                const inner: EvaluatedExpression[] = [];
+                const group = parseDelimited('(', ')', () => collect(inner, parseExpression()), false);
+                return group && inner.length === 1 ? { value: inner[0].value, start: group.start, end: group.end } : null;
+            }
+            if (tokenText === '[') {
+                return tokens[index + 1]?.text === 'for' ? parseComprehension() : parseArray();
+            }
+            if (tokenText === '{') {
+                return parseObject();
+            }
+            return null;
+        }
+
+        function identifierValue(offset: number): ConstantValue | undefined {
+            const symbol = model.referenceAt(offset)?.symbol;
+            if (!symbol) return undefined;
+            if (bindings.has(symbol)) return bindings.get(symbol);
+            return valueOfSymbol(symbol, useInputDefaults);
+        }
+
+        /**
+         * Strings are one token, or a quote, text and `${...}` interpolation tokens up to the closing quote
+         */
+        function parseString(): EvaluatedExpression | null {
+            const open = tokens[index++];
+            const quote = open.text[0];
+            const closesString = (tokenText: string) => tokenText.endsWith(quote) && !tokenText.endsWith(`\\${quote}`);
+            if (open.text.length > 1 && closesString(open.text)) {
+                return { value: stringValue(open.start, open.stop + 1, []), start: open.start, end: open.stop + 1 };
+            }
+
+            const interpolations: Interpolation[] = [];
+            while (index < tokens.length) {
+                const token = tokens[index++];
+                if (token.text === '${') {
+                    interpolations.push(parseInterpolation(token));
+                } else if (closesString(token.text)) {
+                    const stringEnd = token.stop + 1;
+                    return { value: stringValue(open.start, stringEnd, interpolations), start: open.start, end: stringEnd };
+                }
+            }
+            return null;
+        }
+
+        /**
+         * Parse the expression of a `${...}` interpolation; the opening token is already consumed
+         */
+        function parseInterpolation(open: Token): Interpolation {
+            const outerDepth = bracketDepth;
+            bracketDepth = 1;
+            const expression = parseExpression();
+            bracketDepth = outerDepth;
+            skipNewlines();
+
+            if (expression && tokens[index]?.type === KiteLexer.INTERP_END) {
+                const close = tokens[index++];
+                return { start: open.start, end: close.stop + 1, value: expression.value };
+            }
+
+            // Not an expression: skip to the matching end of the interpolation
+            let depth = 1;
+            let interpolationEnd = open.stop + 1;
+            while (index < tokens.length && depth > 0) {
+                const token = tokens[index++];
+                if (token.text === '${') depth++;
+                if (token.type === KiteLexer.INTERP_END) depth--;
+                interpolationEnd = token.stop + 1;
+            }
+            return { start: open.start, end: interpolationEnd, value: undefined };
+        }
+
+        /**
+         * Value of the string literal between two offsets: escape sequences are decoded and
+         * `${...}` and `$name` interpolations of double-quoted strings are replaced by their values
+         */
+        function stringValue(start: number, end: number, interpolations: Interpolation[]): string | undefined {
+            const interpolate = text[start] === '"';
+            let value = '';
+            let position = start + 1;
+
+            for (const interpolation of interpolations) {
+                const segment = decodeSegment(position, interpolation.start, interpolate);
+                if (segment === undefined || interpolation.value === undefined) return undefined;
+                value += segment + stringify(interpolation.value);
+                position = interpolation.end;
+            }
+            const rest = decodeSegment(position, end - 1, interpolate);
+            return rest === undefined ? undefined : value + rest;
+        }
+
+        function decodeSegment(start: number, end: number, interpolate: boolean): string | undefined {
+            let value = '';
+            for (let i = start; i < end; i++) {
+                const char = text[i];
+                if (char === '\\' && i + 1 < end) {
+                    const escaped = text[++i];
+                    value += ESCAPES[escaped] ?? `\\${escaped}`;
+                    continue;
+                }
+                if (interpolate && char === '$') {
+                    const name = /^[a-zA-Z_]\w*/.exec(text.substring(i + 1, end))?.[0];
+                    if (name) {
+                        const nameValue = identifierValue(i + 1);
+                        if (nameValue === undefined) return undefined;
+                        value += stringify(nameValue);
+                        i += name.length;
+                        continue;
+                    }
+                }
+                value += char;
+            }
+            return value;
+        }
+
+        function parseArray(): EvaluatedExpression | null {
+            const elements: EvaluatedExpression[] = [];
+            const array = parseDelimited('[', ']', () => collect(elements, parseExpression()));
+            if (!array) return null;
+            const values = elements.map(e => e.value);
+            const value = values.every(isConstant) ? values : undefined;
+            return { value, start: array.start, end: array.end };
+        }
+
+        /**
+         * `[for x in items: body]` and `[for x in items: if condition { body }]`.
+         * The body is parsed once to find its end, then evaluated once per element.
+         */
+        function parseComprehension(): EvaluatedExpression | null {
+            const open = tokens[index];
+            const variable = tokens[index + 2];
+            if (variable?.type !== KiteLexer.IDENTIFIER || tokens[index + 3]?.text !== 'in') return null;
+            index += 4;
+            bracketDepth++;
+
+            const iterable = parseExpression();
+            if (!iterable || peekText() !== ':') {
+                bracketDepth--;
+                return null;
+            }
+            index++;
+
+            const bodyStart = index;
+            const body = parseComprehensionBody();
+            if (!body || peekText() !== ']') {
+                bracketDepth--;
+                return null;
+            }
+            const closeIndex = index;
+            const symbol = model.symbolAt(variable.start);
+
+            let value: ConstantValue[] | undefined;
+            if (Array.isArray(iterable.value) && iterable.value.length <= MAX_CONSTANT_ELEMENTS && symbol) {
+                value = [];
+                for (const element of iterable.value) {
+                    index = bodyStart;
+                    bindings.set(symbol, element);
+                    const result = parseComprehensionBody();
+                    bindings.delete(symbol);
+                    if (!result || result.value === undefined) {
+                        value = undefined;
+                        break;
+                    }
+                    if (result.included) value.push(result.value);
+                }
+            }
+
+            index = closeIndex + 1;
+            bracketDepth--;
+            return { value, start: open.start, end: tokens[closeIndex].stop + 1 };
+        }
+
+        /**
+         * Parse a comprehension body. Elements filtered out by an `if` are not included.
+         */
+        function parseComprehensionBody(): { value: ConstantValue | undefined; included: boolean } | null {
+            if (peekText() !== 'if') {
+                const expression = parseExpression();
+                return expression ? { value: expression.value, included: true } : null;
+            }
+
+            index++;
+            const condition = parseExpression();
+            if (!condition || peekText() !== '{') return null;
+            index++;
+            const expression = parseExpression();
+            if (!expression || peekText() !== '}') return null;
+            index++;
+
+            if (typeof condition.value !== 'boolean') return { value: undefined, included: false };
+            return { value: condition.value ? expression.value : null, included: condition.value };
+        }
+
+        function parseObject(): EvaluatedExpression | null {
+            const open = tokens[index++];
+            const value: { [key: string]: ConstantValue } = {};
+            let constant = true;
+            const outerDepth = bracketDepth;
+            bracketDepth = 0;
+
+            while (index < tokens.length) {
+                const token = tokens[index];
+                if (token.type === KiteLexer.NL || token.text === ',') {
+                    index++;
+                    continue;
+                }
+                if (token.text === '}') {
+                    index++;
+                    bracketDepth = outerDepth;
+                    return { value: constant ? value : undefined, start: open.start, end: token.stop + 1 };
+                }
+
+                const field = parseField();
+                if (field && field.value !== undefined) {
+                    value[field.name] = field.value;
+                } else {
+                    constant = false;
+                    if (!field && !skipEntry()) break;
+                }
+            }
+            bracketDepth = outerDepth;
+            return null;
+        }
+
+        function parseField(): { name: string; value: ConstantValue | undefined } | null {
+            const key = tokens[index];
+            const separator = tokens[index + 1];
+            if (!separator || (separator.text !== ':' && separator.text !== '=')) return null;
+            if (key.type !== KiteLexer.IDENTIFIER && !/^["']/.test(key.text)) return null;
+
+            const start = index;
+            index += 2;
+            skipNewlines();
+            const value = parseExpression();
+            const next = tokens[index];
+            if (!value || (next && next.type !== KiteLexer.NL && next.text !== ',' && next.text !== '}')) {
+                index = start;
+                return null;
+            }
+            return { name: key.text.replace(/^["']|["']$/g, ''), value: value.value };
+        }
+
+        /**
+         * Skip an object entry that is not a simple field, up to the next separator at the same depth
+         * @returns false when the object is not closed
+         */
+        function skipEntry(): boolean {
+            let depth = 0;
+            while (index < tokens.length) {
+                const tokenText = tokens[index].text;
+                if (depth === 0 && (tokens[index].type === KiteLexer.NL || tokenText === ',' || tokenText === '}')) return true;
+                if (tokenText === '{' || tokenText === '(' || tokenText === '[') depth++;
+                if (tokenText === '}' || tokenText === ')' || tokenText === ']') depth--;
+                index++;
+            }
+            return false;
+        }
+
+        function collect(items: EvaluatedExpression[], item: EvaluatedExpression | null): boolean {
+            if (item) items.push(item);
+            return item !== null;
+        }
+
+        /**
+         * Parse `open item, item, ... close`
+         * @param commaSeparated - Whether items are separated by commas (otherwise one item)
+         */
+        function parseDelimited(
+            open: string,
+            close: string,
+            parseItem: () => boolean,
+            commaSeparated = true
+        ): { start: number; end: number } | null {
+            const openToken = tokens[index];
+            if (openToken?.text !== open) return null;
+            index++;
+            bracketDepth++;
+
+            let closed = false;
+            while (peek()) {
+                if (peekText() === close) {
+                    closed = true;
+                    break;
+                }
+                if (!parseItem()) break;
+                if (commaSeparated && peekText() === ',') {
+                    index++;
+                    continue;
+                }
+                if (peekText() !== close) break;
+            }
+            bracketDepth--;
+            if (!closed) return null;
+            index++;
+            return { start: openToken.start, end: previousEnd() };
+        }
+
+        /**
+         * Value of a call to a built-in function; functions declared in the file are not evaluated
+         */
+        function callValue(callee: EvaluatedExpression, args: EvaluatedExpression[]): ConstantValue | undefined {
+            const calleeToken = tokens[firstTokenAt(tokens, callee.start)];
+            if (calleeToken?.type !== KiteLexer.IDENTIFIER || calleeToken.stop + 1 !== callee.end) return undefined;
+            if (model.referenceAt(calleeToken.start)?.symbol) return undefined;
+
+            const builtin = BUILTIN_FUNCTIONS.get(calleeToken.text);
+            const argument = args.length === 1 ? args[0].value : undefined;
+            return builtin && argument !== undefined ? builtin(argument) : undefined;
+        }
+
+        return {
+            parse: parseExpression,
+            parseOperand: parseUnary,
+            /** Whether only newlines are left before the end */
+            atEnd(): boolean {
+                skipNewlines();
+                return !inRange(index);
+            },
+        };
+    }
+
+    return {
+        model,
+        expressionAt(start, end, options = {}) {
+            return evaluate(firstTokenAt(tokens, start), end ?? Infinity, options.useInputDefaults ?? true, end !== undefined);
+        },
+        operandAt(start, options = {}) {
+            const startIndex = firstTokenAt(tokens, start);
+            if (tokens[startIndex]?.start !== start) return null;
+            return createExpressionParser(startIndex, Infinity, options.useInputDefaults ?? true).parseOperand();
+        },
+        valueOfSymbol: (symbol, options = {}) => valueOfSymbol(symbol, options.useInputDefaults ?? true),
+    };
+}
+
+/**
+ * A `${...}` interpolation of a string literal
+ */
+interface Interpolation {
+    start: number;
+    end: number;
+    value: ConstantValue | undefined;
+}
+
+/**
+ * Format a constant the way it is written in Kite (`"dev"`, `[1, 2]`, `{ port: 80 }`)
+ */
+export function formatConstant(value: ConstantValue): string {
+    if (typeof value === 'string') return JSON.stringify(value);
+    if (Array.isArray(value)) return `[${value.map(formatConstant).join(', ')}]`;
+    if (isObject(value)) {
+        const entries = Object.entries(value).map(([key, entry]) => `${key}: ${formatConstant(entry)}`);
+        return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+    }
+    return String(value);
+}
+
+function isConstant(value: ConstantValue | undefined): value is ConstantValue {
+    return value !== undefined;
+}
+
+function isObject(value: ConstantValue | undefined): value is { [key: string]: ConstantValue } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Text of a value in strings and `toString`: strings are not quoted
+ */
+function stringify(value: ConstantValue): string {
+    return typeof value === 'string' ? value : formatConstant(value);
+}
+
+/**
+ * Kite type name of a value, as returned by `typeof`
+ */
+function typeName(value: ConstantValue): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function unaryValue(operator: string, operand: ConstantValue | undefined): ConstantValue | undefined {
+    if (operator === '-') return typeof operand === 'number' ? -operand : undefined;
+    return typeof operand === 'boolean' ? !operand : undefined;
+}
+
+/**
+ * Value of a binary operation; undefined when an operand is not constant or has the wrong type.
+ * Logical operators are decided by one constant operand (`x || true` is always true).
+ */
+function binaryValue(
+    operator: string,
+    left: ConstantValue | undefined,
+    right: ConstantValue | undefined
+): ConstantValue | undefined {
+    switch (operator) {
+        case '||':
+        case 'or':
+            if (left === true || right === true) return true;
+            return left === false && right === false ? false : undefined;
+        case '&&':
+        case 'and':
+            if (left === false || right === false) return false;
+            return left === true && right === true ? true : undefined;
+    }
+
+    if (left === undefined || right === undefined) return undefined;
+    switch (operator) {
+        case '==':
+            return constantsEqual(left, right);
+        case '!=':
+            return !constantsEqual(left, right);
+        case '+':
+            if (typeof left === 'number' && typeof right === 'number') return left + right;
+            if (typeof left === 'string' || typeof right === 'string') return stringify(left) + stringify(right);
+            return undefined;
+    }
+
+    if (typeof left === 'string' && typeof right === 'string') {
+        switch (operator) {
+            case '<': return left < right;
+            case '>': return left > right;
+            case '<=': return left <= right;
+            case '>=': return left >= right;
+        }
+        return undefined;
+    }
+    if (typeof left !== 'number' || typeof right !== 'number') return undefined;
+
+    switch (operator) {
+        case '<': return left < right;
+        case '>': return left > right;
+        case '<=': return left <= right;
+        case '>=': return left >= right;
+        case '-': return left - right;
+        case '*': return left * right;
+        // Division by zero is reported by its own check and has no value
+        case '/': return right === 0 ? undefined : left / right;
+        case '%': return right === 0 ? undefined : left % right;
+        case '..': return rangeValue(left, right);
+    }
+    return undefined;
+}
+
+/**
+ * Elements of a range: `0..3` is `[0, 1, 2]`
+ */
+function rangeValue(start: number, end: number): number[] | undefined {
+    if (!Number.isInteger(start) || !Number.isInteger(end)) return undefined;
+    const length = Math.max(end - start, 0);
+    if (length > MAX_CONSTANT_ELEMENTS) return undefined;
+    return Array.from({ length }, (_, i) => start + i);
+}
+
+function memberValue(object: ConstantValue | undefined, member: string): ConstantValue | undefined {
+    return isObject(object) && Object.prototype.hasOwnProperty.call(object, member) ? object[member] : undefined;
+}
+
+function indexValue(target: ConstantValue | undefined, key: ConstantValue | undefined): ConstantValue | undefined {
+    if ((Array.isArray(target) || typeof target === 'string') && typeof key === 'number') {
+        return Number.isInteger(key) && key >= 0 && key < target.length ? target[key] : undefined;
+    }
+    return typeof key === 'string' ? memberValue(target, key) : undefined;
+}
+
+/**
+ * Whether two constants are equal; arrays and objects are compared element by element
+ */
+export function constantsEqual(a: ConstantValue, b: ConstantValue): boolean {
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) &&
+            a.length === b.length && a.every((element, i) => constantsEqual(element, b[i]));
+    }
+    if (isObject(a) || isObject(b)) {
+        if (!isObject(a) || !isObject(b)) return false;
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length &&
+            keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && constantsEqual(a[key], b[key]));
+    }
+    return a === b;
+}
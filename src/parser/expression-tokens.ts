@@ -0,0 +1,32 @@
+/**
+ * Token stream helpers for the token-based expression analyses
+ * (type inference and constant evaluation).
+ */
+
+import { Token } from 'antlr4';
+import KiteLexer from './grammar/KiteLexer';
+import { ParseResult } from './parse-utils';
+
+/**
+ * Significant tokens of a parse result.
+ * Newlines end expressions outside brackets, so they are kept.
+ */
+export function expressionTokens(result: ParseResult): Token[] {
+    return result.tokens.tokens.filter(t =>
+        t.channel === Token.DEFAULT_CHANNEL && t.type !== Token.EOF && (t.type === KiteLexer.NL || t.text.trim() !== '')
+    );
+}
+
+/**
+ * Index of the first token starting at or after an offset (tokens.length when there is none)
+ */
+export function firstTokenAt(tokens: Token[], offset: number): number {
+    let low = 0;
+    let high = tokens.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (tokens[mid].start < offset) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+}
@@ -26,6 +26,43 @@ export {
 // AST-based scanner
 export { scanDocumentAST } from './ast-scanner';
 
+// Scopes, symbols and resolved references
+export {
+    buildSemanticModel,
+    SemanticModel,
+    Scope,
+    ScopeKind,
+    SemanticSymbol,
+    SymbolKind,
+    SymbolReference,
+    SymbolDecorator,
+    OffsetRange,
+} from './semantic-model';
+
+// Expression and symbol types
+export {
+    buildTypeInference,
+    elementType,
+    BUILTIN_TYPE_NAMES,
+    TypeInference,
+    InferredExpression,
+    ObjectField,
+    CallArgument,
+    TypeProperty,
+} from './type-inference';
+
+// Constant expression values
+export {
+    buildConstantEvaluator,
+    constantsEqual,
+    formatConstant,
+    MAX_CONSTANT_ELEMENTS,
+    ConstantEvaluator,
+    ConstantValue,
+    EvaluatedExpression,
+    EvaluationOptions,
+} from './constant-evaluator';
+
 // AST context utilities (re-exported from focused modules via ast-context)
 export {
     // Cursor context
@@ -0,0 +1,226 @@
+/**
+ * Tests for the semantic model: scope tree, symbols and reference resolution.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSemanticModel, SemanticModel } from './semantic-model';
+
+/** Offset of the nth occurrence (0-based) of a word */
+function offsetOf(text: string, word: string, occurrence = 0): number {
+    let offset = -1;
+    for (let i = 0; i <= occurrence; i++) {
+        offset = text.indexOf(word, offset + 1);
+    }
+    return offset;
+}
+
+function symbolNamed(model: SemanticModel, name: string, kind?: string) {
+    return model.symbols.find(s => s.name === name && (!kind || s.kind === kind));
+}
+
+describe('buildSemanticModel', () => {
+    describe('scopes', () => {
+        it('should create function, for and block scopes', () => {
+            const text = `fun process(number x) {
+    for item in [1, 2] {
+        var y = item
+    }
+}`;
+            const model = buildSemanticModel(text);
+
+            const functionScope = model.root.children[0];
+            expect(functionScope.kind).toBe('function');
+            expect(functionScope.name).toBe('process');
+            expect(functionScope.children[0].kind).toBe('for');
+            expect(model.scopeAt(offsetOf(text, 'var y')).kind).toBe('for');
+        });
+
+        it('should create a component definition scope named after the type', () => {
+            const text = `component WebServer {
+    input string name = "default"
+}`;
+            const model = buildSemanticModel(text);
+
+            const scope = model.scopeAt(offsetOf(text, 'input'));
+            expect(scope.kind).toBe('component-def');
+            expect(scope.name).toBe('WebServer');
+        });
+
+        it('should declare resources and component instances outside loop scopes', () => {
+            const text = `schema Config {}
+for i in [1, 2] {
+    resource Config server {
+        size = i
+    }
+}`;
+            const model = buildSemanticModel(text);
+
+            expect(symbolNamed(model, 'server', 'resource')?.scope).toBe(model.root);
+        });
+    });
+
+    describe('resolution', () => {
+        it('should scope function parameters to the function', () => {
+            const text = `var name = "global"
+fun greet(string name) {
+    return "Hello " + name
+}
+var greeting = name`;
+            const model = buildSemanticModel(text);
+
+            const param = symbolNamed(model, 'name', 'parameter')!;
+            const global = symbolNamed(model, 'name', 'variable')!;
+            expect(param.references.map(r => r.start)).toEqual([offsetOf(text, 'name', 2)]);
+            expect(global.references.map(r => r.start)).toEqual([offsetOf(text, 'name', 3)]);
+        });
+
+        it('should scope component inputs to the component definition', () => {
+            const text = `var name = "global"
+
+component WebServer {
+    input string name = "default"
+    output string url = name
+}
+
+var serverName = name`;
+            const model = buildSemanticModel(text);
+
+            const input = symbolNamed(model, 'name', 'input')!;
+            expect(input.references).toHaveLength(1);
+            expect(input.references[0].start).toBe(offsetOf(text, 'name', 2));
+            expect(symbolNamed(model, 'name', 'variable')!.references).toHaveLength(1);
+        });
+
+        it('should resolve loop variables only inside the loop', () => {
+            const text = `var items = [1, 2]
+for item in items {
+    var doubled = item * 2
+}
+var after = item`;
+            const model = buildSemanticModel(text);
+
+            const loopVariable = symbolNamed(model, 'item', 'loop-variable')!;
+            expect(loopVariable.references).toHaveLength(1);
+            expect(model.referenceAt(offsetOf(text, 'item', 4))?.symbol).toBeNull();
+        });
+
+        it('should resolve list comprehension variables', () => {
+            const text = `var doubled = [for x in [1, 2]: x * 2]`;
+            const model = buildSemanticModel(text);
+
+            expect(symbolNamed(model, 'x', 'loop-variable')!.references).toHaveLength(1);
+        });
+
+        it('should not resolve statement variables before their declaration', () => {
+            const text = `fun f() {
+    var a = b
+    var b = 1
+}`;
+            const model = buildSemanticModel(text);
+
+            expect(model.referenceAt(offsetOf(text, 'b'))?.symbol).toBeNull();
+        });
+
+        it('should resolve file-level declarations declared later', () => {
+            const text = `var a = helper()
+fun helper() number { return 1 }`;
+            const model = buildSemanticModel(text);
+
+            expect(model.referenceAt(offsetOf(text, 'helper'))?.symbol?.kind).toBe('function');
+        });
+
+        it('should resolve the innermost declaration', () => {
+            const text = `var x = 1
+fun f() {
+    var x = 2
+    var y = x
+}`;
+            const model = buildSemanticModel(text);
+
+            const inner = model.symbols.filter(s => s.name === 'x')[1];
+            expect(model.symbolAt(offsetOf(text, 'x', 2))).toBe(inner);
+        });
+
+        it('should resolve simple string interpolations', () => {
+            const text = `var name = "world"
+var greeting = "Hello $name"`;
+            const model = buildSemanticModel(text);
+
+            expect(symbolNamed(model, 'name')!.references).toHaveLength(1);
+        });
+
+        it('should resolve type references to type declarations only', () => {
+            const text = `schema Config {
+    string host
+}
+resource Config server {
+    host = "localhost"
+}`;
+            const model = buildSemanticModel(text);
+
+            const reference = model.referenceAt(offsetOf(text, 'Config', 1))!;
+            expect(reference.isType).toBe(true);
+            expect(reference.symbol?.kind).toBe('schema');
+        });
+    });
+
+    describe('references', () => {
+        it('should not treat property keys or member access as references', () => {
+            const text = `schema Config {
+    string host
+}
+var host = "h"
+resource Config server {
+    host = host
+}
+var h = server.host`;
+            const model = buildSemanticModel(text);
+
+            // Only the value in the resource body refers to the variable
+            expect(symbolNamed(model, 'host', 'variable')!.references).toHaveLength(1);
+        });
+
+        it('should mark assignments as writes', () => {
+            const text = `fun f() {
+    var count = 0
+    count += 1
+    var total = count
+}`;
+            const model = buildSemanticModel(text);
+
+            const writes = symbolNamed(model, 'count')!.references.map(r => r.isWrite);
+            expect(writes).toEqual([true, false]);
+        });
+
+        it('should find the symbol at a declaration or reference', () => {
+            const text = `var port = 80
+var url = port`;
+            const model = buildSemanticModel(text);
+
+            const port = symbolNamed(model, 'port')!;
+            expect(model.symbolAt(offsetOf(text, 'port'))).toBe(port);
+            expect(model.symbolAt(offsetOf(text, 'port', 1) + 4)).toBe(port);
+        });
+    });
+
+    describe('decorators', () => {
+        it('should attach decorators to the declared symbol', () => {
+            const text = `resource Database db {
+}
+@count(2)
+@dependsOn(db)
+resource Server web {
+}
+var x = 1`;
+            const model = buildSemanticModel(text);
+            const decorators = symbolNamed(model, 'web')!.decorators!;
+
+            expect(decorators.map(d => d.name)).toEqual(['count', 'dependsOn']);
+            expect(decorators[0].start).toBe(offsetOf(text, '@count'));
+            const args = decorators[1].arguments!;
+            expect(text.substring(args.start, args.end)).toBe('db');
+            expect(symbolNamed(model, 'db')!.decorators).toBeUndefined();
+            expect(symbolNamed(model, 'x')!.decorators).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,542 @@
+/**
+ * Semantic model of a Kite file.
+ *
+ * Builds a scope tree from the ANTLR parse tree (file, component definition,
+ * function, for-loop and block scopes), records the symbols declared in each
+ * scope and resolves every identifier reference to the declaration it refers to.
+ *
+ * Rename, references, document highlight and the scope-sensitive validation
+ * checks (undefined symbols, unused variables, variable shadowing) all resolve
+ * names through this model, so they agree about which declaration a name means.
+ */
+
+import { ParserRuleContext, Token } from 'antlr4';
+import KiteLexer from './grammar/KiteLexer';
+import {
+    ArrayExpressionContext,
+    BlockExpressionContext,
+    ComponentDeclarationContext,
+    DeclarationContext,
+    DecoratorContext,
+    ForStatementContext,
+    FunctionDeclarationContext,
+    ImportStatementContext,
+    InputDeclarationContext,
+    OutputDeclarationContext,
+    ParameterContext,
+    ResourceDeclarationContext,
+    SchemaDeclarationContext,
+    StructDeclarationContext,
+    TypeDeclarationContext,
+    TypeIdentifierContext,
+    VarDeclaratorContext,
+} from './grammar/KiteParser';
+import { parseKite, ParseResult } from './parse-utils';
+
+/**
+ * Kinds of scopes
+ */
+export type ScopeKind = 'file' | 'component-def' | 'function' | 'for' | 'block';
+
+/**
+ * A lexical scope. Offsets are half-open: [start, end).
+ */
+export interface Scope {
+    kind: ScopeKind;
+    /** Name of the component definition or function */
+    name?: string;
+    start: number;
+    end: number;
+    parent: Scope | null;
+    children: Scope[];
+    /** Symbols declared directly in this scope, in source order */
+    symbols: SemanticSymbol[];
+}
+
+/**
+ * Kinds of declared symbols
+ */
+export type SymbolKind =
+    | 'variable'
+    | 'parameter'
+    | 'loop-variable'
+    | 'input'
+    | 'output'
+    | 'function'
+    | 'schema'
+    | 'struct'
+    | 'type'
+    | 'component'           // Component definition
+    | 'component-instance'
+    | 'resource'
+    | 'import';
+
+/**
+ * A declared name
+ */
+export interface SemanticSymbol {
+    name: string;
+    kind: SymbolKind;
+    nameStart: number;
+    nameEnd: number;
+    /** Scope the symbol is declared in */
+    scope: Scope;
+    /**
+     * Declared type: the type annotation of variables, parameters, inputs and outputs,
+     * the return type of functions and the type of resources and component instances
+     */
+    typeName?: string;
+    /**
+     * Initializer of variables, inputs, outputs and type aliases, the iterated
+     * expression of loop variables, or the body of resources and component instances
+     */
+    value?: OffsetRange;
+    /** Decorators written before the declaration, in source order */
+    decorators?: SymbolDecorator[];
+    /** References resolved to this symbol, in source order */
+    references: SymbolReference[];
+}
+
+/**
+ * A decorator on a declaration: `@name` or `@name(arguments)`
+ */
+export interface SymbolDecorator {
+    name: string;
+    /** Offset of the `@` */
+    start: number;
+    end: number;
+    /** Text between the parentheses, when there are parentheses */
+    arguments?: OffsetRange;
+}
+
+/**
+ * Half-open offset range: [start, end)
+ */
+export interface OffsetRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * An identifier that refers to a declaration
+ */
+export interface SymbolReference {
+    name: string;
+    start: number;
+    end: number;
+    /** Innermost scope containing the reference */
+    scope: Scope;
+    /** Resolved declaration, or null when no declaration is visible */
+    symbol: SemanticSymbol | null;
+    /** Reference in a type position (e.g. `Config` in `resource Config server`) */
+    isType: boolean;
+    /** Target of an assignment (`x = 1`, `x += 1`) */
+    isWrite: boolean;
+}
+
+/**
+ * Scopes, symbols and resolved references of one file
+ */
+export interface SemanticModel {
+    /** File scope */
+    readonly root: Scope;
+    /** All declared symbols, in source order */
+    readonly symbols: SemanticSymbol[];
+    /** All identifier references, in source order */
+    readonly references: SymbolReference[];
+    /** Innermost scope containing an offset */
+    scopeAt(offset: number): Scope;
+    /** Resolve a name as if it were referenced at an offset */
+    resolve(name: string, offset: number): SemanticSymbol | null;
+    /** Symbol declared or referenced by the identifier at an offset (cursor may be at either end) */
+    symbolAt(offset: number): SemanticSymbol | null;
+    /** Reference at an offset (cursor may be at either end) */
+    referenceAt(offset: number): SymbolReference | null;
+}
+
+/** Scopes whose declarations are visible before their position (declarative bodies) */
+const HOISTED_SCOPES: ReadonlySet<ScopeKind> = new Set(['file', 'component-def']);
+
+/** Symbols that type references can resolve to */
+const TYPE_KINDS: ReadonlySet<SymbolKind> = new Set(['schema', 'struct', 'type', 'component', 'import']);
+
+/** Operators that make the identifier before them an assignment target */
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=']);
+
+/** Simple string interpolation: "Hello $name" */
+const SIMPLE_INTERPOLATION = /\$([a-zA-Z_]\w*)/g;
+
+/** How an identifier token is used, when it is not an ordinary reference */
+type TokenRole = 'declaration' | 'member' | 'type';
+
+/** Kind of a `{ }` body: statements or property assignments */
+type BodyKind = 'code' | 'properties';
+
+/**
+ * Build the semantic model of a file
+ * @param result - Parse result of the text, if already parsed
+ */
+export function buildSemanticModel(text: string, result: ParseResult = parseKite(text)): SemanticModel {
+    const root = createScope('file', 0, text.length, null);
+    const symbols: SemanticSymbol[] = [];
+    const references: SymbolReference[] = [];
+    const tokens = result.tokens.tokens;
+
+    // Identifier tokens that are not references, keyed by start offset
+    const roles = new Map<number, TokenRole>();
+    // Start offsets of `{` that open statements (as opposed to object literals and property bodies)
+    const codeBraces = new Set<number>();
+    // Bodies owned by a declaration, which are visited in the declaration's scope
+    const bodies = new Map<BlockExpressionContext, BodyKind>();
+    // Decorators of the declaration being visited, given to the first symbol it declares
+    let pendingDecorators: { decorators: SymbolDecorator[]; end: number } | null = null;
+
+    function declare(
+        nameCtx: ParserRuleContext | null | undefined,
+        kind: SymbolKind,
+        scope: Scope,
+        details: Pick<SemanticSymbol, 'typeName' | 'value'> = {}
+    ): void {
+        if (!nameCtx?.start) return;
+        const name = unquote(nameCtx.getText());
+        if (!name) return;
+        const symbol = addSymbol(name, kind, nameCtx.start.start, getEnd(nameCtx), scope);
+        if (details.typeName) symbol.typeName = details.typeName;
+        if (details.value) symbol.value = details.value;
+    }
+
+    function addSymbol(name: string, kind: SymbolKind, nameStart: number, nameEnd: number, scope: Scope): SemanticSymbol {
+        roles.set(nameStart, 'declaration');
+        const symbol: SemanticSymbol = { name, kind, nameStart, nameEnd, scope, references: [] };
+        if (pendingDecorators && nameStart < pendingDecorators.end) {
+            symbol.decorators = pendingDecorators.decorators;
+        }
+        pendingDecorators = null;
+        scope.symbols.push(symbol);
+        symbols.push(symbol);
+        return symbol;
+    }
+
+    /**
+     * Range of the expression after the first `=` of a declaration
+     */
+    function valueAfterAssign(ctx: ParserRuleContext): OffsetRange | undefined {
+        const declTokens = getTokens(tokens, ctx);
+        const assign = declTokens.findIndex(t => t.type === KiteLexer.ASSIGN);
+        const first = declTokens.slice(assign + 1).find(t => t.channel === Token.DEFAULT_CHANNEL && t.text.trim() !== '');
+        if (assign === -1 || !first) return undefined;
+        return { start: first.start, end: getEnd(ctx) };
+    }
+
+    function toDecorator(ctx: DecoratorContext): SymbolDecorator | null {
+        const name = ctx.identifier()?.getText();
+        if (!name) return null;
+        const decorator: SymbolDecorator = { name, start: ctx.start.start, end: getEnd(ctx) };
+        const decoratorTokens = getTokens(tokens, ctx);
+        const open = decoratorTokens.find(t => t.text === '(');
+        const close = decoratorTokens.filter(t => t.text === ')').pop();
+        if (open) {
+            decorator.arguments = { start: open.stop + 1, end: close && close.start > open.start ? close.start : decorator.end };
+        }
+        return decorator;
+    }
+
+    function markTokens(ctx: ParserRuleContext, role: TokenRole): void {
+        for (const token of getTokens(tokens, ctx)) {
+            if (token.type === KiteLexer.IDENTIFIER && !roles.has(token.start)) {
+                roles.set(token.start, role);
+            }
+        }
+    }
+
+    function visitChildren(ctx: ParserRuleContext, scope: Scope): void {
+        for (let i = 0; i < ctx.getChildCount(); i++) {
+            const child = ctx.getChild(i);
+            if (child instanceof ParserRuleContext) {
+                visit(child, scope);
+            }
+        }
+    }
+
+    function visit(ctx: ParserRuleContext, scope: Scope): void {
+        if (ctx instanceof DeclarationContext) {
+            const decorators: SymbolDecorator[] = [];
+            for (const decoratorCtx of ctx.decoratorList()?.decorator_list() ?? []) {
+                const decorator = toDecorator(decoratorCtx);
+                if (decorator) decorators.push(decorator);
+            }
+            pendingDecorators = decorators.length > 0 ? { decorators, end: getEnd(ctx) } : null;
+            visitChildren(ctx, scope);
+            return;
+        }
+
+        if (ctx instanceof FunctionDeclarationContext) {
+            const nameCtx = ctx.identifier();
+            declare(nameCtx, 'function', scope, { typeName: ctx.typeIdentifier()?.getText() });
+            const functionScope = createScopeFor('function', ctx, scope, nameCtx?.getText());
+            const body = ctx.blockExpression();
+            if (body) bodies.set(body, 'code');
+            visitChildren(ctx, functionScope);
+            return;
+        }
+
+        if (ctx instanceof ComponentDeclarationContext) {
+            const body = ctx.blockExpression();
+            const instanceName = ctx.identifier();
+            if (instanceName) {
+                declare(instanceName, 'component-instance', getInstanceScope(scope), {
+                    typeName: ctx.componentType()?.typeIdentifier()?.getText(),
+                    value: body ? { start: body.start.start, end: getEnd(body) } : undefined,
+                });
+                if (body) bodies.set(body, 'properties');
+                visitChildren(ctx, scope);
+                return;
+            }
+
+            const typeId = ctx.componentType()?.typeIdentifier();
+            declare(typeId, 'component', scope);
+            if (!body) {
+                visitChildren(ctx, scope);
+                return;
+            }
+            bodies.set(body, 'code');
+            const definitionScope = createScopeFor('component-def', body, scope, typeId?.getText());
+            for (let i = 0; i < ctx.getChildCount(); i++) {
+                const child = ctx.getChild(i);
+                if (child instanceof ParserRuleContext) {
+                    visit(child, child === body ? definitionScope : scope);
+                }
+            }
+            return;
+        }
+
+        if (ctx instanceof ResourceDeclarationContext) {
+            const body = ctx.blockExpression();
+            declare(ctx.resourceName()?.identifier(), 'resource', getInstanceScope(scope), {
+                typeName: ctx.typeIdentifier()?.getText(),
+                value: body ? { start: body.start.start, end: getEnd(body) } : undefined,
+            });
+            if (body) bodies.set(body, 'properties');
+            visitChildren(ctx, scope);
+            return;
+        }
+
+        if (ctx instanceof ForStatementContext || (ctx instanceof ArrayExpressionContext && ctx.identifier_list().length > 0)) {
+            // The first identifier is the loop variable: for x in items / [for x in items: ...]
+            const forScope = createScopeFor('for', ctx, scope);
+            const iterated = ctx.rangeExpression() ?? ctx.arrayExpression() ?? ctx.identifier_list()[1];
+            declare(ctx.identifier_list()[0], 'loop-variable', forScope, {
+                value: iterated?.start ? { start: iterated.start.start, end: getEnd(iterated) } : undefined,
+            });
+            const body = ctx.forBody()?.blockExpression();
+            if (body) bodies.set(body, 'code');
+            visitChildren(ctx, forScope);
+            return;
+        }
+
+        if (ctx instanceof BlockExpressionContext) {
+            const bodyKind = bodies.get(ctx);
+            if (bodyKind !== 'properties') codeBraces.add(ctx.start.start);
+            visitChildren(ctx, bodyKind ? scope : createScopeFor('block', ctx, scope));
+            return;
+        }
+
+        if (ctx instanceof VarDeclaratorContext) {
+            declare(ctx.identifier(), 'variable', scope, { typeName: ctx.typeIdentifier()?.getText(), value: valueAfterAssign(ctx) });
+        } else if (ctx instanceof ParameterContext) {
+            declare(ctx.identifier(), 'parameter', scope, { typeName: ctx.typeIdentifier()?.getText() });
+        } else if (ctx instanceof InputDeclarationContext) {
+            declare(ctx.identifier(), 'input', scope, { typeName: ctx.typeIdentifier()?.getText(), value: valueAfterAssign(ctx) });
+        } else if (ctx instanceof OutputDeclarationContext) {
+            declare(ctx.identifier(), 'output', scope, { typeName: ctx.typeIdentifier()?.getText(), value: valueAfterAssign(ctx) });
+        } else if (ctx instanceof SchemaDeclarationContext) {
+            declare(ctx.identifier(), 'schema', scope);
+            for (const property of ctx.schemaPropertyList()?.schemaProperty_list() ?? []) {
+                const nameCtx = property.identifier();
+                if (nameCtx) markTokens(nameCtx, 'member');
+            }
+        } else if (ctx instanceof StructDeclarationContext) {
+            declare(ctx.identifier(), 'struct', scope);
+            for (const property of ctx.structPropertyList()?.structProperty_list() ?? []) {
+                const nameCtx = property.identifier();
+                if (nameCtx) markTokens(nameCtx, 'member');
+            }
+        } else if (ctx instanceof TypeDeclarationContext) {
+            declare(ctx.identifier(), 'type', scope, { value: valueAfterAssign(ctx) });
+            // Everything after the alias name is a type expression
+            markTokens(ctx, 'type');
+            return;
+        } else if (ctx instanceof ImportStatementContext) {
+            for (const node of ctx.importSymbolList()?.IDENTIFIER_list() ?? []) {
+                addSymbol(node.getText(), 'import', node.symbol.start, node.symbol.stop + 1, scope);
+            }
+            return;
+        } else if (ctx instanceof DecoratorContext) {
+            const nameCtx = ctx.identifier();
+            if (nameCtx) markTokens(nameCtx, 'member');
+        } else if (ctx instanceof TypeIdentifierContext) {
+            // Qualified types (AWS.S3.Bucket) name provider schemas, not declarations in this file
+            markTokens(ctx, ctx.getText().includes('.') ? 'member' : 'type');
+            return;
+        }
+
+        visitChildren(ctx, scope);
+    }
+
+    if (result.tree) {
+        visitChildren(result.tree, root);
+    }
+
+    collectReferences();
+    for (const reference of references) {
+        reference.symbol = resolveIn(reference.scope, reference.name, reference.start, reference.isType);
+        reference.symbol?.references.push(reference);
+    }
+
+    /**
+     * Walk the token stream and record every identifier that is used as a reference.
+     * Tracks open delimiters to tell property keys (`{ key = value }`) from assignments.
+     */
+    function collectReferences(): void {
+        const significant = tokens.filter(t =>
+            t.channel === Token.DEFAULT_CHANNEL && t.type !== Token.EOF && t.text.trim() !== ''
+        );
+        const delimiters: ('code' | 'object' | 'group')[] = [];
+
+        for (let i = 0; i < significant.length; i++) {
+            const token = significant[i];
+            const tokenText = token.text;
+
+            if (tokenText === '{') {
+                delimiters.push(codeBraces.has(token.start) ? 'code' : 'object');
+                continue;
+            }
+            if (tokenText === '[' || tokenText === '(') {
+                delimiters.push('group');
+                continue;
+            }
+            if ((tokenText === '}' && token.type !== KiteLexer.INTERP_END) || tokenText === ']' || tokenText === ')') {
+                delimiters.pop();
+                continue;
+            }
+
+            if (token.type !== KiteLexer.IDENTIFIER) {
+                // Single-quoted strings are not interpolated
+                if (tokenText.includes('$') && !tokenText.startsWith("'")) {
+                    for (const match of tokenText.matchAll(SIMPLE_INTERPOLATION)) {
+                        addReference(match[1], token.start + match.index! + 1, false, false);
+                    }
+                }
+                continue;
+            }
+
+            const role = roles.get(token.start);
+            if (role === 'declaration' || role === 'member') continue;
+
+            // Member access (server.host) and decorator names (@description)
+            const previous = significant[i - 1]?.text ?? '';
+            if (previous.endsWith('.') || previous === '@') continue;
+
+            const next = significant[i + 1]?.text ?? '';
+            const inObject = delimiters[delimiters.length - 1] === 'object';
+            if (role !== 'type' && inObject && (next === '=' || next === ':')) continue;
+
+            addReference(tokenText, token.start, role === 'type', role !== 'type' && !inObject && ASSIGNMENT_OPERATORS.has(next));
+        }
+    }
+
+    function addReference(name: string, start: number, isType: boolean, isWrite: boolean): void {
+        references.push({
+            name,
+            start,
+            end: start + name.length,
+            scope: findScope(root, start),
+            symbol: null,
+            isType,
+            isWrite,
+        });
+    }
+
+    return {
+        root,
+        symbols,
+        references,
+        scopeAt: offset => findScope(root, offset),
+        resolve: (name, offset) => resolveIn(findScope(root, offset), name, offset, false),
+        symbolAt(offset) {
+            const reference = findReferenceAt(references, offset);
+            if (reference) return reference.symbol;
+            return symbols.find(s => offset >= s.nameStart && offset <= s.nameEnd) ?? null;
+        },
+        referenceAt: offset => findReferenceAt(references, offset),
+    };
+}
+
+/**
+ * Find the declaration a name refers to, searching outwards from a scope.
+ * In statement scopes only declarations before the reference are visible.
+ */
+function resolveIn(scope: Scope, name: string, offset: number, isType: boolean): SemanticSymbol | null {
+    for (let current: Scope | null = scope; current; current = current.parent) {
+        const candidates = current.symbols.filter(s => s.name === name && (!isType || TYPE_KINDS.has(s.kind)));
+        const declaredBefore = candidates.filter(s => s.nameStart <= offset);
+        const match = declaredBefore[declaredBefore.length - 1]
+            ?? (HOISTED_SCOPES.has(current.kind) ? candidates[0] : undefined);
+        if (match) return match;
+    }
+    return null;
+}
+
+function findScope(scope: Scope, offset: number): Scope {
+    const child = scope.children.find(c => offset >= c.start && offset < c.end);
+    return child ? findScope(child, offset) : scope;
+}
+
+function findReferenceAt(references: SymbolReference[], offset: number): SymbolReference | null {
+    return references.find(r => offset >= r.start && offset <= r.end) ?? null;
+}
+
+function createScope(kind: ScopeKind, start: number, end: number, parent: Scope | null, name?: string): Scope {
+    const scope: Scope = { kind, start, end, parent, children: [], symbols: [] };
+    if (name) scope.name = name;
+    parent?.children.push(scope);
+    return scope;
+}
+
+function createScopeFor(kind: ScopeKind, ctx: ParserRuleContext, parent: Scope, name?: string): Scope {
+    return createScope(kind, ctx.start.start, getEnd(ctx), parent, name);
+}
+
+/**
+ * Resources and component instances belong to the enclosing file, component
+ * definition or function, even when declared in a loop body
+ */
+function getInstanceScope(scope: Scope): Scope {
+    let current = scope;
+    while ((current.kind === 'for' || current.kind === 'block') && current.parent) {
+        current = current.parent;
+    }
+    return current;
+}
+
+/**
+ * End offset (exclusive) of a context; empty contexts from error recovery end where they start
+ */
+function getEnd(ctx: ParserRuleContext): number {
+    return Math.max(ctx.start.start, (ctx.stop?.stop ?? ctx.start.stop) + 1);
+}
+
+function getTokens(tokens: Token[], ctx: ParserRuleContext): Token[] {
+    const stop = ctx.stop ?? ctx.start;
+    return tokens.slice(ctx.start.tokenIndex, stop.tokenIndex + 1);
+}
+
+/**
+ * Strip quotes from string-literal identifiers
+ */
+function unquote(text: string): string {
+    if ((text.startsWith('"') && text.endsWith('"')) || (text.startsWith("'") && text.endsWith("'"))) {
+        return text.slice(1, -1);
+    }
+    return text;
+}
@@ -0,0 +1,235 @@
+/**
+ * Tests for expression type inference.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTypeInference, elementType, TypeInference } from './type-inference';
+
+/** Inferred type of the variable with a name */
+function typeOf(types: TypeInference, name: string): string | null {
+    const symbol = types.model.symbols.find(s => s.name === name)!;
+    return types.typeOfSymbol(symbol);
+}
+
+function inferVar(text: string, name: string): string | null {
+    return typeOf(buildTypeInference(text), name);
+}
+
+describe('buildTypeInference', () => {
+    describe('literals', () => {
+        it('should infer literal types', () => {
+            const text = `var s = "a"
+var n = 42
+var b = true
+var z = null`;
+            const types = buildTypeInference(text);
+
+            expect(typeOf(types, 's')).toBe('string');
+            expect(typeOf(types, 'n')).toBe('number');
+            expect(typeOf(types, 'b')).toBe('boolean');
+            expect(typeOf(types, 'z')).toBe('null');
+        });
+
+        it('should infer array element types', () => {
+            expect(inferVar('var a = [1, 2, 3]', 'a')).toBe('number[]');
+            expect(inferVar('var a = [1, "x"]', 'a')).toBe('array');
+        });
+
+        it('should infer object literals with their fields', () => {
+            const text = `var o = {
+    host: "localhost"
+    port: 80
+}`;
+            const types = buildTypeInference(text);
+            const symbol = types.model.symbols[0];
+            const value = types.expressionAt(symbol.value!.start, symbol.value!.end)!;
+
+            expect(value.type).toBe('object');
+            expect(value.fields?.map(f => [f.name, f.value.type])).toEqual([
+                ['host', 'string'],
+                ['port', 'number'],
+            ]);
+        });
+
+        it('should infer interpolated strings as string', () => {
+            expect(inferVar('var n = 1\nvar s = "count: ${n + 1}"', 's')).toBe('string');
+        });
+    });
+
+    describe('identifiers and calls', () => {
+        it('should use declared types of referenced symbols', () => {
+            expect(inferVar('var number port = 80\nvar p = port', 'p')).toBe('number');
+        });
+
+        it('should infer through unannotated variables', () => {
+            expect(inferVar('var a = "x"\nvar b = a\nvar c = b', 'c')).toBe('string');
+        });
+
+        it('should use declared return types of functions', () => {
+            const text = `fun name() string { return "x" }
+var n = name()`;
+            expect(inferVar(text, 'n')).toBe('string');
+        });
+
+        it('should know built-in function return types', () => {
+            expect(inferVar('var n = len("abc")', 'n')).toBe('number');
+        });
+
+        it('should not infer recursive initializers', () => {
+            expect(inferVar('var a = b\nvar b = a', 'a')).toBeNull();
+        });
+    });
+
+    describe('member access', () => {
+        it('should infer resource property types from the schema', () => {
+            const text = `schema Config {
+    number size
+}
+resource Config server {
+    size = 1
+}
+var s = server.size`;
+            expect(inferVar(text, 's')).toBe('number');
+        });
+
+        it('should infer component outputs', () => {
+            const text = `component WebServer {
+    output string url = "http://localhost"
+}
+component WebServer api {
+}
+var u = api.url`;
+            expect(inferVar(text, 'u')).toBe('string');
+        });
+
+        it('should infer indexing into typed arrays', () => {
+            expect(inferVar('var string[] names = ["a"]\nvar first = names[0]', 'first')).toBe('string');
+        });
+    });
+
+    describe('operators', () => {
+        it('should infer arithmetic and string concatenation', () => {
+            const text = `var a = 1 + 2
+var b = "a" + 1
+var c = 10 % 3`;
+            const types = buildTypeInference(text);
+
+            expect(typeOf(types, 'a')).toBe('number');
+            expect(typeOf(types, 'b')).toBe('string');
+            expect(typeOf(types, 'c')).toBe('number');
+        });
+
+        it('should infer comparisons and logical operators as boolean', () => {
+            expect(inferVar('var x = 1 < 2 && !false', 'x')).toBe('boolean');
+        });
+
+        it('should infer ternaries with a common type', () => {
+            expect(inferVar('var x = true ? "a" : "b"', 'x')).toBe('string');
+            expect(inferVar('var x = true ? "a" : 1', 'x')).toBeNull();
+        });
+    });
+
+    describe('loops and comprehensions', () => {
+        it('should infer loop variables from the iterated array', () => {
+            const text = `var names = ["a", "b"]
+for name in names {
+    var upper = name
+}`;
+            expect(inferVar(text, 'upper')).toBe('string');
+        });
+
+        it('should infer comprehension element types', () => {
+            expect(inferVar('var d = [for x in [1, 2]: x * 2]', 'd')).toBe('number[]');
+        });
+    });
+
+    describe('types', () => {
+        it('should expand type aliases', () => {
+            const text = `type Port = number
+var Port p = 80`;
+            const types = buildTypeInference(text);
+
+            expect(types.resolveType('Port')).toBe('number');
+            expect(types.resolveType('Port[]')).toBe('number[]');
+            expect(typeOf(types, 'p')).toBe('number');
+        });
+
+        it('should not resolve unknown type names', () => {
+            expect(buildTypeInference('').resolveType('Unknown')).toBeNull();
+        });
+
+        it('should list the properties of a struct', () => {
+            const text = `struct Point {
+    number x
+    number y = 0
+}`;
+            expect(buildTypeInference(text).propertiesOf('Point')).toEqual([
+                { name: 'x', typeName: 'number', hasDefault: false },
+                { name: 'y', typeName: 'number', hasDefault: true },
+            ]);
+        });
+    });
+
+    describe('unionLiterals', () => {
+        it('should list the literals of a string union alias', () => {
+            const text = `type Environment = "dev" | "staging" | "prod"`;
+            expect(buildTypeInference(text).unionLiterals('Environment')).toEqual(['dev', 'staging', 'prod']);
+        });
+
+        it('should expand nested aliases and ignore null', () => {
+            const text = `type Stage = "dev" | "staging"
+type Environment = Stage | "prod" | null`;
+            expect(buildTypeInference(text).unionLiterals('Environment')).toEqual(['dev', 'staging', 'prod']);
+        });
+
+        it('should return null for other aliases', () => {
+            const text = `type Port = number
+type Mixed = "a" | number`;
+            const types = buildTypeInference(text);
+
+            expect(types.unionLiterals('Port')).toBeNull();
+            expect(types.unionLiterals('Mixed')).toBeNull();
+        });
+    });
+
+    describe('callsOf', () => {
+        it('should collect positional and named arguments of each call', () => {
+            const text = `fun deploy(string name, number replicas) {
+}
+deploy("web", 2)
+deploy(replicas: 1, name: "api")`;
+            const types = buildTypeInference(text);
+            const calls = types.callsOf(types.model.symbols.find(s => s.kind === 'function')!);
+
+            expect(calls.map(args => args.map(a => [a.name, a.value.type]))).toEqual([
+                [[null, 'string'], [null, 'number']],
+                [['replicas', 'number'], ['name', 'string']],
+            ]);
+            expect(calls[0][0].value.literal).toBe('web');
+        });
+    });
+
+    describe('returnsOf', () => {
+        it('should collect the return values of a function only', () => {
+            const text = `fun f(number n) string {
+    if n > 0 {
+        return "positive"
+    }
+    return toString(n)
+}
+fun g() number { return 1 }`;
+            const types = buildTypeInference(text);
+            const scope = types.model.root.children[0];
+
+            expect(types.returnsOf(scope).map(r => r.type)).toEqual(['string', 'string']);
+        });
+    });
+});
+
+describe('elementType', () => {
+    it('should strip one array level', () => {
+        expect(elementType('string[][]')).toBe('string[]');
+        expect(elementType('string')).toBeNull();
+        expect(elementType(null)).toBeNull();
+    });
+});
@@ -0,0 +1,729 @@
+/**
+ * Expression type inference for Kite.
+ *
+ * Computes the type of any expression from the token stream and the semantic
+ * model: literals, identifiers (declared or inferred types of the symbols they
+ * resolve to), function calls (declared return types), property access on
+ * schema, struct and component types, indexing, arithmetic, comparison and
+ * logical operators, string interpolation, ternaries, array literals and
+ * `[for ...]` comprehensions.
+ *
+ * Types are represented as type names, the way they are written in Kite
+ * (`string`, `number[]`, `Config`), plus `array` and `object` for literals whose
+ * element or structure type is unknown. Unknown types are null: checks built on
+ * the inference must treat null as "could be anything".
+ */
+
+import { Token } from 'antlr4';
+import KiteLexer from './grammar/KiteLexer';
+import { parseKite, ParseResult } from './parse-utils';
+import { expressionTokens, firstTokenAt } from './expression-tokens';
+import { buildSemanticModel, Scope, SemanticModel, SemanticSymbol, SymbolKind } from './semantic-model';
+import { findComponentDefByName, findSchemaByName, findStructByName } from './ast-definitions';
+import {
+    extractComponentInputsAST,
+    extractComponentOutputsAST,
+    extractSchemaPropertiesAST,
+    extractStructPropertiesAST,
+} from './ast-properties';
+
+/**
+ * An expression with its inferred type
+ */
+export interface InferredExpression {
+    /** Inferred type, or null when unknown */
+    type: string | null;
+    start: number;
+    end: number;
+    /** Fields of an object literal */
+    fields?: ObjectField[];
+    /** Elements of an array literal */
+    elements?: InferredExpression[];
+    /** Content of a string literal without interpolation */
+    literal?: string;
+}
+
+/**
+ * An argument of a function call; named arguments (`name: value`) carry the parameter name
+ */
+export interface CallArgument {
+    name: string | null;
+    value: InferredExpression;
+}
+
+/**
+ * A `key: value` or `key = value` entry of an object literal or declaration body
+ */
+export interface ObjectField {
+    name: string;
+    nameStart: number;
+    nameEnd: number;
+    value: InferredExpression;
+}
+
+/**
+ * A property of a schema or struct, or an input or output of a component
+ */
+export interface TypeProperty {
+    name: string;
+    typeName: string;
+    hasDefault: boolean;
+}
+
+/**
+ * Type inference over one file
+ */
+export interface TypeInference {
+    readonly model: SemanticModel;
+    /**
+     * Infer the expression starting at an offset.
+     * With an end offset the expression must cover the range exactly; without one
+     * it extends as far as the expression syntax allows (e.g. `return` values).
+     */
+    expressionAt(start: number, end?: number): InferredExpression | null;
+    /** Declared or inferred type of a symbol */
+    typeOfSymbol(symbol: SemanticSymbol): string | null;
+    /** Resolve a written type name: type aliases are expanded, unknown names are null */
+    resolveType(typeName: string): string | null;
+    /** Properties of a schema, struct or component type declared in the file */
+    propertiesOf(typeName: string): TypeProperty[] | null;
+    /**
+     * Allowed values of a type alias whose members are all string literals
+     * (`type Environment = "dev" | "prod"`), including those of nested aliases; null for other types
+     */
+    unionLiterals(typeName: string): string[] | null;
+    /** Arguments of each call to a function declared in the file; calls that cannot be parsed are skipped */
+    callsOf(functionSymbol: SemanticSymbol): CallArgument[][];
+    /** Values of the `return` statements that belong to a function scope */
+    returnsOf(functionScope: Scope): InferredExpression[];
+}
+
+/** Built-in type names */
+export const BUILTIN_TYPE_NAMES: ReadonlySet<string> = new Set(['string', 'number', 'boolean', 'any', 'object', 'void', 'null']);
+
+/** Return types of built-in functions */
+const BUILTIN_FUNCTION_TYPES: ReadonlyMap<string, string> = new Map([
+    ['println', 'void'],
+    ['print', 'void'],
+    ['len', 'number'],
+    ['toString', 'string'],
+    ['toNumber', 'number'],
+    ['typeof', 'string'],
+]);
+
+/** Symbols whose value is typed by the declaration or its initializer */
+const VALUE_KINDS: ReadonlySet<SymbolKind> = new Set(['variable', 'input', 'output']);
+
+const ARITHMETIC_OPERATORS = new Set(['-', '*', '/', '%']);
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '>', '<=', '>=']);
+const LOGICAL_OPERATORS = new Set(['&&', '||', 'and', 'or']);
+
+/**
+ * Element type of an array type (`string[]` -> `string`); null when unknown
+ */
+export function elementType(type: string | null): string | null {
+    return type?.endsWith('[]') ? type.slice(0, -2) : null;
+}
+
+/**
+ * Build the type inference of a file
+ * @param result - Parse result of the text, if already parsed
+ * @param model - Semantic model of the text, if already built
+ */
+export function buildTypeInference(
+    text: string,
+    result: ParseResult = parseKite(text),
+    model: SemanticModel = buildSemanticModel(text, result)
+): TypeInference {
+    const tokens = expressionTokens(result);
+    const symbolTypes = new Map<SemanticSymbol, string | null>();
+    const inProgress = new Set<SemanticSymbol>();
+
+    function typeOfSymbol(symbol: SemanticSymbol): string | null {
+        if (symbolTypes.has(symbol)) return symbolTypes.get(symbol)!;
+        // Recursive initializers (var a = b, var b = a) have no type
+        if (inProgress.has(symbol)) return null;
+
+        inProgress.add(symbol);
+        const type = computeSymbolType(symbol);
+        inProgress.delete(symbol);
+        symbolTypes.set(symbol, type);
+        return type;
+    }
+
+    function computeSymbolType(symbol: SemanticSymbol): string | null {
+        if (VALUE_KINDS.has(symbol.kind)) {
+            if (symbol.typeName) return resolveType(symbol.typeName);
+            return symbol.value ? expressionAt(symbol.value.start, symbol.value.end)?.type ?? null : null;
+        }
+        switch (symbol.kind) {
+            case 'parameter':
+            case 'resource':
+            case 'component-instance':
+                return symbol.typeName ? resolveType(symbol.typeName) : null;
+            case 'loop-variable':
+                return symbol.value ? elementType(expressionAt(symbol.value.start, symbol.value.end)?.type ?? null) : null;
+            default:
+                return null;
+        }
+    }
+
+    function resolveType(typeName: string, seen = new Set<string>()): string | null {
+        if (typeName.endsWith('[]')) {
+            const element = resolveType(typeName.slice(0, -2), seen);
+            return element ? `${element}[]` : 'array';
+        }
+        if (BUILTIN_TYPE_NAMES.has(typeName)) return typeName;
+
+        const symbol = model.root.symbols.find(s => s.name === typeName);
+        if (!symbol || seen.has(typeName)) return null;
+        switch (symbol.kind) {
+            case 'schema':
+            case 'struct':
+            case 'component':
+                return typeName;
+            case 'type':
+                seen.add(typeName);
+                return symbol.value ? aliasType(symbol.value.start, symbol.value.end, seen) : null;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Underlying type of a type alias: `"a" | "b"` is a string, `number | null` a number
+     */
+    function aliasType(start: number, end: number, seen: Set<string>): string | null {
+        const memberTypes = new Set<string>();
+        let member = '';
+        const flush = (): boolean => {
+            const type = member === '' ? null : literalType(member) ?? resolveType(member, seen);
+            member = '';
+            if (!type) return false;
+            if (type !== 'null') memberTypes.add(type);
+            return true;
+        };
+
+        for (let i = firstTokenAt(tokens, start); i < tokens.length && tokens[i].start < end; i++) {
+            const tokenText = tokens[i].text;
+            if (tokens[i].type === KiteLexer.NL) continue;
+            if (tokenText === '|') {
+                if (!flush()) return null;
+            } else if (tokenText === '{') {
+                return 'object';
+            } else {
+                member += tokenText;
+            }
+        }
+        if (!flush()) return null;
+        return memberTypes.size === 1 ? [...memberTypes][0] : null;
+    }
+
+    function unionLiterals(typeName: string, seen = new Set<string>()): string[] | null {
+        const symbol = model.root.symbols.find(s => s.name === typeName && s.kind === 'type');
+        if (!symbol?.value || seen.has(typeName)) return null;
+        seen.add(typeName);
+
+        const literals: string[] = [];
+        let member = '';
+        const flush = (): boolean => {
+            const literal = stringLiteralValue(member);
+            const values = literal !== null ? [literal] : member === 'null' ? [] : unionLiterals(member, seen);
+            member = '';
+            if (!values) return false;
+            literals.push(...values);
+            return true;
+        };
+
+        for (let i = firstTokenAt(tokens, symbol.value.start); i < tokens.length && tokens[i].start < symbol.value.end; i++) {
+            if (tokens[i].type === KiteLexer.NL) continue;
+            if (tokens[i].text === '|') {
+                if (!flush()) return null;
+            } else {
+                member += tokens[i].text;
+            }
+        }
+        if (!flush()) return null;
+        return literals.length > 0 ? literals : null;
+    }
+
+    function callsOf(functionSymbol: SemanticSymbol): CallArgument[][] {
+        const calls: CallArgument[][] = [];
+        for (const reference of functionSymbol.references) {
+            const open = firstTokenAt(tokens, reference.end);
+            if (tokens[open]?.text !== '(') continue;
+            const args = createExpressionParser(open, Infinity).parseArguments();
+            if (args) calls.push(args);
+        }
+        return calls;
+    }
+
+    function propertiesOf(typeName: string): TypeProperty[] | null {
+        const tree = result.tree;
+        if (!tree || !model.root.symbols.some(s => s.name === typeName)) return null;
+
+        const schema = findSchemaByName(tree, typeName);
+        if (schema) return extractSchemaPropertiesAST(schema);
+        const struct = findStructByName(tree, typeName);
+        if (struct) return extractStructPropertiesAST(struct);
+        const component = findComponentDefByName(tree, typeName);
+        if (component) {
+            return [
+                ...extractComponentInputsAST(component),
+                ...extractComponentOutputsAST(component).map(output => ({ ...output, hasDefault: true })),
+            ];
+        }
+        return null;
+    }
+
+    function memberType(typeName: string | null, member: string): string | null {
+        if (!typeName) return null;
+        const property = propertiesOf(typeName)?.find(p => p.name === member);
+        return property ? resolveType(property.typeName) : null;
+    }
+
+    function expressionAt(start: number, end?: number): InferredExpression | null {
+        const parser = createExpressionParser(firstTokenAt(tokens, start), end ?? Infinity);
+        const expression = parser.parse();
+        if (!expression) return null;
+        if (end !== undefined && !parser.atEnd()) return null;
+        return expression;
+    }
+
+    function returnsOf(functionScope: Scope): InferredExpression[] {
+        const values: InferredExpression[] = [];
+        for (let i = firstTokenAt(tokens, functionScope.start); i < tokens.length && tokens[i].start < functionScope.end; i++) {
+            if (tokens[i].text !== 'return' || enclosingFunction(model.scopeAt(tokens[i].start)) !== functionScope) continue;
+            const next = tokens[i + 1];
+            if (!next || next.type === KiteLexer.NL || next.text === '}' || next.start >= functionScope.end) continue;
+            const value = expressionAt(next.start);
+            if (value) values.push(value);
+        }
+        return values;
+    }
+
+    /**
+     * Recursive-descent parser over the tokens from an index up to an end offset.
+     * Inside parentheses and brackets newlines are skipped; elsewhere they end the expression.
+     */
+    function createExpressionParser(startIndex: number, end: number) {
+        let index = startIndex;
+        let bracketDepth = 0;
+
+        const inRange = (i: number) => i < tokens.length && tokens[i].start < end;
+        const skipNewlines = () => {
+            while (inRange(index) && tokens[index].type === KiteLexer.NL) index++;
+        };
+        const peek = (): Token | null => {
+            if (bracketDepth > 0) skipNewlines();
+            return inRange(index) ? tokens[index] : null;
+        };
+        const peekText = () => peek()?.text ?? '';
+        const previousEnd = () => tokens[index - 1].stop + 1;
+
+        function parseExpression(): InferredExpression | null {
+            const condition = parseBinary(0);
+            if (!condition || peekText() !== '?') return condition;
+
+            index++;
+            skipNewlines();
+            const whenTrue = parseExpression();
+            skipNewlines();
+            if (!whenTrue || peekText() !== ':') return null;
+            index++;
+            skipNewlines();
+            const whenFalse = parseExpression();
+            if (!whenFalse) return null;
+            return { type: commonType(whenTrue.type, whenFalse.type), start: condition.start, end: whenFalse.end };
+        }
+
+        /** Operator precedence levels, loosest first */
+        const LEVELS: ReadonlySet<string>[] = [
+            new Set(['||', 'or']),
+            new Set(['&&', 'and']),
+            new Set(['==', '!=']),
+            new Set(['<', '>', '<=', '>=']),
+            new Set(['..']),
+            new Set(['+', '-']),
+            new Set(['*', '/', '%']),
+        ];
+
+        function parseBinary(level: number): InferredExpression | null {
+            if (level === LEVELS.length) return parseUnary();
+
+            let left = parseBinary(level + 1);
+            while (left && LEVELS[level].has(peekText())) {
+                const operator = tokens[index++].text;
+                skipNewlines();
+                const right = parseBinary(level + 1);
+                if (!right) return null;
+                left = { type: binaryType(operator, left.type, right.type), start: left.start, end: right.end };
+            }
+            return left;
+        }
+
+        function parseUnary(): InferredExpression | null {
+            const token = peek();
+            if (token && (token.text === '!' || token.text === 'not' || token.text === '-')) {
+                index++;
+                const operand = parseUnary();
+                if (!operand) return null;
+                return { type: token.text === '-' ? 'number' : 'boolean', start: token.start, end: operand.end };
+            }
+            return parsePostfix();
+        }
+
+        function parsePostfix(): InferredExpression | null {
+            let expression = parsePrimary();
+            while (expression) {
+                const next = peekText();
+                if (next === '.' || next === '?.') {
+                    index++;
+                    const member = peek();
+                    if (!member || member.type !== KiteLexer.IDENTIFIER) return null;
+                    index++;
+                    expression = { type: memberType(expression.type, member.text), start: expression.start, end: member.stop + 1 };
+                } else if (next === '[') {
+                    const indexed = parseDelimited('[', ']', () => parseExpression() !== null);
+                    if (!indexed) return null;
+                    const type = expression.type === 'string' ? 'string' : elementType(expression.type);
+                    expression = { type, start: expression.start, end: indexed.end };
+                } else if (next === '(') {
+                    const call = parseDelimited('(', ')', parseArgument);
+                    if (!call) return null;
+                    expression = { type: callType(expression), start: expression.start, end: call.end };
+                } else {
+                    break;
+                }
+            }
+            return expression;
+        }
+
+        function parsePrimary(): InferredExpression | null {
+            const token = peek();
+            if (!token) return null;
+            const tokenText = token.text;
+
+            if (token.type === KiteLexer.NUMBER) {
+                index++;
+                return { type: 'number', start: token.start, end: token.stop + 1 };
+            }
+            if (tokenText === 'true' || tokenText === 'false') {
+                index++;
+                return { type: 'boolean', start: token.start, end: token.stop + 1 };
+            }
+            if (tokenText === 'null') {
+                index++;
+                return { type: 'null', start: token.start, end: token.stop + 1 };
+            }
+            if (tokenText.startsWith("'") || tokenText.startsWith('"')) {
+                return parseString();
+            }
+            if (token.type === KiteLexer.IDENTIFIER) {
+                index++;
+                const symbol = model.referenceAt(token.start)?.symbol ?? null;
+                return { type: symbol ? typeOfSymbol(symbol) : null, start: token.start, end: token.stop + 1 };
+            }
+            if (tokenText === '(') {
+                const inner: InferredExpression[] = [];
+                const group = parseDelimited('(', ')', () => collect(inner, parseExpression()), false);
+                return group && inner.length === 1 ? { ...inner[0], start: group.start, end: group.end } : null;
+            }
+            if (tokenText === '[') {
+                return parseArray();
+            }
+            if (tokenText === '{') {
+                return parseObject();
+            }
+            return null;
+        }
+
+        /**
+         * Strings are one token, or a quote, text and `${...}` interpolation tokens up to the closing quote
+         */
+        function parseString(): InferredExpression | null {
+            const open = tokens[index++];
+            const quote = open.text[0];
+            const closesString = (tokenText: string) => tokenText.endsWith(quote) && !tokenText.endsWith(`\\${quote}`);
+            if (open.text.length > 1 && closesString(open.text)) {
+                return stringExpression(open.start, open.stop + 1, false);
+            }
+
+            let interpolationDepth = 0;
+            let interpolated = false;
+            while (index < tokens.length) {
+                const token = tokens[index++];
+                if (token.text === '${') {
+                    interpolationDepth++;
+                    interpolated = true;
+                } else if (token.type === KiteLexer.INTERP_END) {
+                    interpolationDepth--;
+                } else if (interpolationDepth === 0 && closesString(token.text)) {
+                    return stringExpression(open.start, token.stop + 1, interpolated);
+                }
+            }
+            return null;
+        }
+
+        function stringExpression(start: number, end: number, interpolated: boolean): InferredExpression {
+            const literal = interpolated ? null : stringLiteralValue(text.substring(start, end));
+            return literal === null
+                ? { type: 'string', start, end }
+                : { type: 'string', start, end, literal };
+        }
+
+        function parseArray(): InferredExpression | null {
+            // [for x in items: body]
+            if (tokens[index + 1]?.text === 'for') {
+                const body: InferredExpression[] = [];
+                const comprehension = parseDelimited('[', ']', () => {
+                    // Bodies that are not expressions (e.g. `if` blocks) leave the element type unknown
+                    if (skipUntil(':') && tokens[index].text === ':') {
+                        index++;
+                        collect(body, parseExpression());
+                    }
+                    return skipUntil(']');
+                }, false);
+                if (!comprehension) return null;
+                const bodyType = body.length === 1 ? body[0].type : null;
+                return { type: bodyType ? `${bodyType}[]` : 'array', start: comprehension.start, end: comprehension.end };
+            }
+
+            const elements: InferredExpression[] = [];
+            const array = parseDelimited('[', ']', () => collect(elements, parseExpression()));
+            if (!array) return null;
+            const types = new Set(elements.map(e => e.type));
+            const [type] = types;
+            const arrayType = types.size === 1 && type && type !== 'null' ? `${type}[]` : 'array';
+            return { type: arrayType, start: array.start, end: array.end, elements };
+        }
+
+        function parseObject(): InferredExpression | null {
+            const open = tokens[index++];
+            const fields: ObjectField[] = [];
+            const outerDepth = bracketDepth;
+            bracketDepth = 0;
+
+            while (index < tokens.length) {
+                const token = tokens[index];
+                if (token.type === KiteLexer.NL || token.text === ',') {
+                    index++;
+                    continue;
+                }
+                if (token.text === '}') {
+                    index++;
+                    bracketDepth = outerDepth;
+                    return { type: 'object', start: open.start, end: token.stop + 1, fields };
+                }
+
+                const field = parseField();
+                if (field) {
+                    fields.push(field);
+                } else if (!skipEntry()) {
+                    break;
+                }
+            }
+            bracketDepth = outerDepth;
+            return null;
+        }
+
+        function parseField(): ObjectField | null {
+            const key = tokens[index];
+            const separator = tokens[index + 1];
+            if (!separator || (separator.text !== ':' && separator.text !== '=')) return null;
+            if (key.type !== KiteLexer.IDENTIFIER && !/^["']/.test(key.text)) return null;
+
+            const start = index;
+            index += 2;
+            skipNewlines();
+            const value = parseExpression();
+            const next = tokens[index];
+            if (!value || (next && next.type !== KiteLexer.NL && next.text !== ',' && next.text !== '}')) {
+                index = start;
+                return null;
+            }
+            const name = key.text.replace(/^["']|["']$/g, '');
+            return { name, nameStart: key.start, nameEnd: key.stop + 1, value };
+        }
+
+        /**
+         * Skip an object entry that is not a simple field, up to the next separator at the same depth
+         * @returns false when the object is not closed
+         */
+        function skipEntry(): boolean {
+            let depth = 0;
+            while (index < tokens.length) {
+                const text = tokens[index].text;
+                if (depth === 0 && (tokens[index].type === KiteLexer.NL || text === ',' || text === '}')) return true;
+                if (text === '{' || text === '(' || text === '[') depth++;
+                if (text === '}' || text === ')' || text === ']') depth--;
+                index++;
+            }
+            return false;
+        }
+
+        /**
+         * Skip to the next token with the given text outside nested brackets
+         * @returns false when the current bracket closes first
+         */
+        function skipUntil(text: string): boolean {
+            let depth = 0;
+            while (inRange(index)) {
+                const current = tokens[index].text;
+                if (depth === 0 && current === text) return true;
+                if (current === '{' || current === '(' || current === '[') depth++;
+                if (current === '}' || current === ')' || current === ']') {
+                    if (depth === 0) return false;
+                    depth--;
+                }
+                index++;
+            }
+            return false;
+        }
+
+        function collect(items: InferredExpression[], item: InferredExpression | null): boolean {
+            if (item) items.push(item);
+            return item !== null;
+        }
+
+        function parseArgument(): boolean {
+            // Named arguments: name: value
+            if (tokens[index]?.type === KiteLexer.IDENTIFIER && tokens[index + 1]?.text === ':') index += 2;
+            return parseExpression() !== null;
+        }
+
+        /**
+         * Parse `open item, item, ... close`
+         * @param commaSeparated - Whether items are separated by commas (otherwise one item)
+         */
+        function parseDelimited(
+            open: string,
+            close: string,
+            parseItem: () => boolean,
+            commaSeparated = true
+        ): { start: number; end: number } | null {
+            const openToken = tokens[index];
+            if (openToken?.text !== open) return null;
+            index++;
+            bracketDepth++;
+
+            let closed = false;
+            while (peek()) {
+                if (peekText() === close) {
+                    closed = true;
+                    break;
+                }
+                if (!parseItem()) break;
+                if (commaSeparated && peekText() === ',') {
+                    index++;
+                    continue;
+                }
+                if (peekText() !== close) break;
+            }
+            bracketDepth--;
+            if (!closed) return null;
+            index++;
+            return { start: openToken.start, end: previousEnd() };
+        }
+
+        function callType(callee: InferredExpression): string | null {
+            const calleeToken = tokens[firstTokenAt(tokens, callee.start)];
+            if (calleeToken?.type !== KiteLexer.IDENTIFIER || calleeToken.stop + 1 !== callee.end) return null;
+
+            const symbol = model.referenceAt(calleeToken.start)?.symbol;
+            if (symbol) {
+                return symbol.kind === 'function' && symbol.typeName ? resolveType(symbol.typeName) : null;
+            }
+            return BUILTIN_FUNCTION_TYPES.get(calleeToken.text) ?? null;
+        }
+
+        return {
+            parse: parseExpression,
+            /** Parse the parenthesized arguments of a call */
+            parseArguments(): CallArgument[] | null {
+                const args: CallArgument[] = [];
+                const call = parseDelimited('(', ')', () => {
+                    let name: string | null = null;
+                    if (tokens[index]?.type === KiteLexer.IDENTIFIER && tokens[index + 1]?.text === ':') {
+                        name = tokens[index].text;
+                        index += 2;
+                    }
+                    const value = parseExpression();
+                    if (value) args.push({ name, value });
+                    return value !== null;
+                });
+                return call ? args : null;
+            },
+            /** Whether only newlines are left before the end */
+            atEnd(): boolean {
+                skipNewlines();
+                return !inRange(index);
+            },
+        };
+    }
+
+    return {
+        model,
+        expressionAt,
+        typeOfSymbol,
+        resolveType: typeName => resolveType(typeName),
+        propertiesOf,
+        unionLiterals: typeName => unionLiterals(typeName),
+        callsOf,
+        returnsOf,
+    };
+}
+
+/**
+ * Result type of a binary operator; null when it depends on unknown operand types
+ */
+function binaryType(operator: string, left: string | null, right: string | null): string | null {
+    if (operator === '+') {
+        if (left === 'string' || right === 'string') return 'string';
+        if (left === 'number' && right === 'number') return 'number';
+        return null;
+    }
+    if (operator === '..') return 'number[]';
+    if (ARITHMETIC_OPERATORS.has(operator)) return 'number';
+    if (COMPARISON_OPERATORS.has(operator) || LOGICAL_OPERATORS.has(operator)) return 'boolean';
+    return null;
+}
+
+/**
+ * Type of a value that is one of two types (ternary branches); null is absorbed
+ */
+function commonType(a: string | null, b: string | null): string | null {
+    if (a === b) return a;
+    if (a === 'null') return b;
+    if (b === 'null') return a;
+    return null;
+}
+
+/**
+ * Type of a literal type-alias member (`"a"`, `42`, `true`), or null for type names
+ */
+function literalType(member: string): string | null {
+    if (/^["'].*["']$/.test(member)) return 'string';
+    if (/^-?\d+(\.\d+)?$/.test(member)) return 'number';
+    if (member === 'true' || member === 'false') return 'boolean';
+    if (member === 'null') return 'null';
+    return null;
+}
+
+/**
+ * Content of a quoted string without interpolation, or null for anything else
+ */
+function stringLiteralValue(source: string): string | null {
+    const match = /^"([^"$]*)"$|^'([^']*)'$/.exec(source);
+    return match ? match[1] ?? match[2] : null;
+}
+
+/**
+ * Innermost function scope containing a scope, or null at file level
+ */
+function enclosingFunction(scope: Scope): Scope | null {
+    for (let current: Scope | null = scope; current; current = current.parent) {
+        if (current.kind === 'function') return current;
+    }
+    return null;
+}
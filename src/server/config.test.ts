@@ -0,0 +1,173 @@
+/**
+ * Tests for workspace configuration loading.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import {
+    KITE_CONFIG_FILENAME,
+    createDefaultSettings,
+    normalizeSettings,
+    parseKiteConfig,
+    findKiteConfigPath,
+    mergeSettings,
+} from './config';
+
+describe('config', () => {
+    describe('normalizeSettings', () => {
+        it('should return defaults for missing settings', () => {
+            expect(normalizeSettings(undefined)).toEqual(createDefaultSettings());
+            expect(normalizeSettings({})).toEqual(createDefaultSettings());
+        });
+
+        it('should read validation rules', () => {
+            const settings = normalizeSettings({
+                validation: { rules: { 'long-function': 'off', 'unused-function': 'hint' } },
+            });
+            expect(settings.validation.rules).toEqual({ 'long-function': 'off', 'unused-function': 'hint' });
+        });
+
+        it('should read formatting options', () => {
+            expect(normalizeSettings({ format: { tabSize: 2, insertSpaces: false } }).format)
+                .toEqual({ tabSize: 2, insertSpaces: false });
+            expect(normalizeSettings({ format: { tabSize: 0, insertSpaces: 'yes' } }).format).toEqual({});
+        });
+
+        it('should read the tag policy', () => {
+            const settings = normalizeSettings({
+                validation: {
+                    tags: {
+                        required: ['CostCenter', 7],
+                        allowedValues: { Environment: ['dev', 'prod', null], Team: 'platform' },
+                    },
+                },
+            });
+            expect(settings.validation.tags).toEqual({
+                required: ['CostCenter'],
+                allowedValues: { Environment: ['dev', 'prod'] },
+            });
+        });
+
+        it('should read the provider registry', () => {
+            const settings = normalizeSettings({
+                providers: [
+                    'gcp',
+                    { name: 'aws', aliases: ['amazon', 1], namespaces: ['S3', 'EC2'] },
+                    { aliases: ['azurerm'] },
+                    42,
+                ],
+            });
+            expect(settings.providers).toEqual([
+                { name: 'gcp', aliases: [], namespaces: [] },
+                { name: 'aws', aliases: ['amazon'], namespaces: ['S3', 'EC2'] },
+            ]);
+        });
+
+        it('should read exclude patterns', () => {
+            expect(normalizeSettings({ exclude: ['**/generated/**', 42] }).exclude).toEqual(['**/generated/**']);
+            expect(normalizeSettings({ exclude: '**/generated/**' }).exclude).toEqual([]);
+        });
+    });
+
+    describe('parseKiteConfig', () => {
+        it('should parse a config file', () => {
+            const settings = parseKiteConfig('{ "validation": { "rules": { "circular-imports": "error" } } }');
+            expect(settings?.validation.rules).toEqual({ 'circular-imports': 'error' });
+        });
+
+        it('should return null for invalid JSON', () => {
+            expect(parseKiteConfig('{ validation: ')).toBeNull();
+        });
+    });
+
+    describe('findKiteConfigPath', () => {
+        const root = path.resolve('/project');
+
+        it('should find config in the same directory', () => {
+            const configPath = path.join(root, 'stacks', KITE_CONFIG_FILENAME);
+            const result = findKiteConfigPath(
+                path.join(root, 'stacks', 'main.kite'), [root], p => p === configPath
+            );
+            expect(result).toBe(configPath);
+        });
+
+        it('should walk up to the workspace root', () => {
+            const configPath = path.join(root, KITE_CONFIG_FILENAME);
+            const result = findKiteConfigPath(
+                path.join(root, 'stacks', 'prod', 'main.kite'), [root], p => p === configPath
+            );
+            expect(result).toBe(configPath);
+        });
+
+        it('should not search above the workspace root', () => {
+            const outside = path.join(path.dirname(root), KITE_CONFIG_FILENAME);
+            const result = findKiteConfigPath(
+                path.join(root, 'main.kite'), [root], p => p === outside
+            );
+            expect(result).toBeNull();
+        });
+
+        it('should return null when no config exists', () => {
+            expect(findKiteConfigPath(path.join(root, 'main.kite'), [root], () => false)).toBeNull();
+        });
+    });
+
+    describe('mergeSettings', () => {
+        it('should let later layers override rules', () => {
+            const editor = normalizeSettings({
+                validation: { rules: { 'long-function': 'off', 'unused-function': 'hint' } },
+            });
+            const file = normalizeSettings({
+                validation: { rules: { 'long-function': 'error' } },
+            });
+
+            expect(mergeSettings(editor, file).validation.rules).toEqual({
+                'long-function': 'error',
+                'unused-function': 'hint',
+            });
+        });
+
+        it('should combine required tags and let later layers override allowed values', () => {
+            const editor = normalizeSettings({
+                validation: { tags: { required: ['Owner'], allowedValues: { Environment: ['dev'], Team: ['a'] } } },
+            });
+            const file = normalizeSettings({
+                validation: { tags: { required: ['CostCenter', 'Owner'], allowedValues: { Environment: ['dev', 'prod'] } } },
+            });
+
+            expect(mergeSettings(editor, file).validation.tags).toEqual({
+                required: ['Owner', 'CostCenter'],
+                allowedValues: { Environment: ['dev', 'prod'], Team: ['a'] },
+            });
+        });
+
+        it('should let later layers redefine providers by name', () => {
+            const editor = normalizeSettings({ providers: ['aws', 'gcp'] });
+            const file = normalizeSettings({ providers: [{ name: 'aws', namespaces: ['S3'] }, 'azure'] });
+
+            expect(mergeSettings(editor, file).providers).toEqual([
+                { name: 'gcp', aliases: [], namespaces: [] },
+                { name: 'aws', aliases: [], namespaces: ['S3'] },
+                { name: 'azure', aliases: [], namespaces: [] },
+            ]);
+        });
+
+        it('should combine exclude patterns of all layers', () => {
+            const editor = normalizeSettings({ exclude: ['**/build/**'] });
+            const file = normalizeSettings({ exclude: ['**/generated/**', '**/build/**'] });
+
+            expect(mergeSettings(editor, file).exclude).toEqual(['**/build/**', '**/generated/**']);
+        });
+
+        it('should let later layers override formatting options', () => {
+            const editor = normalizeSettings({ format: { tabSize: 2, insertSpaces: true } });
+            const file = normalizeSettings({ format: { tabSize: 4 } });
+
+            expect(mergeSettings(editor, file).format).toEqual({ tabSize: 4, insertSpaces: true });
+        });
+
+        it('should skip missing layers', () => {
+            expect(mergeSettings(null, undefined)).toEqual(createDefaultSettings());
+        });
+    });
+});
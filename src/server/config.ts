@@ -0,0 +1,200 @@
+/**
+ * Workspace configuration for the Kite language server.
+ *
+ * Settings come from two places:
+ * - Editor settings under the `kite` section (pulled via workspace/configuration)
+ * - A `kite.config.json` file checked into the workspace
+ *
+ * Values from the config file take precedence over editor settings, so a
+ * project can pin the same rules for everyone working on it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProviderInfo, RuleConfiguration, TagPolicy } from './types';
+import { normalizeRuleConfiguration } from './handlers/validation/rules';
+
+/** Name of the workspace configuration file */
+export const KITE_CONFIG_FILENAME = 'kite.config.json';
+
+/**
+ * Kite settings, as read from editor settings or the workspace config file.
+ */
+export interface KiteSettings {
+    validation: {
+        /** Per-rule enablement and severity */
+        rules: RuleConfiguration;
+        /** Tagging rules for `@tags` */
+        tags: TagPolicy;
+    };
+    /** Cloud providers accepted by `@provider` (not checked when empty) */
+    providers: ProviderInfo[];
+    /** Glob patterns of workspace files to leave out of cross-file features */
+    exclude: string[];
+    /** Formatting options that override the editor's (pinned by a project for everyone) */
+    format: {
+        tabSize?: number;
+        insertSpaces?: boolean;
+    };
+}
+
+/**
+ * Create settings with every option at its default.
+ */
+export function createDefaultSettings(): KiteSettings {
+    return {
+        validation: { rules: {}, tags: { required: [], allowedValues: {} } },
+        providers: [],
+        exclude: [],
+        format: {},
+    };
+}
+
+/**
+ * Normalize a raw settings object (the `kite` section, or a parsed config file).
+ * Missing or malformed values fall back to defaults.
+ */
+export function normalizeSettings(raw: unknown): KiteSettings {
+    const settings = createDefaultSettings();
+    if (!isObject(raw)) return settings;
+
+    const validation = raw.validation;
+    if (isObject(validation)) {
+        settings.validation.rules = normalizeRuleConfiguration(validation.rules);
+        settings.validation.tags = normalizeTagPolicy(validation.tags);
+    }
+
+    if (Array.isArray(raw.providers)) {
+        settings.providers = normalizeProviders(raw.providers);
+    }
+
+    const format = raw.format;
+    if (isObject(format)) {
+        if (typeof format.tabSize === 'number' && Number.isInteger(format.tabSize) && format.tabSize > 0) {
+            settings.format.tabSize = format.tabSize;
+        }
+        if (typeof format.insertSpaces === 'boolean') {
+            settings.format.insertSpaces = format.insertSpaces;
+        }
+    }
+
+    if (Array.isArray(raw.exclude)) {
+        settings.exclude = raw.exclude.filter((pattern): pattern is string => typeof pattern === 'string');
+    }
+
+    return settings;
+}
+
+/**
+ * Normalize a tag policy (`validation.tags`). Keys and values that are not strings are dropped.
+ */
+function normalizeTagPolicy(raw: unknown): TagPolicy {
+    const policy: TagPolicy = { required: [], allowedValues: {} };
+    if (!isObject(raw)) return policy;
+
+    if (Array.isArray(raw.required)) {
+        policy.required = raw.required.filter((key): key is string => typeof key === 'string');
+    }
+    if (isObject(raw.allowedValues)) {
+        for (const [key, values] of Object.entries(raw.allowedValues)) {
+            if (Array.isArray(values)) {
+                policy.allowedValues[key] = values.filter((value): value is string => typeof value === 'string');
+            }
+        }
+    }
+    return policy;
+}
+
+/**
+ * Normalize the provider registry (`providers`). An entry is a provider name or an object
+ * with a name and optional aliases and namespaces; entries without a name are dropped.
+ */
+function normalizeProviders(raw: unknown[]): ProviderInfo[] {
+    const providers: ProviderInfo[] = [];
+    for (const entry of raw) {
+        if (typeof entry === 'string') {
+            if (entry) providers.push({ name: entry, aliases: [], namespaces: [] });
+            continue;
+        }
+        if (!isObject(entry) || typeof entry.name !== 'string' || !entry.name) continue;
+        providers.push({
+            name: entry.name,
+            aliases: stringsOf(entry.aliases),
+            namespaces: stringsOf(entry.namespaces),
+        });
+    }
+    return providers;
+}
+
+/**
+ * Parse the contents of a kite.config.json file.
+ * @returns The normalized settings, or null if the file is not valid JSON
+ */
+export function parseKiteConfig(text: string): KiteSettings | null {
+    try {
+        return normalizeSettings(JSON.parse(text));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Find the kite.config.json that applies to a file by walking up from the
+ * file's directory. The search stops at the first workspace root containing the file.
+ *
+ * @param filePath - Absolute path of the .kite file
+ * @param workspaceRoots - Workspace folder paths (search boundary)
+ * @param exists - File existence check (injectable for testing)
+ * @returns Path to the config file, or null if none applies
+ */
+export function findKiteConfigPath(
+    filePath: string,
+    workspaceRoots: string[],
+    exists: (p: string) => boolean = fs.existsSync
+): string | null {
+    let dir = path.dirname(filePath);
+
+    while (true) {
+        const candidate = path.join(dir, KITE_CONFIG_FILENAME);
+        if (exists(candidate)) return candidate;
+
+        if (workspaceRoots.some(root => path.resolve(root) === path.resolve(dir))) break;
+
+        const parent = path.dirname(dir);
+        if (parent === dir) break;
+        dir = parent;
+    }
+
+    return null;
+}
+
+/**
+ * Merge settings layers. Later layers override earlier ones rule by rule, tag by tag
+ * (allowed values) and provider by provider; exclude patterns and required tags of all layers apply.
+ */
+export function mergeSettings(...layers: (KiteSettings | null | undefined)[]): KiteSettings {
+    const merged = createDefaultSettings();
+
+    for (const layer of layers) {
+        if (!layer) continue;
+        merged.validation.rules = { ...merged.validation.rules, ...layer.validation.rules };
+        merged.validation.tags = {
+            required: [...new Set([...merged.validation.tags.required, ...layer.validation.tags.required])],
+            allowedValues: { ...merged.validation.tags.allowedValues, ...layer.validation.tags.allowedValues },
+        };
+        const overridden = new Set(layer.providers.map(p => p.name));
+        merged.providers = [...merged.providers.filter(p => !overridden.has(p.name)), ...layer.providers];
+        merged.exclude = [...new Set([...merged.exclude, ...layer.exclude])];
+        merged.format = { ...merged.format, ...layer.format };
+    }
+
+    return merged;
+}
+
+function stringsOf(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -127,7 +127,7 @@ export const DECORATORS: DecoratorInfo[] = [
         name: 'description', category: 'metadata',
         description: 'Documentation for any declaration',
         argument: 'string', argType: 'string',
-        targets: 'resource, component, input, output, var, schema, schema property, fun',
+        targets: 'resource, component, input, output, var, schema, schema property, struct, struct property, fun',
         example: '@description("The port number for the web server")\ninput number port = 8080',
         snippet: 'description("$1")', argHint: '("text")', sortOrder: 200
     },
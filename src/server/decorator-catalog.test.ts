@@ -0,0 +1,97 @@
+/**
+ * Tests for the decorator catalog.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DECORATORS } from './constants';
+import { mergeDecorators, normalizeDecorators, parseDecoratorsFile } from './decorator-catalog';
+
+describe('decorator catalog', () => {
+    describe('normalizeDecorators', () => {
+        it('should read decorator definitions', () => {
+            const [decorator] = normalizeDecorators({
+                decorators: [{
+                    name: 'provisionOn',
+                    category: 'resource',
+                    targets: ['resource', 'component instance'],
+                    argType: 'array',
+                    argument: 'array of cloud names',
+                    snippet: 'provisionOn([$1])',
+                    description: 'Clouds the resource is provisioned on',
+                    example: '@provisionOn(["aws"])',
+                }],
+            });
+
+            expect(decorator).toEqual({
+                name: 'provisionOn',
+                category: 'resource',
+                targets: 'resource, component instance',
+                argType: 'array',
+                argument: 'array of cloud names',
+                snippet: 'provisionOn([$1])',
+                description: 'Clouds the resource is provisioned on',
+                example: '@provisionOn(["aws"])',
+                sortOrder: 1000,
+            });
+        });
+
+        it('should fall back to defaults for missing or malformed fields', () => {
+            const [decorator] = normalizeDecorators({
+                decorators: [{ name: 'owner', category: 'other', argType: 'date', targets: ['table'] }],
+            });
+
+            expect(decorator).toEqual({
+                name: 'owner',
+                category: 'metadata',
+                description: '',
+                argType: 'none',
+                example: '@owner',
+                sortOrder: 1000,
+            });
+        });
+
+        it('should read struct targets', () => {
+            const [decorator] = normalizeDecorators({
+                decorators: [{ name: 'serializable', targets: ['struct', 'struct property'] }],
+            });
+
+            expect(decorator.targets).toBe('struct, struct property');
+        });
+
+        it('should drop definitions without a valid name', () => {
+            expect(normalizeDecorators({ decorators: [{ name: 'has space' }, { description: 'x' }, 'owner'] })).toEqual([]);
+            expect(normalizeDecorators({ decorators: 'owner' })).toEqual([]);
+            expect(normalizeDecorators(undefined)).toEqual([]);
+        });
+    });
+
+    describe('parseDecoratorsFile', () => {
+        it('should parse a decorators file', () => {
+            expect(parseDecoratorsFile('{ "decorators": [{ "name": "owner", "argType": "string" }] }'))
+                .toEqual([expect.objectContaining({ name: 'owner', argType: 'string' })]);
+        });
+
+        it('should return null for invalid JSON', () => {
+            expect(parseDecoratorsFile('{ decorators: ')).toBeNull();
+        });
+    });
+
+    describe('mergeDecorators', () => {
+        it('should add custom decorators after the built-in ones', () => {
+            const catalog = mergeDecorators(normalizeDecorators({ decorators: [{ name: 'owner' }] }));
+
+            expect(catalog.slice(0, DECORATORS.length)).toEqual(DECORATORS);
+            expect(catalog.map(d => d.name)).toContain('owner');
+        });
+
+        it('should not redefine built-in decorators or add a name twice', () => {
+            const catalog = mergeDecorators(
+                normalizeDecorators({ decorators: [{ name: 'minValue' }, { name: 'owner', description: 'first' }] }),
+                normalizeDecorators({ decorators: [{ name: 'owner', description: 'second' }] })
+            );
+
+            expect(catalog.find(d => d.name === 'minValue')).toBe(DECORATORS.find(d => d.name === 'minValue'));
+            expect(catalog.filter(d => d.name === 'owner').map(d => d.description)).toEqual(['first']);
+        });
+    });
+});
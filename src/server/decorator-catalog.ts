@@ -0,0 +1,123 @@
+/**
+ * Decorator catalog for the Kite language server.
+ *
+ * The built-in decorators (`DECORATORS`) are extended with decorators defined
+ * in a `kite.decorators.json` file at the root of a workspace folder, so an
+ * organisation's own decorators are validated, completed and documented like
+ * the built-in ones:
+ *
+ * ```json
+ * {
+ *     "decorators": [{
+ *         "name": "provisionOn",
+ *         "category": "resource",
+ *         "targets": ["resource", "component instance"],
+ *         "argType": "array",
+ *         "snippet": "provisionOn([$1])",
+ *         "description": "Clouds the resource is provisioned on",
+ *         "example": "@provisionOn([\"aws\", \"azure\"])\nresource Storage backup {}"
+ *     }]
+ * }
+ * ```
+ */
+
+import { ArgType, DecoratorInfo } from './types';
+import { DECORATORS } from './constants';
+
+/** Name of the workspace decorator definitions file */
+export const KITE_DECORATORS_FILENAME = 'kite.decorators.json';
+
+/** Targets a decorator definition can list */
+export const DECORATOR_TARGET_NAMES = [
+    'input', 'output', 'resource', 'component', 'component instance', 'component definition',
+    'schema', 'schema property', 'struct', 'struct property', 'var', 'fun',
+] as const;
+
+const CATEGORIES: readonly DecoratorInfo['category'][] = ['validation', 'resource', 'metadata'];
+
+const ARG_TYPES: readonly ArgType[] = ['none', 'number', 'string', 'array', 'object', 'reference', 'named'];
+
+/** Custom decorators are listed after the built-in ones */
+const CUSTOM_SORT_ORDER = 1000;
+
+/**
+ * Normalize the decorator definitions of a parsed `kite.decorators.json`.
+ * Definitions without a valid name are dropped; other missing or malformed
+ * fields fall back to defaults (no arguments, any target).
+ */
+export function normalizeDecorators(raw: unknown): DecoratorInfo[] {
+    const definitions = isObject(raw) && Array.isArray(raw.decorators) ? raw.decorators : [];
+    const decorators: DecoratorInfo[] = [];
+
+    for (const definition of definitions) {
+        if (!isObject(definition)) continue;
+        const name = definition.name;
+        if (typeof name !== 'string' || !/^\w+$/.test(name)) continue;
+
+        const decorator: DecoratorInfo = {
+            name,
+            category: CATEGORIES.find(c => c === definition.category) ?? 'metadata',
+            description: typeof definition.description === 'string' ? definition.description : '',
+            argType: ARG_TYPES.find(t => t === definition.argType) ?? 'none',
+            example: typeof definition.example === 'string' ? definition.example : `@${name}`,
+            sortOrder: CUSTOM_SORT_ORDER + decorators.length,
+        };
+
+        if (Array.isArray(definition.targets)) {
+            const targets = definition.targets.filter(
+                (t): t is string => typeof t === 'string' && (DECORATOR_TARGET_NAMES as readonly string[]).includes(t)
+            );
+            if (targets.length > 0) {
+                decorator.targets = targets.join(', ');
+            }
+        }
+        if (typeof definition.argument === 'string') {
+            decorator.argument = definition.argument;
+        }
+        if (typeof definition.snippet === 'string') {
+            decorator.snippet = definition.snippet;
+        }
+        if (typeof definition.argHint === 'string') {
+            decorator.argHint = definition.argHint;
+        }
+
+        decorators.push(decorator);
+    }
+
+    return decorators;
+}
+
+/**
+ * Parse the contents of a kite.decorators.json file.
+ * @returns The normalized decorator definitions, or null if the file is not valid JSON
+ */
+export function parseDecoratorsFile(text: string): DecoratorInfo[] | null {
+    try {
+        return normalizeDecorators(JSON.parse(text));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Merge custom decorator definitions into the built-in catalog.
+ * Built-in decorators cannot be redefined, and the first definition of a name wins.
+ */
+export function mergeDecorators(...layers: (DecoratorInfo[] | null | undefined)[]): DecoratorInfo[] {
+    const catalog = [...DECORATORS];
+    const names = new Set(catalog.map(d => d.name));
+
+    for (const layer of layers) {
+        for (const decorator of layer ?? []) {
+            if (names.has(decorator.name)) continue;
+            names.add(decorator.name);
+            catalog.push(decorator);
+        }
+    }
+
+    return catalog;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
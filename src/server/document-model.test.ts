@@ -0,0 +1,104 @@
+/**
+ * Tests for shared document models.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createDocumentModel, createDocumentModelStore, resolveDocumentModel } from './document-model';
+
+describe('document model', () => {
+    describe('createDocumentModel', () => {
+        it('should parse once and share the result', () => {
+            const model = createDocumentModel('file:///test.kite', 'var x = 1');
+
+            expect(model.parseResult).toBe(model.parseResult);
+            expect(model.parseResult.errors).toHaveLength(0);
+        });
+
+        it('should scan declarations from the shared parse tree', () => {
+            const model = createDocumentModel('file:///test.kite', 'var x = 1\nschema Config {\n  string name\n}');
+
+            expect(model.declarations.map(d => d.name)).toEqual(['x', 'Config']);
+            expect(model.declarations[0].uri).toBe('file:///test.kite');
+        });
+
+        it('should expose the token stream', () => {
+            const model = createDocumentModel('file:///test.kite', 'var x = 1');
+
+            expect(model.tokens.map(t => t.text)).toContain('var');
+        });
+
+        it('should report syntax errors', () => {
+            const model = createDocumentModel('file:///test.kite', 'schema {');
+
+            expect(model.parseResult.errors.length).toBeGreaterThan(0);
+        });
+    });
+
+    describe('createDocumentModelStore', () => {
+        it('should reuse the model while the text is unchanged', () => {
+            const store = createDocumentModelStore();
+            const first = store.get('file:///test.kite', 'var x = 1', 1);
+
+            expect(store.get('file:///test.kite', 'var x = 1', 1)).toBe(first);
+            expect(store.get('file:///test.kite', 'var x = 1')).toBe(first);
+        });
+
+        it('should create a new model for a new version', () => {
+            const store = createDocumentModelStore();
+            const first = store.get('file:///test.kite', 'var x = 1', 1);
+            const second = store.get('file:///test.kite', 'var x = 2', 2);
+
+            expect(second).not.toBe(first);
+            expect(second.version).toBe(2);
+            expect(second.text).toBe('var x = 2');
+        });
+
+        it('should treat file paths and URIs as the same file', () => {
+            const store = createDocumentModelStore();
+            const model = store.get('/project/main.kite', 'var x = 1');
+
+            expect(model.uri).toBe('file:///project/main.kite');
+            expect(store.get('file:///project/main.kite', 'var x = 1')).toBe(model);
+        });
+
+        it('should drop the least recently used model', () => {
+            const store = createDocumentModelStore(2);
+            const a = store.get('file:///a.kite', 'var a = 1');
+            store.get('file:///b.kite', 'var b = 1');
+            store.get('file:///a.kite', 'var a = 1');
+            store.get('file:///c.kite', 'var c = 1');
+
+            expect(store.get('file:///a.kite', 'var a = 1')).toBe(a);
+            expect(store.get('file:///b.kite', 'var b = 1').text).toBe('var b = 1');
+        });
+
+        it('should drop models on delete and clear', () => {
+            const store = createDocumentModelStore();
+            const model = store.get('file:///test.kite', 'var x = 1');
+
+            store.delete('file:///test.kite');
+            expect(store.get('file:///test.kite', 'var x = 1')).not.toBe(model);
+
+            const next = store.get('file:///test.kite', 'var x = 1');
+            store.clear();
+            expect(store.get('file:///test.kite', 'var x = 1')).not.toBe(next);
+        });
+    });
+
+    describe('resolveDocumentModel', () => {
+        it('should use the model from the context', () => {
+            const store = createDocumentModelStore();
+            const ctx = { getDocumentModel: store.get };
+            const model = resolveDocumentModel(ctx, 'file:///test.kite', 'var x = 1');
+
+            expect(resolveDocumentModel(ctx, 'file:///test.kite', 'var x = 1')).toBe(model);
+        });
+
+        it('should build a model without a context', () => {
+            const model = resolveDocumentModel(undefined, '/project/main.kite', 'var x = 1');
+
+            expect(model.uri).toBe('file:///project/main.kite');
+            expect(model.text).toBe('var x = 1');
+        });
+    });
+});
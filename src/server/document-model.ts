@@ -0,0 +1,165 @@
+/**
+ * Shared document models for the Kite language server.
+ *
+ * A document model owns everything derived from one version of a file: the
+ * ANTLR parse result, the token stream, the scanned declarations, the
+ * semantic model, the type inference and the constant evaluator. Handlers
+ * and validation checks get the model through their context object instead
+ * of calling parseKite themselves, so each file version is lexed and parsed
+ * once.
+ */
+
+import { Token } from 'antlr4';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { Declaration, BaseContext } from './types';
+import { parseKite, ParseResult } from '../parser/parse-utils';
+import { scanDocumentAST } from '../parser/ast-scanner';
+import { buildSemanticModel, SemanticModel } from '../parser/semantic-model';
+import { buildTypeInference, TypeInference } from '../parser/type-inference';
+import { buildConstantEvaluator, ConstantEvaluator } from '../parser/constant-evaluator';
+
+/** Maximum number of models kept by a store (least recently used are dropped first) */
+export const MAX_DOCUMENT_MODELS = 50;
+
+/**
+ * Parse tree, tokens, declarations, semantic model, types and constants of one file version.
+ * Derived data is computed on first access.
+ */
+export interface DocumentModel {
+    readonly uri: string;
+    /** Document version (0 for files read from disk) */
+    readonly version: number;
+    readonly text: string;
+    /** Parse tree, token stream and syntax errors */
+    readonly parseResult: ParseResult;
+    /** All tokens, including hidden channels, ending with EOF */
+    readonly tokens: Token[];
+    /** Declarations found by scanDocumentAST */
+    readonly declarations: Declaration[];
+    /** Scope tree, symbols and resolved references */
+    readonly semanticModel: SemanticModel;
+    /** Expression and symbol types */
+    readonly types: TypeInference;
+    /** Values of constant expressions */
+    readonly constants: ConstantEvaluator;
+}
+
+/**
+ * Create a document model. Nothing is parsed until a derived property is read.
+ */
+export function createDocumentModel(uri: string, text: string, version = 0): DocumentModel {
+    let parseResult: ParseResult | undefined;
+    let declarations: Declaration[] | undefined;
+    let semanticModel: SemanticModel | undefined;
+    let types: TypeInference | undefined;
+    let constants: ConstantEvaluator | undefined;
+
+    const model: DocumentModel = {
+        uri,
+        version,
+        text,
+        get parseResult() {
+            return parseResult ??= parseKite(text);
+        },
+        get tokens() {
+            return model.parseResult.tokens.tokens;
+        },
+        get declarations() {
+            return declarations ??= scanDocumentAST(
+                TextDocument.create(uri, 'kite', version, text),
+                model.parseResult,
+                () => model.constants
+            );
+        },
+        get semanticModel() {
+            return semanticModel ??= buildSemanticModel(text, model.parseResult);
+        },
+        get types() {
+            return types ??= buildTypeInference(text, model.parseResult, model.semanticModel);
+        },
+        get constants() {
+            return constants ??= buildConstantEvaluator(text, model.parseResult, model.semanticModel);
+        },
+    };
+    return model;
+}
+
+/**
+ * Cache of document models keyed by URI. A model is reused while the
+ * file's text is unchanged.
+ */
+export interface DocumentModelStore {
+    /**
+     * Get the model for a file's current text (file paths are converted to URIs).
+     * Without a version, a cached model with the same text is reused whatever its version.
+     */
+    get(uriOrPath: string, text: string, version?: number): DocumentModel;
+    /** Drop the model of a file */
+    delete(uriOrPath: string): void;
+    /** Drop all models */
+    clear(): void;
+}
+
+/**
+ * Create a document model store.
+ * @param maxModels - Models kept before the least recently used are dropped
+ */
+export function createDocumentModelStore(maxModels: number = MAX_DOCUMENT_MODELS): DocumentModelStore {
+    const models = new Map<string, DocumentModel>();
+
+    return {
+        get(uriOrPath, text, version) {
+            const uri = toUri(uriOrPath);
+            let model = models.get(uri);
+            if (!model || model.text !== text || (version !== undefined && model.version !== version)) {
+                model = createDocumentModel(uri, text, version);
+            }
+
+            // Re-insert to mark as most recently used
+            models.delete(uri);
+            models.set(uri, model);
+            if (models.size > maxModels) {
+                const oldest = models.keys().next().value;
+                if (oldest !== undefined) models.delete(oldest);
+            }
+            return model;
+        },
+
+        delete(uriOrPath) {
+            models.delete(toUri(uriOrPath));
+        },
+
+        clear() {
+            models.clear();
+        },
+    };
+}
+
+/**
+ * Get the document model for a file from the context, or build an uncached one
+ * when the context does not provide models.
+ */
+export function resolveDocumentModel(
+    ctx: Pick<BaseContext, 'getDocumentModel'> | undefined,
+    uriOrPath: string,
+    text: string
+): DocumentModel {
+    return ctx?.getDocumentModel?.(uriOrPath, text) ?? createDocumentModel(toUri(uriOrPath), text);
+}
+
+/**
+ * Get the parse result of a file's text, shared through the context when available.
+ * Text without a known file is parsed directly.
+ */
+export function parseWithContext(
+    ctx: Pick<BaseContext, 'getDocumentModel'> | undefined,
+    uriOrPath: string | undefined,
+    text: string
+): ParseResult {
+    return uriOrPath ? resolveDocumentModel(ctx, uriOrPath, text).parseResult : parseKite(text);
+}
+
+function toUri(uriOrPath: string): string {
+    return uriOrPath.includes('://') ? uriOrPath : URI.file(uriOrPath).toString();
+}
@@ -2,9 +2,10 @@
  * Tests for auto-import functionality
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Connection } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { isPasteOperation, AutoImportContext } from './index';
+import { isPasteOperation, handleAutoImport, cleanupAutoImport, AutoImportContext } from './index';
 
 describe('Auto-import', () => {
     describe('isPasteOperation', () => {
@@ -74,4 +75,44 @@ describe('Auto-import', () => {
         });
     });
 
+    describe('handleAutoImport', () => {
+        const uri = 'file:///test.kite';
+        const connection = {} as Connection;
+
+        const createContext = () => ({
+            findKiteFilesInWorkspace: vi.fn(() => []),
+            getFileContent: vi.fn(() => null),
+            getDeclarations: vi.fn(() => undefined),
+        }) satisfies AutoImportContext;
+
+        afterEach(() => {
+            cleanupAutoImport(uri);
+            vi.useRealTimers();
+        });
+
+        it('should not look up the workspace for typed characters', () => {
+            vi.useFakeTimers();
+            const ctx = createContext();
+
+            handleAutoImport(TextDocument.create(uri, 'kite', 1, 'var x = 1'), connection, ctx);
+            handleAutoImport(TextDocument.create(uri, 'kite', 2, 'var x = 12'), connection, ctx);
+            vi.runAllTimers();
+
+            expect(ctx.findKiteFilesInWorkspace).not.toHaveBeenCalled();
+            expect(ctx.getDeclarations).not.toHaveBeenCalled();
+        });
+
+        it('should look up the workspace once a pasted change settles', () => {
+            vi.useFakeTimers();
+            const ctx = createContext();
+
+            handleAutoImport(TextDocument.create(uri, 'kite', 1, 'var x = 1'), connection, ctx);
+            handleAutoImport(TextDocument.create(uri, 'kite', 2, 'var x = 1\nresource DatabaseConfig db {\n}'), connection, ctx);
+            expect(ctx.findKiteFilesInWorkspace).not.toHaveBeenCalled();
+
+            vi.runAllTimers();
+
+            expect(ctx.findKiteFilesInWorkspace).toHaveBeenCalled();
+        });
+    });
 });
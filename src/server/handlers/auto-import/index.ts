@@ -13,6 +13,7 @@ import { URI } from 'vscode-uri';
 import * as path from 'path';
 import { ImportSuggestion, Declaration } from '../../types';
 import { findSymbolInWorkspace } from '../../utils/workspace-utils';
+import { WorkspaceIndex } from '../../workspace-index';
 
 /**
  * Minimum number of characters inserted to trigger auto-import (paste detection)
@@ -31,6 +32,8 @@ export interface AutoImportContext {
     findKiteFilesInWorkspace: () => string[];
     getFileContent: (filePath: string, currentDocUri?: string) => string | null;
     getDeclarations: (uri: string) => Declaration[] | undefined;
+    /** Shared workspace index, used to skip files that cannot declare a symbol */
+    workspaceIndex?: WorkspaceIndex;
 }
 
 /**
@@ -172,7 +175,8 @@ function findUndefinedSymbols(
             ctx,
             currentFilePath,
             currentUri,
-            (content) => findSymbolDefinition(content, symbol) ? symbol : null
+            (content) => findSymbolDefinition(content, symbol) ? symbol : null,
+            symbol
         );
 
         if (result.result && result.filePath) {
@@ -257,7 +261,8 @@ export function isPasteOperation(
 }
 
 /**
- * Handle document change and trigger auto-import if needed
+ * Handle document change and trigger auto-import if needed.
+ * Called on every edit: changes smaller than a paste return before any lookup through ctx.
  */
 export function handleAutoImport(
     document: TextDocument,
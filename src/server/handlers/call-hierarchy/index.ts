@@ -13,6 +13,7 @@ import {
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
+import { WorkspaceIndex, getWorkspaceIndex } from '../../workspace-index';
 
 /**
  * Context for call hierarchy operations
@@ -20,6 +21,8 @@ import { URI } from 'vscode-uri';
 export interface CallHierarchyContext {
     findKiteFilesInWorkspace: () => string[];
     getFileContent: (filePath: string) => string | null;
+    /** Shared workspace index (a temporary one is built when absent) */
+    workspaceIndex?: WorkspaceIndex;
 }
 
 /**
@@ -101,18 +104,16 @@ export function getIncomingCalls(
     const currentCalls = findCallsToFunction(document.getText(), targetName, document.uri);
     results.push(...currentCalls);
 
-    // Search other files in workspace
-    const kiteFiles = ctx.findKiteFilesInWorkspace();
+    // Search other files in workspace that mention the function
     const currentPath = URI.parse(document.uri).fsPath;
 
-    for (const filePath of kiteFiles) {
-        if (filePath === currentPath) continue;
+    for (const file of getWorkspaceIndex(ctx).findFilesMentioning(targetName)) {
+        if (file.filePath === currentPath) continue;
 
-        const content = ctx.getFileContent(filePath);
+        const content = ctx.getFileContent(file.filePath);
         if (!content) continue;
 
-        const fileUri = URI.file(filePath).toString();
-        const fileCalls = findCallsToFunction(content, targetName, fileUri);
+        const fileCalls = findCallsToFunction(content, targetName, file.uri);
         results.push(...fileCalls);
     }
 
@@ -181,17 +182,19 @@ export function getOutgoingCalls(
         allFunctions.set(func.name, { func, uri: document.uri });
     }
 
-    // Functions in other files
-    const kiteFiles = ctx.findKiteFilesInWorkspace();
-    for (const filePath of kiteFiles) {
-        const content = ctx.getFileContent(filePath);
-        if (!content) continue;
+    // Functions in other files, looked up in the files that declare them
+    const index = getWorkspaceIndex(ctx);
+    for (const funcName of callMap.keys()) {
+        if (allFunctions.has(funcName)) continue;
+
+        for (const { file, symbol } of index.findDeclarations(funcName)) {
+            if (symbol.kind !== SymbolKind.Function) continue;
 
-        const fileUri = URI.file(filePath).toString();
-        const fileFuncs = extractFunctions(content);
-        for (const func of fileFuncs) {
-            if (!allFunctions.has(func.name)) {
-                allFunctions.set(func.name, { func, uri: fileUri });
+            const content = ctx.getFileContent(file.filePath);
+            const func = content ? extractFunctions(content).find(f => f.name === funcName) : undefined;
+            if (func) {
+                allFunctions.set(funcName, { func, uri: file.uri });
+                break;
             }
         }
     }
@@ -0,0 +1,147 @@
+/**
+ * Tests for add missing struct fields code action
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic, DiagnosticSeverity, Range, CodeActionKind, TextEdit } from 'vscode-languageserver/node';
+import { createAddMissingStructFieldsAction, MissingStructFieldsData } from './add-missing-struct-fields';
+
+function createDocument(content: string, uri = 'file:///workspace/test.kite'): TextDocument {
+    return TextDocument.create(uri, 'kite', 1, content);
+}
+
+/** Diagnostic for the first object literal of the document */
+function createDiagnostic(
+    doc: TextDocument,
+    fields: { name: string; typeName: string }[],
+    options: Partial<MissingStructFieldsData> = {}
+): Diagnostic {
+    const text = doc.getText();
+    const data: MissingStructFieldsData = {
+        type: 'missing-struct-fields',
+        structName: 'Point',
+        fields,
+        openOffset: text.indexOf('{'),
+        closeOffset: text.lastIndexOf('}'),
+        separator: ':',
+        commaSeparated: true,
+        ...options,
+    };
+    return {
+        severity: DiagnosticSeverity.Error,
+        range: Range.create(doc.positionAt(data.openOffset), doc.positionAt(data.closeOffset + 1)),
+        message: 'Missing required field',
+        source: 'kite',
+        data,
+    };
+}
+
+/** Document text after applying the action's edit */
+function applyAction(doc: TextDocument, diagnostic: Diagnostic): string {
+    const action = createAddMissingStructFieldsAction(doc, diagnostic);
+    const edits = action!.edit!.changes![doc.uri] as TextEdit[];
+    return TextDocument.applyEdits(doc, edits);
+}
+
+describe('createAddMissingStructFieldsAction', () => {
+    it('should create a quick fix titled after the missing field', () => {
+        const doc = createDocument('var Point p = { x: 0 }');
+        const action = createAddMissingStructFieldsAction(doc, createDiagnostic(doc, [{ name: 'y', typeName: 'number' }]));
+
+        expect(action).not.toBeNull();
+        expect(action!.title).toBe("Add missing field 'y'");
+        expect(action!.kind).toBe(CodeActionKind.QuickFix);
+        expect(action!.isPreferred).toBe(true);
+    });
+
+    it('should title multiple fields with their count', () => {
+        const doc = createDocument('var Point p = {}');
+        const action = createAddMissingStructFieldsAction(doc, createDiagnostic(doc, [
+            { name: 'x', typeName: 'number' },
+            { name: 'y', typeName: 'number' },
+        ]));
+
+        expect(action!.title).toBe('Add 2 missing fields');
+    });
+
+    it('should append fields to a single-line literal', () => {
+        const doc = createDocument('var Point p = { x: 0 }');
+        const result = applyAction(doc, createDiagnostic(doc, [{ name: 'y', typeName: 'number' }]));
+
+        expect(result).toBe('var Point p = { x: 0, y: 0 }');
+    });
+
+    it('should fill an empty literal', () => {
+        const doc = createDocument('var User u = {}');
+        const result = applyAction(doc, createDiagnostic(doc, [
+            { name: 'name', typeName: 'string' },
+            { name: 'tags', typeName: 'string[]' },
+        ]));
+
+        expect(result).toBe('var User u = { name: "", tags: [] }');
+    });
+
+    it('should add one field per line to a comma-separated multi-line literal', () => {
+        const doc = createDocument(`var User u = {
+    name: "a",
+    email: "b"
+}`);
+        const result = applyAction(doc, createDiagnostic(doc, [
+            { name: 'id', typeName: 'string' },
+            { name: 'active', typeName: 'boolean' },
+        ]));
+
+        expect(result).toBe(`var User u = {
+    name: "a",
+    email: "b",
+    id: "",
+    active: false
+}`);
+    });
+
+    it('should keep literals without commas and with = separators in their style', () => {
+        const doc = createDocument(`resource Drawing d {
+    origin = {
+        x = 1
+    }
+}`);
+        const text = doc.getText();
+        const result = applyAction(doc, createDiagnostic(doc, [{ name: 'y', typeName: 'number' }], {
+            openOffset: text.indexOf('{', text.indexOf('origin')),
+            closeOffset: text.indexOf('}'),
+            separator: '=',
+            commaSeparated: false,
+        }));
+
+        expect(result).toBe(`resource Drawing d {
+    origin = {
+        x = 1
+        y = 0
+    }
+}`);
+    });
+
+    it('should indent fields of an empty multi-line literal', () => {
+        const doc = createDocument(`var Point p = {
+}`);
+        const result = applyAction(doc, createDiagnostic(doc, [{ name: 'x', typeName: 'number' }], {
+            commaSeparated: false,
+        }));
+
+        expect(result).toBe(`var Point p = {
+    x: 0
+}`);
+    });
+
+    it('should return null for other diagnostics', () => {
+        const doc = createDocument('var Point p = {}');
+        const diagnostic: Diagnostic = {
+            range: Range.create(0, 0, 0, 1),
+            message: 'Other',
+            source: 'kite',
+        };
+
+        expect(createAddMissingStructFieldsAction(doc, diagnostic)).toBeNull();
+    });
+});
@@ -0,0 +1,157 @@
+/**
+ * Add missing struct fields code action for the Kite language server.
+ * Provides a quick fix that adds the required fields missing from an object literal
+ * assigned to a struct type.
+ */
+
+import {
+    CodeAction,
+    CodeActionKind,
+    TextEdit,
+    Diagnostic,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { InferredExpression, ObjectField } from '../../../parser';
+import { getPlaceholderValue } from './generate-properties';
+
+/**
+ * Position and style of an object literal that fields are added to
+ */
+export interface ObjectLiteralLayout {
+    /** Offset of the object literal's opening brace */
+    openOffset: number;
+    /** Offset of the object literal's closing brace */
+    closeOffset: number;
+    /** Separator between field names and values in the literal */
+    separator: ':' | '=';
+    /** Whether the literal separates its fields with commas */
+    commaSeparated: boolean;
+}
+
+/**
+ * Data attached to missing struct field diagnostics
+ */
+export interface MissingStructFieldsData extends ObjectLiteralLayout {
+    type: 'missing-struct-fields';
+    structName: string;
+    fields: { name: string; typeName: string }[];
+}
+
+/**
+ * Check if diagnostic data is missing struct field data
+ */
+export function isMissingStructFieldsData(data: unknown): data is MissingStructFieldsData {
+    return (
+        typeof data === 'object' &&
+        data !== null &&
+        'type' in data &&
+        (data as MissingStructFieldsData).type === 'missing-struct-fields'
+    );
+}
+
+/**
+ * Layout of an object literal: its braces, and the separators its fields use
+ */
+export function getObjectLiteralLayout(text: string, literal: InferredExpression): ObjectLiteralLayout {
+    const fields = literal.fields ?? [];
+    const closeOffset = literal.end - 1;
+    return {
+        openOffset: literal.start,
+        closeOffset,
+        separator: fields.length > 0 && text.substring(fields[0].nameEnd, fields[0].value.start).includes('=') ? '=' : ':',
+        commaSeparated: fields.length === 0 || isCommaSeparated(text, fields, closeOffset),
+    };
+}
+
+/**
+ * Edit that adds fields (`name: value` entries) to an object literal.
+ * Fields are added after the last existing field, in the literal's own style:
+ * one per line for multi-line literals, comma-separated on one line otherwise.
+ */
+export function createObjectFieldsEdit(
+    document: TextDocument,
+    literal: ObjectLiteralLayout,
+    fields: { name: string; value: string }[]
+): TextEdit {
+    const text = document.getText();
+    const entries = fields.map(field => literal.separator === ':'
+        ? `${field.name}: ${field.value}`
+        : `${field.name} = ${field.value}`);
+
+    // End of the last field, or just after the opening brace of an empty literal
+    let contentEnd = literal.closeOffset;
+    while (contentEnd > literal.openOffset + 1 && /\s/.test(text[contentEnd - 1])) {
+        contentEnd--;
+    }
+    const hasFields = contentEnd > literal.openOffset + 1;
+    const needsComma = hasFields && literal.commaSeparated && text[contentEnd - 1] !== ',';
+
+    if (text.substring(literal.openOffset, literal.closeOffset).includes('\n')) {
+        const indent = hasFields
+            ? lineIndent(text, contentEnd - 1)
+            : lineIndent(text, literal.openOffset) + '    ';
+        const separator = literal.commaSeparated ? ',' : '';
+        const insertText = (needsComma ? ',' : '') + entries.map(entry => `\n${indent}${entry}`).join(separator);
+        return TextEdit.insert(document.positionAt(contentEnd), insertText);
+    }
+    if (hasFields) {
+        const insertText = (text[contentEnd - 1] === ',' ? ' ' : ', ') + entries.join(', ');
+        return TextEdit.insert(document.positionAt(contentEnd), insertText);
+    }
+    return TextEdit.replace(
+        { start: document.positionAt(literal.openOffset + 1), end: document.positionAt(literal.closeOffset) },
+        ` ${entries.join(', ')} `
+    );
+}
+
+/**
+ * Create a code action that adds the missing fields to an object literal.
+ */
+export function createAddMissingStructFieldsAction(
+    document: TextDocument,
+    diagnostic: Diagnostic
+): CodeAction | null {
+    if (!isMissingStructFieldsData(diagnostic.data)) return null;
+    const data = diagnostic.data;
+    if (data.fields.length === 0) return null;
+
+    const edit = createObjectFieldsEdit(document, data, data.fields.map(field => ({
+        name: field.name,
+        value: getPlaceholderValue(field.typeName),
+    })));
+
+    const title = data.fields.length === 1
+        ? `Add missing field '${data.fields[0].name}'`
+        : `Add ${data.fields.length} missing fields`;
+
+    return {
+        title,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: {
+            changes: {
+                [document.uri]: [edit]
+            }
+        }
+    };
+}
+
+/**
+ * Whether the fields of an object literal are separated by commas
+ */
+function isCommaSeparated(text: string, fields: ObjectField[], closeOffset: number): boolean {
+    const lastField = fields[fields.length - 1];
+    const gap = fields.length > 1
+        ? text.substring(fields[0].value.end, fields[1].nameStart)
+        : text.substring(lastField.value.end, closeOffset);
+    return gap.includes(',') || !text.substring(fields[0].nameStart, closeOffset).includes('\n');
+}
+
+/**
+ * Leading whitespace of the line containing an offset
+ */
+export function lineIndent(text: string, offset: number): string {
+    const lineStart = text.lastIndexOf('\n', offset) + 1;
+    return text.substring(lineStart).match(/^[ \t]*/)?.[0] ?? '';
+}
@@ -0,0 +1,103 @@
+/**
+ * Tests for add missing tags code action
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic, DiagnosticSeverity, Range, CodeActionKind, TextEdit } from 'vscode-languageserver/node';
+import { createAddMissingTagsAction, MissingTagsData } from './add-missing-tags';
+
+function createDocument(content: string, uri = 'file:///workspace/test.kite'): TextDocument {
+    return TextDocument.create(uri, 'kite', 1, content);
+}
+
+/** Diagnostic for the resource of the document; the @tags object is the first object literal, if any */
+function createDiagnostic(doc: TextDocument, tags: { key: string; value: string }[]): Diagnostic {
+    const text = doc.getText();
+    const tagsStart = text.indexOf('@tags(');
+    const data: MissingTagsData = {
+        type: 'missing-tags',
+        tags,
+        literal: tagsStart === -1 ? undefined : {
+            openOffset: text.indexOf('{', tagsStart),
+            closeOffset: text.indexOf('})', tagsStart),
+            separator: ':',
+            commaSeparated: true,
+        },
+        declarationLineStart: text.lastIndexOf('\n', text.indexOf('resource')) + 1,
+    };
+    return {
+        severity: DiagnosticSeverity.Warning,
+        range: Range.create(doc.positionAt(0), doc.positionAt(0)),
+        message: 'Missing required tags',
+        source: 'kite',
+        data,
+    };
+}
+
+/** Document text after applying the action's edit */
+function applyAction(doc: TextDocument, diagnostic: Diagnostic): string {
+    const action = createAddMissingTagsAction(doc, diagnostic);
+    const edits = action!.edit!.changes![doc.uri] as TextEdit[];
+    return TextDocument.applyEdits(doc, edits);
+}
+
+describe('createAddMissingTagsAction', () => {
+    it('should create a quick fix titled after the missing tags', () => {
+        const doc = createDocument('resource S3.Bucket logs { }');
+        const single = createAddMissingTagsAction(doc, createDiagnostic(doc, [{ key: 'CostCenter', value: '' }]));
+        const multiple = createAddMissingTagsAction(doc, createDiagnostic(doc, [
+            { key: 'CostCenter', value: '' },
+            { key: 'Environment', value: 'dev' },
+        ]));
+
+        expect(single!.title).toBe("Add missing tag 'CostCenter'");
+        expect(single!.kind).toBe(CodeActionKind.QuickFix);
+        expect(multiple!.title).toBe('Add 2 missing tags');
+    });
+
+    it('should add a @tags decorator when the declaration has none', () => {
+        const doc = createDocument(`component Api {
+    resource S3.Bucket logs { }
+}`);
+
+        expect(applyAction(doc, createDiagnostic(doc, [
+            { key: 'CostCenter', value: '' },
+            { key: 'Environment', value: 'dev' },
+        ]))).toBe(`component Api {
+    @tags({ CostCenter: "", Environment: "dev" })
+    resource S3.Bucket logs { }
+}`);
+    });
+
+    it('should add the missing keys to an existing @tags object', () => {
+        const doc = createDocument(`@tags({ Team: "platform" })
+resource S3.Bucket logs { }`);
+
+        expect(applyAction(doc, createDiagnostic(doc, [{ key: 'CostCenter', value: '' }])))
+            .toBe(`@tags({ Team: "platform", CostCenter: "" })
+resource S3.Bucket logs { }`);
+    });
+
+    it('should follow the layout of a multi-line @tags object', () => {
+        const doc = createDocument(`@tags({
+    Team: "platform"
+})
+resource S3.Bucket logs { }`);
+
+        expect(applyAction(doc, createDiagnostic(doc, [{ key: 'Environment', value: 'dev' }])))
+            .toBe(`@tags({
+    Team: "platform",
+    Environment: "dev"
+})
+resource S3.Bucket logs { }`);
+    });
+
+    it('should quote keys that are not identifiers', () => {
+        const doc = createDocument('resource S3.Bucket logs { }');
+
+        expect(applyAction(doc, createDiagnostic(doc, [{ key: 'cost-center', value: '' }])))
+            .toBe(`@tags({ "cost-center": "" })
+resource S3.Bucket logs { }`);
+    });
+});
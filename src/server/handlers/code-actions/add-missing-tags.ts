@@ -0,0 +1,81 @@
+/**
+ * Add missing tags code action for the Kite language server.
+ * Provides a quick fix for tag policy diagnostics that adds the missing keys
+ * to the declaration's `@tags` object, or adds a `@tags` decorator when it has none.
+ */
+
+import {
+    CodeAction,
+    CodeActionKind,
+    TextEdit,
+    Diagnostic,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { createObjectFieldsEdit, lineIndent, ObjectLiteralLayout } from './add-missing-struct-fields';
+
+/**
+ * Data attached to missing tag diagnostics
+ */
+export interface MissingTagsData {
+    type: 'missing-tags';
+    /** Missing tag keys, with the value to insert (the first allowed value, or empty) */
+    tags: { key: string; value: string }[];
+    /** The declaration's `@tags` object; absent when the declaration has no `@tags` */
+    literal?: ObjectLiteralLayout;
+    /** Offset of the start of the declaration's line, where a `@tags` decorator is added */
+    declarationLineStart: number;
+}
+
+/**
+ * Check if diagnostic data is missing tag data
+ */
+export function isMissingTagsData(data: unknown): data is MissingTagsData {
+    return (
+        typeof data === 'object' &&
+        data !== null &&
+        'type' in data &&
+        (data as MissingTagsData).type === 'missing-tags'
+    );
+}
+
+/**
+ * Create a code action that adds the missing tags to a declaration
+ */
+export function createAddMissingTagsAction(
+    document: TextDocument,
+    diagnostic: Diagnostic
+): CodeAction | null {
+    if (!isMissingTagsData(diagnostic.data)) return null;
+    const data = diagnostic.data;
+    if (data.tags.length === 0) return null;
+
+    const fields = data.tags.map(tag => ({
+        name: /^[A-Za-z_]\w*$/.test(tag.key) ? tag.key : JSON.stringify(tag.key),
+        value: JSON.stringify(tag.value),
+    }));
+
+    let edit: TextEdit;
+    if (data.literal) {
+        edit = createObjectFieldsEdit(document, data.literal, fields);
+    } else {
+        const indent = lineIndent(document.getText(), data.declarationLineStart);
+        const entries = fields.map(field => `${field.name}: ${field.value}`).join(', ');
+        edit = TextEdit.insert(document.positionAt(data.declarationLineStart), `${indent}@tags({ ${entries} })\n`);
+    }
+
+    const title = data.tags.length === 1
+        ? `Add missing tag '${data.tags[0].key}'`
+        : `Add ${data.tags.length} missing tags`;
+
+    return {
+        title,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: {
+            changes: {
+                [document.uri]: [edit]
+            }
+        }
+    };
+}
@@ -39,7 +39,7 @@ export function isMissingPropertyData(data: unknown): data is MissingPropertyDat
 /**
  * Get placeholder value for a given type
  */
-function getPlaceholderValue(typeName: string): string {
+export function getPlaceholderValue(typeName: string): string {
     const normalizedType = typeName.toLowerCase();
 
     // Handle array types
@@ -18,6 +18,7 @@ import { ImportSuggestion } from '../../types';
 import { escapeRegex } from '../../utils/text-utils';
 import {
     parseKite,
+    ParseResult,
     findImportByPathAST,
     findLastImportLineAST,
 } from '../../../parser';
@@ -27,7 +28,10 @@ import { createSortImportsAction } from './sort-imports';
 import { createOrganizeImportsAction } from './organize-imports';
 import { createAddMissingImportsAction } from './add-missing-imports';
 import { createGenerateMissingPropertiesAction, isMissingPropertyData } from './generate-properties';
+import { createAddMissingStructFieldsAction, isMissingStructFieldsData } from './add-missing-struct-fields';
+import { createAddMissingTagsAction, isMissingTagsData } from './add-missing-tags';
 import { createRemoveUnusedVariableAction, isUnusedVariableDiagnostic } from './remove-unused-variable';
+import { createSuppressDiagnosticActions } from './suppress-diagnostic';
 
 // Re-export for external use
 export { WildcardConversionContext } from './wildcard-conversion';
@@ -35,6 +39,9 @@ export { createSortImportsAction } from './sort-imports';
 export { createOrganizeImportsAction } from './organize-imports';
 export { createAddMissingImportsAction } from './add-missing-imports';
 export { createGenerateMissingPropertiesAction, MissingPropertyData } from './generate-properties';
+export { createAddMissingStructFieldsAction, MissingStructFieldsData } from './add-missing-struct-fields';
+export { createAddMissingTagsAction, MissingTagsData } from './add-missing-tags';
+export { createSuppressDiagnosticActions } from './suppress-diagnostic';
 
 /**
  * Handle code action request
@@ -55,14 +62,12 @@ export function handleCodeAction(
     params: CodeActionParams,
     document: TextDocument,
     diagnosticData: Map<string, ImportSuggestion>,
-    wildcardCtx?: WildcardConversionContext
+    wildcardCtx?: WildcardConversionContext,
+    parseResult: ParseResult = parseKite(document.getText())
 ): CodeAction[] {
     const actions: CodeAction[] = [];
     const text = document.getText();
 
-    // Parse document for AST-based import detection
-    const parseResult = parseKite(text);
-
     // Check for wildcard import conversion (refactoring action, not diagnostic-based)
     if (wildcardCtx) {
         const startLine = params.range.start.line;
@@ -247,6 +252,26 @@ export function handleCodeAction(
         }
     }
 
+    // Add "Add missing fields" actions for object literals missing struct fields
+    for (const diagnostic of params.context.diagnostics) {
+        if (diagnostic.source === 'kite' && isMissingStructFieldsData(diagnostic.data)) {
+            const addFieldsAction = createAddMissingStructFieldsAction(document, diagnostic);
+            if (addFieldsAction) {
+                actions.push(addFieldsAction);
+            }
+        }
+    }
+
+    // Add "Add missing tags" actions for tag policy diagnostics
+    for (const diagnostic of params.context.diagnostics) {
+        if (diagnostic.source === 'kite' && isMissingTagsData(diagnostic.data)) {
+            const addTagsAction = createAddMissingTagsAction(document, diagnostic);
+            if (addTagsAction) {
+                actions.push(addTagsAction);
+            }
+        }
+    }
+
     // Add "Remove unused variable" actions for unused variable diagnostics
     for (const diagnostic of params.context.diagnostics) {
         if (diagnostic.source === 'kite' && isUnusedVariableDiagnostic(diagnostic)) {
@@ -257,6 +282,11 @@ export function handleCodeAction(
         }
     }
 
+    // Add "Suppress" actions for each rule diagnostic (after the actual fixes)
+    for (const diagnostic of params.context.diagnostics) {
+        actions.push(...createSuppressDiagnosticActions(document, diagnostic));
+    }
+
     return actions;
 }
 
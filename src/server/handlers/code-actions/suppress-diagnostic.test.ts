@@ -0,0 +1,76 @@
+/**
+ * Tests for suppress diagnostic code actions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { createSuppressDiagnosticActions, getSuppressibleRuleId } from './suppress-diagnostic';
+
+function createDocument(content: string): TextDocument {
+    return TextDocument.create('file:///test.kite', 'kite', 1, content);
+}
+
+function createDiagnostic(line: number, code?: string, source = 'kite'): Diagnostic {
+    return {
+        severity: DiagnosticSeverity.Warning,
+        range: Range.create(line, 4, line, 5),
+        message: 'test',
+        source,
+        code,
+    };
+}
+
+describe('Suppress diagnostic actions', () => {
+    describe('getSuppressibleRuleId', () => {
+        it('should return rule id of kite diagnostics', () => {
+            expect(getSuppressibleRuleId(createDiagnostic(0, 'variable-shadowing'))).toBe('variable-shadowing');
+        });
+
+        it('should resolve rule id from diagnostic code', () => {
+            expect(getSuppressibleRuleId(createDiagnostic(0, 'KITE1025'))).toBe('variable-shadowing');
+        });
+
+        it('should ignore diagnostics without a known rule id', () => {
+            expect(getSuppressibleRuleId(createDiagnostic(0))).toBeNull();
+            expect(getSuppressibleRuleId(createDiagnostic(0, 'not-a-rule'))).toBeNull();
+            expect(getSuppressibleRuleId(createDiagnostic(0, 'variable-shadowing', 'other'))).toBeNull();
+        });
+
+        it('should not offer to suppress unused suppressions', () => {
+            expect(getSuppressibleRuleId(createDiagnostic(0, 'unused-suppression'))).toBeNull();
+            expect(getSuppressibleRuleId(createDiagnostic(0, 'KITE1050'))).toBeNull();
+        });
+    });
+
+    describe('createSuppressDiagnosticActions', () => {
+        it('should insert next-line suppression with matching indentation', () => {
+            const doc = createDocument(`fun calc(number x) {
+    var x = 1
+}`);
+            const actions = createSuppressDiagnosticActions(doc, createDiagnostic(1, 'variable-shadowing'));
+
+            expect(actions).toHaveLength(2);
+            expect(actions[0].title).toBe("Suppress 'variable-shadowing' for this line");
+            const edit = actions[0].edit!.changes![doc.uri][0];
+            expect(edit.range.start).toEqual({ line: 1, character: 0 });
+            expect(edit.newText).toBe('    // kite-ignore-next-line variable-shadowing\n');
+        });
+
+        it('should insert file suppression at the top', () => {
+            const doc = createDocument(`var x = 1
+if true { }`);
+            const actions = createSuppressDiagnosticActions(doc, createDiagnostic(1, 'constant-condition'));
+
+            expect(actions[1].title).toBe("Suppress 'constant-condition' for this file");
+            const edit = actions[1].edit!.changes![doc.uri][0];
+            expect(edit.range.start).toEqual({ line: 0, character: 0 });
+            expect(edit.newText).toBe('// kite-ignore-file constant-condition\n');
+        });
+
+        it('should return no actions for non-rule diagnostics', () => {
+            const doc = createDocument(`var x = 1`);
+            expect(createSuppressDiagnosticActions(doc, createDiagnostic(0))).toHaveLength(0);
+        });
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * Suppress diagnostic code actions for the Kite language server.
+ * Inserts `// kite-ignore-next-line` or `// kite-ignore-file` comments for a rule.
+ */
+
+import {
+    CodeAction,
+    CodeActionKind,
+    Diagnostic,
+    Position,
+    TextEdit,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { findRule } from '../validation/rules';
+
+/**
+ * Get the rule id of a Kite diagnostic that can be suppressed, or null.
+ */
+export function getSuppressibleRuleId(diagnostic: Diagnostic): string | null {
+    if (diagnostic.source !== 'kite') return null;
+    if (typeof diagnostic.code !== 'string') return null;
+    const rule = findRule(diagnostic.code);
+    // Suppressing the unused suppression hint would only add another comment
+    if (!rule || rule.id === 'unused-suppression') return null;
+    return rule.id;
+}
+
+/**
+ * Create code actions to suppress a diagnostic on its line or in the whole file.
+ */
+export function createSuppressDiagnosticActions(
+    document: TextDocument,
+    diagnostic: Diagnostic
+): CodeAction[] {
+    const ruleId = getSuppressibleRuleId(diagnostic);
+    if (!ruleId) return [];
+
+    const uri = document.uri;
+    const line = diagnostic.range.start.line;
+    const lineText = document.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } });
+    const indent = lineText.match(/^[ \t]*/)?.[0] ?? '';
+
+    return [
+        {
+            title: `Suppress '${ruleId}' for this line`,
+            kind: CodeActionKind.QuickFix,
+            diagnostics: [diagnostic],
+            edit: {
+                changes: {
+                    [uri]: [TextEdit.insert(Position.create(line, 0), `${indent}// kite-ignore-next-line ${ruleId}\n`)],
+                },
+            },
+        },
+        {
+            title: `Suppress '${ruleId}' for this file`,
+            kind: CodeActionKind.QuickFix,
+            diagnostics: [diagnostic],
+            edit: {
+                changes: {
+                    [uri]: [TextEdit.insert(Position.create(0, 0), `// kite-ignore-file ${ruleId}\n`)],
+                },
+            },
+        },
+    ];
+}
@@ -12,6 +12,7 @@ import {
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 import { escapeRegex, wordBoundaryRegex, isInComment } from '../../utils/text-utils';
+import { WorkspaceIndex, IndexedImport, getWorkspaceIndex, countReferenceSites } from '../../workspace-index';
 
 /**
  * Context for code lens operations
@@ -19,6 +20,8 @@ import { escapeRegex, wordBoundaryRegex, isInComment } from '../../utils/text-ut
 export interface CodeLensContext {
     findKiteFilesInWorkspace: () => string[];
     getFileContent: (filePath: string, currentDocUri?: string) => string | null;
+    /** Shared workspace index (a temporary one is built when absent) */
+    workspaceIndex?: WorkspaceIndex;
 }
 
 /**
@@ -46,9 +49,10 @@ export function handleCodeLens(
     }
 
     const codeLenses: CodeLens[] = [];
+    const index = getWorkspaceIndex(ctx);
 
     for (const decl of declarations) {
-        const refCount = countReferences(decl.name, document, ctx);
+        const refCount = countReferences(decl.name, document, index);
         const title = refCount === 1 ? '1 reference' : `${refCount} references`;
 
         const range = Range.create(
@@ -169,7 +173,7 @@ function findDeclarations(text: string): DeclarationInfo[] {
 function countReferences(
     symbolName: string,
     document: TextDocument,
-    ctx: CodeLensContext
+    index: WorkspaceIndex
 ): number {
     let count = 0;
     const currentUri = document.uri;
@@ -178,20 +182,16 @@ function countReferences(
     // Count in current document
     count += countReferencesInText(symbolName, document.getText(), true);
 
-    // Count in other workspace files
-    const kiteFiles = ctx.findKiteFilesInWorkspace();
-    for (const filePath of kiteFiles) {
-        if (filePath === currentPath) continue;
-
-        const content = ctx.getFileContent(filePath);
-        if (!content) continue;
+    // Count in other workspace files that mention the symbol
+    for (const file of index.findFilesMentioning(symbolName)) {
+        if (file.filePath === currentPath) continue;
 
         // Check if this file imports the symbol or uses wildcard import
-        if (!importsSymbol(content, symbolName, currentPath, filePath)) {
+        if (!importsSymbol(file.imports, symbolName, currentPath)) {
             continue;
         }
 
-        count += countReferencesInText(symbolName, content, false);
+        count += countReferenceSites(file, symbolName);
     }
 
     return count;
@@ -201,19 +201,11 @@ function countReferences(
  * Check if a file imports a symbol from the source file
  */
 function importsSymbol(
-    content: string,
+    imports: IndexedImport[],
     symbolName: string,
-    sourceFilePath: string,
-    importingFilePath: string
+    sourceFilePath: string
 ): boolean {
-    // Extract imports
-    const importRegex = /import\s+([^"']+)\s+from\s+["']([^"']+)["']/g;
-    let match;
-
-    while ((match = importRegex.exec(content)) !== null) {
-        const symbols = match[1].trim();
-        const importPath = match[2];
-
+    for (const { path: importPath, symbols } of imports) {
         // Check if import path could refer to source file
         // This is simplified - in reality we'd need full path resolution
         const sourceFileName = sourceFilePath.split('/').pop()?.replace('.kite', '') || '';
@@ -227,8 +219,7 @@ function importsSymbol(
         }
 
         // Named imports
-        const importedSymbols = symbols.split(',').map(s => s.trim());
-        if (importedSymbols.includes(symbolName)) {
+        if (symbols.includes(symbolName)) {
             return true;
         }
     }
@@ -43,7 +43,8 @@ export function getBlockBodyCompletions(
     const completions: CompletionItem[] = [];
     const inlayCtx: InlayHintContext = {
         findKiteFilesInWorkspace: ctx.findKiteFilesInWorkspace,
-        getFileContent: ctx.getFileContent
+        getFileContent: ctx.getFileContent,
+        getDocumentModel: ctx.getDocumentModel,
     };
 
     if (enclosingBlock.type === 'resource') {
@@ -98,7 +99,8 @@ export function addContextAwareSuggestions(
     const propName = propNameMatch[1].toLowerCase();
     const inlayCtx: InlayHintContext = {
         findKiteFilesInWorkspace: ctx.findKiteFilesInWorkspace,
-        getFileContent: ctx.getFileContent
+        getFileContent: ctx.getFileContent,
+        getDocumentModel: ctx.getDocumentModel,
     };
 
     let propType: string | null = null;
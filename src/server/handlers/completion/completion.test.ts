@@ -140,6 +140,32 @@ schema Config {}`;
         });
     });
 
+    describe('quote-triggered completions', () => {
+        const providers = [{ name: 'aws', aliases: [], namespaces: ['S3'] }];
+
+        /** Completions at the '|' marker, as when typing a quote that the editor closes */
+        const completionsAt = (textWithCursor: string) => {
+            const text = textWithCursor.replace('|', '');
+            const position = positionFromOffset(text, textWithCursor.indexOf('|'));
+            return handleCompletion(createDocument(text), position, { ...createContext(), providers });
+        };
+
+        it('should offer configured providers inside @provider("', () => {
+            const completions = completionsAt('@provider("|")\nresource S3.Bucket logs {}');
+
+            expect(completions.map(c => c.label)).toEqual(['aws']);
+        });
+
+        it('should offer union literals for a union-typed input', () => {
+            const completions = completionsAt(`type Environment = "dev" | "prod"
+component App {
+    input Environment env = "|"
+}`);
+
+            expect(completions.map(c => c.label)).toEqual(['"dev"', '"prod"']);
+        });
+    });
+
     describe('schema body completions', () => {
         it('should provide type completions inside schema body', () => {
             const text = `schema Config {
@@ -9,6 +9,7 @@ import {
     decoratorAppliesToTarget,
 } from './decorators';
 import { DecoratorInfo } from '../../types';
+import { mergeDecorators, normalizeDecorators } from '../../decorator-catalog';
 
 describe('getDecoratorContext', () => {
     describe('top-level declarations', () => {
@@ -218,6 +219,22 @@ describe('decoratorAppliesToTarget', () => {
 });
 
 describe('getDecoratorCompletions', () => {
+    it('includes workspace-defined decorators that apply to the context', () => {
+        const decorators = mergeDecorators(normalizeDecorators({
+            decorators: [
+                { name: 'provisionOn', targets: ['resource'], snippet: 'provisionOn([$1])', description: 'Clouds to provision on' },
+                { name: 'secretRef', targets: ['input'] },
+            ],
+        }));
+        const text = '@\nresource Config server { }';
+        const completions = getDecoratorCompletions(text, 1, decorators);
+
+        const provisionOn = completions.find(c => c.filterText === 'provisionOn');
+        expect(provisionOn?.insertText).toBe('provisionOn([$1])');
+        expect(provisionOn?.detail).toBe('Clouds to provision on');
+        expect(completions.find(c => c.filterText === 'secretRef')).toBeUndefined();
+    });
+
     it('returns completions for resource context', () => {
         const text = '@\nresource Config server { }';
         const completions = getDecoratorCompletions(text, 1);
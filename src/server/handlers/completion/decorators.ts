@@ -14,13 +14,18 @@ import { DECORATORS } from '../../constants';
 
 /**
  * Get completions for decorator context (after @)
+ * @param decorators - Decorator catalog, including workspace-defined decorators
  */
-export function getDecoratorCompletions(text: string, offset: number): CompletionItem[] {
+export function getDecoratorCompletions(
+    text: string,
+    offset: number,
+    decorators: readonly DecoratorInfo[] = DECORATORS
+): CompletionItem[] {
     const completions: CompletionItem[] = [];
     const context = getDecoratorContext(text, offset);
 
     // Filter decorators that apply to the current context, then sort by sortOrder
-    const applicableDecorators = DECORATORS
+    const applicableDecorators = decorators
         .filter(dec => decoratorAppliesToTarget(dec, context))
         .sort((a, b) => a.sortOrder - b.sortOrder);
 
@@ -0,0 +1,86 @@
+/**
+ * Tests for @dependsOn completions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CompletionItemKind } from 'vscode-languageserver/node';
+import { createDocumentModel } from '../../document-model';
+import { getDependsOnCompletions } from './depends-on-completions';
+import { ImportedSymbolsContext } from '../../utils/imported-symbols';
+
+/** Completions at the '|' marker of a text */
+function completionsAt(textWithCursor: string, files: Record<string, string> = {}) {
+    const offset = textWithCursor.indexOf('|');
+    const text = textWithCursor.slice(0, offset) + textWithCursor.slice(offset + 1);
+    const ctx: ImportedSymbolsContext = { getFileContent: (filePath) => files[filePath] ?? null };
+    return getDependsOnCompletions(createDocumentModel('file:///workspace/main.kite', text), offset, ctx);
+}
+
+describe('getDependsOnCompletions', () => {
+    it('should offer only resources and component instances', () => {
+        const completions = completionsAt(`input string region = "eu"
+var name = "web"
+resource Database db {
+}
+component Queue queue {
+}
+@dependsOn(|)
+resource Server web {
+}`);
+
+        expect(completions?.map(c => c.label)).toEqual(['db', 'queue']);
+        expect(completions?.[0].kind).toBe(CompletionItemKind.Class);
+        expect(completions?.[0].detail).toBe('resource: Database');
+        expect(completions?.[1].kind).toBe(CompletionItemKind.Module);
+    });
+
+    it('should skip the decorated declaration and listed entries', () => {
+        const completions = completionsAt(`resource Database db {
+}
+resource Queue queue {
+}
+@dependsOn([db, |])
+resource Server web {
+}`);
+
+        expect(completions?.map(c => c.label)).toEqual(['queue']);
+    });
+
+    it('should offer the instances of indexed resources', () => {
+        const completions = completionsAt(`@count(2)
+resource Server server {
+}
+@dependsOn(|)
+resource LoadBalancer lb {
+}`);
+
+        expect(completions?.map(c => c.label)).toEqual(['server', 'server[0]', 'server[1]']);
+    });
+
+    it('should offer imported resources', () => {
+        const files = {
+            '/workspace/db.kite': `resource Database db {
+}
+input string region = "eu"`,
+            '/workspace/net.kite': `resource Network net {
+}`,
+        };
+        const completions = completionsAt(`import db, region from "db.kite"
+import * from "net.kite"
+@dependsOn(|)
+resource Server web {
+}`, files);
+
+        expect(completions?.map(c => c.label)).toEqual(['db', 'net']);
+    });
+
+    it('should return null outside @dependsOn', () => {
+        expect(completionsAt(`@tags(|)
+resource Server web {
+}`)).toBeNull();
+        expect(completionsAt(`@dependsOn(db)
+resource Server web {
+    name = |
+}`)).toBeNull();
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * @dependsOn completions.
+ * Inside `@dependsOn(` only resources and component instances are offered:
+ * those in scope, imported ones and the instances of indexed resources
+ * (`server[0]`), except the decorated declaration and entries already listed.
+ */
+
+import {
+    CompletionItem,
+    CompletionItemKind,
+} from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { Scope, SemanticSymbol, SymbolKind } from '../../../parser';
+import { DocumentModel } from '../../document-model';
+import {
+    createModelLoader,
+    getWildcardImportedModels,
+    ImportedSymbolsContext,
+    resolveSymbol,
+} from '../../utils/imported-symbols';
+import { getIndexCompletions } from '../../utils/indexed-resources';
+
+/** Kinds @dependsOn accepts */
+const DEPENDENCY_KINDS: ReadonlySet<SymbolKind> = new Set(['resource', 'component-instance']);
+
+/**
+ * Get completions inside the argument of @dependsOn.
+ * Returns null if the cursor is not inside `@dependsOn(...)`.
+ */
+export function getDependsOnCompletions(
+    model: DocumentModel,
+    offset: number,
+    ctx: ImportedSymbolsContext
+): CompletionItem[] | null {
+    const text = model.text;
+    const argument = /@dependsOn\s*\(([^()]*)$/.exec(text.substring(0, offset));
+    if (!argument) return null;
+
+    const listed = new Set(argument[1].match(/\w+/g) ?? []);
+    const decorated = /^[^{]*?\b(?:resource|component)\s+[\w.]+\s+(\w+)/.exec(text.substring(offset))?.[1];
+    const loadModel = createModelLoader(ctx, { filePath: URI.parse(model.uri).fsPath, text });
+
+    const completions: CompletionItem[] = [];
+    const seen = new Set<string>(listed);
+    if (decorated) seen.add(decorated);
+
+    const add = (name: string, target: SemanticSymbol, targetModel: DocumentModel) => {
+        if (seen.has(name)) return;
+        seen.add(name);
+
+        const kind = target.kind === 'resource' ? 'resource' : 'component';
+        const detail = `${kind}${target.typeName ? `: ${target.typeName}` : ''}`;
+        completions.push({
+            label: name,
+            kind: target.kind === 'resource' ? CompletionItemKind.Class : CompletionItemKind.Module,
+            detail,
+            sortText: '0' + name,
+        });
+
+        // Instances of resources created with @count or in loops
+        const declaration = targetModel.declarations.find(d =>
+            d.name === target.name && (d.type === 'resource' || d.type === 'component') && d.indexedBy);
+        if (declaration) {
+            getIndexCompletions(declaration).forEach((index, i) => {
+                completions.push({
+                    label: `${name}[${index}]`,
+                    kind: target.kind === 'resource' ? CompletionItemKind.Class : CompletionItemKind.Module,
+                    detail: `${kind} instance ${index}`,
+                    sortText: '1' + name + String(i).padStart(4, '0'),
+                });
+            });
+        }
+    };
+
+    // Declarations in scope, innermost first so that shadowing names win
+    for (let scope: Scope | null = model.semanticModel.scopeAt(offset); scope; scope = scope.parent) {
+        for (const symbol of scope.symbols) {
+            const target = resolveSymbol(symbol, model, loadModel);
+            if (target && DEPENDENCY_KINDS.has(target.symbol.kind)) {
+                add(symbol.name, target.symbol, target.model);
+            }
+            seen.add(symbol.name);
+        }
+    }
+
+    // Declarations of files imported with `import * from`
+    for (const imported of getWildcardImportedModels(model, loadModel)) {
+        for (const symbol of imported.semanticModel.root.symbols) {
+            if (DEPENDENCY_KINDS.has(symbol.kind)) {
+                add(symbol.name, symbol, imported);
+            }
+        }
+    }
+
+    return completions;
+}
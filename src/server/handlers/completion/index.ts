@@ -11,6 +11,8 @@
  * - component-completions.ts: Component definition completions
  * - block-completions.ts: Block body completions (resource/component instantiations)
  * - declaration-completions.ts: Keyword, type, and declaration completions
+ * - union-completions.ts: Allowed literals of union type aliases in value position
+ * - depends-on-completions.ts: Resources and component instances inside @dependsOn(...)
  */
 
 import {
@@ -25,6 +27,7 @@ import { BlockContext } from '../../types';
 import { getCursorContext, isInDecoratorContext, getDotAccessTarget } from '../../../parser';
 import { getSnippetCompletions } from './snippets';
 import { resolveImportPath } from '../../utils/import-utils';
+import { resolveDocumentModel } from '../../document-model';
 
 // Import from modular files
 import { CompletionContext } from './types';
@@ -38,6 +41,9 @@ import { getAutoImportCompletions } from './auto-import-completions';
 import { getIndexCompletions, isIndexedResource } from '../../utils/indexed-resources';
 import { getInstanceNameCompletions } from './instance-name-completions';
 import { getStringInterpolationCompletions } from './string-interpolation-completions';
+import { getUnionLiteralCompletions } from './union-completions';
+import { getDependsOnCompletions } from './depends-on-completions';
+import { getProviderCompletions } from './provider-completions';
 
 // Re-export types and utilities
 export { CompletionContext } from './types';
@@ -57,11 +63,24 @@ export function handleCompletion(
     const uri = document.uri;
 
     // Get AST-based cursor context
-    const cursorCtx = getCursorContext(text, offset);
+    const model = resolveDocumentModel(ctx, uri, text);
+    const cursorCtx = getCursorContext(text, offset, model.parseResult);
+
+    // Check if we're inside @dependsOn(...) - only resources and component instances
+    const dependsOnCompletions = getDependsOnCompletions(model, offset, ctx);
+    if (dependsOnCompletions !== null) {
+        return dependsOnCompletions;
+    }
+
+    // Check if we're inside @provider(...) - only configured providers
+    const providerCompletions = getProviderCompletions(text, offset, ctx.providers);
+    if (providerCompletions !== null) {
+        return providerCompletions;
+    }
 
     // Check if we're after @ (decorator context) - use AST utility
     if (isInDecoratorContext(text, offset)) {
-        return getDecoratorCompletions(text, offset);
+        return getDecoratorCompletions(text, offset, ctx.decorators);
     }
 
     // Check if we're in instance name position (after 'resource TypeName ' or 'component TypeName ')
@@ -95,6 +114,12 @@ export function handleCompletion(
         return getPropertyAccessCompletions(dotTarget, text, uri, ctx);
     }
 
+    // Check if we're in a value typed with a union of string literals - only show the allowed literals
+    const unionCompletions = getUnionLiteralCompletions(document, offset, model.types);
+    if (unionCompletions !== null) {
+        return unionCompletions;
+    }
+
     // Check if we're inside a schema body - only show types, not variables/functions/etc
     if (cursorCtx.type === 'schema-body') {
         return getSchemaBodyCompletions(text, offset);
@@ -31,7 +31,8 @@ export function getPropertyAccessCompletions(
             const bodyProps = new Set(extractPropertiesFromBody(text, decl.name));
             const inlayCtx: InlayHintContext = {
                 findKiteFilesInWorkspace: ctx.findKiteFilesInWorkspace,
-                getFileContent: ctx.getFileContent
+                getFileContent: ctx.getFileContent,
+                getDocumentModel: ctx.getDocumentModel,
             };
             const schemaProps = extractSchemaPropertyTypes(text, decl.schemaName, inlayCtx, uri);
 
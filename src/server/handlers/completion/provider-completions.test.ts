@@ -0,0 +1,67 @@
+/**
+ * Tests for @provider completions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CompletionItemKind } from 'vscode-languageserver/node';
+import { getProviderCompletions } from './provider-completions';
+import { ProviderInfo } from '../../types';
+
+const PROVIDERS: ProviderInfo[] = [
+    { name: 'aws', aliases: ['amazon'], namespaces: ['S3', 'EC2'] },
+    { name: 'azure', aliases: [], namespaces: ['Storage'] },
+    { name: 'gcp', aliases: [], namespaces: [] },
+];
+
+/** Completions at the '|' marker of a text */
+function completionsAt(textWithCursor: string, providers: ProviderInfo[] = PROVIDERS) {
+    const offset = textWithCursor.indexOf('|');
+    const text = textWithCursor.slice(0, offset) + textWithCursor.slice(offset + 1);
+    return getProviderCompletions(text, offset, providers);
+}
+
+describe('getProviderCompletions', () => {
+    it('should offer configured providers as strings', () => {
+        const completions = completionsAt(`@provider(|)
+resource Bucket logs { }`);
+
+        expect(completions?.map(c => c.label)).toEqual(['aws', 'azure', 'gcp']);
+        expect(completions?.[0].kind).toBe(CompletionItemKind.EnumMember);
+        expect(completions?.[0].detail).toBe('provider (aliases: amazon)');
+        expect(completions?.[0].insertText).toBe('"aws"');
+        expect(completions?.[1].detail).toBe('provider');
+    });
+
+    it('should offer plain names inside a string', () => {
+        const completions = completionsAt(`@provider("a|")
+resource Bucket logs { }`);
+
+        expect(completions?.map(c => c.insertText)).toEqual(['aws', 'azure', 'gcp']);
+    });
+
+    it('should offer providers inside an array, except those listed', () => {
+        expect(completionsAt('@provider([|])')?.map(c => c.label)).toEqual(['aws', 'azure', 'gcp']);
+        expect(completionsAt('@provider(["azure", |])')?.map(c => c.label)).toEqual(['aws', 'gcp']);
+        expect(completionsAt('@provider(["amazon", "|"])')?.map(c => c.label)).toEqual(['azure', 'gcp']);
+    });
+
+    it('should put the provider of the resource schema namespace first', () => {
+        const completions = completionsAt(`@provider("|")
+resource Storage.Account files { }`);
+        const azure = completions?.find(c => c.label === 'azure');
+
+        expect(azure?.preselect).toBe(true);
+        expect(azure?.sortText! < completions!.find(c => c.label === 'aws')!.sortText!).toBe(true);
+    });
+
+    it('should offer nothing after a complete argument', () => {
+        expect(completionsAt('@provider("aws"|)')).toEqual([]);
+        expect(completionsAt('@provider(["aws"]|)')).toEqual([]);
+    });
+
+    it('should return null outside @provider or without configured providers', () => {
+        expect(completionsAt('@tags(|)')).toBeNull();
+        expect(completionsAt('@provider("aws")\nresource Bucket |')).toBeNull();
+        expect(completionsAt('@provider(|)', [])).toBeNull();
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * @provider completions.
+ * Inside `@provider(` the providers of the workspace provider registry are
+ * offered, as quoted strings or, inside `@provider("`, as plain names. The
+ * provider owning the schema namespace of the decorated resource comes first;
+ * providers already listed are left out.
+ */
+
+import {
+    CompletionItem,
+    CompletionItemKind,
+} from 'vscode-languageserver/node';
+import { ProviderInfo } from '../../types';
+
+/**
+ * Get completions inside the argument of @provider.
+ * Returns null if the cursor is not inside `@provider(...)` or no providers are configured.
+ */
+export function getProviderCompletions(
+    text: string,
+    offset: number,
+    providers: readonly ProviderInfo[] = []
+): CompletionItem[] | null {
+    if (providers.length === 0) return null;
+    const argument = /@provider\s*\(([^()]*)$/.exec(text.substring(0, offset));
+    if (!argument) return null;
+
+    const args = argument[1];
+    const quotes = args.match(/["']/g)?.length ?? 0;
+    const inString = quotes % 2 === 1;
+    // Outside a string, a provider can only start the argument or an array entry
+    if (!inString && !/^\s*(\[[^\]]*,)?\s*\[?\s*$/.test(args)) return [];
+
+    const listed = new Set([...args.matchAll(/"([^"]*)"|'([^']*)'/g)].map(match => match[1] ?? match[2]));
+    const resourceType = /^[^{]*?\bresource\s+([\w.]+)\s+\w+/.exec(text.substring(offset))?.[1];
+    const namespace = resourceType?.includes('.') ? resourceType.split('.')[0] : undefined;
+
+    return providers
+        .filter(provider => !listed.has(provider.name) && !provider.aliases.some(alias => listed.has(alias)))
+        .map(provider => {
+            const owner = namespace !== undefined && provider.namespaces.includes(namespace);
+            return {
+                label: provider.name,
+                kind: CompletionItemKind.EnumMember,
+                detail: provider.aliases.length > 0 ? `provider (aliases: ${provider.aliases.join(', ')})` : 'provider',
+                insertText: inString ? provider.name : `"${provider.name}"`,
+                sortText: (owner ? '0' : '1') + provider.name,
+                preselect: owner || undefined,
+            };
+        });
+}
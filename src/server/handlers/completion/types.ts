@@ -2,7 +2,7 @@
  * Type definitions for the completion handler.
  */
 
-import { BlockContext, BaseContext } from '../../types';
+import { BlockContext, BaseContext, DecoratorInfo, ProviderInfo } from '../../types';
 
 /**
  * Context interface for dependency injection into completion handler.
@@ -10,4 +10,8 @@ import { BlockContext, BaseContext } from '../../types';
 export interface CompletionContext extends BaseContext {
     /** Find enclosing block (resource or component) */
     findEnclosingBlock: (text: string, offset: number) => BlockContext | null;
+    /** Decorator catalog: built-in and workspace-defined decorators (built-in only when unset) */
+    decorators?: readonly DecoratorInfo[];
+    /** Provider registry offered inside @provider (nothing offered when unset) */
+    providers?: readonly ProviderInfo[];
 }
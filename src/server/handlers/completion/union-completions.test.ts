@@ -0,0 +1,82 @@
+/**
+ * Tests for union literal completions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CompletionItemKind, TextEdit } from 'vscode-languageserver/node';
+import { createDocument } from '../../test-utils';
+import { buildTypeInference } from '../../../parser';
+import { getUnionLiteralCompletions } from './union-completions';
+
+const ALIAS = 'type Environment = "dev" | "staging" | "prod"\n';
+
+/** Completions at the '|' marker of a text */
+function completionsAt(textWithCursor: string) {
+    const offset = textWithCursor.indexOf('|', ALIAS.length);
+    const text = textWithCursor.slice(0, offset) + textWithCursor.slice(offset + 1);
+    const doc = createDocument(text);
+    return getUnionLiteralCompletions(doc, offset, buildTypeInference(text));
+}
+
+describe('getUnionLiteralCompletions', () => {
+    it('should offer the literals of a typed variable', () => {
+        const completions = completionsAt(ALIAS + 'var Environment env = |');
+
+        expect(completions?.map(c => c.label)).toEqual(['"dev"', '"staging"', '"prod"']);
+        expect(completions?.[0].kind).toBe(CompletionItemKind.EnumMember);
+        expect(completions?.[0].detail).toBe('Environment');
+    });
+
+    it('should offer the literals of a component input default', () => {
+        const completions = completionsAt(ALIAS + `component App {
+    input Environment env = |
+}`);
+        expect(completions).toHaveLength(3);
+    });
+
+    it('should offer the literals of a resource property', () => {
+        const completions = completionsAt(ALIAS + `schema Deployment {
+    Environment environment
+}
+resource Deployment web {
+    environment = |
+}`);
+        expect(completions).toHaveLength(3);
+    });
+
+    it('should offer the literals of a struct field in an object literal', () => {
+        const completions = completionsAt(ALIAS + `struct Settings {
+    Environment environment
+}
+schema Deployment {
+    Settings settings
+}
+resource Deployment web {
+    settings = {
+        environment: |
+    }
+}`);
+        expect(completions?.map(c => c.label)).toContain('"prod"');
+    });
+
+    it('should offer the literals of a function argument', () => {
+        const completions = completionsAt(ALIAS + `fun deploy(string name, Environment env) {
+}
+deploy("web", |)`);
+        expect(completions).toHaveLength(3);
+    });
+
+    it('should replace a partially typed string with its closing quote', () => {
+        const completions = completionsAt(ALIAS + 'var Environment env = "st|"');
+        const edit = completions![1].textEdit as TextEdit;
+
+        expect(edit.newText).toBe('"staging"');
+        expect(edit.range.start.character).toBe('var Environment env = '.length);
+        expect(edit.range.end.character).toBe('var Environment env = "st"'.length);
+    });
+
+    it('should return null for values of other types', () => {
+        expect(completionsAt(ALIAS + 'var string name = |')).toBeNull();
+        expect(completionsAt(ALIAS + 'var env = |')).toBeNull();
+    });
+});
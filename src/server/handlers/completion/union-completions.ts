@@ -0,0 +1,159 @@
+/**
+ * Union literal completions.
+ * Offers exactly the allowed literals when the value being typed is declared with a
+ * union of string literals (`type Environment = "dev" | "staging" | "prod"`):
+ * initializers of typed declarations and property defaults, values of resource,
+ * component and struct properties, and function arguments.
+ */
+
+import {
+    CompletionItem,
+    CompletionItemKind,
+    Range,
+    TextEdit,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TypeInference } from '../../../parser';
+
+/**
+ * Get union literal completions at a position.
+ * Returns null if the value position is not typed with a union of string literals.
+ */
+export function getUnionLiteralCompletions(
+    document: TextDocument,
+    offset: number,
+    types: TypeInference
+): CompletionItem[] | null {
+    const text = document.getText();
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    const lineText = text.substring(lineStart, offset);
+
+    // Value typed so far: nothing, or an unclosed string
+    const partial = unclosedString(lineText);
+    const beforeValue = lineText.substring(0, lineText.length - partial.length);
+
+    const typeName = expectedTypeName(text, lineStart, beforeValue, types);
+    const literals = typeName ? types.unionLiterals(typeName) : null;
+    if (!literals) return null;
+
+    // Replace the partial string, including a closing quote inserted by the editor
+    const replaceStart = offset - partial.length;
+    const replaceEnd = partial && text[offset] === partial[0] ? offset + 1 : offset;
+    const range = Range.create(document.positionAt(replaceStart), document.positionAt(replaceEnd));
+
+    return literals.map((literal, index) => ({
+        label: `"${literal}"`,
+        kind: CompletionItemKind.EnumMember,
+        detail: typeName!,
+        filterText: `${partial[0] ?? '"'}${literal}`,
+        sortText: String(index).padStart(3, '0'),
+        textEdit: TextEdit.replace(range, `"${literal}"`),
+    }));
+}
+
+/**
+ * Trailing string of a line that is not closed yet, or ''
+ */
+function unclosedString(lineText: string): string {
+    const quoteIndex = Math.max(lineText.lastIndexOf('"'), lineText.lastIndexOf("'"));
+    if (quoteIndex === -1) return '';
+    const quote = lineText[quoteIndex];
+    const quoteCount = lineText.split(quote).length - 1;
+    return quoteCount % 2 === 1 ? lineText.substring(quoteIndex) : '';
+}
+
+/**
+ * Declared type of the value that follows the text before it on a line
+ */
+function expectedTypeName(
+    text: string,
+    lineStart: number,
+    beforeValue: string,
+    types: TypeInference
+): string | null {
+    // var/input/output Type name =, or a schema or struct property default
+    const declarationMatch = beforeValue.match(/^\s*(?:(?:var|input|output)\s+)?(\w+)\s+\w+\s*=\s*$/);
+    if (declarationMatch) {
+        return declarationMatch[1];
+    }
+
+    // property = or field: inside a resource, component instance or object literal
+    const propertyMatch = beforeValue.match(/^\s*(\w+)\s*[=:]\s*$/);
+    if (propertyMatch) {
+        const containerType = containerTypeAt(text, lineStart, types);
+        return containerType ? propertyType(containerType, propertyMatch[1], types) : null;
+    }
+
+    // fun(arg, arg, |
+    const callMatch = beforeValue.match(/\b(\w+)\s*\(([^()]*?)\s*$/);
+    if (callMatch && !/\w\s*:/.test(callMatch[2]) && (callMatch[2] === '' || callMatch[2].trimEnd().endsWith(','))) {
+        const position = callMatch[2] === '' ? 0 : callMatch[2].split(',').length - 1;
+        return parameterType(callMatch[1], position, types);
+    }
+
+    return null;
+}
+
+/**
+ * Type whose properties are set inside the innermost braces around an offset:
+ * the schema or component of a resource or component instance, or the struct of an object literal
+ */
+function containerTypeAt(text: string, offset: number, types: TypeInference): string | null {
+    const brace = findOpenBrace(text, offset);
+    if (brace === -1) return null;
+    const before = text.substring(0, brace).trimEnd();
+
+    const instanceMatch = before.match(/\b(?:resource|component)\s+([\w.]+)\s+\w+$/);
+    if (instanceMatch) {
+        return instanceMatch[1];
+    }
+
+    const declarationMatch = before.match(/\b(?:var|input|output)\s+(\w+)\s+\w+\s*=$/);
+    if (declarationMatch) {
+        return types.resolveType(declarationMatch[1]);
+    }
+
+    const propertyMatch = before.match(/(\w+)\s*[=:]$/);
+    if (propertyMatch) {
+        const parentType = containerTypeAt(text, propertyMatch.index!, types);
+        const typeName = parentType ? propertyType(parentType, propertyMatch[1], types) : null;
+        return typeName ? types.resolveType(typeName) : null;
+    }
+
+    return null;
+}
+
+/**
+ * Declared type of a property of a schema, struct or component
+ */
+function propertyType(containerType: string, name: string, types: TypeInference): string | null {
+    return types.propertiesOf(containerType)?.find(p => p.name === name)?.typeName ?? null;
+}
+
+/**
+ * Declared type of a parameter of a function declared in the file
+ */
+function parameterType(functionName: string, position: number, types: TypeInference): string | null {
+    const functionSymbol = types.model.root.symbols.find(s => s.name === functionName && s.kind === 'function');
+    if (!functionSymbol) return null;
+
+    const functionScope = types.model.scopeAt(functionSymbol.nameStart);
+    if (functionScope.kind !== 'function') return null;
+    return functionScope.symbols.filter(s => s.kind === 'parameter')[position]?.typeName ?? null;
+}
+
+/**
+ * Offset of the innermost unclosed '{' before an offset, or -1
+ */
+function findOpenBrace(text: string, offset: number): number {
+    let depth = 0;
+    for (let i = offset - 1; i >= 0; i--) {
+        if (text[i] === '}') {
+            depth++;
+        } else if (text[i] === '{') {
+            if (depth === 0) return i;
+            depth--;
+        }
+    }
+    return -1;
+}
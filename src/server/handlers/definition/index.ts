@@ -24,6 +24,7 @@ import { escapeRegex } from '../../utils/text-utils';
 import { getWordAtPosition } from '../../utils/text-utils';
 import { resolveImportPath } from '../../utils/import-utils';
 import { parseIndexedAccess } from '../../utils/indexed-resources';
+import { parseWithContext } from '../../document-model';
 
 // Import from modular files
 import { DefinitionContext } from './types';
@@ -147,7 +148,13 @@ function findPropertyAssignmentDefinition(
 
     if (enclosingBlock.type === 'resource') {
         // Find schema property definition - first try current file
-        const schemaLoc = findSchemaPropertyLocation(text, enclosingBlock.typeName, word, currentDocUri);
+        const schemaLoc = findSchemaPropertyLocation(
+            text,
+            enclosingBlock.typeName,
+            word,
+            currentDocUri,
+            parseWithContext(ctx, currentDocUri, text)
+        );
         if (schemaLoc) return schemaLoc;
 
         // Try cross-file only if schema type is imported
@@ -157,14 +164,26 @@ function findPropertyAssignmentDefinition(
             const fileContent = ctx.getFileContent(filePath, currentDocUri);
             if (fileContent) {
                 if (ctx.isSymbolImported(imports, enclosingBlock.typeName, filePath, currentFilePath)) {
-                    const loc = findSchemaPropertyLocation(fileContent, enclosingBlock.typeName, word, filePath);
+                    const loc = findSchemaPropertyLocation(
+                        fileContent,
+                        enclosingBlock.typeName,
+                        word,
+                        filePath,
+                        parseWithContext(ctx, filePath, fileContent)
+                    );
                     if (loc) return loc;
                 }
             }
         }
     } else if (enclosingBlock.type === 'component') {
         // Find component input definition - first try current file
-        const inputLoc = findComponentInputLocation(text, enclosingBlock.typeName, word, currentDocUri);
+        const inputLoc = findComponentInputLocation(
+            text,
+            enclosingBlock.typeName,
+            word,
+            currentDocUri,
+            parseWithContext(ctx, currentDocUri, text)
+        );
         if (inputLoc) return inputLoc;
 
         // Try cross-file only if component type is imported
@@ -174,7 +193,13 @@ function findPropertyAssignmentDefinition(
             const fileContent = ctx.getFileContent(filePath, currentDocUri);
             if (fileContent) {
                 if (ctx.isSymbolImported(imports, enclosingBlock.typeName, filePath, currentFilePath)) {
-                    const loc = findComponentInputLocation(fileContent, enclosingBlock.typeName, word, filePath);
+                    const loc = findComponentInputLocation(
+                        fileContent,
+                        enclosingBlock.typeName,
+                        word,
+                        filePath,
+                        parseWithContext(ctx, filePath, fileContent)
+                    );
                     if (loc) return loc;
                 }
             }
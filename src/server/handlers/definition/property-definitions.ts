@@ -9,6 +9,7 @@ import { URI } from 'vscode-uri';
 import { escapeRegex, findMatchingBrace } from '../../utils/text-utils';
 import {
     parseKite,
+    ParseResult,
     findSchemaPropertyAST,
     findComponentInputAST,
 } from '../../../parser';
@@ -21,10 +22,10 @@ export function findSchemaPropertyLocation(
     text: string,
     schemaName: string,
     propertyName: string,
-    filePathOrUri: string
+    filePathOrUri: string,
+    result: ParseResult = parseKite(text)
 ): Location | null {
     const uri = filePathOrUri.startsWith('file://') ? filePathOrUri : URI.file(filePathOrUri).toString();
-    const result = parseKite(text);
     if (!result.tree) return null;
 
     const propLoc = findSchemaPropertyAST(result.tree, schemaName, propertyName);
@@ -43,10 +44,10 @@ export function findComponentInputLocation(
     text: string,
     componentTypeName: string,
     inputName: string,
-    filePathOrUri: string
+    filePathOrUri: string,
+    result: ParseResult = parseKite(text)
 ): Location | null {
     const uri = filePathOrUri.startsWith('file://') ? filePathOrUri : URI.file(filePathOrUri).toString();
-    const result = parseKite(text);
     if (!result.tree) return null;
 
     const inputLoc = findComponentInputAST(result.tree, componentTypeName, inputName);
@@ -7,10 +7,12 @@ import { Location, Range, Position } from 'vscode-languageserver/node';
 import { URI } from 'vscode-uri';
 import {
     parseKite,
+    ParseResult,
     findSchemaDefinitionAST,
     findComponentDefinitionAST,
     findFunctionDefinitionAST,
 } from '../../../parser';
+import { parseWithContext } from '../../document-model';
 import { DefinitionContext } from './types';
 
 /**
@@ -58,7 +60,7 @@ export function findTypeDefinition(
 
     if (isSchemaRef) {
         // Find schema definition in current file
-        const location = findSchemaDefinition(text, word, currentDocUri);
+        const location = findSchemaDefinition(text, word, currentDocUri, parseWithContext(ctx, currentDocUri, text));
         if (location) return location;
 
         // Try other files in workspace (only if imported)
@@ -67,7 +69,12 @@ export function findTypeDefinition(
             for (const filePath of kiteFiles) {
                 const fileContent = ctx.getFileContent(filePath, currentDocUri);
                 if (fileContent) {
-                    const loc = findSchemaDefinition(fileContent, word, filePath);
+                    const loc = findSchemaDefinition(
+                        fileContent,
+                        word,
+                        filePath,
+                        parseWithContext(ctx, filePath, fileContent)
+                    );
                     if (loc) {
                         // Check if this symbol is imported
                         if (ctx.isSymbolImported(imports, word, filePath, currentFilePath)) {
@@ -85,7 +92,7 @@ export function findTypeDefinition(
 
     if (isComponentRef) {
         // Find component definition in current file
-        const location = findComponentDefinition(text, word, currentDocUri);
+        const location = findComponentDefinition(text, word, currentDocUri, parseWithContext(ctx, currentDocUri, text));
         if (location) return location;
 
         // Try other files in workspace (only if imported)
@@ -94,7 +101,12 @@ export function findTypeDefinition(
             for (const filePath of kiteFiles) {
                 const fileContent = ctx.getFileContent(filePath, currentDocUri);
                 if (fileContent) {
-                    const loc = findComponentDefinition(fileContent, word, filePath);
+                    const loc = findComponentDefinition(
+                        fileContent,
+                        word,
+                        filePath,
+                        parseWithContext(ctx, filePath, fileContent)
+                    );
                     if (loc) {
                         // Check if this symbol is imported
                         if (ctx.isSymbolImported(imports, word, filePath, currentFilePath)) {
@@ -116,7 +128,7 @@ export function findTypeDefinition(
 
     if (isFunctionCall) {
         // Find function definition in current file
-        const location = findFunctionDefinition(text, word, currentDocUri);
+        const location = findFunctionDefinition(text, word, currentDocUri, parseWithContext(ctx, currentDocUri, text));
         if (location) return location;
 
         // Try other files in workspace (only if imported)
@@ -125,7 +137,12 @@ export function findTypeDefinition(
             for (const filePath of kiteFiles) {
                 const fileContent = ctx.getFileContent(filePath, currentDocUri);
                 if (fileContent) {
-                    const loc = findFunctionDefinition(fileContent, word, filePath);
+                    const loc = findFunctionDefinition(
+                        fileContent,
+                        word,
+                        filePath,
+                        parseWithContext(ctx, filePath, fileContent)
+                    );
                     if (loc) {
                         // Check if this symbol is imported
                         if (ctx.isSymbolImported(imports, word, filePath, currentFilePath)) {
@@ -147,9 +164,13 @@ export function findTypeDefinition(
 /**
  * Find schema definition location in text using AST parsing.
  */
-export function findSchemaDefinition(text: string, schemaName: string, filePathOrUri: string): Location | null {
+export function findSchemaDefinition(
+    text: string,
+    schemaName: string,
+    filePathOrUri: string,
+    result: ParseResult = parseKite(text)
+): Location | null {
     const uri = filePathOrUri.startsWith('file://') ? filePathOrUri : URI.file(filePathOrUri).toString();
-    const result = parseKite(text);
     if (!result.tree) return null;
 
     const defLoc = findSchemaDefinitionAST(result.tree, schemaName);
@@ -164,9 +185,13 @@ export function findSchemaDefinition(text: string, schemaName: string, filePathO
 /**
  * Find function definition location in text using AST parsing.
  */
-export function findFunctionDefinition(text: string, functionName: string, filePathOrUri: string): Location | null {
+export function findFunctionDefinition(
+    text: string,
+    functionName: string,
+    filePathOrUri: string,
+    result: ParseResult = parseKite(text)
+): Location | null {
     const uri = filePathOrUri.startsWith('file://') ? filePathOrUri : URI.file(filePathOrUri).toString();
-    const result = parseKite(text);
     if (!result.tree) return null;
 
     const defLoc = findFunctionDefinitionAST(result.tree, functionName);
@@ -181,9 +206,13 @@ export function findFunctionDefinition(text: string, functionName: string, fileP
 /**
  * Find component definition location in text using AST parsing.
  */
-export function findComponentDefinition(text: string, componentName: string, filePathOrUri: string): Location | null {
+export function findComponentDefinition(
+    text: string,
+    componentName: string,
+    filePathOrUri: string,
+    result: ParseResult = parseKite(text)
+): Location | null {
     const uri = filePathOrUri.startsWith('file://') ? filePathOrUri : URI.file(filePathOrUri).toString();
-    const result = parseKite(text);
     if (!result.tree) return null;
 
     const defLoc = findComponentDefinitionAST(result.tree, componentName);
@@ -0,0 +1,289 @@
+/**
+ * Tests for the dependency graph and its DOT and Mermaid export
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildDependencyGraph,
+    DependencyGraph,
+    DependencyGraphContext,
+    findDependencyCycle,
+    toDot,
+    toMermaid,
+} from './index';
+
+function createContext(files: Record<string, string>): DependencyGraphContext {
+    return {
+        findKiteFilesInWorkspace: () => Object.keys(files),
+        getFileContent: (filePath) => files[filePath] ?? null,
+    };
+}
+
+/** Edges as `from -> to (kind)` with node names instead of ids */
+function edgeNames(graph: DependencyGraph): string[] {
+    const names = new Map(graph.nodes.map(n => [n.id, n.component ? `${n.component}.${n.name}` : n.name]));
+    return graph.edges.map(e => `${names.get(e.from)} -> ${names.get(e.to)} (${e.kind})`);
+}
+
+describe('buildDependencyGraph', () => {
+    it('should create nodes for resources, component instances, inputs and outputs', () => {
+        const files = {
+            '/workspace/main.kite': `component WebServer {
+    input number port = 80
+    output string url = "http://localhost"
+}
+resource Database db {
+}
+component WebServer api {
+}
+var helper = 1`,
+        };
+
+        const graph = buildDependencyGraph(createContext(files));
+
+        expect(graph.nodes.map(n => [n.name, n.kind, n.typeName])).toEqual([
+            ['port', 'input', 'number'],
+            ['url', 'output', 'string'],
+            ['db', 'resource', 'Database'],
+            ['api', 'component', 'WebServer'],
+        ]);
+        expect(graph.nodes[0].id).toBe('file:///workspace/main.kite#WebServer.port');
+        expect(graph.nodes[2].range.start).toEqual({ line: 4, character: 18 });
+    });
+
+    it('should record the providers of a node', () => {
+        const files = {
+            '/workspace/main.kite': `@provider("aws")
+resource Database db {
+}
+@provider(["aws", "azure"])
+resource Server web {
+}
+resource Queue queue {
+}`,
+        };
+
+        const graph = buildDependencyGraph(createContext(files));
+
+        expect(graph.nodes.map(n => n.providers)).toEqual([['aws'], ['aws', 'azure'], undefined]);
+    });
+
+    it('should add edges for references inside resource bodies', () => {
+        const files = {
+            '/workspace/main.kite': `resource Database db {
+}
+resource Server web {
+    connection = db.endpoint
+    name = "web-\${db.name}"
+}`,
+        };
+
+        const graph = buildDependencyGraph(createContext(files));
+
+        expect(edgeNames(graph)).toEqual(['web -> db (reference)']);
+        expect(graph.edges[0].range.start).toEqual({ line: 3, character: 17 });
+    });
+
+    it('should add edges for @dependsOn', () => {
+        const files = {
+            '/workspace/main.kite': `resource Database db {
+}
+resource Queue queue {
+}
+@dependsOn([db, queue])
+resource Server web {
+}`,
+        };
+
+        const graph = buildDependencyGraph(createContext(files));
+
+        expect(edgeNames(graph)).toEqual(['web -> db (dependsOn)', 'web -> queue (dependsOn)']);
+    });
+
+    it('should add both edges for a node referenced and listed in @dependsOn', () => {
+        const files = {
+            '/workspace/main.kite': `resource Database db {
+}
+@dependsOn(db)
+resource Server web {
+    host = db.endpoint
+}`,
+        };
+
+        const graph = buildDependencyGraph(createContext(files));
+
+        expect(edgeNames(graph)).toEqual(['web -> db (reference)', 'web -> db (dependsOn)']);
+    });
+
+    it('should follow variables and loop variables', () => {
+        const files = {
+            '/workspace/main.kite': `component App {
+    input string[] environments = ["dev"]
+    resource Database db {
+    }
+    var endpoint = db.endpoint
+    for env in environments {
+        resource Server web {
+            name = env
+            connection = endpoint
+        }
+    }
+    output string url = endpoint
+}`,
+        };
+
+        const graph = buildDependencyGraph(createContext(files));
+
+        expect(edgeNames(graph)).toEqual([
+            'App.web -> App.environments (reference)',
+            'App.web -> App.db (reference)',
+            'App.url -> App.db (reference)',
+        ]);
+    });
+
+    it('should resolve imported declarations', () => {
+        const files = {
+            '/workspace/db.kite': `resource Database db {
+}`,
+            '/workspace/main.kite': `import db from "db.kite"
+resource Server web {
+    connection = db.endpoint
+}`,
+        };
+
+        const graph = buildDependencyGraph(createContext(files), 'file:///workspace/main.kite');
+
+        expect(graph.nodes.map(n => n.id)).toEqual([
+            'file:///workspace/main.kite#web',
+            'file:///workspace/db.kite#db',
+        ]);
+        expect(edgeNames(graph)).toEqual(['web -> db (reference)']);
+    });
+
+    it('should add the edges of imported nodes only when transitive', () => {
+        const files = {
+            '/workspace/db.kite': `resource Network net {
+}
+resource Database db {
+    network = net.id
+}`,
+            '/workspace/main.kite': `import db from "db.kite"
+resource Server web {
+    connection = db.endpoint
+}`,
+        };
+        const ctx = createContext(files);
+
+        expect(edgeNames(buildDependencyGraph(ctx, 'file:///workspace/main.kite'))).toEqual(['web -> db (reference)']);
+        expect(edgeNames(buildDependencyGraph(ctx, 'file:///workspace/main.kite', { transitive: true }))).toEqual([
+            'web -> db (reference)',
+            'db -> net (reference)',
+        ]);
+    });
+
+    it('should build the graph from the given text of the file', () => {
+        const files = {
+            '/workspace/main.kite': `resource Server web {
+}`,
+        };
+        const text = `resource Database db {
+}`;
+
+        const graph = buildDependencyGraph(createContext(files), 'file:///workspace/main.kite', { text });
+
+        expect(graph.nodes.map(n => n.name)).toEqual(['db']);
+    });
+
+    it('should resolve names from wildcard imports', () => {
+        const files = {
+            '/workspace/db.kite': `resource Database db {
+}`,
+            '/workspace/main.kite': `import * from "db.kite"
+resource Server web {
+    connection = db.endpoint
+}`,
+        };
+
+        const graph = buildDependencyGraph(createContext(files), 'file:///workspace/main.kite');
+
+        expect(edgeNames(graph)).toEqual(['web -> db (reference)']);
+    });
+
+    it('should not add self edges or edges to unknown names', () => {
+        const files = {
+            '/workspace/main.kite': `resource Server web {
+    name = web.id
+    other = unknown
+}`,
+        };
+
+        expect(buildDependencyGraph(createContext(files)).edges).toEqual([]);
+    });
+});
+
+describe('export', () => {
+    const graph: DependencyGraph = {
+        nodes: [
+            { id: 'file:///a.kite#db', name: 'db', kind: 'resource', typeName: 'Database', uri: 'file:///a.kite', range: { start: { line: 0, character: 0 }, end: { line: 0, character: 2 } } },
+            { id: 'file:///a.kite#web', name: 'web', kind: 'component', typeName: 'WebServer', uri: 'file:///a.kite', range: { start: { line: 1, character: 0 }, end: { line: 1, character: 3 } } },
+        ],
+        edges: [
+            { from: 'file:///a.kite#web', to: 'file:///a.kite#db', kind: 'reference', range: { start: { line: 2, character: 4 }, end: { line: 2, character: 6 } } },
+            { from: 'file:///a.kite#web', to: 'file:///a.kite#db', kind: 'dependsOn', range: { start: { line: 1, character: 11 }, end: { line: 1, character: 13 } } },
+        ],
+    };
+
+    it('should export DOT', () => {
+        expect(toDot(graph)).toBe(`digraph dependencies {
+    rankdir=LR;
+    "file:///a.kite#db" [label="db: Database", shape=box];
+    "file:///a.kite#web" [label="web: WebServer", shape=box3d];
+    "file:///a.kite#web" -> "file:///a.kite#db";
+    "file:///a.kite#web" -> "file:///a.kite#db" [style=dashed, label="dependsOn"];
+}
+`);
+    });
+
+    it('should export Mermaid', () => {
+        expect(toMermaid(graph)).toBe(`flowchart LR
+    n0["db: Database"]
+    n1[["web: WebServer"]]
+    n1 --> n0
+    n1 -.->|dependsOn| n0
+`);
+    });
+});
+
+describe('findDependencyCycle', () => {
+    it('should find the shortest cycle through a node', () => {
+        const files = {
+            '/workspace/main.kite': `resource Server a {
+    x = b.id
+}
+resource Server b {
+    x = c.id
+    y = a.id
+}
+resource Server c {
+    x = a.id
+}`,
+        };
+        const graph = buildDependencyGraph(createContext(files));
+        const cycle = findDependencyCycle(graph, 'file:///workspace/main.kite#a')!;
+
+        expect(cycle.map(e => `${e.from.split('#')[1]}->${e.to.split('#')[1]}`)).toEqual(['a->b', 'b->a']);
+    });
+
+    it('should return null for nodes not on a cycle', () => {
+        const files = {
+            '/workspace/main.kite': `resource Server a {
+    x = b.id
+}
+resource Server b {
+}`,
+        };
+        const graph = buildDependencyGraph(createContext(files));
+
+        expect(findDependencyCycle(graph, 'file:///workspace/main.kite#a')).toBeNull();
+    });
+});
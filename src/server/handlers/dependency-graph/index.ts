@@ -0,0 +1,369 @@
+/**
+ * Dependency graph for the Kite language server.
+ *
+ * Nodes are resources, component instances, inputs and outputs. An edge from A
+ * to B means A needs B: A's body, initializer or decorator arguments reference B
+ * (`db.endpoint` inside another resource, possibly through variables and loop
+ * variables), or A lists B in `@dependsOn`. References to imported declarations
+ * are followed into the files they come from.
+ *
+ * The graph can be exported as Graphviz DOT or as a Mermaid flowchart.
+ */
+
+import { Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { OffsetRange, Scope, SemanticSymbol, SymbolKind, SymbolReference } from '../../../parser';
+import { DocumentModel } from '../../document-model';
+import { BaseContext } from '../../types';
+import { createModelLoader, resolveReferenceTarget, resolveSymbol } from '../../utils/imported-symbols';
+
+/**
+ * Context for dependency graph operations
+ */
+export interface DependencyGraphContext {
+    findKiteFilesInWorkspace: () => string[];
+    getFileContent: (filePath: string) => string | null;
+    getDocumentModel?: BaseContext['getDocumentModel'];
+}
+
+/**
+ * Kinds of graph nodes
+ */
+export type DependencyNodeKind = 'resource' | 'component' | 'input' | 'output';
+
+/**
+ * A resource, component instance, input or output
+ */
+export interface DependencyNode {
+    /** `<uri>#<name>`, with the enclosing component definition for declarations inside one (`WebServer.port`) */
+    id: string;
+    name: string;
+    kind: DependencyNodeKind;
+    /** Schema of a resource, component type of an instance, declared type of an input or output */
+    typeName?: string;
+    /** Component definition the node is declared in */
+    component?: string;
+    /** Providers listed in `@provider("aws")` or `@provider(["aws", "azure"])` */
+    providers?: string[];
+    uri: string;
+    /** Range of the declared name */
+    range: Range;
+}
+
+/**
+ * How a dependency is expressed
+ * - 'reference': the dependent node uses the other node in its body, initializer or decorators
+ * - 'dependsOn': the dependent node lists the other node in `@dependsOn`
+ */
+export type DependencyEdgeKind = 'reference' | 'dependsOn';
+
+/**
+ * A dependency: `from` needs `to`
+ */
+export interface DependencyEdge {
+    from: string;
+    to: string;
+    kind: DependencyEdgeKind;
+    /** First reference that creates the dependency, in the file of `from` */
+    range: Range;
+}
+
+export interface DependencyGraph {
+    nodes: DependencyNode[];
+    edges: DependencyEdge[];
+}
+
+/**
+ * Formats the graph can be exported to
+ */
+export type DependencyGraphFormat = 'dot' | 'mermaid';
+
+/**
+ * Parameters of the `kite/dependencyGraph` and `kite/exportDependencyGraph` requests
+ */
+export interface DependencyGraphParams {
+    /** File to build the graph for; the whole workspace when absent */
+    uri?: string;
+    /** Export format (`kite/exportDependencyGraph` only) */
+    format?: DependencyGraphFormat;
+}
+
+/** Declarations that become graph nodes */
+const NODE_KINDS: ReadonlyMap<SymbolKind, DependencyNodeKind> = new Map([
+    ['resource', 'resource'],
+    ['component-instance', 'component'],
+    ['input', 'input'],
+    ['output', 'output'],
+]);
+
+/** Declarations whose value is followed to the nodes it uses */
+const INTERMEDIATE_KINDS: ReadonlySet<SymbolKind> = new Set(['variable', 'loop-variable']);
+
+/**
+ * Options for building a dependency graph
+ */
+export interface DependencyGraphOptions {
+    /**
+     * Also add the edges of imported nodes, and of the nodes they reach in turn,
+     * so that paths through other files are complete (used for cycle detection)
+     */
+    transitive?: boolean;
+    /** Current text of the file the graph is built for, when it may differ from getFileContent */
+    text?: string;
+}
+
+/**
+ * Build the dependency graph of one file, or of all workspace files when no URI is given.
+ * The graph of a file also contains the imported nodes its nodes depend on.
+ */
+export function buildDependencyGraph(
+    ctx: DependencyGraphContext,
+    uri?: string,
+    options: DependencyGraphOptions = {}
+): DependencyGraph {
+    const filePath = uri ? URI.parse(uri).fsPath : undefined;
+    const loadModel = createModelLoader(ctx, filePath !== undefined && options.text !== undefined
+        ? { filePath, text: options.text }
+        : undefined);
+    const documents = new Map<DocumentModel, TextDocument>();
+    const nodes = new Map<SemanticSymbol, DependencyNode>();
+    // File of each node, for expanding nodes reached through imports
+    const nodeModels = new Map<SemanticSymbol, DocumentModel>();
+    const expanded = new Set<SemanticSymbol>();
+    const edges = new Map<string, DependencyEdge>();
+
+    const rangeOf = (model: DocumentModel, start: number, end: number): Range => {
+        let document = documents.get(model);
+        if (!document) {
+            document = TextDocument.create(model.uri, 'kite', model.version, model.text);
+            documents.set(model, document);
+        }
+        return Range.create(document.positionAt(start), document.positionAt(end));
+    };
+
+    const nodeFor = (symbol: SemanticSymbol, model: DocumentModel): DependencyNode => {
+        let node = nodes.get(symbol);
+        if (!node) {
+            const component = enclosingComponent(symbol);
+            node = {
+                id: `${model.uri}#${component ? `${component}.` : ''}${symbol.name}`,
+                name: symbol.name,
+                kind: NODE_KINDS.get(symbol.kind)!,
+                uri: model.uri,
+                range: rangeOf(model, symbol.nameStart, symbol.nameEnd),
+            };
+            if (symbol.typeName) node.typeName = symbol.typeName;
+            if (component) node.component = component;
+            const providers = providersOf(symbol, model);
+            if (providers.length > 0) node.providers = providers;
+            nodes.set(symbol, node);
+            nodeModels.set(symbol, model);
+        }
+        return node;
+    };
+
+    /**
+     * Nodes a reference leads to, following variables and imports
+     */
+    const nodesUsedByReference = (reference: SymbolReference, model: DocumentModel, visited: Set<SemanticSymbol>): DependencyNode[] => {
+        const target = resolveReferenceTarget(reference, model, loadModel);
+        return target ? nodesUsedBy(target.symbol, target.model, visited) : [];
+    };
+
+    const nodesUsedBy = (symbol: SemanticSymbol, model: DocumentModel, visited: Set<SemanticSymbol>): DependencyNode[] => {
+        if (visited.has(symbol)) return [];
+        visited.add(symbol);
+
+        if (NODE_KINDS.has(symbol.kind)) {
+            return [nodeFor(symbol, model)];
+        }
+        if (INTERMEDIATE_KINDS.has(symbol.kind) && symbol.value) {
+            return referencesIn(model, symbol.value).flatMap(reference => nodesUsedByReference(reference, model, visited));
+        }
+        if (symbol.kind === 'import') {
+            const target = resolveSymbol(symbol, model, loadModel);
+            return target ? nodesUsedBy(target.symbol, target.model, visited) : [];
+        }
+        return [];
+    };
+
+    /**
+     * Add the edges of a node's body or initializer and decorator arguments
+     */
+    const expand = (symbol: SemanticSymbol, model: DocumentModel) => {
+        if (expanded.has(symbol)) return;
+        expanded.add(symbol);
+        const from = nodeFor(symbol, model);
+
+        const addEdges = (range: OffsetRange, kind: DependencyEdgeKind) => {
+            // Each part gets its own visited set, so a node both referenced and listed in @dependsOn gets both edges
+            const visited = new Set([symbol]);
+            for (const reference of referencesIn(model, range)) {
+                for (const to of nodesUsedByReference(reference, model, visited)) {
+                    const key = `${from.id}\n${to.id}\n${kind}`;
+                    if (to !== from && !edges.has(key)) {
+                        edges.set(key, { from: from.id, to: to.id, kind, range: rangeOf(model, reference.start, reference.end) });
+                    }
+                }
+            }
+        };
+
+        if (symbol.value) {
+            addEdges(symbol.value, 'reference');
+        }
+        for (const decorator of symbol.decorators ?? []) {
+            if (decorator.arguments) {
+                addEdges(decorator.arguments, decorator.name === 'dependsOn' ? 'dependsOn' : 'reference');
+            }
+        }
+    };
+
+    for (const modelPath of filePath ? [filePath] : ctx.findKiteFilesInWorkspace()) {
+        const model = loadModel(modelPath);
+        if (!model) continue;
+
+        for (const symbol of model.semanticModel.symbols) {
+            if (NODE_KINDS.has(symbol.kind)) expand(symbol, model);
+        }
+    }
+
+    // Nodes are added while expanding, so this also reaches the nodes of newly added nodes
+    if (options.transitive) {
+        for (const [symbol, model] of nodeModels) {
+            expand(symbol, model);
+        }
+    }
+
+    return { nodes: [...nodes.values()], edges: [...edges.values()] };
+}
+
+/**
+ * Shortest dependency cycle through a node: the edges from the node back to itself, or null
+ */
+export function findDependencyCycle(graph: DependencyGraph, nodeId: string): DependencyEdge[] | null {
+    const outgoing = new Map<string, DependencyEdge[]>();
+    for (const edge of graph.edges) {
+        const list = outgoing.get(edge.from);
+        if (list) list.push(edge);
+        else outgoing.set(edge.from, [edge]);
+    }
+
+    // Breadth-first search, remembering the edge each node was first reached by
+    const reachedBy = new Map<string, DependencyEdge>();
+    const queue = [nodeId];
+    for (let i = 0; i < queue.length; i++) {
+        for (const edge of outgoing.get(queue[i]) ?? []) {
+            if (reachedBy.has(edge.to)) continue;
+            reachedBy.set(edge.to, edge);
+            if (edge.to === nodeId) {
+                const cycle: DependencyEdge[] = [];
+                for (let current = edge; ; current = reachedBy.get(current.from)!) {
+                    cycle.unshift(current);
+                    if (current.from === nodeId) return cycle;
+                }
+            }
+            queue.push(edge.to);
+        }
+    }
+    return null;
+}
+
+/**
+ * Export a graph as a Graphviz DOT digraph
+ */
+export function toDot(graph: DependencyGraph): string {
+    const lines = ['digraph dependencies {', '    rankdir=LR;'];
+    for (const node of graph.nodes) {
+        lines.push(`    ${dotString(node.id)} [label=${dotString(nodeLabel(node))}, shape=${DOT_SHAPES[node.kind]}];`);
+    }
+    for (const edge of graph.edges) {
+        const attributes = edge.kind === 'dependsOn' ? ' [style=dashed, label="dependsOn"]' : '';
+        lines.push(`    ${dotString(edge.from)} -> ${dotString(edge.to)}${attributes};`);
+    }
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Export a graph as a Mermaid flowchart
+ */
+export function toMermaid(graph: DependencyGraph): string {
+    const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+    const lines = ['flowchart LR'];
+    for (const node of graph.nodes) {
+        const [open, close] = MERMAID_SHAPES[node.kind];
+        lines.push(`    ${ids.get(node.id)}${open}"${mermaidString(nodeLabel(node))}"${close}`);
+    }
+    for (const edge of graph.edges) {
+        const from = ids.get(edge.from);
+        const to = ids.get(edge.to);
+        if (!from || !to) continue;
+        lines.push(edge.kind === 'dependsOn' ? `    ${from} -.->|dependsOn| ${to}` : `    ${from} --> ${to}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Export a graph in a format
+ */
+export function exportDependencyGraph(graph: DependencyGraph, format: DependencyGraphFormat): string {
+    return format === 'mermaid' ? toMermaid(graph) : toDot(graph);
+}
+
+const DOT_SHAPES: Record<DependencyNodeKind, string> = {
+    resource: 'box',
+    component: 'box3d',
+    input: 'invhouse',
+    output: 'house',
+};
+
+const MERMAID_SHAPES: Record<DependencyNodeKind, [string, string]> = {
+    resource: ['[', ']'],
+    component: ['[[', ']]'],
+    input: ['[/', '/]'],
+    output: ['[\\', '\\]'],
+};
+
+/**
+ * Node label: `name: Type`, prefixed with the component definition it is declared in
+ */
+function nodeLabel(node: DependencyNode): string {
+    const name = node.component ? `${node.component}.${node.name}` : node.name;
+    return node.typeName ? `${name}: ${node.typeName}` : name;
+}
+
+function dotString(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function mermaidString(text: string): string {
+    return text.replace(/"/g, '#quot;');
+}
+
+/**
+ * Name of the component definition a symbol is declared in
+ */
+function enclosingComponent(symbol: SemanticSymbol): string | undefined {
+    for (let scope: Scope | null = symbol.scope; scope; scope = scope.parent) {
+        if (scope.kind === 'component-def') return scope.name;
+    }
+    return undefined;
+}
+
+/**
+ * String literals of a symbol's @provider decorator
+ */
+function providersOf(symbol: SemanticSymbol, model: DocumentModel): string[] {
+    const decorator = symbol.decorators?.find(d => d.name === 'provider');
+    if (!decorator?.arguments) return [];
+    const text = model.text.slice(decorator.arguments.start, decorator.arguments.end);
+    return [...text.matchAll(/"([^"]*)"|'([^']*)'/g)].map(match => match[1] ?? match[2]);
+}
+
+/**
+ * Value references inside a range
+ */
+function referencesIn(model: DocumentModel, range: OffsetRange): SymbolReference[] {
+    return model.semanticModel.references.filter(r => !r.isType && r.start >= range.start && r.end <= range.end);
+}
@@ -12,14 +12,17 @@ import {
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { getWordAtPosition, wordBoundaryRegex, isInComment } from '../../utils/text-utils';
 import { KEYWORDS } from '../../constants';
+import { buildSemanticModel, SemanticModel, SemanticSymbol } from '../../../parser';
 
 /**
  * Handle document highlight request.
  * Returns all occurrences of the symbol at the given position.
+ * @param model - Semantic model of the document, if already built
  */
 export function handleDocumentHighlight(
     document: TextDocument,
-    position: Position
+    position: Position,
+    model: SemanticModel = buildSemanticModel(document.getText())
 ): DocumentHighlight[] {
     const word = getWordAtPosition(document, position);
     if (!word) return [];
@@ -29,6 +32,12 @@ export function handleDocumentHighlight(
         return [];
     }
 
+    // Declared symbols highlight their resolved references only
+    const symbol = model.symbolAt(document.offsetAt(position));
+    if (symbol && symbol.name === word) {
+        return highlightSymbol(document, symbol);
+    }
+
     const text = document.getText();
     const highlights: DocumentHighlight[] = [];
 
@@ -68,6 +77,21 @@ export function handleDocumentHighlight(
     return highlights;
 }
 
+/**
+ * Highlight a symbol's declaration and references, in document order.
+ */
+function highlightSymbol(document: TextDocument, symbol: SemanticSymbol): DocumentHighlight[] {
+    const occurrences = [
+        { start: symbol.nameStart, end: symbol.nameEnd, isWrite: true },
+        ...symbol.references,
+    ].sort((a, b) => a.start - b.start);
+
+    return occurrences.map(occurrence => ({
+        range: Range.create(document.positionAt(occurrence.start), document.positionAt(occurrence.end)),
+        kind: occurrence.isWrite ? DocumentHighlightKind.Write : DocumentHighlightKind.Read,
+    }));
+}
+
 /**
  * Determine if the occurrence is a read or write.
  */
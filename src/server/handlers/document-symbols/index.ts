@@ -12,6 +12,7 @@ import {
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import {
     parseKite,
+    ParseResult,
     ProgramContext,
     SchemaDeclarationContext,
     StructDeclarationContext,
@@ -28,12 +29,13 @@ import {
  * Handle document symbol request - provides outline view
  * Uses AST-based parsing for accurate symbol extraction.
  */
-export function handleDocumentSymbol(document: TextDocument): DocumentSymbol[] {
+export function handleDocumentSymbol(
+    document: TextDocument,
+    result: ParseResult = parseKite(document.getText())
+): DocumentSymbol[] {
     const text = document.getText();
     const symbols: DocumentSymbol[] = [];
 
-    // Parse the document
-    const result = parseKite(text);
     if (!result.tree) {
         return symbols;
     }
@@ -6,7 +6,11 @@ import { describe, it, expect } from 'vitest';
 import { MarkupKind, Position, Range } from 'vscode-languageserver/node';
 import { handleHover } from '.';
 import { Declaration } from '../../types';
+import { buildConstantEvaluator, buildTypeInference } from '../../../parser';
 import { createDocument } from '../../test-utils';
+import { createDocumentModel } from '../../document-model';
+import { analyzeSensitiveFlow } from '../../utils/sensitive-flow';
+import { mergeDecorators, normalizeDecorators } from '../../decorator-catalog';
 
 describe('handleHover', () => {
     describe('keyword hover', () => {
@@ -56,6 +60,29 @@ describe('handleHover', () => {
         });
     });
 
+    describe('decorator hover', () => {
+        it('should show the description, targets and example of a decorator', () => {
+            const doc = createDocument('@minValue(1)\ninput number port = 8080');
+            const hover = handleHover(doc, Position.create(0, 3), []);
+
+            const value = (hover?.contents as { value: string }).value;
+            expect(value).toContain('**decorator** `@minValue`');
+            expect(value).toContain('**Targets:** input, output');
+            expect(value).toContain('```kite\n@minValue(1)');
+        });
+
+        it('should show workspace-defined decorators', () => {
+            const doc = createDocument('@provisionOn(["aws"])\nresource Storage backup { }');
+            const decorators = mergeDecorators(normalizeDecorators({
+                decorators: [{ name: 'provisionOn', description: 'Clouds to provision on', targets: ['resource'] }],
+            }));
+            const hover = handleHover(doc, Position.create(0, 4), [], undefined, undefined, undefined, decorators);
+
+            expect((hover?.contents as { value: string }).value).toContain('Clouds to provision on');
+            expect(handleHover(doc, Position.create(0, 4), [])).toBeNull();
+        });
+    });
+
     describe('declaration hover', () => {
         it('should show hover for variable declaration', () => {
             const doc = createDocument('var myVar = "hello"');
@@ -75,6 +102,92 @@ describe('handleHover', () => {
             expect((hover?.contents as { value: string }).value).toContain('Type: `string`');
         });
 
+        it('should show the inferred type of an unannotated variable', () => {
+            const text = `var port = 8080
+var url = "http://localhost:" + port`;
+            const doc = createDocument(text);
+            const declarations: Declaration[] = [{
+                name: 'url',
+                type: 'variable',
+                range: Range.create(1, 4, 1, 7),
+                nameRange: Range.create(1, 4, 1, 7),
+                uri: 'file:///test.kite',
+            }];
+            const hover = handleHover(doc, Position.create(1, 5), declarations, buildTypeInference(text));
+
+            expect((hover?.contents as { value: string }).value).toContain('Type: `string` (inferred)');
+        });
+
+        it('should show the evaluated value of a variable', () => {
+            const text = `var name = "web"
+var id = "\${name}-\${1 + 1}"`;
+            const doc = createDocument(text);
+            const declarations: Declaration[] = [{
+                name: 'id',
+                type: 'variable',
+                range: Range.create(1, 4, 1, 6),
+                nameRange: Range.create(1, 4, 1, 6),
+                uri: 'file:///test.kite',
+            }];
+            const hover = handleHover(doc, Position.create(1, 5), declarations, buildTypeInference(text), buildConstantEvaluator(text));
+
+            expect((hover?.contents as { value: string }).value).toContain('Value: `"web-2"`');
+        });
+
+        it('should mark values derived from @sensitive inputs', () => {
+            const text = `@sensitive
+input string password
+var url = "postgres://admin:\${password}@db"`;
+            const doc = createDocument(text);
+            const model = createDocumentModel(doc.uri, text);
+            const sensitive = analyzeSensitiveFlow(model, () => null);
+            const declarations: Declaration[] = [{
+                name: 'url',
+                type: 'variable',
+                range: Range.create(2, 4, 2, 7),
+                nameRange: Range.create(2, 4, 2, 7),
+                uri: doc.uri,
+            }, {
+                name: 'password',
+                type: 'input',
+                range: Range.create(1, 13, 1, 21),
+                nameRange: Range.create(1, 13, 1, 21),
+                uri: doc.uri,
+            }];
+
+            const urlHover = handleHover(doc, Position.create(2, 5), declarations, model.types, model.constants, sensitive);
+            const passwordHover = handleHover(doc, Position.create(1, 15), declarations, model.types, model.constants, sensitive);
+
+            expect((urlHover?.contents as { value: string }).value).toContain('**Sensitive** (derived from `password`)');
+            expect((passwordHover?.contents as { value: string }).value).toContain('**Sensitive**');
+        });
+
+        it('should show the evaluated value of a resource property', () => {
+            const text = `var env = "prod"
+resource S3.Bucket logs {
+    name = "logs-$env"
+}`;
+            const doc = createDocument(text);
+            const hover = handleHover(doc, Position.create(2, 5), [], buildTypeInference(text), buildConstantEvaluator(text));
+
+            expect((hover?.contents as { value: string }).value).toBe('**property** `name`\n\nValue: `"logs-prod"`');
+        });
+
+        it('should list the members of a union type alias', () => {
+            const text = 'type Environment = "dev" | "prod"';
+            const doc = createDocument(text);
+            const declarations: Declaration[] = [{
+                name: 'Environment',
+                type: 'type',
+                range: Range.create(0, 5, 0, 16),
+                nameRange: Range.create(0, 5, 0, 16),
+                uri: 'file:///test.kite',
+            }];
+            const hover = handleHover(doc, Position.create(0, 6), declarations, buildTypeInference(text));
+
+            expect((hover?.contents as { value: string }).value).toContain('One of: `"dev"` | `"prod"`');
+        });
+
         it('should show hover for resource with schema', () => {
             const doc = createDocument('resource Config server { }');
             const declarations: Declaration[] = [{
@@ -9,22 +9,56 @@ import {
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Position } from 'vscode-languageserver/node';
-import { Declaration } from '../../types';
-import { KEYWORDS, TYPES } from '../../constants';
+import { Declaration, DecoratorInfo } from '../../types';
+import { ConstantEvaluator, formatConstant, SymbolKind, TypeInference } from '../../../parser';
+import { DECORATORS, KEYWORDS, TYPES } from '../../constants';
 import { getWordAtPosition } from '../../utils/text-utils';
 import { isIndexedResource, formatIndexedResourceInfo, getAccessPatternSuggestion } from '../../utils/indexed-resources';
+import { isMarkedSensitive, SensitiveFlow } from '../../utils/sensitive-flow';
+
+/** Symbols whose constant value is shown */
+const VALUE_KINDS: ReadonlySet<SymbolKind> = new Set(['variable', 'input', 'output']);
+
+/** Symbols whose value or body can contain properties */
+const PROPERTY_OWNER_KINDS: ReadonlySet<SymbolKind> = new Set(['variable', 'input', 'output', 'resource', 'component-instance']);
+
+/** Longer values are shortened */
+const MAX_VALUE_LENGTH = 200;
 
 /**
  * Handle hover request
+ * @param types - Type inference of the document, used for declarations without a type annotation
+ *                and the members of union type aliases
+ * @param constants - Constant evaluator of the document, used to show the values of
+ *                    variables, inputs, outputs and properties
+ * @param sensitive - Sensitive data flow of the document, used to mark values derived from `@sensitive` inputs
+ * @param decorators - Decorator catalog, including workspace-defined decorators
  */
 export function handleHover(
     document: TextDocument,
     position: Position,
-    declarations: Declaration[]
+    declarations: Declaration[],
+    types?: TypeInference,
+    constants?: ConstantEvaluator,
+    sensitive?: SensitiveFlow,
+    decorators: readonly DecoratorInfo[] = DECORATORS
 ): Hover | null {
     const word = getWordAtPosition(document, position);
     if (!word) return null;
 
+    // Check if it's a decorator name (after @)
+    const decorator = isDecoratorName(document, position)
+        ? decorators.find(d => d.name === word)
+        : undefined;
+    if (decorator) {
+        return {
+            contents: {
+                kind: MarkupKind.Markdown,
+                value: formatDecorator(decorator)
+            }
+        };
+    }
+
     // Check if it's a keyword
     if (KEYWORDS.includes(word)) {
         return {
@@ -52,6 +86,29 @@ export function handleHover(
         let content = `**${decl.type}** \`${decl.name}\``;
         if (decl.typeName) {
             content += `\n\nType: \`${decl.typeName}\``;
+        } else if (types) {
+            const inferredType = inferTypeAt(document, position, word, types);
+            if (inferredType) {
+                content += `\n\nType: \`${inferredType}\` (inferred)`;
+            }
+        }
+        if (constants) {
+            const value = valueAt(document, position, word, constants);
+            if (value) {
+                content += `\n\n${value}`;
+            }
+        }
+        if (sensitive) {
+            const marker = sensitiveAt(document, position, word, sensitive);
+            if (marker) {
+                content += `\n\n${marker}`;
+            }
+        }
+        if (decl.type === 'type' && types) {
+            const literals = types.unionLiterals(decl.name);
+            if (literals) {
+                content += `\n\nOne of: ${literals.map(l => `\`"${l}"\``).join(' | ')}`;
+            }
         }
         if (decl.schemaName) {
             content += `\n\nSchema: \`${decl.schemaName}\``;
@@ -83,5 +140,133 @@ export function handleHover(
         };
     }
 
+    // Check properties of resources, component instances and object literals
+    if (types && constants) {
+        const value = propertyValueAt(document.offsetAt(position), word, types, constants);
+        if (value !== null) {
+            return {
+                contents: {
+                    kind: MarkupKind.Markdown,
+                    value: `**property** \`${word}\`\n\nValue: \`${value}\``
+                }
+            };
+        }
+    }
+
     return null;
 }
+
+/**
+ * Whether the word at a position follows an @
+ */
+function isDecoratorName(document: TextDocument, position: Position): boolean {
+    const text = document.getText();
+    let start = document.offsetAt(position);
+    while (start > 0 && /\w/.test(text[start - 1])) {
+        start--;
+    }
+    return text[start - 1] === '@';
+}
+
+/**
+ * Hover content of a decorator: description, argument, targets and example
+ */
+function formatDecorator(decorator: DecoratorInfo): string {
+    let content = `**decorator** \`@${decorator.name}\``;
+    if (decorator.description) {
+        content += `\n\n${decorator.description}`;
+    }
+    if (decorator.argument) {
+        content += `\n\n**Argument:** ${decorator.argument}`;
+    }
+    if (decorator.targets) {
+        content += `\n\n**Targets:** ${decorator.targets}`;
+    }
+    if (decorator.appliesTo) {
+        content += `\n\n**Applies to:** ${decorator.appliesTo}`;
+    }
+    content += '\n\n```kite\n' + decorator.example + '\n```';
+    return content;
+}
+
+/**
+ * Value line of the variable, input or output declared or referenced at a position
+ */
+function valueAt(
+    document: TextDocument,
+    position: Position,
+    word: string,
+    constants: ConstantEvaluator
+): string | null {
+    const symbol = constants.model.symbolAt(document.offsetAt(position));
+    if (!symbol || symbol.name !== word || !VALUE_KINDS.has(symbol.kind)) return null;
+
+    const value = constants.valueOfSymbol(symbol);
+    if (value === undefined) return null;
+    return `${symbol.kind === 'input' ? 'Default' : 'Value'}: \`${shorten(formatConstant(value))}\``;
+}
+
+/**
+ * Sensitivity line of the variable, input or output declared or referenced at a position
+ */
+function sensitiveAt(
+    document: TextDocument,
+    position: Position,
+    word: string,
+    sensitive: SensitiveFlow
+): string | null {
+    const symbol = sensitive.model.symbolAt(document.offsetAt(position));
+    if (!symbol || symbol.name !== word || !VALUE_KINDS.has(symbol.kind)) return null;
+    if (isMarkedSensitive(symbol)) return '**Sensitive**';
+
+    const sources = sensitive.sourcesOf(symbol);
+    if (sources.length === 0) return null;
+    return `**Sensitive** (derived from ${sources.map(source => `\`${source}\``).join(', ')})`;
+}
+
+/**
+ * Formatted constant value of the property whose name is at an offset, or null
+ */
+function propertyValueAt(
+    offset: number,
+    word: string,
+    types: TypeInference,
+    constants: ConstantEvaluator
+): string | null {
+    // Innermost declaration whose value or body contains the offset
+    const owner = types.model.symbols
+        .filter(s => PROPERTY_OWNER_KINDS.has(s.kind) && s.value && s.value.start <= offset && offset < s.value.end)
+        .sort((a, b) => (a.value!.end - a.value!.start) - (b.value!.end - b.value!.start))[0];
+    if (!owner) return null;
+
+    let fields = types.expressionAt(owner.value!.start, owner.value!.end)?.fields;
+    // Descend through nested object literals to the field named at the offset
+    while (fields) {
+        const field = fields.find(f => f.nameStart <= offset && offset <= f.nameEnd);
+        if (field) {
+            if (field.name !== word) return null;
+            const value = constants.expressionAt(field.value.start, field.value.end)?.value;
+            return value === undefined ? null : shorten(formatConstant(value));
+        }
+        fields = fields.find(f => f.value.start <= offset && offset < f.value.end)?.value.fields;
+    }
+    return null;
+}
+
+function shorten(value: string): string {
+    return value.length > MAX_VALUE_LENGTH ? `${value.substring(0, MAX_VALUE_LENGTH)}…` : value;
+}
+
+/**
+ * Infer the type of the symbol declared or referenced at a position
+ */
+function inferTypeAt(
+    document: TextDocument,
+    position: Position,
+    word: string,
+    types: TypeInference
+): string | null {
+    const symbol = types.model.symbolAt(document.offsetAt(position));
+    if (!symbol || symbol.name !== word) return null;
+    return types.typeOfSymbol(symbol);
+}
@@ -10,7 +10,7 @@ import {
     Position,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { URI } from 'vscode-uri';
+import { getWorkspaceIndex } from '../../workspace-index';
 
 // Re-export types
 export { ImplementationContext } from './types';
@@ -133,18 +133,16 @@ function findSchemaImplementations(
         implementations.push(Location.create(currentUri, range));
     }
 
-    // Search workspace files
-    const kiteFiles = ctx.findKiteFilesInWorkspace();
-    for (const filePath of kiteFiles) {
-        const uri = URI.file(filePath).toString();
-        if (uri === currentUri) continue;
+    // Search workspace files that mention the type
+    for (const file of getWorkspaceIndex(ctx).findFilesMentioning(schemaName)) {
+        if (file.uri === currentUri) continue;
 
-        const content = ctx.getFileContent(filePath);
+        const content = ctx.getFileContent(file.filePath);
         if (!content) continue;
 
         const impls = findResourcesUsingSchemaInText(schemaName, content);
         for (const range of impls) {
-            implementations.push(Location.create(uri, range));
+            implementations.push(Location.create(file.uri, range));
         }
     }
 
@@ -168,18 +166,16 @@ function findComponentImplementations(
         implementations.push(Location.create(currentUri, range));
     }
 
-    // Search workspace files
-    const kiteFiles = ctx.findKiteFilesInWorkspace();
-    for (const filePath of kiteFiles) {
-        const uri = URI.file(filePath).toString();
-        if (uri === currentUri) continue;
+    // Search workspace files that mention the type
+    for (const file of getWorkspaceIndex(ctx).findFilesMentioning(componentName)) {
+        if (file.uri === currentUri) continue;
 
-        const content = ctx.getFileContent(filePath);
+        const content = ctx.getFileContent(file.filePath);
         if (!content) continue;
 
         const impls = findComponentInstantiationsInText(componentName, content);
         for (const range of impls) {
-            implementations.push(Location.create(uri, range));
+            implementations.push(Location.create(file.uri, range));
         }
     }
 
@@ -2,6 +2,8 @@
  * Type definitions for the implementation handler.
  */
 
+import { WorkspaceIndex } from '../../workspace-index';
+
 /**
  * Context interface for dependency injection into implementation handler.
  * This allows the handler to access server-scoped resources without direct coupling.
@@ -11,4 +13,6 @@ export interface ImplementationContext {
     findKiteFilesInWorkspace: () => string[];
     /** Get file content by path */
     getFileContent: (filePath: string, currentDocUri?: string) => string | null;
+    /** Shared workspace index (a temporary one is built when absent) */
+    workspaceIndex?: WorkspaceIndex;
 }
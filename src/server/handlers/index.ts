@@ -68,5 +68,11 @@ export {
 export {
     validateDocument,
     ValidationContext,
+    RULES,
+    RULE_IDS,
+    RuleId,
+    RuleInfo,
+    findRule,
+    normalizeRuleConfiguration,
 } from './validation';
 export { checkTypeMismatches, inferValueType, isTypeCompatible } from './validation/type-checking';
@@ -13,8 +13,9 @@ import {
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Declaration, FunctionParameter, ArgRange, BaseContext } from '../../types';
 import { escapeRegex } from '../../utils/text-utils';
+import { parseWithContext, resolveDocumentModel } from '../../document-model';
 import {
-    parseKite,
+    ParseResult,
     findSchemaByName,
     findComponentDefByName,
     extractSchemaPropertiesAST,
@@ -24,7 +25,7 @@ import {
 /**
  * Context for inlay hints - provides access to cross-file functions
  */
-export interface InlayHintContext extends Pick<BaseContext, 'findKiteFilesInWorkspace' | 'getFileContent'> {}
+export interface InlayHintContext extends Pick<BaseContext, 'findKiteFilesInWorkspace' | 'getFileContent' | 'getDocumentModel'> {}
 
 /**
  * Handle inlay hints request
@@ -39,37 +40,18 @@ export function handleInlayHints(
     const docUri = document.uri;
 
     // 1. Type hints for var declarations without explicit type
-    // Pattern: var name = value (no type between var and name)
-    const varRegex = /\bvar\s+(\w+)\s*=/g;
-    let varMatch;
-    while ((varMatch = varRegex.exec(text)) !== null) {
-        const varName = varMatch[1];
-        const matchStart = varMatch.index;
-        const nameStart = text.indexOf(varName, matchStart + 4); // after 'var '
-
-        // Check if this var has an explicit type by looking for 'var type name ='
-        const beforeName = text.substring(matchStart + 4, nameStart).trim();
-        if (beforeName && /^\w+(\[\])?$/.test(beforeName)) {
-            // Has explicit type, skip
-            continue;
-        }
-
-        // Infer type from the value
-        const equalsPos = text.indexOf('=', nameStart);
-        if (equalsPos === -1) continue;
-
-        const valueStart = equalsPos + 1;
-        let inferredType = inferTypeFromValue(text, valueStart);
+    // Types come from expression inference; calls to functions of other files
+    // are looked up by their declared return type
+    const types = resolveDocumentModel(ctx, docUri, text).types;
+    for (const symbol of types.model.symbols) {
+        if (symbol.kind !== 'variable' || symbol.typeName || !symbol.value) continue;
 
-        // If not a literal, check if it's a function call and get return type
-        if (!inferredType) {
-            inferredType = inferTypeFromFunctionCall(text, valueStart, declarations, ctx, docUri);
-        }
+        const inferredType = types.typeOfSymbol(symbol)
+            ?? inferTypeFromFunctionCall(text, symbol.value.start, declarations, ctx, docUri);
 
         if (inferredType) {
-            const pos = document.positionAt(nameStart + varName.length);
             hints.push({
-                position: pos,
+                position: document.positionAt(symbol.nameEnd),
                 label: `: ${inferredType}`,
                 kind: InlayHintKind.Type,
                 paddingLeft: false,
@@ -318,56 +300,6 @@ function inferTypeFromFunctionCall(
     return null;
 }
 
-/**
- * Infer type from value expression
- */
-function inferTypeFromValue(text: string, startPos: number): string | null {
-    // Skip whitespace
-    let pos = startPos;
-    while (pos < text.length && /\s/.test(text[pos])) {
-        pos++;
-    }
-
-    if (pos >= text.length) return null;
-
-    const char = text[pos];
-
-    // String literal
-    if (char === '"' || char === "'") {
-        return 'string';
-    }
-
-    // Number literal
-    if (/\d/.test(char) || (char === '-' && /\d/.test(text[pos + 1] || ''))) {
-        return 'number';
-    }
-
-    // Boolean literals
-    if (text.substring(pos, pos + 4) === 'true' && !/\w/.test(text[pos + 4] || '')) {
-        return 'boolean';
-    }
-    if (text.substring(pos, pos + 5) === 'false' && !/\w/.test(text[pos + 5] || '')) {
-        return 'boolean';
-    }
-
-    // Null literal
-    if (text.substring(pos, pos + 4) === 'null' && !/\w/.test(text[pos + 4] || '')) {
-        return 'null';
-    }
-
-    // Array literal
-    if (char === '[') {
-        return 'array';
-    }
-
-    // Object literal
-    if (char === '{') {
-        return 'object';
-    }
-
-    return null;
-}
-
 /**
  * Parse function call arguments
  */
@@ -445,9 +377,8 @@ function parseArguments(text: string, startPos: number): ArgRange[] {
  * Extract input types from a component type definition (single text)
  * Uses AST-based parsing.
  */
-function extractComponentInputTypesFromText(text: string, componentTypeName: string): Record<string, string> {
+function extractComponentInputTypesFromText(result: ParseResult, componentTypeName: string): Record<string, string> {
     const inputTypes: Record<string, string> = {};
-    const result = parseKite(text);
     if (!result.tree) return inputTypes;
 
     const compDef = findComponentDefByName(result.tree, componentTypeName);
@@ -470,7 +401,7 @@ export function extractComponentInputTypes(
     currentDocUri?: string
 ): Record<string, string> {
     // First try current file
-    let inputTypes = extractComponentInputTypesFromText(text, componentTypeName);
+    let inputTypes = extractComponentInputTypesFromText(parseWithContext(ctx, currentDocUri, text), componentTypeName);
     if (Object.keys(inputTypes).length > 0) {
         return inputTypes;
     }
@@ -480,7 +411,7 @@ export function extractComponentInputTypes(
     for (const filePath of kiteFiles) {
         const fileContent = ctx.getFileContent(filePath, currentDocUri);
         if (fileContent) {
-            inputTypes = extractComponentInputTypesFromText(fileContent, componentTypeName);
+            inputTypes = extractComponentInputTypesFromText(parseWithContext(ctx, filePath, fileContent), componentTypeName);
             if (Object.keys(inputTypes).length > 0) {
                 return inputTypes;
             }
@@ -495,13 +426,12 @@ export function extractComponentInputTypes(
  * Uses AST-based parsing.
  * @param excludeCloud - If true, excludes @cloud properties (for completions)
  */
-function extractSchemaPropertyTypesFromText(text: string, schemaName: string, excludeCloud = false): Record<string, string> {
+function extractSchemaPropertyTypesFromText(result: ParseResult, schemaName: string, excludeCloud = false): Record<string, string> {
     const propertyTypes: Record<string, string> = {};
 
     // Handle dotted schema names like "VM.Instance" - just use the last part for matching
     const schemaBaseName = schemaName.includes('.') ? schemaName.split('.').pop()! : schemaName;
 
-    const result = parseKite(text);
     if (!result.tree) return propertyTypes;
 
     const schema = findSchemaByName(result.tree, schemaBaseName);
@@ -526,7 +456,7 @@ export function extractSchemaPropertyTypes(
     currentDocUri?: string
 ): Record<string, string> {
     // First try current file
-    let propertyTypes = extractSchemaPropertyTypesFromText(text, schemaName);
+    let propertyTypes = extractSchemaPropertyTypesFromText(parseWithContext(ctx, currentDocUri, text), schemaName);
     if (Object.keys(propertyTypes).length > 0) {
         return propertyTypes;
     }
@@ -536,7 +466,7 @@ export function extractSchemaPropertyTypes(
     for (const filePath of kiteFiles) {
         const fileContent = ctx.getFileContent(filePath, currentDocUri);
         if (fileContent) {
-            propertyTypes = extractSchemaPropertyTypesFromText(fileContent, schemaName);
+            propertyTypes = extractSchemaPropertyTypesFromText(parseWithContext(ctx, filePath, fileContent), schemaName);
             if (Object.keys(propertyTypes).length > 0) {
                 return propertyTypes;
             }
@@ -557,7 +487,7 @@ export function extractSchemaPropertyTypesForCompletion(
     currentDocUri?: string
 ): Record<string, string> {
     // First try current file
-    let propertyTypes = extractSchemaPropertyTypesFromText(text, schemaName, true);
+    let propertyTypes = extractSchemaPropertyTypesFromText(parseWithContext(ctx, currentDocUri, text), schemaName, true);
     if (Object.keys(propertyTypes).length > 0) {
         return propertyTypes;
     }
@@ -567,7 +497,7 @@ export function extractSchemaPropertyTypesForCompletion(
     for (const filePath of kiteFiles) {
         const fileContent = ctx.getFileContent(filePath, currentDocUri);
         if (fileContent) {
-            propertyTypes = extractSchemaPropertyTypesFromText(fileContent, schemaName, true);
+            propertyTypes = extractSchemaPropertyTypesFromText(parseWithContext(ctx, filePath, fileContent), schemaName, true);
             if (Object.keys(propertyTypes).length > 0) {
                 return propertyTypes;
             }
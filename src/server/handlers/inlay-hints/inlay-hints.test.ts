@@ -72,12 +72,12 @@ describe('handleInlayHints', () => {
             expect(hints[0].label).toBe(': null');
         });
 
-        it('should show type hint for array literal', () => {
+        it('should show element type hint for array literal', () => {
             const doc = createDocument('var items = [1, 2, 3]');
             const hints = handleInlayHints(doc, [], createContext());
 
             expect(hints).toHaveLength(1);
-            expect(hints[0].label).toBe(': array');
+            expect(hints[0].label).toBe(': number[]');
         });
 
         it('should show type hint for object literal', () => {
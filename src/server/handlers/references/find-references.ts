@@ -1,29 +1,30 @@
 /**
  * Core reference finding logic.
- * Finds all references to a symbol across the workspace with scope awareness.
+ * Finds all references to a symbol across the workspace, resolving local
+ * symbols through the document's semantic model.
  */
 
 import { Location, Range } from 'vscode-languageserver/node';
 import { URI } from 'vscode-uri';
 import {
     isInComment,
-    findComponentTypeForScope,
     getSchemaContextAtPosition,
 } from '../../utils/rename-utils';
 import { offsetToPosition, wordBoundaryRegex } from '../../utils/text-utils';
 import {
-    parseKite,
     findComponentDefByName,
     findComponentInputAST,
+    SemanticModel,
+    SemanticSymbol,
 } from '../../../parser';
+import { parseWithContext, resolveDocumentModel } from '../../document-model';
 import { ReferencesContext } from './types';
-import { findLoopVariableScope } from './loop-scope';
-import { findReferencesInScope } from './scope-utils';
 import { findComponentPropertyReferences, findSchemaPropertyReferences } from './property-references';
 
 /**
  * Find all references to a symbol across the workspace (scope-aware).
- * If cursorOffset is provided, finds the declaration at that position and respects its scope.
+ * If cursorOffset is provided, the symbol at that position is resolved through the
+ * semantic model, so local symbols only match their own scope.
  */
 export function findAllReferences(
     word: string,
@@ -42,12 +43,13 @@ export function findAllReferences(
         return locations;
     }
 
-    // Check if we're renaming a loop variable (for x in ...)
+    const model = resolveDocumentModel(ctx, currentDocUri, currentText).semanticModel;
+
+    // Check if we're on a local symbol (variable, parameter, loop variable, component input/output)
     if (cursorOffset !== undefined) {
-        const loopVarScope = findLoopVariableScope(currentText, cursorOffset, word);
-        if (loopVarScope) {
-            // Find all references to the loop variable within its scope
-            return findReferencesInScope(currentText, word, loopVarScope.scopeStart, loopVarScope.scopeEnd, currentDocUri, currentDoc);
+        const symbol = model.symbolAt(cursorOffset);
+        if (symbol && symbol.name === word && isLocalSymbol(symbol)) {
+            return findLocalSymbolReferences(symbol, currentDocUri, currentText, currentDoc, ctx);
         }
     }
 
@@ -67,8 +69,44 @@ export function findAllReferences(
         }
     }
 
-    // Determine scope constraints based on the declaration
-    return findReferencesWithScope(word, currentDocUri, cursorOffset, currentText, currentDoc, ctx);
+    // Global symbol: search the workspace
+    return findGlobalReferences(word, currentDocUri, currentText, currentDoc, model, ctx);
+}
+
+/**
+ * Whether a symbol is only visible in the current file.
+ * Everything declared below file level is local; at file level only variables are.
+ */
+function isLocalSymbol(symbol: SemanticSymbol): boolean {
+    return symbol.scope.kind !== 'file' || symbol.kind === 'variable';
+}
+
+/**
+ * Find the declaration and resolved references of a local symbol.
+ * Component inputs and outputs also match property assignments in instantiations.
+ */
+function findLocalSymbolReferences(
+    symbol: SemanticSymbol,
+    currentDocUri: string,
+    currentText: string,
+    currentDoc: ReturnType<ReferencesContext['getDocument']>,
+    ctx: ReferencesContext
+): Location[] {
+    const toLocation = (start: number, end: number) => Location.create(currentDocUri, Range.create(
+        currentDoc ? currentDoc.positionAt(start) : offsetToPosition(currentText, start),
+        currentDoc ? currentDoc.positionAt(end) : offsetToPosition(currentText, end)
+    ));
+
+    const locations = [
+        toLocation(symbol.nameStart, symbol.nameEnd),
+        ...symbol.references.map(ref => toLocation(ref.start, ref.end)),
+    ];
+
+    if ((symbol.kind === 'input' || symbol.kind === 'output') && symbol.scope.kind === 'component-def' && symbol.scope.name) {
+        locations.push(...findComponentPropertyReferences(symbol.scope.name, symbol.name, currentDocUri, ctx));
+    }
+
+    return locations;
 }
 
 /**
@@ -164,7 +202,7 @@ function findPropertyAccessReferences(
         const doc = ctx.getDocument(fileUri);
 
         // Use AST-based lookup
-        const parseResult = parseKite(fileContent);
+        const parseResult = parseWithContext(ctx, filePath, fileContent);
         if (!parseResult.tree) continue;
 
         const inputLoc = findComponentInputAST(parseResult.tree, componentTypeName, word);
@@ -221,139 +259,29 @@ function findPropertyAccessReferences(
 }
 
 /**
- * Find references with scope awareness based on declaration type.
+ * Find references to a global symbol: every occurrence in the workspace, except
+ * occurrences in the current file that resolve to a different, local symbol.
  */
-function findReferencesWithScope(
+function findGlobalReferences(
     word: string,
     currentDocUri: string,
-    cursorOffset: number | undefined,
     currentText: string,
     currentDoc: ReturnType<ReferencesContext['getDocument']>,
+    model: SemanticModel,
     ctx: ReferencesContext
 ): Location[] {
     const locations: Location[] = [];
     const currentFilePath = URI.parse(currentDocUri).fsPath;
 
-    // Determine scope constraints based on the declaration
-    let scopeStart: number | undefined;
-    let scopeEnd: number | undefined;
-    let isLocalScope = false;
-    let searchOtherFiles = true;
-    let componentTypeName: string | null = null;
-
-    // If we have a cursor position, find the declaration and its scope
-    if (cursorOffset !== undefined) {
-        const declarations = ctx.getDeclarations(currentDocUri) || [];
-
-        // First, check if the cursor is ON a declaration
-        let declaration = declarations.find(d =>
-            d.name === word &&
-            cursorOffset >= currentDoc!.offsetAt(d.nameRange.start) &&
-            cursorOffset <= currentDoc!.offsetAt(d.nameRange.end)
-        );
-
-        // If not on a declaration, find which declaration this reference belongs to
-        if (!declaration) {
-            // Find all declarations with this name that are visible at the cursor position
-            const visibleDecls = declarations.filter(d => {
-                if (d.name !== word) return false;
-
-                // If declaration has a scope, cursor must be within it
-                if (d.scopeStart !== undefined && d.scopeEnd !== undefined) {
-                    return cursorOffset >= d.scopeStart && cursorOffset <= d.scopeEnd;
-                }
-
-                // File-scoped declaration is always visible
-                return true;
-            });
-
-            // Prefer the most local (innermost) declaration
-            if (visibleDecls.length > 0) {
-                declaration = visibleDecls.reduce((best, current) => {
-                    // Scoped declarations are more local than file-scoped ones
-                    if (current.scopeStart !== undefined && best.scopeStart === undefined) {
-                        return current;
-                    }
-                    if (current.scopeStart === undefined && best.scopeStart !== undefined) {
-                        return best;
-                    }
-                    // Both scoped: prefer the one with the smaller scope (more local)
-                    if (current.scopeStart !== undefined && best.scopeStart !== undefined) {
-                        const currentSize = current.scopeEnd! - current.scopeStart;
-                        const bestSize = best.scopeEnd! - best.scopeStart!;
-                        return currentSize < bestSize ? current : best;
-                    }
-                    return best;
-                });
-            }
-        }
-
-        // If we found a declaration, use its scope
-        if (declaration) {
-            if (declaration.scopeStart !== undefined && declaration.scopeEnd !== undefined) {
-                // Check if this is an input/output in a component definition
-                if (declaration.type === 'input' || declaration.type === 'output') {
-                    componentTypeName = findComponentTypeForScope(currentText, declaration.scopeStart);
-                    if (componentTypeName) {
-                        // Still search within the component definition scope
-                        scopeStart = declaration.scopeStart;
-                        scopeEnd = declaration.scopeEnd;
-                        isLocalScope = true;
-                        searchOtherFiles = false;
-
-                        // Include the declaration itself
-                        locations.push(Location.create(currentDocUri, declaration.nameRange));
-
-                        // Also find all property assignments in component instantiations
-                        const propRefs = findComponentPropertyReferences(componentTypeName, word, currentDocUri, ctx);
-                        locations.push(...propRefs);
-                    } else {
-                        // Regular scoped input/output (shouldn't happen, but handle gracefully)
-                        scopeStart = declaration.scopeStart;
-                        scopeEnd = declaration.scopeEnd;
-                        isLocalScope = true;
-                        searchOtherFiles = false;
-                        locations.push(Location.create(currentDocUri, declaration.nameRange));
-                    }
-                } else {
-                    // Local variable/parameter - only search within scope, don't search other files
-                    scopeStart = declaration.scopeStart;
-                    scopeEnd = declaration.scopeEnd;
-                    isLocalScope = true;
-                    searchOtherFiles = false;
-
-                    // Always include the declaration itself (important for parameters which are
-                    // declared before the function body scope starts)
-                    locations.push(Location.create(currentDocUri, declaration.nameRange));
-                }
-            } else {
-                // File-scoped or global declaration
-                // For functions, schemas, components, resources, types - search all files
-                // For file-scoped variables - only search current file
-                if (declaration.type === 'variable') {
-                    searchOtherFiles = false;
-                }
-            }
-        }
-    }
-
-    // Track declaration location to avoid duplicates
-    const declarationKey = locations.length > 0
-        ? `${locations[0].range.start.line}:${locations[0].range.start.character}`
-        : null;
-
     // Search current file
     const regex = wordBoundaryRegex(word);
     let match;
     while ((match = regex.exec(currentText)) !== null) {
         if (isInComment(currentText, match.index)) continue;
 
-        // If we have scope constraints, check if the match is within scope
-        if (isLocalScope && scopeStart !== undefined && scopeEnd !== undefined) {
-            if (match.index < scopeStart || match.index > scopeEnd) {
-                continue;
-            }
-        }
+        // Skip occurrences shadowed by a local symbol
+        const symbol = model.symbolAt(match.index);
+        if (symbol && symbol.scope !== model.root) continue;
 
         const startPos = currentDoc
             ? currentDoc.positionAt(match.index)
@@ -362,33 +290,25 @@ function findReferencesWithScope(
             ? currentDoc.positionAt(match.index + word.length)
             : offsetToPosition(currentText, match.index + word.length);
 
-        // Skip if this is the declaration we already added
-        const matchKey = `${startPos.line}:${startPos.character}`;
-        if (matchKey === declarationKey) {
-            continue;
-        }
-
         locations.push(Location.create(currentDocUri, Range.create(startPos, endPos)));
     }
 
-    // Search other files in workspace (only for non-local symbols)
-    if (searchOtherFiles) {
-        const kiteFiles = ctx.findKiteFilesInWorkspace();
-        for (const filePath of kiteFiles) {
-            if (filePath === currentFilePath) continue;
-
-            const fileContent = ctx.getFileContent(filePath, currentDocUri);
-            if (fileContent) {
-                const fileUri = URI.file(filePath).toString();
-                const fileRegex = wordBoundaryRegex(word);
-                let fileMatch;
-                while ((fileMatch = fileRegex.exec(fileContent)) !== null) {
-                    if (isInComment(fileContent, fileMatch.index)) continue;
-
-                    const startPos = offsetToPosition(fileContent, fileMatch.index);
-                    const endPos = offsetToPosition(fileContent, fileMatch.index + word.length);
-                    locations.push(Location.create(fileUri, Range.create(startPos, endPos)));
-                }
+    // Search other files in workspace
+    const kiteFiles = ctx.findKiteFilesInWorkspace();
+    for (const filePath of kiteFiles) {
+        if (filePath === currentFilePath) continue;
+
+        const fileContent = ctx.getFileContent(filePath, currentDocUri);
+        if (fileContent) {
+            const fileUri = URI.file(filePath).toString();
+            const fileRegex = wordBoundaryRegex(word);
+            let fileMatch;
+            while ((fileMatch = fileRegex.exec(fileContent)) !== null) {
+                if (isInComment(fileContent, fileMatch.index)) continue;
+
+                const startPos = offsetToPosition(fileContent, fileMatch.index);
+                const endPos = offsetToPosition(fileContent, fileMatch.index + word.length);
+                locations.push(Location.create(fileUri, Range.create(startPos, endPos)));
             }
         }
     }
@@ -5,7 +5,6 @@
  * This module re-exports functionality from:
  * - types.ts: ReferencesContext interface
  * - scope-utils.ts: Bracket/brace matching and string utilities
- * - loop-scope.ts: Loop variable scope detection
  * - property-references.ts: Component/schema property reference finding
  * - find-references.ts: Core reference finding logic
  */
@@ -23,11 +22,8 @@ export {
     findMatchingBrace,
     isInStringLiteral,
     isInInterpolation,
-    findReferencesInScope,
 } from './scope-utils';
 
-export { findLoopVariableScope, LoopVariableScope } from './loop-scope';
-
 export {
     findComponentPropertyReferences,
     findSchemaPropertyReferences,
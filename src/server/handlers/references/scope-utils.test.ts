@@ -3,12 +3,9 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { TextDocument } from 'vscode-languageserver-textdocument';
-import { createDocument } from '../../test-utils';
 import {
     isInStringLiteral,
     isInInterpolation,
-    findReferencesInScope,
 } from './scope-utils';
 
 describe('isInStringLiteral', () => {
@@ -161,73 +158,3 @@ describe('isInInterpolation', () => {
         });
     });
 });
-
-describe('findReferencesInScope', () => {
-    const docUri = 'file:///test.kite';
-
-    it('finds simple word references', () => {
-        const text = 'var x = 1\nvar y = x + x';
-        const doc = createDocument(text);
-        const refs = findReferencesInScope(text, 'x', 0, text.length, docUri, doc);
-        expect(refs).toHaveLength(3); // declaration + 2 usages
-    });
-
-    it('respects scope boundaries', () => {
-        const text = 'x = 1\n---\nx = 2';
-        const doc = createDocument(text);
-        const refs = findReferencesInScope(text, 'x', 0, 5, docUri, doc);
-        expect(refs).toHaveLength(1); // only first x
-    });
-
-    it('skips references in comments', () => {
-        const text = 'var x = 1 // x is a variable\nvar y = x';
-        const doc = createDocument(text);
-        const refs = findReferencesInScope(text, 'x', 0, text.length, docUri, doc);
-        expect(refs).toHaveLength(2); // declaration + usage, not comment
-    });
-
-    it('skips references in plain strings', () => {
-        const text = 'var x = 1\nvar s = "x is cool"\nvar y = x';
-        const doc = createDocument(text);
-        const refs = findReferencesInScope(text, 'x', 0, text.length, docUri, doc);
-        expect(refs).toHaveLength(2); // declaration + y = x, not string
-    });
-
-    it('includes references in string interpolation', () => {
-        const text = 'var x = 1\nvar s = "value: ${x}"';
-        const doc = createDocument(text);
-        const refs = findReferencesInScope(text, 'x', 0, text.length, docUri, doc);
-        expect(refs).toHaveLength(2); // declaration + interpolation
-    });
-
-    it('works without document (uses offsetToPosition)', () => {
-        const text = 'var x = 1\nvar y = x';
-        const refs = findReferencesInScope(text, 'x', 0, text.length, docUri, undefined);
-        expect(refs).toHaveLength(2);
-        expect(refs[0].range.start.line).toBe(0);
-        expect(refs[1].range.start.line).toBe(1);
-    });
-
-    it('returns empty array for no matches', () => {
-        const text = 'var a = 1\nvar b = 2';
-        const doc = createDocument(text);
-        const refs = findReferencesInScope(text, 'x', 0, text.length, docUri, doc);
-        expect(refs).toHaveLength(0);
-    });
-
-    it('handles word boundaries correctly', () => {
-        const text = 'var count = 1\nvar counter = count';
-        const doc = createDocument(text);
-        const refs = findReferencesInScope(text, 'count', 0, text.length, docUri, doc);
-        expect(refs).toHaveLength(2); // not 'counter'
-    });
-
-    it('handles special regex characters in word', () => {
-        // This is an edge case - identifiers shouldn't have special chars
-        // but the function should handle it gracefully
-        const text = 'var x = 1';
-        const doc = createDocument(text);
-        const refs = findReferencesInScope(text, 'x.y', 0, text.length, docUri, doc);
-        expect(refs).toHaveLength(0);
-    });
-});
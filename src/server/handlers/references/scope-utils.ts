@@ -1,12 +1,7 @@
 /**
- * Utility functions for scope detection and string literal handling.
+ * Utility functions for bracket matching and string literal handling.
  */
 
-import { Location, Range } from 'vscode-languageserver/node';
-import { TextDocument } from 'vscode-languageserver-textdocument';
-import { isInComment } from '../../utils/rename-utils';
-import { offsetToPosition, findMatchingBrace, findMatchingBracket, wordBoundaryRegex } from '../../utils/text-utils';
-
 // Re-export for backward compatibility
 export { findMatchingBrace, findMatchingBracket } from '../../utils/text-utils';
 
@@ -72,44 +67,3 @@ export function isInInterpolation(text: string, offset: number): boolean {
 
     return depth > 0;
 }
-
-/**
- * Find all references to a word within a specific scope.
- * Handles string interpolation correctly.
- */
-export function findReferencesInScope(
-    text: string,
-    word: string,
-    scopeStart: number,
-    scopeEnd: number,
-    docUri: string,
-    doc: TextDocument | undefined
-): Location[] {
-    const locations: Location[] = [];
-    const scopeText = text.substring(scopeStart, scopeEnd);
-    const regex = wordBoundaryRegex(word);
-
-    let match;
-    while ((match = regex.exec(scopeText)) !== null) {
-        const offset = scopeStart + match.index;
-
-        // Skip if in comment
-        if (isInComment(text, offset)) continue;
-
-        // Check if this is in a regular string literal (not in interpolation)
-        if (isInStringLiteral(text, offset) && !isInInterpolation(text, offset)) {
-            continue;
-        }
-
-        const startPos = doc
-            ? doc.positionAt(offset)
-            : offsetToPosition(text, offset);
-        const endPos = doc
-            ? doc.positionAt(offset + word.length)
-            : offsetToPosition(text, offset + word.length);
-
-        locations.push(Location.create(docUri, Range.create(startPos, endPos)));
-    }
-
-    return locations;
-}
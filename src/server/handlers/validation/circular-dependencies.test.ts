@@ -0,0 +1,111 @@
+/**
+ * Tests for circular dependency detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { checkCircularDependencies } from './circular-dependencies';
+import { DependencyGraphContext } from '../dependency-graph';
+
+function createDocument(content: string, uri = 'file:///workspace/main.kite'): TextDocument {
+    return TextDocument.create(uri, 'kite', 1, content);
+}
+
+function createContext(files: Record<string, string> = {}): DependencyGraphContext {
+    return {
+        findKiteFilesInWorkspace: () => Object.keys(files),
+        getFileContent: (filePath) => files[filePath] ?? null,
+    };
+}
+
+describe('checkCircularDependencies', () => {
+    it('should report resources that reference each other', () => {
+        const doc = createDocument(`resource Server a {
+    peer = b.id
+}
+resource Server b {
+    peer = a.id
+}`);
+
+        const diagnostics = checkCircularDependencies(doc, createContext());
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            'Circular dependency: a -> b -> a',
+            'Circular dependency: b -> a -> b',
+        ]);
+        expect(diagnostics[0].range.start).toEqual({ line: 0, character: 16 });
+    });
+
+    it('should list every step of the cycle as related information', () => {
+        const doc = createDocument(`resource Server a {
+    peer = b.id
+}
+@dependsOn(a)
+resource Server b {
+}`);
+
+        const [diagnostic] = checkCircularDependencies(doc, createContext());
+
+        expect(diagnostic.relatedInformation?.map(r => [r.message, r.location.range.start])).toEqual([
+            ["'a' depends on 'b'", { line: 1, character: 11 }],
+            ["'b' depends on 'a' (@dependsOn)", { line: 3, character: 11 }],
+        ]);
+    });
+
+    it('should report cycles through component outputs', () => {
+        const doc = createDocument(`component Service {
+    input string peer = ""
+    output string url = "http://service"
+}
+component Service api {
+    peer = worker.url
+}
+component Service worker {
+    peer = api.url
+}`);
+
+        const diagnostics = checkCircularDependencies(doc, createContext());
+
+        expect(diagnostics[0].message).toBe('Circular dependency: api -> worker -> api');
+    });
+
+    it('should report cycles across files', () => {
+        const files = {
+            '/workspace/db.kite': `import web from "main.kite"
+resource Database db {
+    allowed = web.ip
+}`,
+        };
+        const doc = createDocument(`import db from "db.kite"
+resource Server web {
+    connection = db.endpoint
+}`);
+
+        const [diagnostic] = checkCircularDependencies(doc, createContext(files));
+
+        expect(diagnostic.message).toBe('Circular dependency: web -> db -> web');
+        expect(diagnostic.relatedInformation?.[1].location.uri).toBe('file:///workspace/db.kite');
+    });
+
+    it('should not report acyclic dependencies', () => {
+        const doc = createDocument(`resource Network net {
+}
+resource Server a {
+    network = net.id
+}
+resource Server b {
+    network = net.id
+    peer = a.id
+}`);
+
+        expect(checkCircularDependencies(doc, createContext())).toEqual([]);
+    });
+
+    it('should not report a resource referencing itself', () => {
+        const doc = createDocument(`resource Server a {
+    name = "server-\${a.id}"
+}`);
+
+        expect(checkCircularDependencies(doc, createContext())).toEqual([]);
+    });
+});
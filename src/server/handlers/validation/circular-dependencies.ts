@@ -0,0 +1,58 @@
+/**
+ * Circular dependency detection for the Kite language server.
+ * Reports resources and component instances that depend on themselves through
+ * property references, component outputs or @dependsOn, within a file or across imports.
+ */
+
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Location } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import {
+    buildDependencyGraph,
+    findDependencyCycle,
+    DependencyGraphContext,
+    DependencyNode,
+} from '../dependency-graph';
+
+/**
+ * Check for resources and component instances of a document that are part of a dependency cycle
+ */
+export function checkCircularDependencies(document: TextDocument, ctx: DependencyGraphContext): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const graph = buildDependencyGraph(ctx, document.uri, { transitive: true, text: document.getText() });
+    const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+    const filePath = URI.parse(document.uri).fsPath;
+
+    for (const node of graph.nodes) {
+        if (node.kind !== 'resource' && node.kind !== 'component') continue;
+        if (URI.parse(node.uri).fsPath !== filePath) continue;
+
+        const cycle = findDependencyCycle(graph, node.id);
+        if (!cycle) continue;
+
+        const path = [node, ...cycle.map(edge => nodes.get(edge.to)!)];
+        const relatedInformation: DiagnosticRelatedInformation[] = cycle.map(edge => {
+            const from = nodes.get(edge.from)!;
+            const to = nodes.get(edge.to)!;
+            const through = edge.kind === 'dependsOn' ? ' (@dependsOn)' : '';
+            return DiagnosticRelatedInformation.create(
+                Location.create(from.uri, edge.range),
+                `'${nodeName(from)}' depends on '${nodeName(to)}'${through}`
+            );
+        });
+
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: node.range,
+            message: `Circular dependency: ${path.map(nodeName).join(' -> ')}`,
+            source: 'kite',
+            relatedInformation,
+        });
+    }
+
+    return diagnostics;
+}
+
+function nodeName(node: DependencyNode): string {
+    return node.component ? `${node.component}.${node.name}` : node.name;
+}
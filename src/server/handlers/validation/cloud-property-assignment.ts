@@ -11,17 +11,20 @@ import {
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { isInComment } from '../../utils/text-utils';
-import { parseKite, findSchemaByName, extractSchemaPropertiesAST } from '../../../parser';
+import { parseKite, ParseResult, findSchemaByName, extractSchemaPropertiesAST } from '../../../parser';
 
 /**
  * Check for @cloud property assignments in resource instances.
  */
-export function checkCloudPropertyAssignment(document: TextDocument): Diagnostic[] {
+export function checkCloudPropertyAssignment(
+    document: TextDocument,
+    result: ParseResult = parseKite(document.getText())
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
 
     // Extract all @cloud properties from schemas in this file
-    const cloudPropertiesBySchema = extractCloudProperties(text);
+    const cloudPropertiesBySchema = extractCloudProperties(text, result);
 
     // Check resource instances for @cloud property assignments
     const resourceRegex = /\bresource\s+([\w.]+)\s+(\w+)\s*\{/g;
@@ -74,10 +77,9 @@ export function checkCloudPropertyAssignment(document: TextDocument): Diagnostic
  * Extract @cloud property names for each schema in the text.
  * Uses AST-based parsing.
  */
-function extractCloudProperties(text: string): Map<string, Set<string>> {
+function extractCloudProperties(text: string, result: ParseResult): Map<string, Set<string>> {
     const cloudPropertiesBySchema = new Map<string, Set<string>>();
 
-    const result = parseKite(text);
     if (!result.tree) return cloudPropertiesBySchema;
 
     // Find all schema declarations
@@ -226,6 +226,58 @@ describe('Constant condition validation', () => {
         });
     });
 
+    describe('constant values', () => {
+        it('should report conditions on constant variables', () => {
+            const doc = createDoc(`
+                var debug = false
+                if debug {
+                    println("debug")
+                }
+            `);
+            const diagnostics = checkConstantCondition(doc);
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toBe("Constant condition: 'debug' is always false");
+        });
+
+        it('should report conditions on folded expressions', () => {
+            const doc = createDoc(`
+                var replicas = 2 * 3
+                if replicas > len("abc") {
+                    println("many")
+                }
+            `);
+            const diagnostics = checkConstantCondition(doc);
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toContain('always true');
+        });
+
+        it('should detect tautologies with a constant on the right', () => {
+            const doc = createDoc(`
+                if x || true {
+                    println("always")
+                }
+            `);
+            const diagnostics = checkConstantCondition(doc);
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toContain('always true');
+        });
+
+        it('should not report variables assigned in the loop', () => {
+            const doc = createDoc(`
+                var done = false
+                while !done {
+                    done = true
+                }
+            `);
+            const diagnostics = checkConstantCondition(doc);
+
+            expect(diagnostics).toHaveLength(0);
+        });
+    });
+
     describe('non-constant conditions', () => {
         it('should not report for variable conditions', () => {
             const doc = createDoc(`
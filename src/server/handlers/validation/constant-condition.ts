@@ -1,6 +1,8 @@
 /**
  * Constant condition detection for the Kite language server.
- * Reports warnings when if/while conditions are always true or always false.
+ * Reports warnings when if/while conditions are always true or always false:
+ * conditions made of literals and constants (`if 1 == 1`, `var debug = false` then `if debug`)
+ * and logical expressions decided by one constant side (`true || x`, `x && false`).
  */
 
 import {
@@ -9,11 +11,16 @@ import {
     Range,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { buildConstantEvaluator, ConstantEvaluator } from '../../../parser/constant-evaluator';
 
 /**
  * Check for constant conditions in if/while statements
+ * @param constants - Constant evaluator of the document, if already built
  */
-export function checkConstantCondition(document: TextDocument): Diagnostic[] {
+export function checkConstantCondition(
+    document: TextDocument,
+    constants: ConstantEvaluator = buildConstantEvaluator(document.getText())
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
 
@@ -25,19 +32,19 @@ export function checkConstantCondition(document: TextDocument): Diagnostic[] {
         // Skip if in comment or string
         if (isInCommentOrString(text, match.index)) continue;
 
-        const keyword = match[1];
         const condition = match[2].trim();
+        const conditionStart = match.index + match[0].indexOf(condition);
 
-        const constantValue = evaluateConstantCondition(condition);
-        if (constantValue !== null) {
-            const conditionStart = match.index + match[0].indexOf(condition);
+        // Inputs can be overridden, so their defaults do not make a condition constant
+        const value = constants.expressionAt(conditionStart, conditionStart + condition.length, { useInputDefaults: false })?.value;
+        if (typeof value === 'boolean') {
             const startPos = document.positionAt(conditionStart);
             const endPos = document.positionAt(conditionStart + condition.length);
 
             diagnostics.push({
                 severity: DiagnosticSeverity.Warning,
                 range: Range.create(startPos, endPos),
-                message: `Constant condition: '${condition}' is always ${constantValue}`,
+                message: `Constant condition: '${condition}' is always ${value}`,
                 source: 'kite',
             });
         }
@@ -46,84 +53,6 @@ export function checkConstantCondition(document: TextDocument): Diagnostic[] {
     return diagnostics;
 }
 
-/**
- * Evaluate if a condition is constant
- * Returns 'true', 'false', or null if not constant
- */
-function evaluateConstantCondition(condition: string): string | null {
-    const trimmed = condition.trim();
-
-    // Direct boolean literals
-    if (trimmed === 'true') return 'true';
-    if (trimmed === 'false') return 'false';
-
-    // Numeric comparisons with same literal on both sides
-    const sameNumberCompare = /^(\d+(?:\.\d+)?)\s*(==|!=|<|>|<=|>=)\s*(\d+(?:\.\d+)?)$/;
-    const numMatch = sameNumberCompare.exec(trimmed);
-    if (numMatch) {
-        const left = parseFloat(numMatch[1]);
-        const op = numMatch[2];
-        const right = parseFloat(numMatch[3]);
-
-        switch (op) {
-            case '==': return left === right ? 'true' : 'false';
-            case '!=': return left !== right ? 'true' : 'false';
-            case '<': return left < right ? 'true' : 'false';
-            case '>': return left > right ? 'true' : 'false';
-            case '<=': return left <= right ? 'true' : 'false';
-            case '>=': return left >= right ? 'true' : 'false';
-        }
-    }
-
-    // String comparisons with same literal on both sides
-    const sameStringCompare = /^(["'])([^"']*)\1\s*(==|!=)\s*(["'])([^"']*)\4$/;
-    const strMatch = sameStringCompare.exec(trimmed);
-    if (strMatch) {
-        const left = strMatch[2];
-        const op = strMatch[3];
-        const right = strMatch[5];
-
-        switch (op) {
-            case '==': return left === right ? 'true' : 'false';
-            case '!=': return left !== right ? 'true' : 'false';
-        }
-    }
-
-    // Boolean literal comparisons
-    const boolCompare = /^(true|false)\s*(==|!=)\s*(true|false)$/;
-    const boolMatch = boolCompare.exec(trimmed);
-    if (boolMatch) {
-        const left = boolMatch[1] === 'true';
-        const op = boolMatch[2];
-        const right = boolMatch[3] === 'true';
-
-        switch (op) {
-            case '==': return left === right ? 'true' : 'false';
-            case '!=': return left !== right ? 'true' : 'false';
-        }
-    }
-
-    // Negation of constant
-    if (trimmed === '!true') return 'false';
-    if (trimmed === '!false') return 'true';
-
-    // Double negation
-    if (trimmed === '!!true') return 'true';
-    if (trimmed === '!!false') return 'false';
-
-    // Tautologies: true || anything, anything || true
-    if (/^true\s*\|\|/.test(trimmed) || /\|\|\s*true$/.test(trimmed)) {
-        return 'true';
-    }
-
-    // Contradictions: false && anything, anything && false
-    if (/^false\s*&&/.test(trimmed) || /&&\s*false$/.test(trimmed)) {
-        return 'false';
-    }
-
-    return null;
-}
-
 /**
  * Check if position is inside a comment or string
  */
@@ -5,6 +5,7 @@
 import { describe, it, expect } from 'vitest';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { checkDecoratorArguments } from './decorator-arguments';
+import { mergeDecorators, normalizeDecorators } from '../../decorator-catalog';
 
 function createDocument(content: string, uri = 'file:///test.kite'): TextDocument {
     return TextDocument.create(uri, 'kite', 1, content);
@@ -378,4 +379,20 @@ input number port = 8080`);
             expect(diagnostics[0].message).toContain('@minValue');
         });
     });
+
+    describe('Workspace-defined decorators', () => {
+        const decorators = mergeDecorators(normalizeDecorators({
+            decorators: [{ name: 'provisionOn', argType: 'array' }],
+        }));
+
+        it('should check arguments against the declared argument type', () => {
+            const valid = createDocument(`@provisionOn(["aws", "azure"])
+resource Storage backup { }`);
+            const invalid = createDocument(`@provisionOn("aws")
+resource Storage backup { }`);
+
+            expect(checkDecoratorArguments(valid, decorators)).toHaveLength(0);
+            expect(checkDecoratorArguments(invalid, decorators)).toHaveLength(1);
+        });
+    });
 });
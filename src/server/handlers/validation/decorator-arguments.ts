@@ -10,12 +10,17 @@ import {
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { DECORATORS } from '../../constants';
+import { DecoratorInfo } from '../../types';
 import { isInComment } from '../../utils/text-utils';
 
 /**
  * Validate decorator arguments and return diagnostics
+ * @param decorators - Decorator catalog, including workspace-defined decorators
  */
-export function checkDecoratorArguments(document: TextDocument): Diagnostic[] {
+export function checkDecoratorArguments(
+    document: TextDocument,
+    decorators: readonly DecoratorInfo[] = DECORATORS
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
 
@@ -32,7 +37,7 @@ export function checkDecoratorArguments(document: TextDocument): Diagnostic[] {
         const argsStr = match[3]?.trim() || '';
 
         // Find the decorator definition
-        const decoratorDef = DECORATORS.find(d => d.name === decoratorName);
+        const decoratorDef = decorators.find(d => d.name === decoratorName);
 
         if (!decoratorDef) {
             // Unknown decorator - handled by unknown-decorator check
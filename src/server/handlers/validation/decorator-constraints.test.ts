@@ -0,0 +1,146 @@
+/**
+ * Tests for validation decorator evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DiagnosticSeverity } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { checkDecoratorConstraints } from './decorator-constraints';
+import { ImportedSymbolsContext } from '../../utils/imported-symbols';
+
+function createDocument(content: string, uri = 'file:///workspace/main.kite'): TextDocument {
+    return TextDocument.create(uri, 'kite', 1, content);
+}
+
+function createContext(files: Record<string, string> = {}): ImportedSymbolsContext {
+    return { getFileContent: (filePath) => files[filePath] ?? null };
+}
+
+function messages(content: string, files: Record<string, string> = {}): string[] {
+    return checkDecoratorConstraints(createDocument(content), createContext(files)).map(d => d.message);
+}
+
+describe('checkDecoratorConstraints', () => {
+    describe('input defaults', () => {
+        it('should check @minValue and @maxValue', () => {
+            expect(messages(`@minValue(1)
+@maxValue(65535)
+input number port = 0
+@maxValue(65535)
+input number other = 70000
+@minValue(1)
+input number ok = 8080`)).toEqual([
+                "Value 0 of 'port' is less than @minValue(1)",
+                "Value 70000 of 'other' is greater than @maxValue(65535)",
+            ]);
+        });
+
+        it('should check @minLength, @maxLength and @nonEmpty on strings and arrays', () => {
+            expect(messages(`@minLength(3)
+input string name = "ab"
+@maxLength(2)
+input string[] zones = ["a", "b", "c"]
+@nonEmpty
+input string label = ""`)).toEqual([
+                "Length 2 of 'name' is less than @minLength(3)",
+                "Length 3 of 'zones' is greater than @maxLength(2)",
+                "'label' is empty but marked @nonEmpty",
+            ]);
+        });
+
+        it('should check @validate(regex:)', () => {
+            expect(messages(`@validate(regex: "^[a-z0-9-]+$")
+input string bucket = "My_Bucket"
+@validate(regex: "^[a-z0-9-]+$")
+input string valid = "my-bucket"`)).toEqual([
+                `"My_Bucket" does not match @validate(regex: "^[a-z0-9-]+$") of 'bucket'`,
+            ]);
+        });
+
+        it('should check @allowed, element-wise for array inputs', () => {
+            expect(messages(`@allowed(["small", "medium", "large"])
+input string size = "huge"
+@allowed(["web", "api"])
+input string[] roles = ["web", "db"]
+@allowed([80, 443])
+input number port = 443`)).toEqual([
+                `"huge" is not allowed for 'size'. Expected one of: "small", "medium", "large"`,
+                `"db" is not allowed for 'roles'. Expected one of: "web", "api"`,
+            ]);
+        });
+
+        it('should check @unique', () => {
+            expect(messages(`@unique
+input string[] tags = ["web", "api", "web"]`)).toEqual([
+                `'tags' contains "web" more than once but is marked @unique`,
+            ]);
+        });
+
+        it('should report at the value', () => {
+            const doc = createDocument(`@minValue(1)
+input number port = 0`);
+
+            const [diagnostic] = checkDecoratorConstraints(doc, createContext());
+
+            expect(diagnostic.severity).toBe(DiagnosticSeverity.Error);
+            expect(diagnostic.range.start).toEqual({ line: 1, character: 20 });
+            expect(diagnostic.range.end).toEqual({ line: 1, character: 21 });
+        });
+
+        it('should evaluate constant expressions but not other input defaults', () => {
+            expect(messages(`var base = "x"
+@minLength(3)
+input string name = base + "y"
+input string prefix = "a"
+@minLength(3)
+input string derived = prefix`)).toEqual([
+                "Length 2 of 'name' is less than @minLength(3)",
+            ]);
+        });
+    });
+
+    describe('component instantiations', () => {
+        const COMPONENT = `component Storage {
+    @allowed(["small", "medium", "large"])
+    input string size = "small"
+    @validate(regex: "^[a-z0-9-]+$")
+    input string bucket = "data"
+}
+`;
+
+        it('should check values passed to inputs', () => {
+            const doc = createDocument(COMPONENT + `component Storage photos {
+    size = "huge"
+    bucket = "My_Bucket"
+}`);
+
+            const diagnostics = checkDecoratorConstraints(doc, createContext());
+
+            expect(diagnostics.map(d => d.message)).toEqual([
+                `"huge" is not allowed for 'size'. Expected one of: "small", "medium", "large"`,
+                `"My_Bucket" does not match @validate(regex: "^[a-z0-9-]+$") of 'bucket'`,
+            ]);
+            expect(diagnostics[0].range.start).toEqual({ line: 7, character: 11 });
+        });
+
+        it('should check components from imported files', () => {
+            const files = { '/workspace/storage.kite': COMPONENT };
+
+            expect(messages(`import Storage from "storage.kite"
+component Storage photos {
+    size = "huge"
+}`, files)).toHaveLength(1);
+            expect(messages(`import * from "storage.kite"
+component Storage photos {
+    bucket = "My_Bucket"
+}`, files)).toHaveLength(1);
+        });
+
+        it('should not check values that are not constant', () => {
+            expect(messages(COMPONENT + `input string requested
+component Storage photos {
+    size = requested
+}`)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,220 @@
+/**
+ * Validation decorator evaluation for the Kite language server.
+ * Applies @minValue, @maxValue, @minLength, @maxLength, @nonEmpty,
+ * @validate(regex:), @allowed and @unique to the values known at design time:
+ * input defaults, and values passed to inputs in component instantiations,
+ * also when the component is defined in an imported file.
+ */
+
+import {
+    Diagnostic,
+    DiagnosticSeverity,
+    Range,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { constantsEqual, ConstantValue, formatConstant, SemanticSymbol } from '../../../parser';
+import { DocumentModel } from '../../document-model';
+import {
+    createModelLoader,
+    findComponentDefinition,
+    ImportedSymbolsContext,
+} from '../../utils/imported-symbols';
+import { trimRange } from '../../utils/text-utils';
+
+/**
+ * A constraint of an input: returns the problem with a value, or null when the value satisfies it
+ */
+type Constraint = (value: ConstantValue) => string | null;
+
+/**
+ * Check input defaults and component instantiation values against the validation decorators of their inputs
+ * @param model - Model of the document, if already built
+ */
+export function checkDecoratorConstraints(
+    document: TextDocument,
+    ctx: ImportedSymbolsContext,
+    model?: DocumentModel
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const filePath = URI.parse(document.uri).fsPath;
+    const loadModel = createModelLoader(ctx, { filePath, text: document.getText() });
+    const currentModel = model ?? loadModel(filePath)!;
+    const constraintCache = new Map<SemanticSymbol, Constraint[]>();
+
+    const constraintsOf = (input: SemanticSymbol, inputModel: DocumentModel): Constraint[] => {
+        let constraints = constraintCache.get(input);
+        if (!constraints) {
+            constraints = getInputConstraints(input, inputModel);
+            constraintCache.set(input, constraints);
+        }
+        return constraints;
+    };
+
+    /** Check the value in a range against the constraints of an input */
+    const checkValue = (input: SemanticSymbol, inputModel: DocumentModel, start: number, end: number) => {
+        const constraints = constraintsOf(input, inputModel);
+        if (constraints.length === 0) return;
+
+        // Inputs can be overridden, so values that depend on input defaults are not checked
+        const value = currentModel.constants.expressionAt(start, end, { useInputDefaults: false })?.value;
+        if (value === undefined) return;
+
+        for (const constraint of constraints) {
+            const problem = constraint(value);
+            if (!problem) continue;
+            diagnostics.push({
+                severity: DiagnosticSeverity.Error,
+                range: Range.create(document.positionAt(start), document.positionAt(end)),
+                message: problem,
+                source: 'kite',
+            });
+        }
+    };
+
+    for (const symbol of currentModel.semanticModel.symbols) {
+        if (!symbol.value) continue;
+
+        // Pattern: @minValue(1) input number port = 0
+        if (symbol.kind === 'input') {
+            checkValue(symbol, currentModel, symbol.value.start, symbol.value.end);
+            continue;
+        }
+
+        // Pattern: component WebServer api { port = 0 }
+        if (symbol.kind === 'component-instance' && symbol.typeName) {
+            const component = findComponentDefinition(symbol.typeName, currentModel, loadModel);
+            const body = currentModel.types.expressionAt(symbol.value.start, symbol.value.end);
+            if (!component || !body?.fields) continue;
+
+            for (const field of body.fields) {
+                const input = component.scope.symbols.find(s => s.kind === 'input' && s.name === field.name);
+                if (input) {
+                    checkValue(input, component.model, field.value.start, field.value.end);
+                }
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Constraints of the validation decorators of an input.
+ * Decorators whose argument is not constant are ignored.
+ */
+function getInputConstraints(input: SemanticSymbol, model: DocumentModel): Constraint[] {
+    const constraints: Constraint[] = [];
+    const name = input.name;
+    const isArrayInput = input.typeName?.endsWith('[]') ?? false;
+
+    for (const decorator of input.decorators ?? []) {
+        const argumentText = decorator.arguments
+            ? model.text.slice(decorator.arguments.start, decorator.arguments.end).trim()
+            : '';
+        const argument = decorator.arguments ? evaluateArgument(model, decorator.arguments.start, decorator.arguments.end) : undefined;
+
+        switch (decorator.name) {
+            case 'minValue':
+                if (typeof argument !== 'number') break;
+                constraints.push(value => typeof value === 'number' && value < argument
+                    ? `Value ${value} of '${name}' is less than @minValue(${argumentText})`
+                    : null);
+                break;
+            case 'maxValue':
+                if (typeof argument !== 'number') break;
+                constraints.push(value => typeof value === 'number' && value > argument
+                    ? `Value ${value} of '${name}' is greater than @maxValue(${argumentText})`
+                    : null);
+                break;
+            case 'minLength':
+                if (typeof argument !== 'number') break;
+                constraints.push(value => {
+                    const length = lengthOf(value);
+                    return length !== null && length < argument
+                        ? `Length ${length} of '${name}' is less than @minLength(${argumentText})`
+                        : null;
+                });
+                break;
+            case 'maxLength':
+                if (typeof argument !== 'number') break;
+                constraints.push(value => {
+                    const length = lengthOf(value);
+                    return length !== null && length > argument
+                        ? `Length ${length} of '${name}' is greater than @maxLength(${argumentText})`
+                        : null;
+                });
+                break;
+            case 'nonEmpty':
+                constraints.push(value => lengthOf(value) === 0 ? `'${name}' is empty but marked @nonEmpty` : null);
+                break;
+            case 'validate': {
+                const pattern = decorator.arguments && regexArgument(model, decorator.arguments.start, decorator.arguments.end);
+                if (!pattern) break;
+                constraints.push(value => {
+                    const mismatch = (Array.isArray(value) ? value : [value])
+                        .find(item => typeof item === 'string' && !pattern.test(item));
+                    return mismatch !== undefined
+                        ? `${formatConstant(mismatch)} does not match @validate(${argumentText}) of '${name}'`
+                        : null;
+                });
+                break;
+            }
+            case 'allowed': {
+                if (!Array.isArray(argument)) break;
+                const allowed = argument;
+                constraints.push(value => {
+                    // Each element of an array input must be allowed
+                    const items = isArrayInput && Array.isArray(value) ? value : [value];
+                    const rejected = items.find(item => !allowed.some(a => constantsEqual(a, item)));
+                    return rejected !== undefined
+                        ? `${formatConstant(rejected)} is not allowed for '${name}'. Expected one of: ${allowed.map(formatConstant).join(', ')}`
+                        : null;
+                });
+                break;
+            }
+            case 'unique':
+                constraints.push(value => {
+                    if (!Array.isArray(value)) return null;
+                    const duplicate = value.find((item, i) => value.slice(0, i).some(other => constantsEqual(other, item)));
+                    return duplicate !== undefined
+                        ? `'${name}' contains ${formatConstant(duplicate)} more than once but is marked @unique`
+                        : null;
+                });
+                break;
+        }
+    }
+
+    return constraints;
+}
+
+/**
+ * Constant value of a decorator argument, ignoring surrounding whitespace
+ */
+function evaluateArgument(model: DocumentModel, start: number, end: number): ConstantValue | undefined {
+    const range = trimRange(model.text, start, end);
+    return range.start < range.end ? model.constants.expressionAt(range.start, range.end)?.value : undefined;
+}
+
+/**
+ * Pattern of a `regex:` argument (`@validate(regex: "^[a-z]+$")`), or null
+ */
+function regexArgument(model: DocumentModel, start: number, end: number): RegExp | null {
+    const match = /\bregex\s*:\s*/.exec(model.text.slice(start, end));
+    if (!match) return null;
+    const pattern = model.constants.expressionAt(start + match.index + match[0].length)?.value;
+    if (typeof pattern !== 'string') return null;
+    try {
+        return new RegExp(pattern);
+    } catch {
+        // Invalid patterns are not evaluated
+        return null;
+    }
+}
+
+/**
+ * Length of a string or array value; null for other values
+ */
+function lengthOf(value: ConstantValue): number | null {
+    return typeof value === 'string' || Array.isArray(value) ? value.length : null;
+}
@@ -5,6 +5,7 @@
 import { describe, it, expect } from 'vitest';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { checkDecoratorTargets } from './decorator-targets';
+import { mergeDecorators, normalizeDecorators } from '../../decorator-catalog';
 
 function createDocument(content: string): TextDocument {
     return TextDocument.create('file:///test.kite', 'kite', 1, content);
@@ -322,4 +323,51 @@ resource Config server { }
             expect(diagnostics).toHaveLength(0);
         });
     });
+
+    describe('Workspace-defined decorators', () => {
+        const decorators = mergeDecorators(normalizeDecorators({
+            decorators: [
+                { name: 'provisionOn', targets: ['resource', 'component instance'] },
+                { name: 'owner' },
+                { name: 'serializable', targets: ['struct'] },
+            ],
+        }));
+
+        it('should check the targets of workspace-defined decorators', () => {
+            const doc = createDocument(`
+@provisionOn(["aws"])
+resource Storage backup { }
+
+@provisionOn(["aws"])
+input string region
+`);
+            const diagnostics = checkDecoratorTargets(doc, decorators);
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toBe('@provisionOn can only be applied to resource or component instance');
+            expect(diagnostics[0].range.start.line).toBe(4);
+        });
+
+        it('should check workspace-defined decorators targeting structs', () => {
+            const doc = createDocument(`
+@serializable
+struct Point {
+    number x
+}
+
+@serializable
+schema Config { }
+`);
+            const diagnostics = checkDecoratorTargets(doc, decorators);
+            expect(diagnostics.map(d => d.message)).toEqual(['@serializable can only be applied to struct']);
+            expect(diagnostics[0].range.start.line).toBe(6);
+        });
+
+        it('should allow workspace-defined decorators without targets anywhere', () => {
+            const doc = createDocument(`
+@owner
+input string region
+`);
+            expect(checkDecoratorTargets(doc, decorators)).toHaveLength(0);
+        });
+    });
 });
@@ -9,10 +9,12 @@ import {
     Range,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DECORATORS } from '../../constants';
+import { DecoratorInfo } from '../../types';
 import { isInComment } from '../../utils/text-utils';
 
 /** Target types for decorators */
-type DecoratorTarget = 'input' | 'output' | 'resource' | 'component-instance' | 'component-definition' | 'schema' | 'var' | 'fun' | 'schema-property';
+type DecoratorTarget = 'input' | 'output' | 'resource' | 'component-instance' | 'component-definition' | 'schema' | 'var' | 'fun' | 'schema-property' | 'struct' | 'struct-property';
 
 /** Decorator configuration with valid targets */
 interface DecoratorConfig {
@@ -42,13 +44,33 @@ const DECORATOR_TARGETS: Record<string, DecoratorConfig> = {
     count: { targets: ['resource', 'component-instance'] },
 
     // Universal decorator
-    description: { targets: ['resource', 'component-instance', 'component-definition', 'input', 'output', 'var', 'schema', 'schema-property', 'fun'] },
+    description: { targets: ['resource', 'component-instance', 'component-definition', 'input', 'output', 'var', 'schema', 'schema-property', 'struct', 'struct-property', 'fun'] },
 };
 
+/** Targets of workspace-defined decorators, by the names used in kite.decorators.json */
+const TARGET_NAMES: ReadonlyMap<string, DecoratorTarget[]> = new Map([
+    ['input', ['input']],
+    ['output', ['output']],
+    ['resource', ['resource']],
+    ['component', ['component-instance', 'component-definition']],
+    ['component instance', ['component-instance']],
+    ['component definition', ['component-definition']],
+    ['schema', ['schema']],
+    ['schema property', ['schema-property']],
+    ['struct', ['struct']],
+    ['struct property', ['struct-property']],
+    ['var', ['var']],
+    ['fun', ['fun']],
+]);
+
 /**
  * Check for decorator target mismatches.
+ * @param decorators - Decorator catalog; workspace-defined decorators are checked against their `targets`
  */
-export function checkDecoratorTargets(document: TextDocument): Diagnostic[] {
+export function checkDecoratorTargets(
+    document: TextDocument,
+    decorators: readonly DecoratorInfo[] = DECORATORS
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
 
@@ -63,7 +85,7 @@ export function checkDecoratorTargets(document: TextDocument): Diagnostic[] {
         const decoratorOffset = match.index;
 
         // Skip unknown decorators (allow extensibility)
-        const config = DECORATOR_TARGETS[decoratorName];
+        const config = getDecoratorConfig(decoratorName, decorators);
         if (!config) continue;
 
         // Find what this decorator is applied to
@@ -88,6 +110,20 @@ export function checkDecoratorTargets(document: TextDocument): Diagnostic[] {
     return diagnostics;
 }
 
+/**
+ * Valid targets of a built-in or workspace-defined decorator; null when it can be applied anywhere
+ */
+function getDecoratorConfig(decoratorName: string, decorators: readonly DecoratorInfo[]): DecoratorConfig | null {
+    if (Object.prototype.hasOwnProperty.call(DECORATOR_TARGETS, decoratorName)) {
+        return DECORATOR_TARGETS[decoratorName];
+    }
+
+    const targets = decorators.find(d => d.name === decoratorName)?.targets;
+    if (!targets) return null;
+    const parsed = new Set(targets.split(',').flatMap(name => TARGET_NAMES.get(name.trim()) ?? []));
+    return parsed.size > 0 ? { targets: [...parsed] } : null;
+}
+
 /**
  * Find the target of a decorator (what comes after it).
  */
@@ -169,6 +205,11 @@ function findDecoratorTarget(text: string, afterDecoratorOffset: number): Decora
         return 'schema';
     }
 
+    // struct declaration
+    if (/^\s*struct\s+/.test(remainingText)) {
+        return 'struct';
+    }
+
     // var declaration
     if (/^\s*var\s+/.test(remainingText)) {
         return 'var';
@@ -196,6 +237,8 @@ function formatTargets(targets: DecoratorTarget[]): string {
         'var': 'var',
         'fun': 'fun',
         'schema-property': 'schema property',
+        'struct': 'struct',
+        'struct-property': 'struct property',
     };
 
     const names = targets.map(t => readable[t]);
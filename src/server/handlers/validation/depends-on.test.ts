@@ -0,0 +1,178 @@
+/**
+ * Tests for @dependsOn validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DiagnosticSeverity, DiagnosticTag } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { checkDependsOn, checkRedundantDependsOn } from './depends-on';
+import { DependencyGraphContext } from '../dependency-graph';
+
+function createDocument(content: string, uri = 'file:///workspace/main.kite'): TextDocument {
+    return TextDocument.create(uri, 'kite', 1, content);
+}
+
+function createContext(files: Record<string, string> = {}): DependencyGraphContext {
+    return {
+        findKiteFilesInWorkspace: () => Object.keys(files),
+        getFileContent: (filePath) => files[filePath] ?? null,
+    };
+}
+
+describe('checkDependsOn', () => {
+    it('should accept resources and component instances', () => {
+        const doc = createDocument(`resource Database db {
+}
+component Queue queue {
+}
+@dependsOn([db, queue])
+resource Server web {
+}`);
+
+        expect(checkDependsOn(doc, createContext())).toEqual([]);
+    });
+
+    it('should accept indexed instances', () => {
+        const doc = createDocument(`@count(2)
+resource Server server {
+}
+@dependsOn(server[0])
+resource LoadBalancer lb {
+}`);
+
+        expect(checkDependsOn(doc, createContext())).toEqual([]);
+    });
+
+    it('should report entries that are not resources or component instances', () => {
+        const doc = createDocument(`input string region = "eu"
+var name = "web"
+@dependsOn([region, name])
+resource Server web {
+}`);
+
+        const diagnostics = checkDependsOn(doc, createContext());
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            "'region' is an input, not a resource or component instance",
+            "'name' is a variable, not a resource or component instance",
+        ]);
+        expect(diagnostics[0].severity).toBe(DiagnosticSeverity.Error);
+        expect(diagnostics[0].range.start).toEqual({ line: 2, character: 12 });
+    });
+
+    it('should report entries that are not references', () => {
+        const doc = createDocument(`resource Database db {
+}
+@dependsOn([db, "queue"])
+resource Server web {
+}`);
+
+        const diagnostics = checkDependsOn(doc, createContext());
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            `@dependsOn expects a resource or component instance, got '"queue"'`,
+        ]);
+    });
+
+    it('should report a declaration depending on itself', () => {
+        const doc = createDocument(`@dependsOn(web)
+resource Server web {
+}`);
+
+        const diagnostics = checkDependsOn(doc, createContext());
+
+        expect(diagnostics.map(d => d.message)).toEqual(["'web' cannot depend on itself"]);
+    });
+
+    it('should resolve named and wildcard imports', () => {
+        const files = {
+            '/workspace/db.kite': `resource Database db {
+}
+input string region = "eu"`,
+            '/workspace/net.kite': `resource Network net {
+}`,
+        };
+        const doc = createDocument(`import db, region from "db.kite"
+import * from "net.kite"
+@dependsOn([db, net, region])
+resource Server web {
+}`);
+
+        const diagnostics = checkDependsOn(doc, createContext(files));
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            "'region' is an input, not a resource or component instance",
+        ]);
+    });
+
+    it('should leave unknown names and a single number to other checks', () => {
+        const doc = createDocument(`@dependsOn(unknown)
+resource Server web {
+}
+@dependsOn(42)
+resource Server api {
+}`);
+
+        expect(checkDependsOn(doc, createContext())).toEqual([]);
+    });
+});
+
+describe('checkRedundantDependsOn', () => {
+    it('should report entries already referenced by a property', () => {
+        const doc = createDocument(`resource Database db {
+}
+resource Queue queue {
+}
+@dependsOn([db, queue])
+resource Server web {
+    connection = db.endpoint
+}`);
+
+        const diagnostics = checkRedundantDependsOn(doc, createContext());
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            "'db' is already a dependency of 'web' through a property reference",
+        ]);
+        expect(diagnostics[0].severity).toBe(DiagnosticSeverity.Hint);
+        expect(diagnostics[0].tags).toContain(DiagnosticTag.Unnecessary);
+        expect(diagnostics[0].range.start).toEqual({ line: 4, character: 12 });
+    });
+
+    it('should report a single entry that the body also references', () => {
+        const doc = createDocument(`resource Database db {
+}
+@dependsOn(db)
+resource Server web {
+    host = db.endpoint
+}`);
+
+        const diagnostics = checkRedundantDependsOn(doc, createContext());
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            "'db' is already a dependency of 'web' through a property reference",
+        ]);
+        expect(diagnostics[0].range.start).toEqual({ line: 2, character: 11 });
+    });
+
+    it('should report dependencies referenced through a variable', () => {
+        const doc = createDocument(`resource Database db {
+}
+var endpoint = db.endpoint
+@dependsOn(db)
+resource Server web {
+    connection = endpoint
+}`);
+
+        expect(checkRedundantDependsOn(doc, createContext())).toHaveLength(1);
+    });
+
+    it('should not report dependencies only listed in @dependsOn', () => {
+        const doc = createDocument(`resource Database db {
+}
+@dependsOn(db)
+resource Server web {
+}`);
+
+        expect(checkRedundantDependsOn(doc, createContext())).toEqual([]);
+    });
+});
@@ -0,0 +1,189 @@
+/**
+ * @dependsOn validation for the Kite language server.
+ * Checks that each entry names a resource or component instance in scope
+ * (declared in the file, imported, or an indexed `server[0]` instance), that a
+ * declaration does not depend on itself, and reports entries that a property
+ * reference already makes a dependency.
+ */
+
+import {
+    Diagnostic,
+    DiagnosticSeverity,
+    DiagnosticTag,
+    Range,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { SemanticSymbol, SymbolDecorator, SymbolKind } from '../../../parser';
+import { DocumentModel } from '../../document-model';
+import {
+    createModelLoader,
+    ImportedSymbolsContext,
+    resolveReferenceTarget,
+} from '../../utils/imported-symbols';
+import { trimRange } from '../../utils/text-utils';
+import { buildDependencyGraph, DependencyGraphContext } from '../dependency-graph';
+
+/**
+ * An entry of a @dependsOn argument: `db` in `@dependsOn(db)` or `@dependsOn([db, queue])`
+ */
+export interface DependsOnEntry {
+    text: string;
+    start: number;
+    end: number;
+}
+
+/** Kinds @dependsOn accepts */
+const DEPENDENCY_KINDS: ReadonlySet<SymbolKind> = new Set(['resource', 'component-instance']);
+
+/** A name, optionally indexed: `server`, `server[0]`, `data["prod"]` */
+const REFERENCE_ENTRY = /^[A-Za-z_]\w*(\s*\[[^\]]*\])?$/;
+
+const KIND_LABELS: Record<SymbolKind, string> = {
+    'variable': 'a variable',
+    'parameter': 'a parameter',
+    'loop-variable': 'a loop variable',
+    'input': 'an input',
+    'output': 'an output',
+    'function': 'a function',
+    'schema': 'a schema',
+    'struct': 'a struct',
+    'type': 'a type',
+    'component': 'a component definition',
+    'component-instance': 'a component instance',
+    'resource': 'a resource',
+    'import': 'an import',
+};
+
+/**
+ * Check that @dependsOn entries are resources or component instances and not the decorated declaration
+ * @param model - Model of the document, if already built
+ */
+export function checkDependsOn(
+    document: TextDocument,
+    ctx: ImportedSymbolsContext,
+    model?: DocumentModel
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const filePath = URI.parse(document.uri).fsPath;
+    const loadModel = createModelLoader(ctx, { filePath, text: document.getText() });
+    const currentModel = model ?? loadModel(filePath)!;
+    const { references } = currentModel.semanticModel;
+
+    const report = (entry: DependsOnEntry, message: string) => {
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: Range.create(document.positionAt(entry.start), document.positionAt(entry.end)),
+            message,
+            source: 'kite',
+        });
+    };
+
+    for (const { symbol, decorator } of dependsOnDecorators(currentModel)) {
+        const entries = getDependsOnEntries(currentModel.text, decorator);
+        for (const entry of entries) {
+            if (!REFERENCE_ENTRY.test(entry.text)) {
+                // A single number is reported by decorator-arguments
+                if (entries.length > 1 || !/^\d+$/.test(entry.text)) {
+                    report(entry, `@dependsOn expects a resource or component instance, got '${entry.text}'`);
+                }
+                continue;
+            }
+
+            const reference = references.find(r => r.start === entry.start && !r.isType);
+            if (!reference) continue;
+
+            // Unknown names are reported by undefined-symbols, unresolvable imports by symbol-resolution
+            const target = resolveReferenceTarget(reference, currentModel, loadModel);
+            if (!target) continue;
+
+            if (target.symbol === symbol) {
+                report(entry, `'${symbol.name}' cannot depend on itself`);
+            } else if (!DEPENDENCY_KINDS.has(target.symbol.kind)) {
+                report(entry, `'${reference.name}' is ${KIND_LABELS[target.symbol.kind]}, not a resource or component instance`);
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Report @dependsOn entries for dependencies that a property reference already creates
+ */
+export function checkRedundantDependsOn(document: TextDocument, ctx: DependencyGraphContext): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const graph = buildDependencyGraph(ctx, document.uri, { text: document.getText() });
+    const names = new Map(graph.nodes.map(node => [node.id, node.name]));
+    const referenced = new Set(graph.edges.filter(e => e.kind === 'reference').map(e => `${e.from}\n${e.to}`));
+
+    for (const edge of graph.edges) {
+        if (edge.kind !== 'dependsOn' || !referenced.has(`${edge.from}\n${edge.to}`)) continue;
+
+        diagnostics.push({
+            severity: DiagnosticSeverity.Hint,
+            range: edge.range,
+            message: `'${names.get(edge.to)}' is already a dependency of '${names.get(edge.from)}' through a property reference`,
+            source: 'kite',
+            tags: [DiagnosticTag.Unnecessary],
+        });
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Split a @dependsOn argument into its entries.
+ * The outer array brackets are removed; commas inside nested brackets, braces or strings do not split.
+ */
+export function getDependsOnEntries(text: string, decorator: SymbolDecorator): DependsOnEntry[] {
+    if (!decorator.arguments) return [];
+    let { start, end } = decorator.arguments;
+
+    const trimmed = trimRange(text, start, end);
+    if (text[trimmed.start] === '[' && text[trimmed.end - 1] === ']') {
+        start = trimmed.start + 1;
+        end = trimmed.end - 1;
+    }
+
+    const entries: DependsOnEntry[] = [];
+    const addEntry = (entryStart: number, entryEnd: number) => {
+        const range = trimRange(text, entryStart, entryEnd);
+        if (range.start < range.end) {
+            entries.push({ text: text.slice(range.start, range.end), start: range.start, end: range.end });
+        }
+    };
+
+    let depth = 0;
+    let quote: string | null = null;
+    let entryStart = start;
+    for (let i = start; i < end; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === '\\') i++;
+            else if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '[' || char === '{' || char === '(') {
+            depth++;
+        } else if (char === ']' || char === '}' || char === ')') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            addEntry(entryStart, i);
+            entryStart = i + 1;
+        }
+    }
+    addEntry(entryStart, end);
+
+    return entries;
+}
+
+/**
+ * Declarations with a @dependsOn decorator, paired with the decorator
+ */
+function dependsOnDecorators(model: DocumentModel): { symbol: SemanticSymbol; decorator: SymbolDecorator }[] {
+    return model.semanticModel.symbols.flatMap(symbol =>
+        (symbol.decorators ?? [])
+            .filter(decorator => decorator.name === 'dependsOn')
+            .map(decorator => ({ symbol, decorator })));
+}
@@ -105,6 +105,32 @@ describe('Division by zero validation', () => {
         expect(diagnostics).toHaveLength(1);
     });
 
+    it('should report division by a constant that is zero', () => {
+        const doc = createDoc(`
+            var divisor = 2 - 2
+            var x = 10 / divisor
+        `);
+        const diagnostics = checkDivisionByZero(doc);
+
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0].range.end.character).toBe('            var x = 10 / divisor'.length);
+    });
+
+    it('should not report division by a reassigned variable or an input default', () => {
+        const doc = createDoc(`
+            component App {
+                input number parts = 0
+                var size = 10 / parts
+            }
+            var y = 0
+            y = 5
+            var x = 10 / y
+        `);
+        const diagnostics = checkDivisionByZero(doc);
+
+        expect(diagnostics).toHaveLength(0);
+    });
+
     it('should not report for division by negative number', () => {
         const doc = createDoc(`
             var x = 10 / -5
@@ -1,6 +1,7 @@
 /**
  * Division by zero detection for the Kite language server.
- * Reports warnings when dividing by literal zero.
+ * Reports warnings when dividing by an operand whose constant value is zero:
+ * a literal zero or a constant expression such as a variable initialized to zero.
  */
 
 import {
@@ -9,32 +10,36 @@ import {
     Range,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { buildConstantEvaluator, ConstantEvaluator } from '../../../parser/constant-evaluator';
 
 /**
- * Check for division by literal zero
+ * Check for division by zero
+ * @param constants - Constant evaluator of the document, if already built
  */
-export function checkDivisionByZero(document: TextDocument): Diagnostic[] {
+export function checkDivisionByZero(
+    document: TextDocument,
+    constants: ConstantEvaluator = buildConstantEvaluator(document.getText())
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
 
-    // Match / 0 or % 0 or /= 0 (division or modulo by zero)
-    // The zero can be 0 or 0.0
-    const divisionRegex = /([/%]=?)\s*(0(?:\.0+)?)\b/g;
+    // Match / or % or /= or %= (division or modulo) up to the operand, but not comment delimiters
+    const operatorRegex = /(?<![/*])([/%]=?)(?![/*])\s*/g;
 
     let match;
-    while ((match = divisionRegex.exec(text)) !== null) {
+    while ((match = operatorRegex.exec(text)) !== null) {
         // Skip if in comment or string
         if (isInCommentOrString(text, match.index)) continue;
 
-        const operator = match[1];
-        const startPos = document.positionAt(match.index);
-        const endPos = document.positionAt(match.index + match[0].length);
+        // The right operand; inputs can be overridden, so their defaults are not used
+        const operand = constants.operandAt(match.index + match[0].length, { useInputDefaults: false });
+        if (operand?.value !== 0) continue;
 
-        const opName = operator.includes('%') ? 'Modulo' : 'Division';
+        const opName = match[1].includes('%') ? 'Modulo' : 'Division';
 
         diagnostics.push({
             severity: DiagnosticSeverity.Warning,
-            range: Range.create(startPos, endPos),
+            range: Range.create(document.positionAt(match.index), document.positionAt(operand.end)),
             message: `${opName} by zero`,
             source: 'kite',
         });
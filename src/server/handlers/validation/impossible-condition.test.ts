@@ -110,6 +110,21 @@ describe('checkImpossibleCondition', () => {
         });
     });
 
+    describe('Constant bounds', () => {
+        it('should compare against constant variables', () => {
+            const doc = createDocument('var limit = 5\nif (x > limit && x < limit) { }');
+            const diagnostics = checkImpossibleCondition(doc);
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toContain('x > 5 && x < 5');
+        });
+
+        it('should not compare against variables without a constant value', () => {
+            const doc = createDocument('if (x > low && x < high) { }');
+            const diagnostics = checkImpossibleCondition(doc);
+            expect(diagnostics).toHaveLength(0);
+        });
+    });
+
     describe('Edge cases', () => {
         it('should not flag conditions inside comments', () => {
             const doc = createDocument('// if (x > 5 && x < 5) { }');
@@ -6,6 +6,8 @@
  * - x > 5 && x < 5 (impossible: x cannot be both > 5 and < 5)
  * - x == 5 && x == 6 (impossible: x cannot equal two different values)
  * - x > 10 && x < 5 (impossible: contradictory ranges)
+ *
+ * Compared values are number literals or constants (`var max = 5` then `x > max && x < max`).
  */
 
 import {
@@ -15,6 +17,7 @@ import {
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { isInComment, isInString } from '../../utils/text-utils';
+import { buildConstantEvaluator, ConstantEvaluator } from '../../../parser/constant-evaluator';
 
 interface Comparison {
     variable: string;
@@ -26,11 +29,22 @@ interface Comparison {
 
 /**
  * Check for impossible conditions
+ * @param constants - Constant evaluator of the document, if already built
  */
-export function checkImpossibleCondition(document: TextDocument): Diagnostic[] {
+export function checkImpossibleCondition(
+    document: TextDocument,
+    constants: ConstantEvaluator = buildConstantEvaluator(document.getText())
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
 
+    // Number literals, or names with a constant number value (inputs can be overridden)
+    const numberAt = (source: string, offset: number): number | null => {
+        if (/^\d+$/.test(source)) return parseInt(source, 10);
+        const value = constants.expressionAt(offset, offset + source.length, { useInputDefaults: false })?.value;
+        return typeof value === 'number' ? value : null;
+    };
+
     // Match patterns: if (...) or while (...)
     const conditionBlockRegex = /\b(if|while)\s*\(([^)]+)\)/g;
     let blockMatch;
@@ -43,7 +57,7 @@ export function checkImpossibleCondition(document: TextDocument): Diagnostic[] {
         if (isInComment(text, blockMatch.index)) continue;
 
         // Find all comparisons in this condition joined by &&
-        const comparisons = extractComparisons(conditionText, conditionStart);
+        const comparisons = extractComparisons(conditionText, conditionStart, numberAt);
 
         // Check for impossible combinations
         const impossiblePairs = findImpossibleCombinations(comparisons);
@@ -66,33 +80,42 @@ export function checkImpossibleCondition(document: TextDocument): Diagnostic[] {
 
 /**
  * Extract numeric comparisons from a condition string
+ * @param numberAt - Number value of a compared literal or name at an offset, or null
  */
-function extractComparisons(condition: string, baseOffset: number): Comparison[] {
+function extractComparisons(
+    condition: string,
+    baseOffset: number,
+    numberAt: (source: string, offset: number) => number | null
+): Comparison[] {
     const comparisons: Comparison[] = [];
 
-    // Match: variable op number (e.g., x > 5, x == 10, x <= 3)
-    const compRegex = /\b([a-zA-Z_]\w*)\s*(==|!=|>=|<=|>|<)\s*(\d+)\b/g;
+    // Match: variable op value (e.g., x > 5, x == 10, x <= max)
+    const compRegex = /\b([a-zA-Z_]\w*)\s*(==|!=|>=|<=|>|<)\s*(\d+|[a-zA-Z_]\w*)\b/g;
     let match;
 
     while ((match = compRegex.exec(condition)) !== null) {
+        const value = numberAt(match[3], baseOffset + match.index + match[0].length - match[3].length);
+        if (value === null) continue;
         comparisons.push({
             variable: match[1],
             operator: match[2],
-            value: parseInt(match[3], 10),
+            value,
             fullMatch: match[0],
             index: baseOffset + match.index,
         });
     }
 
-    // Also match: number op variable (e.g., 5 < x)
-    const reverseRegex = /\b(\d+)\s*(==|!=|>=|<=|>|<)\s*([a-zA-Z_]\w*)\b/g;
+    // Also match: value op variable (e.g., 5 < x)
+    const reverseRegex = /\b(\d+|[a-zA-Z_]\w*)\s*(==|!=|>=|<=|>|<)\s*([a-zA-Z_]\w*)\b/g;
     while ((match = reverseRegex.exec(condition)) !== null) {
+        const value = numberAt(match[1], baseOffset + match.index);
+        if (value === null) continue;
         // Flip the operator for normalized comparison
         const op = flipOperator(match[2]);
         comparisons.push({
             variable: match[3],
             operator: op,
-            value: parseInt(match[1], 10),
+            value,
             fullMatch: match[0],
             index: baseOffset + match.index,
         });
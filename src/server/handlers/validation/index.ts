@@ -10,7 +10,19 @@ import {
     Location,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { ImportSuggestion, ImportInfo, BaseContext } from '../../types';
+import { ImportSuggestion, ImportInfo, BaseContext, RuleConfiguration, DecoratorInfo, TagPolicy, ProviderInfo } from '../../types';
+import {
+    RuleId,
+    ValidationStage,
+    VALIDATION_STAGES,
+    findRule,
+    getRuleStage,
+    isRuleEnabled,
+    applyRuleSeverity,
+    withRuleCode,
+} from './rules';
+import { applySuppressions } from './suppressions';
+import { resolveDocumentModel } from '../../document-model';
 
 // Import modular validation checks
 import { checkDecoratorArguments } from './decorator-arguments';
@@ -64,6 +76,25 @@ import { checkImplicitAny } from './implicit-any';
 import { checkSyntaxErrors } from './syntax-errors';
 import { checkReturnTypeMismatch } from './return-type-mismatch';
 import { checkIndexedAccess } from './indexed-access';
+import { checkCircularDependencies } from './circular-dependencies';
+import { checkDependsOn, checkRedundantDependsOn } from './depends-on';
+import { checkDecoratorConstraints } from './decorator-constraints';
+import { checkSensitiveDataFlow } from './sensitive-data-flow';
+import { checkTagPolicy } from './tag-policy';
+import { checkUnknownProviders, checkProviderMismatch } from './providers';
+
+// Re-export rule configuration for external use
+export {
+    RULES,
+    RULE_IDS,
+    RuleId,
+    RuleInfo,
+    ValidationStage,
+    VALIDATION_STAGES,
+    findRule,
+    getRuleStage,
+    normalizeRuleConfiguration,
+} from './rules';
 
 /**
  * Context containing dependencies needed for validation
@@ -83,220 +114,259 @@ export interface ValidationContext extends BaseContext {
     findComponentDefinition: (text: string, componentName: string, filePathOrUri: string) => Location | null;
     /** Find function definition in text */
     findFunctionDefinition: (text: string, functionName: string, filePathOrUri: string) => Location | null;
+    /** Per-rule enablement and severity overrides (all rules enabled by default) */
+    rules?: RuleConfiguration;
+    /** Decorator catalog: built-in and workspace-defined decorators (built-in only when unset) */
+    decorators?: readonly DecoratorInfo[];
+    /** Tag policy enforced on @tags (not checked when unset) */
+    tagPolicy?: TagPolicy;
+    /** Provider registry for @provider (not checked when unset) */
+    providers?: readonly ProviderInfo[];
 }
 
 /**
  * Validate document and return diagnostics
  */
 export function validateDocument(document: TextDocument, ctx: ValidationContext): Diagnostic[] {
+    return applySuppressionComments(document, collectDiagnostics(document, ctx), ctx);
+}
+
+/**
+ * Run the checks of the given validation stages, without applying suppression comments.
+ * Use this to validate a document stage by stage; pass the combined result to
+ * applySuppressionComments before publishing.
+ */
+export function collectDiagnostics(
+    document: TextDocument,
+    ctx: ValidationContext,
+    stages: readonly ValidationStage[] = VALIDATION_STAGES
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
 
+    // Run a check unless its rule is disabled or in another stage, tagging its diagnostics with the rule code
+    const run = (ruleId: RuleId, check: () => Diagnostic[]) => {
+        if (!isRuleEnabled(ruleId, ctx.rules)) return;
+        if (!stages.includes(getRuleStage(ruleId))) return;
+        diagnostics.push(...applyRuleSeverity(withRuleCode(check(), ruleId), ctx.rules?.[ruleId]));
+    };
+
+    // Parse tree shared by the AST-based checks
+    const model = resolveDocumentModel(ctx, document.uri, text);
+
     // Check for syntax errors first (parsing errors)
-    diagnostics.push(...checkSyntaxErrors(document));
+    run('syntax-errors', () => checkSyntaxErrors(document, model.parseResult));
 
     // Check decorator arguments
-    diagnostics.push(...checkDecoratorArguments(document));
+    run('decorator-arguments', () => checkDecoratorArguments(document, ctx.decorators));
 
     // Setup for symbol resolution checks
     const imports = ctx.extractImports(text);
-    ctx.clearDiagnosticData(document.uri);
+    if (stages.includes('workspace')) {
+        // Quick fix data is produced by the workspace checks only
+        ctx.clearDiagnosticData(document.uri);
+    }
     const docDiagnosticData = ctx.getDiagnosticData(document.uri);
 
     // Check resource schema types
-    diagnostics.push(...checkResourceSchemaTypes(document, ctx, imports, docDiagnosticData));
+    run('symbol-resolution', () => checkResourceSchemaTypes(document, ctx, imports, docDiagnosticData));
 
     // Check component instantiation types
-    diagnostics.push(...checkComponentInstantiationTypes(document, ctx, imports, docDiagnosticData));
+    run('symbol-resolution', () => checkComponentInstantiationTypes(document, ctx, imports, docDiagnosticData));
 
     // Check function calls
-    diagnostics.push(...checkFunctionCalls(document, ctx, imports, docDiagnosticData));
+    run('symbol-resolution', () => checkFunctionCalls(document, ctx, imports, docDiagnosticData));
 
     // Check for duplicate names in component definitions
-    diagnostics.push(...checkComponentDefinitionDuplicates(document));
+    run('component-duplicates', () => checkComponentDefinitionDuplicates(document));
 
     // Get local declarations for checks that need them
     const localDeclarations = ctx.getDeclarations(document.uri) || [];
 
     // Check for type mismatches
-    const typeDiagnostics = checkTypeMismatches(document);
-    diagnostics.push(...typeDiagnostics);
+    run('type-checking', () => checkTypeMismatches(document, model.types, ctx, model));
 
     // Check for unused imports
-    const unusedImportDiagnostics = checkUnusedImports(document, imports);
-    diagnostics.push(...unusedImportDiagnostics);
+    run('unused-imports', () => checkUnusedImports(document, imports));
 
     // Check for unused variables
-    const unusedVariableDiagnostics = checkUnusedVariables(document);
-    diagnostics.push(...unusedVariableDiagnostics);
+    run('unused-variables', () => checkUnusedVariables(document, model.semanticModel));
 
     // Check for undefined symbols
-    const undefinedSymbolDiagnostics = checkUndefinedSymbols(document, localDeclarations);
-    diagnostics.push(...undefinedSymbolDiagnostics);
+    run('undefined-symbols', () => checkUndefinedSymbols(document, model.semanticModel));
 
     // Check for missing required properties
-    const missingPropertyDiagnostics = checkMissingProperties(document);
-    diagnostics.push(...missingPropertyDiagnostics);
+    run('missing-properties', () => checkMissingProperties(document));
 
     // Check for @cloud property assignments (not allowed - set by cloud provider)
-    const cloudPropertyDiagnostics = checkCloudPropertyAssignment(document);
-    diagnostics.push(...cloudPropertyDiagnostics);
+    run('cloud-property-assignment', () => checkCloudPropertyAssignment(document, model.parseResult));
 
     // Check for reserved names used as property/input/output names
-    const reservedNameDiagnostics = checkReservedNames(document);
-    diagnostics.push(...reservedNameDiagnostics);
+    run('reserved-names', () => checkReservedNames(document));
 
     // Check for duplicate property names in schemas/resources
-    const duplicatePropertyDiagnostics = checkDuplicateProperties(document);
-    diagnostics.push(...duplicatePropertyDiagnostics);
+    run('duplicate-properties', () => checkDuplicateProperties(document));
 
     // Check for decorator target mismatches
-    const decoratorTargetDiagnostics = checkDecoratorTargets(document);
-    diagnostics.push(...decoratorTargetDiagnostics);
+    run('decorator-targets', () => checkDecoratorTargets(document, ctx.decorators));
 
     // Check for circular imports
-    const circularImportDiagnostics = checkCircularImports(document, ctx);
-    diagnostics.push(...circularImportDiagnostics);
+    run('circular-imports', () => checkCircularImports(document, ctx));
 
     // Check for missing values after '='
-    const missingValueDiagnostics = checkMissingValues(document);
-    diagnostics.push(...missingValueDiagnostics);
+    run('missing-value', () => checkMissingValues(document));
 
     // Check for duplicate function parameters
-    const duplicateParamDiagnostics = checkDuplicateParameters(document);
-    diagnostics.push(...duplicateParamDiagnostics);
+    run('duplicate-parameters', () => checkDuplicateParameters(document));
 
     // Check for duplicate top-level declarations
-    const duplicateDeclDiagnostics = checkDuplicateDeclarations(document);
-    diagnostics.push(...duplicateDeclDiagnostics);
+    run('duplicate-declarations', () => checkDuplicateDeclarations(document));
 
     // Check for unknown decorators
-    const unknownDecoratorDiagnostics = checkUnknownDecorators(document);
-    diagnostics.push(...unknownDecoratorDiagnostics);
+    run('unknown-decorator', () => checkUnknownDecorators(document, ctx.decorators));
 
     // Check for duplicate decorators
-    const duplicateDecoratorDiagnostics = checkDuplicateDecorators(document);
-    diagnostics.push(...duplicateDecoratorDiagnostics);
+    run('duplicate-decorator', () => checkDuplicateDecorators(document));
 
     // Check for empty blocks
-    const emptyBlockDiagnostics = checkEmptyBlocks(document);
-    diagnostics.push(...emptyBlockDiagnostics);
+    run('empty-block', () => checkEmptyBlocks(document));
 
     // Check for invalid number literals
-    const invalidNumberDiagnostics = checkInvalidNumbers(document);
-    diagnostics.push(...invalidNumberDiagnostics);
+    run('invalid-number', () => checkInvalidNumbers(document));
 
     // Check for unclosed strings
-    const unclosedStringDiagnostics = checkUnclosedStrings(document);
-    diagnostics.push(...unclosedStringDiagnostics);
+    run('unclosed-string', () => checkUnclosedStrings(document));
 
     // Check for missing return statements
-    const missingReturnDiagnostics = checkMissingReturn(document);
-    diagnostics.push(...missingReturnDiagnostics);
+    run('missing-return', () => checkMissingReturn(document));
 
     // Check for unreachable code
-    const unreachableCodeDiagnostics = checkUnreachableCode(document);
-    diagnostics.push(...unreachableCodeDiagnostics);
+    run('unreachable-code', () => checkUnreachableCode(document));
 
     // Check for variable shadowing
-    const shadowingDiagnostics = checkVariableShadowing(document);
-    diagnostics.push(...shadowingDiagnostics);
+    run('variable-shadowing', () => checkVariableShadowing(document, model.semanticModel));
 
     // Check for invalid import paths
-    const invalidImportDiagnostics = checkInvalidImportPaths(document, ctx);
-    diagnostics.push(...invalidImportDiagnostics);
+    run('invalid-import-path', () => checkInvalidImportPaths(document, ctx));
 
     // Check for return statements outside functions
-    const returnOutsideFuncDiagnostics = checkReturnOutsideFunction(document);
-    diagnostics.push(...returnOutsideFuncDiagnostics);
+    run('return-outside-function', () => checkReturnOutsideFunction(document));
 
     // Check for invalid string interpolation
-    const invalidInterpolationDiagnostics = checkInvalidStringInterpolation(document);
-    diagnostics.push(...invalidInterpolationDiagnostics);
+    run('invalid-string-interpolation', () => checkInvalidStringInterpolation(document));
 
     // Check for unused functions
-    const unusedFunctionDiagnostics = checkUnusedFunctions(document);
-    diagnostics.push(...unusedFunctionDiagnostics);
+    run('unused-function', () => checkUnusedFunctions(document));
 
     // Check for division by zero
-    const divisionByZeroDiagnostics = checkDivisionByZero(document);
-    diagnostics.push(...divisionByZeroDiagnostics);
+    run('division-by-zero', () => checkDivisionByZero(document, model.constants));
 
     // Check for infinite loops
-    const infiniteLoopDiagnostics = checkInfiniteLoop(document);
-    diagnostics.push(...infiniteLoopDiagnostics);
+    run('infinite-loop', () => checkInfiniteLoop(document));
 
     // Check for assignment in condition
-    const assignmentInConditionDiagnostics = checkAssignmentInCondition(document);
-    diagnostics.push(...assignmentInConditionDiagnostics);
+    run('assignment-in-condition', () => checkAssignmentInCondition(document));
 
     // Check for self-assignment
-    const selfAssignmentDiagnostics = checkSelfAssignment(document);
-    diagnostics.push(...selfAssignmentDiagnostics);
+    run('self-assignment', () => checkSelfAssignment(document));
 
     // Check for comparison to self
-    const comparisonToSelfDiagnostics = checkComparisonToSelf(document);
-    diagnostics.push(...comparisonToSelfDiagnostics);
+    run('comparison-to-self', () => checkComparisonToSelf(document));
 
     // Check for duplicate imports
-    const duplicateImportDiagnostics = checkDuplicateImport(document);
-    diagnostics.push(...duplicateImportDiagnostics);
+    run('duplicate-import', () => checkDuplicateImport(document));
 
     // Check for constant conditions
-    const constantConditionDiagnostics = checkConstantCondition(document);
-    diagnostics.push(...constantConditionDiagnostics);
+    run('constant-condition', () => checkConstantCondition(document, model.constants));
 
     // Check for too many parameters
-    const tooManyParamsDiagnostics = checkTooManyParameters(document);
-    diagnostics.push(...tooManyParamsDiagnostics);
+    run('too-many-parameters', () => checkTooManyParameters(document));
 
     // Check for redundant conditions (x && x, x || x)
-    const redundantConditionDiagnostics = checkRedundantCondition(document);
-    diagnostics.push(...redundantConditionDiagnostics);
+    run('redundant-condition', () => checkRedundantCondition(document));
 
     // Check for impossible conditions (x > 5 && x < 5)
-    const impossibleConditionDiagnostics = checkImpossibleCondition(document);
-    diagnostics.push(...impossibleConditionDiagnostics);
+    run('impossible-condition', () => checkImpossibleCondition(document, model.constants));
 
     // Check for type coercion in comparisons
-    const typeCoercionDiagnostics = checkTypeCoercion(document);
-    diagnostics.push(...typeCoercionDiagnostics);
+    run('type-coercion', () => checkTypeCoercion(document));
 
     // Check for empty string comparisons
-    const emptyStringDiagnostics = checkEmptyStringCheck(document);
-    diagnostics.push(...emptyStringDiagnostics);
+    run('empty-string-check', () => checkEmptyStringCheck(document));
 
     // Check for redundant boolean comparisons
-    const redundantBooleanDiagnostics = checkRedundantBoolean(document);
-    diagnostics.push(...redundantBooleanDiagnostics);
+    run('redundant-boolean', () => checkRedundantBoolean(document));
 
     // Check for negated comparisons
-    const negatedComparisonDiagnostics = checkNegatedComparison(document);
-    diagnostics.push(...negatedComparisonDiagnostics);
+    run('negated-comparison', () => checkNegatedComparison(document));
 
     // Check for useless expressions
-    const uselessExpressionDiagnostics = checkUselessExpression(document);
-    diagnostics.push(...uselessExpressionDiagnostics);
+    run('useless-expression', () => checkUselessExpression(document));
 
     // Check for long functions
-    const longFunctionDiagnostics = checkLongFunction(document);
-    diagnostics.push(...longFunctionDiagnostics);
+    run('long-function', () => checkLongFunction(document));
 
     // Check for unused parameters
-    const unusedParameterDiagnostics = checkUnusedParameter(document);
-    diagnostics.push(...unusedParameterDiagnostics);
+    run('unused-parameter', () => checkUnusedParameter(document));
 
     // Check for implicit any
-    const implicitAnyDiagnostics = checkImplicitAny(document);
-    diagnostics.push(...implicitAnyDiagnostics);
+    run('implicit-any', () => checkImplicitAny(document, model.types));
 
     // Check for return type mismatches
-    const returnTypeDiagnostics = checkReturnTypeMismatch(document);
-    diagnostics.push(...returnTypeDiagnostics);
+    run('return-type-mismatch', () => checkReturnTypeMismatch(document, model.types));
 
     // Check for invalid indexed resource access
-    const indexedAccessDiagnostics = checkIndexedAccess(document, localDeclarations);
-    diagnostics.push(...indexedAccessDiagnostics);
+    run('indexed-access', () => checkIndexedAccess(document, localDeclarations));
+
+    // Check for dependency cycles between resources and component instances
+    run('circular-dependencies', () => checkCircularDependencies(document, ctx));
+
+    // Check that @dependsOn entries are resources or component instances
+    run('depends-on', () => checkDependsOn(document, ctx, model));
+
+    // Check for @dependsOn entries already implied by property references
+    run('redundant-depends-on', () => checkRedundantDependsOn(document, ctx));
+
+    // Check input values against validation decorators (@minValue, @allowed, ...)
+    run('decorator-constraints', () => checkDecoratorConstraints(document, ctx, model));
+
+    // Check for @sensitive values reaching outputs, metadata decorators and resource properties
+    run('sensitive-data-flow', () => checkSensitiveDataFlow(document, ctx, model));
+
+    // Check @tags against the workspace tag policy
+    run('tag-policy', () => checkTagPolicy(document, ctx, model));
+
+    // Check @provider names against the workspace provider registry
+    run('unknown-provider', () => checkUnknownProviders(document, model, ctx.providers));
+
+    // Check @provider against the provider of the resource's schema namespace
+    run('provider-mismatch', () => checkProviderMismatch(document, model, ctx.providers));
 
     return diagnostics;
 }
+
+/**
+ * Drop diagnostics silenced by suppression comments and report unused suppressions.
+ * @param stages - Stages the diagnostics come from; suppressions for rules of other stages are not reported as unused
+ */
+export function applySuppressionComments(
+    document: TextDocument,
+    diagnostics: Diagnostic[],
+    ctx: ValidationContext,
+    stages: readonly ValidationStage[] = VALIDATION_STAGES
+): Diagnostic[] {
+    // Drop diagnostics silenced by kite-ignore comments
+    const allStagesRan = VALIDATION_STAGES.every(stage => stages.includes(stage));
+    const { remaining, unused } = applySuppressions(document, diagnostics, idOrCode => {
+        const rule = findRule(idOrCode);
+        return !rule || (isRuleEnabled(rule.id, ctx.rules) && stages.includes(getRuleStage(rule.id)));
+    }, allStagesRan);
+
+    // Report suppression comments that no longer suppress anything
+    if (isRuleEnabled('unused-suppression', ctx.rules)) {
+        const unusedDiagnostics = withRuleCode(unused, 'unused-suppression');
+        remaining.push(...applyRuleSeverity(unusedDiagnostics, ctx.rules?.['unused-suppression']));
+    }
+
+    return remaining;
+}
@@ -0,0 +1,109 @@
+/**
+ * Tests for @provider validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DiagnosticSeverity } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { checkProviderMismatch, checkUnknownProviders, findProvider } from './providers';
+import { createDocumentModel } from '../../document-model';
+import { ProviderInfo } from '../../types';
+
+const PROVIDERS: ProviderInfo[] = [
+    { name: 'aws', aliases: ['amazon'], namespaces: ['S3', 'EC2'] },
+    { name: 'azure', aliases: [], namespaces: ['Storage'] },
+    { name: 'gcp', aliases: [], namespaces: [] },
+];
+
+function createDocument(content: string): TextDocument {
+    return TextDocument.create('file:///workspace/main.kite', 'kite', 1, content);
+}
+
+function unknownProviders(content: string, providers: ProviderInfo[] = PROVIDERS) {
+    const doc = createDocument(content);
+    return checkUnknownProviders(doc, createDocumentModel(doc.uri, content), providers);
+}
+
+function providerMismatches(content: string, providers: ProviderInfo[] = PROVIDERS) {
+    const doc = createDocument(content);
+    return checkProviderMismatch(doc, createDocumentModel(doc.uri, content), providers);
+}
+
+describe('findProvider', () => {
+    it('should find providers by name or alias', () => {
+        expect(findProvider(PROVIDERS, 'aws')).toBe(PROVIDERS[0]);
+        expect(findProvider(PROVIDERS, 'amazon')).toBe(PROVIDERS[0]);
+        expect(findProvider(PROVIDERS, 'AWS')).toBeUndefined();
+    });
+});
+
+describe('checkUnknownProviders', () => {
+    it('should accept configured names and aliases', () => {
+        expect(unknownProviders(`@provider("aws")
+resource S3.Bucket logs { }
+@provider(["amazon", "gcp"])
+resource S3.Bucket data { }`)).toEqual([]);
+    });
+
+    it('should report unknown providers at the string', () => {
+        const text = `@provider(["aws", "gpc"])
+resource S3.Bucket logs { }`;
+        const diagnostics = unknownProviders(text);
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            "Unknown provider 'gpc'. Configured providers: aws, azure, gcp",
+        ]);
+        expect(diagnostics[0].severity).toBe(DiagnosticSeverity.Warning);
+        expect(diagnostics[0].range.start).toEqual({ line: 0, character: text.indexOf('"gpc"') });
+    });
+
+    it('should check component instances', () => {
+        expect(unknownProviders(`@provider("oracle")
+component Service api { }`).map(d => d.message)).toEqual([
+            "Unknown provider 'oracle'. Configured providers: aws, azure, gcp",
+        ]);
+    });
+
+    it('should not check anything without configured providers or for non-literal arguments', () => {
+        expect(unknownProviders('@provider("oracle")\nresource S3.Bucket logs { }', [])).toEqual([]);
+        expect(unknownProviders(`var cloud = "oracle"
+@provider(cloud)
+resource S3.Bucket logs { }`)).toEqual([]);
+    });
+});
+
+describe('checkProviderMismatch', () => {
+    it('should warn when the provider does not own the schema namespace', () => {
+        const text = `@provider("azure")
+resource S3.Bucket logs { }`;
+        const diagnostics = providerMismatches(text);
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            `'logs' uses 'S3.Bucket' of provider 'aws' but is tagged @provider("azure")`,
+        ]);
+        expect(diagnostics[0].range.start).toEqual({ line: 0, character: 10 });
+    });
+
+    it('should report each mismatching entry of an array', () => {
+        expect(providerMismatches(`@provider(["amazon", "gcp"])
+resource EC2.Instance web { }`).map(d => d.message)).toEqual([
+            `'web' uses 'EC2.Instance' of provider 'aws' but is tagged @provider("gcp")`,
+        ]);
+    });
+
+    it('should accept the owning provider and its aliases', () => {
+        expect(providerMismatches(`@provider("amazon")
+resource S3.Bucket logs { }
+@provider("azure")
+resource Storage.Account files { }`)).toEqual([]);
+    });
+
+    it('should skip unowned namespaces, local schemas and unknown providers', () => {
+        expect(providerMismatches(`@provider("azure")
+resource Compute.Instance vm { }
+@provider("azure")
+resource Bucket logs { }
+@provider("oracle")
+resource S3.Bucket data { }`)).toEqual([]);
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * Provider validation for the Kite language server.
+ * Checks `@provider` names against the provider registry of the workspace
+ * (`providers` in kite.config.json), and resources whose schema namespace
+ * belongs to a different provider than the one they are tagged with.
+ */
+
+import {
+    Diagnostic,
+    DiagnosticSeverity,
+    Range,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { InferredExpression, SemanticSymbol } from '../../../parser';
+import { DocumentModel } from '../../document-model';
+import { ProviderInfo } from '../../types';
+import { trimRange } from '../../utils/text-utils';
+
+/**
+ * Check for @provider names that are not in the provider registry
+ * @param providers - Provider registry; nothing is checked when empty
+ */
+export function checkUnknownProviders(
+    document: TextDocument,
+    model: DocumentModel,
+    providers: readonly ProviderInfo[] = []
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (providers.length === 0) return diagnostics;
+
+    const known = providers.map(p => p.name).join(', ');
+    for (const symbol of model.semanticModel.symbols) {
+        // Pattern: @provider("gpc") with aws, azure and gcp configured
+        for (const entry of getProviderEntries(symbol, model)) {
+            if (findProvider(providers, entry.literal!)) continue;
+
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: Range.create(document.positionAt(entry.start), document.positionAt(entry.end)),
+                message: `Unknown provider '${entry.literal}'. Configured providers: ${known}`,
+                source: 'kite',
+            });
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Check for resources tagged with a provider other than the one their schema namespace belongs to
+ * @param providers - Provider registry; nothing is checked when empty
+ */
+export function checkProviderMismatch(
+    document: TextDocument,
+    model: DocumentModel,
+    providers: readonly ProviderInfo[] = []
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (providers.length === 0) return diagnostics;
+
+    for (const symbol of model.semanticModel.symbols) {
+        if (symbol.kind !== 'resource' || !symbol.typeName?.includes('.')) continue;
+        const namespace = symbol.typeName.split('.')[0];
+        const owner = providers.find(p => p.namespaces.includes(namespace));
+        if (!owner) continue;
+
+        // Pattern: @provider("azure") on resource S3.Bucket, with S3 a namespace of aws
+        for (const entry of getProviderEntries(symbol, model)) {
+            const provider = findProvider(providers, entry.literal!);
+            if (!provider || provider === owner) continue;
+
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: Range.create(document.positionAt(entry.start), document.positionAt(entry.end)),
+                message: `'${symbol.name}' uses '${symbol.typeName}' of provider '${owner.name}' but is tagged @provider("${entry.literal}")`,
+                source: 'kite',
+            });
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Find a provider by name or alias
+ */
+export function findProvider(providers: readonly ProviderInfo[], name: string): ProviderInfo | undefined {
+    return providers.find(p => p.name === name) ?? providers.find(p => p.aliases.includes(name));
+}
+
+/**
+ * String literals of a declaration's `@provider` argument: `"aws"` or the entries of `["aws", "azure"]`
+ */
+function getProviderEntries(symbol: SemanticSymbol, model: DocumentModel): InferredExpression[] {
+    const decorator = symbol.decorators?.find(d => d.name === 'provider');
+    if (!decorator?.arguments) return [];
+
+    const { start, end } = trimRange(model.text, decorator.arguments.start, decorator.arguments.end);
+    const argument = model.types.expressionAt(start, end);
+    if (!argument) return [];
+
+    const entries = argument.elements ?? [argument];
+    return entries.filter(entry => entry.literal !== undefined);
+}
@@ -94,7 +94,7 @@ fun getValue() string {
     it('should check array return types', () => {
         const doc = createDoc(`
 fun getItems() string[] {
-    return [1, 2, 3]  // Error: array type matches, but should be OK for basic check
+    return ["a", "b"]
 }
         `);
         const diagnostics = checkReturnTypeMismatch(doc);
@@ -103,6 +103,18 @@ fun getItems() string[] {
         expect(diagnostics).toHaveLength(0);
     });
 
+    it('should report error when array element types do not match', () => {
+        const doc = createDoc(`
+fun getItems() string[] {
+    return [1, 2, 3]
+}
+        `);
+        const diagnostics = checkReturnTypeMismatch(doc);
+
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0].message).toContain("expected 'string[]' but got 'number[]'");
+    });
+
     it('should report error when returning non-array for array type', () => {
         const doc = createDoc(`
 fun getItems() string[] {
@@ -198,7 +210,7 @@ fun getName() string {
         const diagnostics = checkReturnTypeMismatch(doc);
 
         expect(diagnostics).toHaveLength(1);
-        expect(diagnostics[0].message).toContain("expected 'string' but got 'array'");
+        expect(diagnostics[0].message).toContain("expected 'string' but got 'number[]'");
     });
 
     it('should handle variable with explicit type annotation', () => {
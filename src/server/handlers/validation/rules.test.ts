@@ -0,0 +1,181 @@
+/**
+ * Tests for validation rule configuration
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver/node';
+import {
+    RULES,
+    RULE_IDS,
+    findRule,
+    getRuleDocsUrl,
+    withRuleCode,
+    isRuleId,
+    isRuleEnabled,
+    applyRuleSeverity,
+    normalizeRuleConfiguration,
+    getRuleStage,
+    VALIDATION_STAGES,
+} from './rules';
+
+describe('Validation rules', () => {
+    const diagnostic = (severity: DiagnosticSeverity): Diagnostic => ({
+        severity,
+        range: Range.create(0, 0, 0, 1),
+        message: 'test',
+        source: 'kite',
+    });
+
+    describe('RULE_IDS', () => {
+        it('should have unique ids', () => {
+            expect(new Set(RULE_IDS).size).toBe(RULE_IDS.length);
+        });
+
+        it('should recognize known rule ids', () => {
+            expect(isRuleId('long-function')).toBe(true);
+            expect(isRuleId('circular-imports')).toBe(true);
+            expect(isRuleId('not-a-rule')).toBe(false);
+        });
+    });
+
+    describe('RULES registry', () => {
+        it('should have unique codes in KITE#### format', () => {
+            const codes = RULES.map(rule => rule.code);
+            expect(new Set(codes).size).toBe(codes.length);
+            for (const code of codes) {
+                expect(code).toMatch(/^KITE\d{4}$/);
+            }
+        });
+
+        it('should describe every rule', () => {
+            for (const rule of RULES) {
+                expect(rule.description.length).toBeGreaterThan(0);
+                expect(rule.example.length).toBeGreaterThan(0);
+            }
+        });
+
+        it('should have a generated documentation page for every rule', () => {
+            const docsDir = path.join(__dirname, '../../../../docs/rules');
+            for (const rule of RULES) {
+                expect(fs.existsSync(path.join(docsDir, `${rule.id}.md`)), rule.id).toBe(true);
+            }
+        });
+
+        it('should find rules by id or code', () => {
+            expect(findRule('long-function')?.code).toBe('KITE1045');
+            expect(findRule('KITE1045')?.id).toBe('long-function');
+            expect(findRule('kite1045')?.id).toBe('long-function');
+            expect(findRule('KITE9999')).toBeUndefined();
+        });
+
+        it('should build documentation links', () => {
+            expect(getRuleDocsUrl('long-function')).toMatch(/\/docs\/rules\/long-function\.md$/);
+        });
+
+        it('should tag diagnostics with code and documentation link', () => {
+            const [tagged] = withRuleCode([diagnostic(DiagnosticSeverity.Warning)], 'duplicate-decorator');
+            expect(tagged.code).toBe('KITE1019');
+            expect(tagged.codeDescription?.href).toBe(getRuleDocsUrl('duplicate-decorator'));
+        });
+    });
+
+    describe('isRuleEnabled', () => {
+        it('should enable rules by default', () => {
+            expect(isRuleEnabled('unused-function', undefined)).toBe(true);
+            expect(isRuleEnabled('unused-function', {})).toBe(true);
+        });
+
+        it('should disable rules set to off', () => {
+            expect(isRuleEnabled('unused-function', { 'unused-function': 'off' })).toBe(false);
+        });
+
+        it('should keep rules with a severity enabled', () => {
+            expect(isRuleEnabled('unused-function', { 'unused-function': 'hint' })).toBe(true);
+        });
+    });
+
+    describe('applyRuleSeverity', () => {
+        it('should keep default severity without a setting', () => {
+            const result = applyRuleSeverity([diagnostic(DiagnosticSeverity.Warning)], undefined);
+            expect(result[0].severity).toBe(DiagnosticSeverity.Warning);
+        });
+
+        it('should override severity', () => {
+            const diagnostics = [diagnostic(DiagnosticSeverity.Warning), diagnostic(DiagnosticSeverity.Hint)];
+
+            expect(applyRuleSeverity(diagnostics, 'error').map(d => d.severity))
+                .toEqual([DiagnosticSeverity.Error, DiagnosticSeverity.Error]);
+            expect(applyRuleSeverity(diagnostics, 'info')[0].severity).toBe(DiagnosticSeverity.Information);
+            expect(applyRuleSeverity(diagnostics, 'hint')[0].severity).toBe(DiagnosticSeverity.Hint);
+        });
+
+        it('should not mutate the original diagnostics', () => {
+            const original = diagnostic(DiagnosticSeverity.Warning);
+            applyRuleSeverity([original], 'error');
+            expect(original.severity).toBe(DiagnosticSeverity.Warning);
+        });
+    });
+
+    describe('normalizeRuleConfiguration', () => {
+        it('should keep valid rule settings', () => {
+            const rules = normalizeRuleConfiguration({
+                'long-function': 'off',
+                'circular-imports': 'error',
+            });
+            expect(rules).toEqual({ 'long-function': 'off', 'circular-imports': 'error' });
+        });
+
+        it('should accept rule codes as keys', () => {
+            expect(normalizeRuleConfiguration({ KITE1045: 'off' })).toEqual({ 'long-function': 'off' });
+        });
+
+        it('should accept settings in any case', () => {
+            expect(normalizeRuleConfiguration({ 'long-function': 'Warning' }))
+                .toEqual({ 'long-function': 'warning' });
+        });
+
+        it('should drop unknown rules and invalid values', () => {
+            const rules = normalizeRuleConfiguration({
+                'not-a-rule': 'off',
+                'long-function': 'loud',
+                'unused-function': 3,
+            });
+            expect(rules).toEqual({});
+        });
+
+        it('should return empty configuration for non-objects', () => {
+            expect(normalizeRuleConfiguration(undefined)).toEqual({});
+            expect(normalizeRuleConfiguration('off')).toEqual({});
+            expect(normalizeRuleConfiguration(['off'])).toEqual({});
+        });
+    });
+
+    describe('getRuleStage', () => {
+        it('should run syntax rules first', () => {
+            expect(VALIDATION_STAGES[0]).toBe('syntax');
+            expect(getRuleStage('syntax-errors')).toBe('syntax');
+            expect(getRuleStage('unclosed-string')).toBe('syntax');
+        });
+
+        it('should run cross-file rules last', () => {
+            expect(VALIDATION_STAGES[VALIDATION_STAGES.length - 1]).toBe('workspace');
+            expect(getRuleStage('symbol-resolution')).toBe('workspace');
+            expect(getRuleStage('type-checking')).toBe('workspace');
+            expect(getRuleStage('circular-imports')).toBe('workspace');
+            expect(getRuleStage('invalid-import-path')).toBe('workspace');
+            expect(getRuleStage('circular-dependencies')).toBe('workspace');
+            expect(getRuleStage('depends-on')).toBe('workspace');
+            expect(getRuleStage('redundant-depends-on')).toBe('workspace');
+            expect(getRuleStage('decorator-constraints')).toBe('workspace');
+            expect(getRuleStage('sensitive-data-flow')).toBe('workspace');
+            expect(getRuleStage('tag-policy')).toBe('workspace');
+        });
+
+        it('should run other rules in the document stage', () => {
+            expect(getRuleStage('unused-variables')).toBe('document');
+            expect(getRuleStage('long-function')).toBe('document');
+        });
+    });
+});
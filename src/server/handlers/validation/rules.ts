@@ -0,0 +1,448 @@
+/**
+ * Validation rule registry and per-rule configuration for the Kite language server.
+ * Each check wired into validateDocument is identified by a rule id and a stable
+ * diagnostic code. Users can reference either one from `kite.validation.rules`,
+ * `kite.config.json` and suppression comments.
+ */
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { RuleConfiguration, RuleSetting } from '../../types';
+
+/** Category a rule belongs to (used to group rules in documentation) */
+export type RuleCategory = 'syntax' | 'imports' | 'declarations' | 'types' | 'decorators' | 'control-flow' | 'code-quality';
+
+/**
+ * Registry entry describing a validation rule
+ */
+export interface RuleInfo {
+    /** Rule id used in settings and suppression comments (e.g. 'long-function') */
+    id: string;
+    /** Stable diagnostic code (e.g. 'KITE1045'). Never reused or renumbered. */
+    code: string;
+    category: RuleCategory;
+    /** Severity the check reports with when not configured */
+    defaultSeverity: Exclude<RuleSetting, 'off'>;
+    description: string;
+    example: string;
+}
+
+/** Base URL of the generated rule documentation pages */
+export const RULE_DOCS_BASE_URL = 'https://github.com/kitelang/kite-vscode-plugin/blob/main/docs/rules';
+
+/**
+ * All validation rules, in the order validateDocument runs them.
+ * New rules are appended with the next free code.
+ */
+export const RULES = [
+    {
+        id: 'syntax-errors', code: 'KITE1001', category: 'syntax', defaultSeverity: 'error',
+        description: 'Reports parse errors with user-friendly messages.',
+        example: 'var x = (1 + 2  // Error: Missing closing \')\'',
+    },
+    {
+        id: 'decorator-arguments', code: 'KITE1002', category: 'decorators', defaultSeverity: 'error',
+        description: 'Checks that decorator arguments match the type the decorator expects.',
+        example: '@minValue("ten")  // Error: @minValue expects a number\ninput number port',
+    },
+    {
+        id: 'symbol-resolution', code: 'KITE1003', category: 'imports', defaultSeverity: 'error',
+        description: 'Reports schemas, components and functions that cannot be resolved or are defined in a file that is not imported.',
+        example: 'resource UnknownSchema server { }  // Error: Cannot resolve schema \'UnknownSchema\'',
+    },
+    {
+        id: 'component-duplicates', code: 'KITE1004', category: 'declarations', defaultSeverity: 'error',
+        description: 'Reports duplicate input, output and variable names inside a component definition.',
+        example: 'component WebServer {\n    input string name\n    output string name  // Error: Duplicate name \'name\'\n}',
+    },
+    {
+        id: 'type-checking', code: 'KITE1005', category: 'types', defaultSeverity: 'error',
+        description: 'Reports values whose type does not match the declared type.',
+        example: 'var number port = "8080"  // Error: Type mismatch: expected \'number\' but got \'string\'',
+    },
+    {
+        id: 'unused-imports', code: 'KITE1006', category: 'imports', defaultSeverity: 'hint',
+        description: 'Reports imports that are never used.',
+        example: 'import Config from "common.kite"  // Hint: Unused import \'Config\'',
+    },
+    {
+        id: 'unused-variables', code: 'KITE1007', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports variables, inputs, outputs and loop variables that are declared but never used.',
+        example: 'fun f() {\n    var x = 10  // Warning: Variable \'x\' is declared but never used\n}',
+    },
+    {
+        id: 'undefined-symbols', code: 'KITE1008', category: 'declarations', defaultSeverity: 'error',
+        description: 'Reports identifiers that do not resolve to any declaration.',
+        example: 'var y = undefinedVar  // Error: Cannot resolve symbol \'undefinedVar\'',
+    },
+    {
+        id: 'missing-properties', code: 'KITE1009', category: 'declarations', defaultSeverity: 'error',
+        description: 'Reports resources that do not set required schema properties (properties without a default value).',
+        example: 'schema Config { string name }\nresource Config c { }  // Error: Missing required property \'name\'',
+    },
+    {
+        id: 'cloud-property-assignment', code: 'KITE1010', category: 'declarations', defaultSeverity: 'error',
+        description: 'Reports assignments to @cloud schema properties, which are set by the cloud provider.',
+        example: 'resource Bucket b {\n    arn = "..."  // Error: Cannot set \'@cloud\' property \'arn\'\n}',
+    },
+    {
+        id: 'reserved-names', code: 'KITE1011', category: 'declarations', defaultSeverity: 'error',
+        description: 'Reports keywords and type names used as property, input or output names.',
+        example: 'schema Config {\n    string string  // Error: \'string\' is a reserved name\n}',
+    },
+    {
+        id: 'duplicate-properties', code: 'KITE1012', category: 'declarations', defaultSeverity: 'error',
+        description: 'Reports properties declared or assigned more than once in a schema, struct or resource.',
+        example: 'schema Config {\n    string name\n    string name  // Error: Duplicate property \'name\'\n}',
+    },
+    {
+        id: 'decorator-targets', code: 'KITE1013', category: 'decorators', defaultSeverity: 'error',
+        description: 'Reports decorators applied to declarations they do not support.',
+        example: '@minValue(1)  // Error: @minValue cannot be applied to a resource\nresource Config c { }',
+    },
+    {
+        id: 'circular-imports', code: 'KITE1014', category: 'imports', defaultSeverity: 'error',
+        description: 'Reports import chains that lead back to the importing file.',
+        example: '// a.kite\nimport * from "b.kite"  // Error: Circular import: a.kite -> b.kite -> a.kite',
+    },
+    {
+        id: 'missing-value', code: 'KITE1015', category: 'syntax', defaultSeverity: 'error',
+        description: 'Reports assignments with nothing after the \'=\'.',
+        example: 'var x =  // Error: Missing value after \'=\'',
+    },
+    {
+        id: 'duplicate-parameters', code: 'KITE1016', category: 'declarations', defaultSeverity: 'error',
+        description: 'Reports functions with duplicate parameter names.',
+        example: 'fun calculate(number x, string x) { }  // Error: Duplicate parameter \'x\'',
+    },
+    {
+        id: 'duplicate-declarations', code: 'KITE1017', category: 'declarations', defaultSeverity: 'error',
+        description: 'Reports top-level declarations, or variables within a function, that share a name.',
+        example: 'schema Config { }\nschema Config { }  // Error: Duplicate declaration \'Config\'',
+    },
+    {
+        id: 'unknown-decorator', code: 'KITE1018', category: 'decorators', defaultSeverity: 'error',
+        description: 'Reports decorator names that are not recognized.',
+        example: '@invalidDecorator  // Error: Unknown decorator \'@invalidDecorator\'\nresource Config srv { }',
+    },
+    {
+        id: 'duplicate-decorator', code: 'KITE1019', category: 'decorators', defaultSeverity: 'error',
+        description: 'Reports the same decorator applied more than once to a declaration.',
+        example: '@description("First")\n@description("Second")  // Error: Duplicate decorator \'@description\'\nschema Config { }',
+    },
+    {
+        id: 'empty-block', code: 'KITE1020', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports empty schema, component and function bodies.',
+        example: 'schema Config { }  // Warning: Empty schema \'Config\'',
+    },
+    {
+        id: 'invalid-number', code: 'KITE1021', category: 'syntax', defaultSeverity: 'error',
+        description: 'Reports malformed number literals.',
+        example: 'var x = 1.2.3  // Error: Invalid number literal \'1.2.3\'',
+    },
+    {
+        id: 'unclosed-string', code: 'KITE1022', category: 'syntax', defaultSeverity: 'error',
+        description: 'Reports string literals without a closing quote.',
+        example: 'var s = "hello  // Error: Unclosed string literal',
+    },
+    {
+        id: 'missing-return', code: 'KITE1023', category: 'control-flow', defaultSeverity: 'error',
+        description: 'Reports functions with a return type that do not return a value.',
+        example: 'fun calc(number x) number {\n    var y = x\n}  // Error: Function \'calc\' must return a value',
+    },
+    {
+        id: 'unreachable-code', code: 'KITE1024', category: 'control-flow', defaultSeverity: 'warning',
+        description: 'Reports code after a return statement.',
+        example: 'fun f() number {\n    return 1\n    var x = 2  // Warning: Unreachable code\n}',
+    },
+    {
+        id: 'variable-shadowing', code: 'KITE1025', category: 'declarations', defaultSeverity: 'warning',
+        description: 'Reports inner variables that shadow an outer variable or parameter.',
+        example: 'var name = "a"\nfun f() {\n    var name = "b"  // Warning: \'name\' shadows an outer variable\n}',
+    },
+    {
+        id: 'invalid-import-path', code: 'KITE1026', category: 'imports', defaultSeverity: 'error',
+        description: 'Reports imports of files that do not exist.',
+        example: 'import * from "missing.kite"  // Error: Cannot find file \'missing.kite\'',
+    },
+    {
+        id: 'return-outside-function', code: 'KITE1027', category: 'control-flow', defaultSeverity: 'error',
+        description: 'Reports return statements outside a function body.',
+        example: 'return 5  // Error: Return statement outside of function',
+    },
+    {
+        id: 'invalid-string-interpolation', code: 'KITE1028', category: 'syntax', defaultSeverity: 'error',
+        description: 'Reports unclosed or empty ${} interpolations in strings.',
+        example: 'var s = "Hello ${name"  // Error: Unclosed string interpolation',
+    },
+    {
+        id: 'unused-function', code: 'KITE1029', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports functions that are declared but never called.',
+        example: 'fun helper() { }  // Warning: Function \'helper\' is declared but never called',
+    },
+    {
+        id: 'division-by-zero', code: 'KITE1030', category: 'control-flow', defaultSeverity: 'warning',
+        description: 'Reports division or modulo by zero, including constants that evaluate to zero.',
+        example: 'var x = 10 / 0  // Warning: Division by zero',
+    },
+    {
+        id: 'infinite-loop', code: 'KITE1031', category: 'control-flow', defaultSeverity: 'warning',
+        description: 'Reports `while true` loops without a break or return.',
+        example: 'while true {  // Warning: Infinite loop\n    var x = 1\n}',
+    },
+    {
+        id: 'assignment-in-condition', code: 'KITE1032', category: 'control-flow', defaultSeverity: 'warning',
+        description: 'Reports `=` used where `==` was probably meant in an if or while condition.',
+        example: 'if x = 5 { }  // Warning: Assignment in condition',
+    },
+    {
+        id: 'self-assignment', code: 'KITE1033', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports a variable assigned to itself.',
+        example: 'x = x  // Warning: Self-assignment of \'x\'',
+    },
+    {
+        id: 'comparison-to-self', code: 'KITE1034', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports a value compared to itself.',
+        example: 'if x == x { }  // Warning: Comparison of \'x\' to itself',
+    },
+    {
+        id: 'duplicate-import', code: 'KITE1035', category: 'imports', defaultSeverity: 'warning',
+        description: 'Reports the same file imported more than once.',
+        example: 'import A from "common.kite"\nimport B from "common.kite"  // Warning: Duplicate import',
+    },
+    {
+        id: 'constant-condition', code: 'KITE1036', category: 'control-flow', defaultSeverity: 'warning',
+        description: 'Reports if and while conditions that are always true or always false.',
+        example: 'if true { }  // Warning: Condition is always true',
+    },
+    {
+        id: 'too-many-parameters', code: 'KITE1037', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports functions with too many parameters.',
+        example: 'fun f(number a, number b, number c, number d, number e, number f) { }  // Warning: Too many parameters',
+    },
+    {
+        id: 'redundant-condition', code: 'KITE1038', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports conditions that repeat the same operand (x && x, x || x).',
+        example: 'if x && x { }  // Warning: Redundant condition',
+    },
+    {
+        id: 'impossible-condition', code: 'KITE1039', category: 'control-flow', defaultSeverity: 'warning',
+        description: 'Reports conditions that can never be true.',
+        example: 'if x > 5 && x < 5 { }  // Warning: Condition is impossible',
+    },
+    {
+        id: 'type-coercion', code: 'KITE1040', category: 'types', defaultSeverity: 'warning',
+        description: 'Reports comparisons between values of different types.',
+        example: 'if 5 == "5" { }  // Warning: Comparing number with string',
+    },
+    {
+        id: 'empty-string-check', code: 'KITE1041', category: 'code-quality', defaultSeverity: 'hint',
+        description: 'Suggests len(str) == 0 instead of comparing with an empty string.',
+        example: 'if name == "" { }  // Hint: Use len(name) == 0',
+    },
+    {
+        id: 'redundant-boolean', code: 'KITE1042', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports comparisons with boolean literals.',
+        example: 'if flag == true { }  // Warning: Simplify to \'flag\'',
+    },
+    {
+        id: 'negated-comparison', code: 'KITE1043', category: 'code-quality', defaultSeverity: 'hint',
+        description: 'Suggests the opposite operator instead of negating a comparison.',
+        example: 'if !(x == y) { }  // Hint: Use x != y',
+    },
+    {
+        id: 'useless-expression', code: 'KITE1044', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports expression statements that have no effect.',
+        example: 'x + 1  // Warning: Expression has no effect',
+    },
+    {
+        id: 'long-function', code: 'KITE1045', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports functions longer than 50 lines.',
+        example: 'fun process() {\n    // ... 60 lines ...\n}  // Warning: Function \'process\' is 60 lines long',
+    },
+    {
+        id: 'unused-parameter', code: 'KITE1046', category: 'code-quality', defaultSeverity: 'warning',
+        description: 'Reports function parameters that are never used.',
+        example: 'fun f(number x) {  // Warning: Parameter \'x\' is never used\n    return 1\n}',
+    },
+    {
+        id: 'implicit-any', code: 'KITE1047', category: 'types', defaultSeverity: 'hint',
+        description: 'Reports variables whose type cannot be inferred.',
+        example: 'var x = someCall()  // Hint: Type of \'x\' is implicitly \'any\'',
+    },
+    {
+        id: 'return-type-mismatch', code: 'KITE1048', category: 'types', defaultSeverity: 'error',
+        description: 'Reports returned values that do not match the function return type.',
+        example: 'fun f() number {\n    return "text"  // Error: Return type mismatch\n}',
+    },
+    {
+        id: 'indexed-access', code: 'KITE1049', category: 'declarations', defaultSeverity: 'error',
+        description: 'Reports invalid index access on resources created with @count or in loops.',
+        example: '@count(3)\nresource Config c { }\nvar x = c[5]  // Error: Index 5 is out of bounds',
+    },
+    {
+        id: 'unused-suppression', code: 'KITE1050', category: 'code-quality', defaultSeverity: 'hint',
+        description: 'Reports kite-ignore comments that no longer suppress anything.',
+        example: '// kite-ignore-next-line constant-condition  // Hint: Unused suppression\nvar x = 1',
+    },
+    {
+        id: 'circular-dependencies', code: 'KITE1051', category: 'declarations', defaultSeverity: 'error',
+        description: 'Reports resources and component instances that depend on themselves through property references, outputs or @dependsOn, also across files.',
+        example: 'resource Server a { peer = b.id }  // Error: Circular dependency: a -> b -> a\nresource Server b { peer = a.id }',
+    },
+    {
+        id: 'depends-on', code: 'KITE1052', category: 'decorators', defaultSeverity: 'error',
+        description: 'Checks that @dependsOn entries are resources or component instances in scope, including imported and indexed ones, and not the decorated declaration itself.',
+        example: 'input string region = "eu"\n@dependsOn(region)  // Error: \'region\' is an input, not a resource or component instance\nresource Server web { }',
+    },
+    {
+        id: 'redundant-depends-on', code: 'KITE1053', category: 'decorators', defaultSeverity: 'hint',
+        description: 'Reports @dependsOn entries for dependencies that a property reference already creates.',
+        example: '@dependsOn(db)  // Hint: \'db\' is already a dependency of \'web\' through a property reference\nresource Server web { connection = db.endpoint }',
+    },
+    {
+        id: 'decorator-constraints', code: 'KITE1054', category: 'decorators', defaultSeverity: 'error',
+        description: 'Checks input defaults and values passed to component inputs against @minValue, @maxValue, @minLength, @maxLength, @nonEmpty, @validate, @allowed and @unique, also for components from other files.',
+        example: '@allowed(["small", "medium", "large"])\ninput string size = "huge"  // Error: "huge" is not allowed for \'size\'',
+    },
+    {
+        id: 'sensitive-data-flow', code: 'KITE1055', category: 'decorators', defaultSeverity: 'warning',
+        description: 'Warns when values derived from @sensitive inputs or outputs reach outputs not marked @sensitive, @tags, @description, or resource properties not marked @sensitive in their schema. Follows variables, string interpolation, function arguments, imports and component outputs.',
+        example: '@sensitive\ninput string password\noutput string url = "postgres://admin:${password}@db"  // Warning: exposes sensitive data',
+    },
+    {
+        id: 'tag-policy', code: 'KITE1056', category: 'decorators', defaultSeverity: 'warning',
+        description: 'Checks @tags of resources and component instances against the workspace tag policy (validation.tags in kite.config.json): required keys, including tags inherited from component instances, and allowed values.',
+        example: '// kite.config.json: { "validation": { "tags": { "required": ["CostCenter"] } } }\nresource S3.Bucket logs { }  // Warning: \'logs\' is missing required tag: CostCenter',
+    },
+    {
+        id: 'unknown-provider', code: 'KITE1057', category: 'decorators', defaultSeverity: 'warning',
+        description: 'Reports @provider names that are neither the name nor an alias of a provider in the workspace provider registry (providers in kite.config.json). Not checked when no providers are configured.',
+        example: '// kite.config.json: { "providers": ["aws", "azure"] }\n@provider("gpc")  // Warning: Unknown provider \'gpc\'\nresource Bucket logs { }',
+    },
+    {
+        id: 'provider-mismatch', code: 'KITE1058', category: 'decorators', defaultSeverity: 'warning',
+        description: 'Warns when a resource whose schema namespace belongs to a configured provider (e.g. S3 in S3.Bucket) is tagged @provider with a different provider.',
+        example: '// kite.config.json: { "providers": [{ "name": "aws", "namespaces": ["S3"] }, "azure"] }\n@provider("azure")  // Warning: \'logs\' uses \'S3.Bucket\' of provider \'aws\'\nresource S3.Bucket logs { }',
+    },
+] as const satisfies readonly RuleInfo[];
+
+/** A rule from the registry */
+export type Rule = typeof RULES[number];
+
+export type RuleId = Rule['id'];
+
+/** All rule ids, in registry order */
+export const RULE_IDS: readonly RuleId[] = RULES.map(rule => rule.id);
+
+/**
+ * Validation stages, in the order they run. Cheap syntax checks publish first,
+ * checks that read other workspace files run last.
+ */
+export const VALIDATION_STAGES = ['syntax', 'document', 'workspace'] as const;
+
+export type ValidationStage = typeof VALIDATION_STAGES[number];
+
+/** Rules that read other files in the workspace */
+const WORKSPACE_RULES: readonly RuleId[] = [
+    'symbol-resolution',
+    'type-checking',
+    'circular-imports',
+    'invalid-import-path',
+    'circular-dependencies',
+    'depends-on',
+    'redundant-depends-on',
+    'decorator-constraints',
+    'sensitive-data-flow',
+    'tag-policy',
+];
+
+/**
+ * Get the stage a rule runs in
+ */
+export function getRuleStage(ruleId: RuleId): ValidationStage {
+    if (WORKSPACE_RULES.includes(ruleId)) return 'workspace';
+    return findRule(ruleId)!.category === 'syntax' ? 'syntax' : 'document';
+}
+
+/** Valid values for a rule setting */
+export const RULE_SETTINGS: readonly RuleSetting[] = ['off', 'error', 'warning', 'info', 'hint'];
+
+const SEVERITY_BY_SETTING: Record<Exclude<RuleSetting, 'off'>, DiagnosticSeverity> = {
+    error: DiagnosticSeverity.Error,
+    warning: DiagnosticSeverity.Warning,
+    info: DiagnosticSeverity.Information,
+    hint: DiagnosticSeverity.Hint,
+};
+
+/**
+ * Check if a string is a known rule id
+ */
+export function isRuleId(value: string): value is RuleId {
+    return (RULE_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Find a rule by id (e.g. 'long-function') or code (e.g. 'KITE1045')
+ */
+export function findRule(idOrCode: string): Rule | undefined {
+    const key = idOrCode.toUpperCase();
+    return RULES.find(rule => rule.id === idOrCode || rule.code === key);
+}
+
+/**
+ * Get the documentation page URL for a rule
+ */
+export function getRuleDocsUrl(ruleId: RuleId): string {
+    return `${RULE_DOCS_BASE_URL}/${ruleId}.md`;
+}
+
+/**
+ * Tag diagnostics with a rule's code and documentation link
+ */
+export function withRuleCode(diagnostics: Diagnostic[], ruleId: RuleId): Diagnostic[] {
+    const rule = findRule(ruleId)!;
+    const codeDescription = { href: getRuleDocsUrl(ruleId) };
+    return diagnostics.map(d => ({ ...d, code: rule.code, codeDescription }));
+}
+
+/**
+ * Check if a rule is enabled (rules are enabled unless explicitly set to 'off')
+ */
+export function isRuleEnabled(ruleId: RuleId, rules: RuleConfiguration | undefined): boolean {
+    return rules?.[ruleId] !== 'off';
+}
+
+/**
+ * Apply the configured severity for a rule to its diagnostics.
+ * Diagnostics keep their built-in severity when the rule has no override.
+ */
+export function applyRuleSeverity(
+    diagnostics: Diagnostic[],
+    setting: RuleSetting | undefined
+): Diagnostic[] {
+    if (!setting || setting === 'off') return diagnostics;
+
+    const severity = SEVERITY_BY_SETTING[setting];
+    return diagnostics.map(d => ({ ...d, severity }));
+}
+
+/**
+ * Normalize a raw configuration object (from settings or a config file).
+ * Rules may be keyed by id or code. Unknown rules and invalid values are dropped.
+ */
+export function normalizeRuleConfiguration(raw: unknown): RuleConfiguration {
+    const rules: RuleConfiguration = {};
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return rules;
+
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+        const rule = findRule(key);
+        if (!rule) continue;
+        if (typeof value !== 'string') continue;
+        const setting = value.toLowerCase() as RuleSetting;
+        if (RULE_SETTINGS.includes(setting)) {
+            rules[rule.id] = setting;
+        }
+    }
+
+    return rules;
+}
@@ -0,0 +1,173 @@
+/**
+ * Tests for sensitive data flow validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DiagnosticSeverity } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { checkSensitiveDataFlow } from './sensitive-data-flow';
+import { ImportedSymbolsContext } from '../../utils/imported-symbols';
+
+function createDocument(content: string, uri = 'file:///workspace/main.kite'): TextDocument {
+    return TextDocument.create(uri, 'kite', 1, content);
+}
+
+function createContext(files: Record<string, string> = {}): ImportedSymbolsContext {
+    return { getFileContent: (filePath) => files[filePath] ?? null };
+}
+
+function messages(content: string, files: Record<string, string> = {}): string[] {
+    return checkSensitiveDataFlow(createDocument(content), createContext(files)).map(d => d.message);
+}
+
+describe('checkSensitiveDataFlow', () => {
+    describe('outputs', () => {
+        it('should report outputs derived from @sensitive inputs through variables and interpolation', () => {
+            expect(messages(`@sensitive
+input string password
+var url = "postgres://admin:\${password}@db"
+output string connection = url`)).toEqual([
+                "Output 'connection' exposes sensitive data from 'password'; mark it @sensitive",
+            ]);
+        });
+
+        it('should follow function call arguments', () => {
+            expect(messages(`@sensitive
+input string token
+output string header = base64("Bearer " + token)`)).toEqual([
+                "Output 'header' exposes sensitive data from 'token'; mark it @sensitive",
+            ]);
+        });
+
+        it('should report at the output name', () => {
+            const doc = createDocument(`@sensitive
+input string password
+output string copy = password`);
+
+            const [diagnostic] = checkSensitiveDataFlow(doc, createContext());
+
+            expect(diagnostic.severity).toBe(DiagnosticSeverity.Warning);
+            expect(diagnostic.range.start).toEqual({ line: 2, character: 14 });
+            expect(diagnostic.range.end).toEqual({ line: 2, character: 18 });
+        });
+
+        it('should not report outputs marked @sensitive or not derived from sensitive values', () => {
+            expect(messages(`@sensitive
+input string password
+input string user
+@sensitive
+output string connection = "\${user}:\${password}"
+output string name = user`)).toEqual([]);
+        });
+    });
+
+    describe('metadata decorators', () => {
+        it('should report sensitive values written to @tags and @description', () => {
+            expect(messages(`@sensitive
+input string password
+var secret = password
+@tags({ owner: "team", key: secret })
+@description(password)
+resource Bucket logs { }`)).toEqual([
+                "Sensitive data from 'password' is written to @tags",
+                "Sensitive data from 'password' is written to @description",
+            ]);
+        });
+    });
+
+    describe('resource properties', () => {
+        const SCHEMA = `schema Database {
+    string name
+    @sensitive
+    string password
+}
+`;
+
+        it('should report sensitive values assigned to properties not marked @sensitive', () => {
+            const doc = createDocument(SCHEMA + `@sensitive
+input string password
+resource Database db {
+    name = "db-\${password}"
+    password = password
+}`);
+
+            const diagnostics = checkSensitiveDataFlow(doc, createContext());
+
+            expect(diagnostics.map(d => d.message)).toEqual([
+                "Sensitive data from 'password' is assigned to 'name', which is not marked @sensitive in schema 'Database'",
+            ]);
+            expect(diagnostics[0].range.start).toEqual({ line: 8, character: 11 });
+        });
+
+        it('should follow resource properties', () => {
+            expect(messages(SCHEMA + `@sensitive
+input string password
+resource Database db {
+    password = password
+}
+output string leaked = db.password`)).toEqual([
+                "Output 'leaked' exposes sensitive data from 'password'; mark it @sensitive",
+            ]);
+        });
+
+        it('should not report properties of unknown schemas', () => {
+            expect(messages(`@sensitive
+input string password
+resource Unknown db {
+    name = password
+}`)).toEqual([]);
+        });
+    });
+
+    describe('components', () => {
+        const COMPONENT = `component Database {
+    input string user
+    input string password
+    @sensitive
+    output string adminKey = "key"
+    output string url = "\${user}:\${password}@db"
+    output string host = "db"
+}
+`;
+
+        it('should follow outputs of component instances across the component boundary', () => {
+            expect(messages(COMPONENT + `@sensitive
+input string secret
+component Database db {
+    user = "admin"
+    password = secret
+}
+output string key = db.adminKey
+output string url = db.url
+output string host = db.host`)).toEqual([
+                "Output 'key' exposes sensitive data from 'db.adminKey'; mark it @sensitive",
+                "Output 'url' exposes sensitive data from 'db.url'; mark it @sensitive",
+            ]);
+        });
+
+        it('should report sensitive outputs of the component itself', () => {
+            expect(messages(`component Database {
+    @sensitive
+    input string password
+    output string url = "admin:\${password}@db"
+}`)).toEqual([
+                "Output 'url' exposes sensitive data from 'password'; mark it @sensitive",
+            ]);
+        });
+    });
+
+    describe('imports', () => {
+        it('should follow values imported from other files', () => {
+            const files = {
+                '/workspace/secrets.kite': `@sensitive
+input string apiKey
+var header = "Bearer \${apiKey}"`,
+            };
+
+            expect(messages(`import header from "secrets.kite"
+output string auth = header`, files)).toEqual([
+                "Output 'auth' exposes sensitive data from 'apiKey'; mark it @sensitive",
+            ]);
+        });
+    });
+});
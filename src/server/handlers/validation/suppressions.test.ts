@@ -0,0 +1,210 @@
+/**
+ * Tests for inline suppression comments
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag, Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { parseSuppressions, applySuppressions } from './suppressions';
+
+function createDocument(content: string): TextDocument {
+    return TextDocument.create('file:///test.kite', 'kite', 1, content);
+}
+
+function diagnosticAt(line: number, code: string): Diagnostic {
+    return {
+        severity: DiagnosticSeverity.Warning,
+        range: Range.create(line, 0, line, 1),
+        message: `${code} on line ${line}`,
+        source: 'kite',
+        code,
+    };
+}
+
+describe('Suppression comments', () => {
+    describe('parseSuppressions', () => {
+        it('should parse next-line suppression with rule ids', () => {
+            const doc = createDocument(`// kite-ignore-next-line variable-shadowing, constant-condition
+var x = 1`);
+            const suppressions = parseSuppressions(doc);
+
+            expect(suppressions).toHaveLength(1);
+            expect(suppressions[0].kind).toBe('next-line');
+            expect(suppressions[0].rules.map(r => r.ruleId)).toEqual(['variable-shadowing', 'constant-condition']);
+            expect(suppressions[0].startLine).toBe(1);
+            expect(suppressions[0].endLine).toBe(1);
+        });
+
+        it('should ignore the reason after --', () => {
+            const doc = createDocument(`// kite-ignore-next-line constant-condition -- feature flag
+if true { }`);
+            const suppressions = parseSuppressions(doc);
+
+            expect(suppressions[0].rules.map(r => r.ruleId)).toEqual(['constant-condition']);
+        });
+
+        it('should cover the whole block for kite-ignore', () => {
+            const doc = createDocument(`// kite-ignore variable-shadowing
+@description("test")
+fun calc(number x) {
+    var y = x
+    return y
+}
+var z = 1`);
+            const suppressions = parseSuppressions(doc);
+
+            expect(suppressions[0].kind).toBe('block');
+            expect(suppressions[0].startLine).toBe(1);
+            expect(suppressions[0].endLine).toBe(5);
+        });
+
+        it('should cover the whole file for kite-ignore-file', () => {
+            const doc = createDocument(`var a = 1
+// kite-ignore-file unused-function
+var b = 2`);
+            const suppressions = parseSuppressions(doc);
+
+            expect(suppressions[0].kind).toBe('file');
+            expect(suppressions[0].startLine).toBe(0);
+            expect(suppressions[0].endLine).toBe(2);
+        });
+
+        it('should not treat similar words as directives', () => {
+            const doc = createDocument(`// kite-ignored comment
+var x = 1`);
+            expect(parseSuppressions(doc)).toHaveLength(0);
+        });
+    });
+
+    describe('applySuppressions', () => {
+        it('should suppress matching rule on the next line', () => {
+            const doc = createDocument(`// kite-ignore-next-line constant-condition
+if true { }
+if true { }`);
+            const { remaining, unused } = applySuppressions(doc, [
+                diagnosticAt(1, 'constant-condition'),
+                diagnosticAt(2, 'constant-condition'),
+            ]);
+
+            expect(remaining).toHaveLength(1);
+            expect(remaining[0].range.start.line).toBe(2);
+            expect(unused).toHaveLength(0);
+        });
+
+        it('should match diagnostic codes against rule ids and codes', () => {
+            const doc = createDocument(`// kite-ignore-next-line constant-condition
+if true { }
+// kite-ignore-next-line KITE1036
+if true { }`);
+            const { remaining, unused } = applySuppressions(doc, [
+                diagnosticAt(1, 'KITE1036'),
+                diagnosticAt(3, 'KITE1036'),
+            ]);
+
+            expect(remaining).toHaveLength(0);
+            expect(unused).toHaveLength(0);
+        });
+
+        it('should not suppress other rules', () => {
+            const doc = createDocument(`// kite-ignore-next-line constant-condition
+if true { }`);
+            const { remaining } = applySuppressions(doc, [diagnosticAt(1, 'empty-block')]);
+
+            expect(remaining).toHaveLength(1);
+        });
+
+        it('should suppress all rules without rule ids', () => {
+            const doc = createDocument(`// kite-ignore-next-line
+if true { }`);
+            const { remaining, unused } = applySuppressions(doc, [
+                diagnosticAt(1, 'constant-condition'),
+                diagnosticAt(1, 'empty-block'),
+            ]);
+
+            expect(remaining).toHaveLength(0);
+            expect(unused).toHaveLength(0);
+        });
+
+        it('should suppress inside a block', () => {
+            const doc = createDocument(`// kite-ignore variable-shadowing
+fun calc(number x) {
+    var y = 1
+}
+var y = 2`);
+            const { remaining } = applySuppressions(doc, [
+                diagnosticAt(2, 'variable-shadowing'),
+                diagnosticAt(4, 'variable-shadowing'),
+            ]);
+
+            expect(remaining).toHaveLength(1);
+            expect(remaining[0].range.start.line).toBe(4);
+        });
+
+        it('should suppress everywhere for file suppression', () => {
+            const doc = createDocument(`// kite-ignore-file unused-function
+fun a() { }
+fun b() { }`);
+            const { remaining } = applySuppressions(doc, [
+                diagnosticAt(1, 'unused-function'),
+                diagnosticAt(2, 'unused-function'),
+            ]);
+
+            expect(remaining).toHaveLength(0);
+        });
+
+        it('should report unused suppression for a rule', () => {
+            const doc = createDocument(`// kite-ignore-next-line constant-condition
+var x = 1`);
+            const { remaining, unused } = applySuppressions(doc, []);
+
+            expect(remaining).toHaveLength(0);
+            expect(unused).toHaveLength(1);
+            expect(unused[0].severity).toBe(DiagnosticSeverity.Hint);
+            expect(unused[0].tags).toContain(DiagnosticTag.Unnecessary);
+            expect(unused[0].message).toContain('constant-condition');
+            // Range covers the rule id
+            expect(unused[0].range.start.character).toBe(25);
+            expect(unused[0].range.end.character).toBe(43);
+        });
+
+        it('should report only the unused rule ids of a suppression', () => {
+            const doc = createDocument(`// kite-ignore-next-line constant-condition, empty-block
+if true { }`);
+            const { unused } = applySuppressions(doc, [diagnosticAt(1, 'constant-condition')]);
+
+            expect(unused).toHaveLength(1);
+            expect(unused[0].message).toContain('empty-block');
+        });
+
+        it('should report unused suppression without rule ids', () => {
+            const doc = createDocument(`// kite-ignore-next-line
+var x = 1`);
+            const { unused } = applySuppressions(doc, []);
+
+            expect(unused).toHaveLength(1);
+            expect(unused[0].range.start.character).toBe(3);
+        });
+
+        it('should not report suppressions for disabled rules as unused', () => {
+            const doc = createDocument(`// kite-ignore-next-line long-function
+fun f() { }`);
+            const { unused } = applySuppressions(doc, [], ruleId => ruleId !== 'long-function');
+
+            expect(unused).toHaveLength(0);
+        });
+
+        it('should not report suppressions without rule ids until every rule ran', () => {
+            const doc = createDocument(`// kite-ignore-next-line
+var x = 1`);
+
+            expect(applySuppressions(doc, [], () => true, false).unused).toHaveLength(0);
+        });
+
+        it('should return diagnostics unchanged without suppressions', () => {
+            const doc = createDocument(`var x = 1`);
+            const diagnostics = [diagnosticAt(0, 'implicit-any')];
+
+            expect(applySuppressions(doc, diagnostics).remaining).toBe(diagnostics);
+        });
+    });
+});
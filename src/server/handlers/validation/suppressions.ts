@@ -0,0 +1,265 @@
+/**
+ * Inline suppression comments for the Kite language server.
+ *
+ * Supported directives (full-line comments):
+ * - `// kite-ignore-next-line <rule-id>, ...` - suppress on the next code line
+ * - `// kite-ignore <rule-id>, ...`           - suppress in the next declaration or block
+ * - `// kite-ignore-file <rule-id>, ...`      - suppress in the whole file
+ *
+ * Rules can be listed by id (`constant-condition`) or code (`KITE1036`).
+ * Omitting rules suppresses every rule. Suppressions that do not suppress
+ * anything are reported as unused.
+ */
+
+import {
+    Diagnostic,
+    DiagnosticSeverity,
+    DiagnosticTag,
+    Range,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { findMatchingBrace } from '../../utils/text-utils';
+import { findRule } from './rules';
+
+export type SuppressionKind = 'next-line' | 'block' | 'file';
+
+/**
+ * A single rule listed in a suppression comment
+ */
+interface SuppressedRule {
+    /** Rule id or code as written in the comment */
+    ruleId: string;
+    range: Range;
+    used: boolean;
+}
+
+/**
+ * A parsed suppression comment
+ */
+export interface Suppression {
+    kind: SuppressionKind;
+    /** Rules listed in the comment (empty = all rules) */
+    rules: SuppressedRule[];
+    /** Range of the directive (e.g. `kite-ignore-next-line`) */
+    directiveRange: Range;
+    /** First suppressed line (inclusive) */
+    startLine: number;
+    /** Last suppressed line (inclusive) */
+    endLine: number;
+    /** Whether a directive without rule ids suppressed anything */
+    used: boolean;
+}
+
+const SUPPRESSION_REGEX = /^(\s*\/\/\s*)(kite-ignore-next-line|kite-ignore-file|kite-ignore)(?=\s|$)([^\n]*)$/gm;
+
+const KIND_BY_DIRECTIVE: Record<string, SuppressionKind> = {
+    'kite-ignore-next-line': 'next-line',
+    'kite-ignore': 'block',
+    'kite-ignore-file': 'file',
+};
+
+/**
+ * Find all suppression comments in a document
+ */
+export function parseSuppressions(document: TextDocument): Suppression[] {
+    const suppressions: Suppression[] = [];
+    const text = document.getText();
+
+    SUPPRESSION_REGEX.lastIndex = 0;
+    let match;
+    while ((match = SUPPRESSION_REGEX.exec(text)) !== null) {
+        const [, prefix, directive, rest] = match;
+        const kind = KIND_BY_DIRECTIVE[directive];
+        const directiveStart = match.index + prefix.length;
+        const directiveRange = Range.create(
+            document.positionAt(directiveStart),
+            document.positionAt(directiveStart + directive.length)
+        );
+
+        // Rule ids follow the directive; anything after `--` is a free-form reason
+        const restStart = directiveStart + directive.length;
+        const reasonIndex = rest.indexOf('--');
+        const ruleList = reasonIndex === -1 ? rest : rest.substring(0, reasonIndex);
+        const rules: SuppressedRule[] = [];
+        const ruleRegex = /[\w-]+/g;
+        let ruleMatch;
+        while ((ruleMatch = ruleRegex.exec(ruleList)) !== null) {
+            const ruleStart = restStart + ruleMatch.index;
+            rules.push({
+                ruleId: ruleMatch[0],
+                range: Range.create(
+                    document.positionAt(ruleStart),
+                    document.positionAt(ruleStart + ruleMatch[0].length)
+                ),
+                used: false,
+            });
+        }
+
+        const commentLine = directiveRange.start.line;
+        const { startLine, endLine } = getSuppressedLines(document, kind, commentLine);
+
+        suppressions.push({ kind, rules, directiveRange, startLine, endLine, used: false });
+    }
+
+    return suppressions;
+}
+
+/**
+ * Result of applying suppression comments
+ */
+export interface SuppressionResult {
+    /** Diagnostics that were not suppressed */
+    remaining: Diagnostic[];
+    /** Hints for suppression comments that did not suppress anything */
+    unused: Diagnostic[];
+}
+
+/**
+ * Remove suppressed diagnostics and find unused suppressions.
+ * Diagnostics are matched to suppressions by their `code`.
+ *
+ * @param document - The validated document
+ * @param diagnostics - Diagnostics collected by the validation checks
+ * @param isRuleEnabled - Whether a rule ran (suppressions for disabled rules, or rules of stages
+ *   that have not run yet, are not reported as unused)
+ * @param allRulesRan - Whether every stage ran; suppressions without rule ids are only reported as unused then
+ */
+export function applySuppressions(
+    document: TextDocument,
+    diagnostics: Diagnostic[],
+    isRuleEnabled: (ruleId: string) => boolean = () => true,
+    allRulesRan: boolean = true
+): SuppressionResult {
+    const suppressions = parseSuppressions(document);
+    if (suppressions.length === 0) return { remaining: diagnostics, unused: [] };
+
+    const remaining = diagnostics.filter(diagnostic => !isSuppressed(diagnostic, suppressions));
+
+    return { remaining, unused: findUnusedSuppressions(suppressions, isRuleEnabled, allRulesRan) };
+}
+
+/**
+ * Check if a diagnostic is covered by a suppression, marking the suppression as used
+ */
+function isSuppressed(diagnostic: Diagnostic, suppressions: Suppression[]): boolean {
+    const rule = typeof diagnostic.code === 'string' ? findRule(diagnostic.code) : undefined;
+    const line = diagnostic.range.start.line;
+    let suppressed = false;
+
+    for (const suppression of suppressions) {
+        if (line < suppression.startLine || line > suppression.endLine) continue;
+
+        if (suppression.rules.length === 0) {
+            suppression.used = true;
+            suppressed = true;
+            continue;
+        }
+
+        for (const suppressedRule of suppression.rules) {
+            if (rule && findRule(suppressedRule.ruleId) === rule) {
+                suppressedRule.used = true;
+                suppressed = true;
+            }
+        }
+    }
+
+    return suppressed;
+}
+
+/**
+ * Create hints for suppressions (or individual rule ids) that suppressed nothing
+ */
+function findUnusedSuppressions(
+    suppressions: Suppression[],
+    isRuleEnabled: (ruleId: string) => boolean,
+    allRulesRan: boolean
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const suppression of suppressions) {
+        if (suppression.rules.length === 0) {
+            if (!suppression.used && allRulesRan) {
+                diagnostics.push(createUnusedSuppressionDiagnostic(
+                    suppression.directiveRange,
+                    'Unused suppression comment: no diagnostics to suppress'
+                ));
+            }
+            continue;
+        }
+
+        for (const rule of suppression.rules) {
+            if (rule.used || !isRuleEnabled(rule.ruleId)) continue;
+            diagnostics.push(createUnusedSuppressionDiagnostic(
+                rule.range,
+                `Unused suppression for '${rule.ruleId}': no diagnostics to suppress`
+            ));
+        }
+    }
+
+    return diagnostics;
+}
+
+function createUnusedSuppressionDiagnostic(range: Range, message: string): Diagnostic {
+    return {
+        severity: DiagnosticSeverity.Hint,
+        range,
+        message,
+        source: 'kite',
+        tags: [DiagnosticTag.Unnecessary],
+    };
+}
+
+/**
+ * Determine which lines a suppression comment covers
+ */
+function getSuppressedLines(
+    document: TextDocument,
+    kind: SuppressionKind,
+    commentLine: number
+): { startLine: number; endLine: number } {
+    if (kind === 'file') {
+        return { startLine: 0, endLine: document.lineCount - 1 };
+    }
+
+    const codeLine = findNextCodeLine(document, commentLine + 1);
+    if (codeLine === -1) {
+        return { startLine: commentLine + 1, endLine: commentLine + 1 };
+    }
+
+    if (kind === 'next-line') {
+        return { startLine: codeLine, endLine: codeLine };
+    }
+
+    // Block: skip decorators, then cover the declaration and its body (if any)
+    let declarationLine = codeLine;
+    while (declarationLine < document.lineCount - 1 && getLineText(document, declarationLine).trim().startsWith('@')) {
+        declarationLine++;
+    }
+
+    const text = document.getText();
+    const lineStart = document.offsetAt({ line: declarationLine, character: 0 });
+    const braceIndex = getLineText(document, declarationLine).indexOf('{');
+    if (braceIndex !== -1) {
+        const braceEnd = findMatchingBrace(text, lineStart + braceIndex);
+        if (braceEnd !== -1) {
+            return { startLine: codeLine, endLine: document.positionAt(braceEnd).line };
+        }
+    }
+
+    return { startLine: codeLine, endLine: declarationLine };
+}
+
+/**
+ * Find the next line that is not blank and not a line comment
+ */
+function findNextCodeLine(document: TextDocument, fromLine: number): number {
+    for (let line = fromLine; line < document.lineCount; line++) {
+        const trimmed = getLineText(document, line).trim();
+        if (trimmed && !trimmed.startsWith('//')) return line;
+    }
+    return -1;
+}
+
+function getLineText(document: TextDocument, line: number): string {
+    return document.getText(Range.create(line, 0, line + 1, 0)).replace(/\r?\n$/, '');
+}
@@ -51,7 +51,8 @@ export function checkResourceSchemaTypes(
         // Check if schema is in other files
         const schemaSearch = findSymbolInWorkspace(
             ctx, currentFilePath, document.uri,
-            (content, filePath) => ctx.findSchemaDefinition(content, schemaName, filePath)
+            (content, filePath) => ctx.findSchemaDefinition(content, schemaName, filePath),
+            schemaName
         );
         const foundInFile = schemaSearch.filePath;
 
@@ -131,7 +132,8 @@ export function checkComponentInstantiationTypes(
         // Check if component is in other files
         const componentSearch = findSymbolInWorkspace(
             ctx, currentFilePath, document.uri,
-            (content, filePath) => ctx.findComponentDefinition(content, componentType, filePath)
+            (content, filePath) => ctx.findComponentDefinition(content, componentType, filePath),
+            componentType
         );
         const foundInFile = componentSearch.filePath;
 
@@ -233,7 +235,8 @@ export function checkFunctionCalls(
         // Check if function is in other files
         const funcSearch = findSymbolInWorkspace(
             ctx, currentFilePath, document.uri,
-            (content, filePath) => ctx.findFunctionDefinition(content, funcName, filePath)
+            (content, filePath) => ctx.findFunctionDefinition(content, funcName, filePath),
+            funcName
         );
         const foundInFile = funcSearch.filePath;
 
@@ -9,18 +9,18 @@ import {
     Range,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { parseKite, SyntaxError } from '../../../parser/parse-utils';
+import { parseKite, ParseResult, SyntaxError } from '../../../parser/parse-utils';
 
 /**
  * Check for syntax errors and provide helpful messages
  */
-export function checkSyntaxErrors(document: TextDocument): Diagnostic[] {
+export function checkSyntaxErrors(
+    document: TextDocument,
+    result: ParseResult = parseKite(document.getText())
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
 
-    // Parse the document to get syntax errors
-    const result = parseKite(text);
-
     for (const error of result.errors) {
         const improvedMessage = improveErrorMessage(error, text);
 
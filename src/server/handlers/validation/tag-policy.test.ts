@@ -0,0 +1,142 @@
+/**
+ * Tests for tag policy validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DiagnosticSeverity } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { checkTagPolicy, TagPolicyContext } from './tag-policy';
+import { MissingTagsData } from '../code-actions/add-missing-tags';
+import { TagPolicy } from '../../types';
+
+const POLICY: TagPolicy = {
+    required: ['CostCenter', 'Environment'],
+    allowedValues: { Environment: ['dev', 'staging', 'prod'] },
+};
+
+function createDocument(content: string, uri = 'file:///workspace/main.kite'): TextDocument {
+    return TextDocument.create(uri, 'kite', 1, content);
+}
+
+function createContext(files: Record<string, string> = {}, tagPolicy: TagPolicy | undefined = POLICY): TagPolicyContext {
+    return { getFileContent: (filePath) => files[filePath] ?? null, tagPolicy };
+}
+
+function messages(content: string, files: Record<string, string> = {}): string[] {
+    return checkTagPolicy(createDocument(content), createContext(files)).map(d => d.message);
+}
+
+describe('checkTagPolicy', () => {
+    it('should not check anything without a policy', () => {
+        const doc = createDocument('resource S3.Bucket logs { }');
+
+        expect(checkTagPolicy(doc, createContext({}, undefined))).toEqual([]);
+        expect(checkTagPolicy(doc, createContext({}, { required: [], allowedValues: {} }))).toEqual([]);
+    });
+
+    describe('required tags', () => {
+        it('should report resources missing required tags', () => {
+            expect(messages(`resource S3.Bucket logs { }
+@tags({ CostCenter: "eng" })
+resource S3.Bucket data { }
+@tags({ CostCenter: "eng", Environment: "prod" })
+resource S3.Bucket backup { }`)).toEqual([
+                "'logs' is missing required tags: CostCenter, Environment",
+                "'data' is missing required tag: Environment",
+            ]);
+        });
+
+        it('should report at the name with quick fix data', () => {
+            const text = `@tags({ Team: "platform" })
+resource S3.Bucket logs { }`;
+            const [diagnostic] = checkTagPolicy(createDocument(text), createContext());
+            const data = diagnostic.data as MissingTagsData;
+
+            expect(diagnostic.severity).toBe(DiagnosticSeverity.Warning);
+            expect(diagnostic.range.start).toEqual({ line: 1, character: 19 });
+            expect(data.tags).toEqual([
+                { key: 'CostCenter', value: '' },
+                { key: 'Environment', value: 'dev' },
+            ]);
+            expect(data.literal?.openOffset).toBe(text.indexOf('{'));
+            expect(data.declarationLineStart).toBe(text.indexOf('resource'));
+        });
+
+        it('should skip declarations whose @tags is not an object literal', () => {
+            expect(messages(`var common = { CostCenter: "eng" }
+@tags(common)
+resource S3.Bucket logs { }`)).toEqual([]);
+        });
+    });
+
+    describe('allowed values', () => {
+        it('should report values that are not allowed', () => {
+            const doc = createDocument(`@tags({ CostCenter: "eng", Environment: "qa" })
+resource S3.Bucket logs { }`);
+
+            const diagnostics = checkTagPolicy(doc, createContext());
+
+            expect(diagnostics.map(d => d.message)).toEqual([
+                `Tag 'Environment' is "qa" but must be one of: "dev", "staging", "prod"`,
+            ]);
+            expect(diagnostics[0].range.start).toEqual({ line: 0, character: 40 });
+        });
+
+        it('should check values on component instances and inside component definitions', () => {
+            expect(messages(`component Service {
+    @tags({ Environment: "test" })
+    resource S3.Bucket data { }
+}
+@tags({ CostCenter: "eng", Environment: "live" })
+component Service api { }`)).toEqual([
+                `Tag 'Environment' is "test" but must be one of: "dev", "staging", "prod"`,
+                `Tag 'Environment' is "live" but must be one of: "dev", "staging", "prod"`,
+            ]);
+        });
+
+        it('should not check values that are not constant', () => {
+            expect(messages(`input string env
+@tags({ CostCenter: "eng", Environment: env })
+resource S3.Bucket logs { }`)).toEqual([]);
+        });
+    });
+
+    describe('component instances', () => {
+        const COMPONENT = `component Service {
+    @tags({ CostCenter: "eng" })
+    resource S3.Bucket data { }
+    resource S3.Bucket logs { }
+}
+`;
+
+        it('should count tags inherited from the component instance', () => {
+            expect(messages(COMPONENT + `@tags({ CostCenter: "eng", Environment: "prod" })
+component Service api { }`)).toEqual([]);
+        });
+
+        it('should report instances whose resources miss required tags', () => {
+            expect(messages(COMPONENT + `@tags({ Environment: "prod" })
+component Service api { }
+component Service web { }`)).toEqual([
+                "'api' (for the resources of component 'Service') is missing required tag: CostCenter",
+                "'web' (for the resources of component 'Service') is missing required tags: CostCenter, Environment",
+            ]);
+        });
+
+        it('should follow nested component instances and imported components', () => {
+            const files = {
+                '/workspace/service.kite': COMPONENT + `component Stack {
+    @tags({ CostCenter: "eng" })
+    component Service inner { }
+}`,
+            };
+
+            expect(messages(`import * from "service.kite"
+@tags({ Environment: "dev" })
+component Stack prod { }
+component Stack staging { }`, files)).toEqual([
+                "'staging' (for the resources of component 'Stack') is missing required tag: Environment",
+            ]);
+        });
+    });
+});
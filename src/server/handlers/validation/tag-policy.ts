@@ -0,0 +1,173 @@
+/**
+ * Tag policy enforcement for the Kite language server.
+ * Checks the `@tags` objects of resources and component instances against the
+ * workspace tag policy (`validation.tags` in kite.config.json): keys every
+ * resource must carry, and the values allowed per key. Resources inside a
+ * component definition also carry the tags of the instance they are created
+ * through, so they are checked where the component is instantiated.
+ */
+
+import {
+    Diagnostic,
+    DiagnosticSeverity,
+    Range,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { formatConstant, InferredExpression, Scope, SemanticSymbol } from '../../../parser';
+import { DocumentModel } from '../../document-model';
+import { TagPolicy } from '../../types';
+import {
+    createModelLoader,
+    findComponentDefinition,
+    ImportedSymbolsContext,
+} from '../../utils/imported-symbols';
+import { trimRange } from '../../utils/text-utils';
+import { getObjectLiteralLayout } from '../code-actions/add-missing-struct-fields';
+import { MissingTagsData } from '../code-actions/add-missing-tags';
+
+/**
+ * Context for the tag policy check
+ */
+export interface TagPolicyContext extends ImportedSymbolsContext {
+    /** Tag policy of the workspace; nothing is checked when unset */
+    tagPolicy?: TagPolicy;
+}
+
+/**
+ * Tags declared on a resource or component instance
+ */
+interface DeclaredTags {
+    keys: Set<string>;
+    /** The `@tags` object, null when the declaration has no `@tags` */
+    literal: InferredExpression | null;
+}
+
+/**
+ * Check the @tags of resources and component instances against the workspace tag policy
+ * @param model - Model of the document, if already built
+ */
+export function checkTagPolicy(
+    document: TextDocument,
+    ctx: TagPolicyContext,
+    model?: DocumentModel
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const policy = ctx.tagPolicy;
+    if (!policy || (policy.required.length === 0 && Object.keys(policy.allowedValues).length === 0)) {
+        return diagnostics;
+    }
+
+    const text = document.getText();
+    const filePath = URI.parse(document.uri).fsPath;
+    const loadModel = createModelLoader(ctx, { filePath, text });
+    const currentModel = model ?? loadModel(filePath)!;
+
+    /** Required keys missing from the resources a component instance creates, given the keys it passes down */
+    const missingInComponent = (
+        instance: SemanticSymbol,
+        instanceModel: DocumentModel,
+        inherited: Set<string>,
+        visiting: Set<Scope>
+    ): Set<string> => {
+        const missing = new Set<string>();
+        const component = instance.typeName ? findComponentDefinition(instance.typeName, instanceModel, loadModel) : null;
+        if (!component || visiting.has(component.scope)) return missing;
+        visiting.add(component.scope);
+
+        for (const inner of component.model.semanticModel.symbols) {
+            if (inner.nameStart < component.scope.start || inner.nameEnd > component.scope.end) continue;
+            if (inner.kind !== 'resource' && inner.kind !== 'component-instance') continue;
+            const innerTags = getDeclaredTags(inner, component.model);
+            if (!innerTags) continue;
+
+            const keys = new Set([...inherited, ...innerTags.keys]);
+            const innerMissing = inner.kind === 'resource'
+                ? policy.required.filter(key => !keys.has(key))
+                : missingInComponent(inner, component.model, keys, visiting);
+            innerMissing.forEach(key => missing.add(key));
+        }
+
+        visiting.delete(component.scope);
+        return missing;
+    };
+
+    for (const symbol of currentModel.semanticModel.symbols) {
+        if (symbol.kind !== 'resource' && symbol.kind !== 'component-instance') continue;
+        const tags = getDeclaredTags(symbol, currentModel);
+        if (!tags) continue;
+
+        // Pattern: @tags({ Environment: "qa" }) with Environment limited to dev, staging, prod
+        for (const field of tags.literal?.fields ?? []) {
+            const allowed = allowedValuesOf(policy, field.name);
+            if (!allowed) continue;
+            const value = currentModel.constants.expressionAt(field.value.start, field.value.end)?.value;
+            if (value === undefined || (typeof value === 'string' && allowed.includes(value))) continue;
+
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: Range.create(document.positionAt(field.value.start), document.positionAt(field.value.end)),
+                message: `Tag '${field.name}' is ${formatConstant(value)} but must be one of: ${allowed.map(v => formatConstant(v)).join(', ')}`,
+                source: 'kite',
+            });
+        }
+
+        // Declarations inside a component definition are checked where the component is instantiated
+        if (isInComponentDefinition(symbol, currentModel)) continue;
+
+        // Pattern: resource S3.Bucket logs { } without @tags({ CostCenter: ..., Environment: ... })
+        const missingKeys = symbol.kind === 'resource'
+            ? policy.required.filter(key => !tags.keys.has(key))
+            : [...missingInComponent(symbol, currentModel, tags.keys, new Set())];
+        if (missingKeys.length === 0) continue;
+
+        const ordered = policy.required.filter(key => missingKeys.includes(key));
+        const subject = symbol.kind === 'resource'
+            ? `'${symbol.name}'`
+            : `'${symbol.name}' (for the resources of component '${symbol.typeName}')`;
+        const data: MissingTagsData = {
+            type: 'missing-tags',
+            tags: ordered.map(key => ({ key, value: allowedValuesOf(policy, key)?.[0] ?? '' })),
+            literal: tags.literal ? getObjectLiteralLayout(text, tags.literal) : undefined,
+            declarationLineStart: text.lastIndexOf('\n', symbol.nameStart) + 1,
+        };
+
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: Range.create(document.positionAt(symbol.nameStart), document.positionAt(symbol.nameEnd)),
+            message: `${subject} is missing required tag${ordered.length > 1 ? 's' : ''}: ${ordered.join(', ')}`,
+            source: 'kite',
+            data,
+        });
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Tags of a declaration; null when its `@tags` argument is not an object literal, so its keys are unknown
+ */
+function getDeclaredTags(symbol: SemanticSymbol, model: DocumentModel): DeclaredTags | null {
+    const decorator = symbol.decorators?.find(d => d.name === 'tags');
+    if (!decorator) return { keys: new Set(), literal: null };
+    if (!decorator.arguments) return null;
+
+    const { start, end } = trimRange(model.text, decorator.arguments.start, decorator.arguments.end);
+    const literal = model.types.expressionAt(start, end);
+    if (!literal?.fields) return null;
+    return { keys: new Set(literal.fields.map(f => f.name)), literal };
+}
+
+/**
+ * Whether a declaration is inside a component definition
+ */
+function isInComponentDefinition(symbol: SemanticSymbol, model: DocumentModel): boolean {
+    for (let scope: Scope | null = model.semanticModel.scopeAt(symbol.nameStart); scope; scope = scope.parent) {
+        if (scope.kind === 'component-def') return true;
+    }
+    return false;
+}
+
+function allowedValuesOf(policy: TagPolicy, key: string): string[] | undefined {
+    return Object.prototype.hasOwnProperty.call(policy.allowedValues, key) ? policy.allowedValues[key] : undefined;
+}
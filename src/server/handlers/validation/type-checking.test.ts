@@ -329,6 +329,206 @@ component WebServer {
         });
     });
 
+    describe('expression values', () => {
+        it('should report error for a reference to a variable of another type', () => {
+            const doc = createDocument(`var string s = "x"
+var number port = s`);
+            const diagnostics = checkTypeMismatches(doc);
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toBe("Type mismatch: expected 'number' but got 'string'");
+        });
+
+        it('should report error for a resource property set from another resource', () => {
+            const doc = createDocument(`schema Config {
+    string host
+    number port
+}
+
+resource Config a {
+    host = "localhost"
+    port = 80
+}
+
+resource Config b {
+    host = "remote"
+    port = a.host
+}`);
+            const diagnostics = checkTypeMismatches(doc);
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toContain("property 'port' expects 'number' but got 'string'");
+        });
+
+        it('should infer operators and function calls', () => {
+            const doc = createDocument(`fun label() string { return "x" }
+var number a = 1 + 2 * 3
+var string b = label() + "-" + 1
+var boolean c = a > 2`);
+            const diagnostics = checkTypeMismatches(doc);
+            expect(diagnostics).toHaveLength(0);
+        });
+    });
+
+    describe('struct literals', () => {
+        const structs = `struct Point {
+    number x
+    number y
+}
+
+struct Polygon {
+    string name
+    string color = "black"
+    Point[] vertices
+}
+`;
+
+        it('should not report error for a matching struct literal', () => {
+            const doc = createDocument(structs + `var Point p = { x: 0, y: 1 }`);
+            const diagnostics = checkTypeMismatches(doc);
+            expect(diagnostics).toHaveLength(0);
+        });
+
+        it('should report unknown keys at the key', () => {
+            const text = structs + `var Point p = { x: 0, y: 1, z: 2 }`;
+            const diagnostics = checkTypeMismatches(createDocument(text));
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toBe("Property 'z' does not exist on struct 'Point'");
+            expect(diagnostics[0].range.start.character).toBe(text.split('\n').pop()!.indexOf('z'));
+        });
+
+        it('should report field values of the wrong type at the value', () => {
+            const diagnostics = checkTypeMismatches(createDocument(structs + `var Point p = { x: "0", y: 1 }`));
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toBe("Type mismatch: property 'x' expects 'number' but got 'string'");
+        });
+
+        it('should report missing required fields with quick fix data', () => {
+            const diagnostics = checkTypeMismatches(createDocument(structs + `var Polygon shape = {
+    vertices: []
+}`));
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toBe("Missing required field 'name' in struct 'Polygon'");
+            expect(diagnostics[0].data).toMatchObject({
+                type: 'missing-struct-fields',
+                structName: 'Polygon',
+                fields: [{ name: 'name', typeName: 'string' }],
+                separator: ':',
+                commaSeparated: false,
+            });
+        });
+
+        it('should check struct arrays and nested structs recursively', () => {
+            const diagnostics = checkTypeMismatches(createDocument(structs + `var Polygon shape = {
+    name: "triangle",
+    vertices: [{ x: 0, y: 0 }, { x: true, y: 1 }, { x: 2 }]
+}`));
+
+            expect(diagnostics.map(d => d.message)).toEqual([
+                "Type mismatch: property 'x' expects 'number' but got 'boolean'",
+                "Missing required field 'y' in struct 'Point'",
+            ]);
+        });
+
+        it('should check struct-typed resource properties', () => {
+            const diagnostics = checkTypeMismatches(createDocument(structs + `schema Drawing {
+    Point origin
+}
+
+resource Drawing d {
+    origin = { x: 0, y: "1" }
+}`));
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toContain("property 'y' expects 'number'");
+        });
+
+        it('should report primitives assigned to a struct', () => {
+            const diagnostics = checkTypeMismatches(createDocument(structs + `var Point p = 5`));
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toBe("Type mismatch: expected 'Point' but got 'number'");
+        });
+
+        it('should check literals against structs imported from other files', () => {
+            const ctx = { getFileContent: (filePath: string) => filePath === '/workspace/shapes.kite' ? structs : null };
+            const doc = createDocument(`import Point from "shapes.kite"
+var Point p = { x: 0, z: 2 }`, 'file:///workspace/main.kite');
+
+            expect(checkTypeMismatches(doc, undefined, ctx).map(d => d.message)).toEqual([
+                "Property 'z' does not exist on struct 'Point'",
+                "Missing required field 'y' in struct 'Point'",
+            ]);
+        });
+    });
+
+    describe('union type aliases', () => {
+        const alias = 'type Environment = "dev" | "staging" | "prod"\n';
+
+        it('should report literals that are not members of the union', () => {
+            const diagnostics = checkTypeMismatches(createDocument(alias + 'var Environment env = "prd"'));
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toBe(
+                'Value "prd" is not assignable to type \'Environment\'. Expected one of: "dev", "staging", "prod"'
+            );
+        });
+
+        it('should accept members of the union', () => {
+            const diagnostics = checkTypeMismatches(createDocument(alias + 'var Environment env = "prod"'));
+            expect(diagnostics).toHaveLength(0);
+        });
+
+        it('should check component inputs and instance properties', () => {
+            const diagnostics = checkTypeMismatches(createDocument(alias + `component App {
+    input Environment environment = "dev"
+}
+
+component App web {
+    environment = "prd"
+}`));
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toContain('"prd"');
+        });
+
+        it('should check struct fields and arrays of the alias', () => {
+            const diagnostics = checkTypeMismatches(createDocument(alias + `struct Deployment {
+    Environment environment
+    Environment[] promotions = []
+}
+
+var Deployment d = { environment: "qa", promotions: ["dev", "live"] }`));
+
+            expect(diagnostics.map(d => d.message)).toEqual([
+                'Value "qa" is not assignable to type \'Environment\'. Expected one of: "dev", "staging", "prod"',
+                'Value "live" is not assignable to type \'Environment\'. Expected one of: "dev", "staging", "prod"',
+            ]);
+        });
+
+        it('should check function arguments', () => {
+            const diagnostics = checkTypeMismatches(createDocument(alias + `fun deploy(string name, Environment env) {
+}
+deploy("web", "prod")
+deploy("web", "prd")
+deploy(env: "test", name: "web")`));
+
+            expect(diagnostics).toHaveLength(2);
+            expect(diagnostics[0].message).toContain('"prd"');
+            expect(diagnostics[1].message).toContain('"test"');
+        });
+
+        it('should not check interpolated strings or references', () => {
+            const diagnostics = checkTypeMismatches(createDocument(alias + `var string suffix = "rod"
+var Environment a = "p\${suffix}"
+var Environment b = suffix`));
+            expect(diagnostics).toHaveLength(0);
+        });
+    });
+
     describe('edge cases', () => {
         it('should not report error for identifier references', () => {
             const doc = createDocument(`
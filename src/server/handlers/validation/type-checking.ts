@@ -1,6 +1,8 @@
 /**
  * Type checking handler for the Kite language server.
- * Provides type mismatch detection for variable declarations and resource properties.
+ * Provides type mismatch detection for variable declarations and resource properties,
+ * using the inferred types of expressions, and structural checking of object literals
+ * against struct types.
  */
 
 import {
@@ -9,10 +11,27 @@ import {
     Range,
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+    buildTypeInference,
+    elementType,
+    InferredExpression,
+    TypeInference,
+    TypeProperty,
+} from '../../../parser/type-inference';
+import { URI } from 'vscode-uri';
+import { SemanticSymbol, SymbolKind } from '../../../parser/semantic-model';
+import { getObjectLiteralLayout, MissingStructFieldsData } from '../code-actions/add-missing-struct-fields';
+import { DocumentModel } from '../../document-model';
+import {
+    createModelLoader,
+    ImportedSymbolsContext,
+    ModelLoader,
+    resolveTypeDeclaration,
+} from '../../utils/imported-symbols';
 
 /**
  * Infer the type of a literal value from its string representation.
- * Returns null for identifier references (can't determine type without context).
+ * Returns null for identifier references; use the type inference for full expressions.
  */
 export function inferValueType(value: string): string | null {
     const trimmed = value.trim();
@@ -72,6 +91,11 @@ export function isTypeCompatible(declaredType: string, valueType: string): boole
         return true;
     }
 
+    // Values of type 'any' can be assigned to everything
+    if (normalizedValue === 'any') {
+        return true;
+    }
+
     // Array types (e.g., string[], number[], any[]) require array values
     if (normalizedDeclared.endsWith('[]')) {
         // null is compatible with any array type
@@ -106,6 +130,11 @@ export function isTypeCompatible(declaredType: string, valueType: string): boole
         return true;
     }
 
+    // Schema, struct and component values are objects
+    if (normalizedDeclared === 'object' && !normalizedValue.endsWith('[]') && !isBuiltinType(normalizedValue)) {
+        return true;
+    }
+
     // Custom types (non-built-in) - be lenient with primitives and objects
     // Type aliases like `type Region = "us-east-1" | "us-west-2"` should accept string values
     // Struct/schema types should accept object literals
@@ -130,190 +159,202 @@ function isBuiltinType(typeName: string): boolean {
     return builtins.includes(typeName.toLowerCase());
 }
 
-/**
- * Schema property definition
- */
-interface SchemaProperty {
-    name: string;
-    type: string;
-}
+/** Declarations whose initializer is checked against their declared type */
+const TYPED_VALUE_KINDS: ReadonlySet<SymbolKind> = new Set(['variable', 'input', 'output']);
 
 /**
- * Extract schema definitions from document text.
- * Returns a map of schema name -> array of properties
+ * Check for type mismatches in a document: initializers of typed declarations,
+ * and resource and component instance properties against their schema or component inputs.
+ * Object literals assigned to struct types are checked field by field, including
+ * nested structs and arrays of structs, and string literals assigned to union aliases
+ * (`type Environment = "dev" | "prod"`) against the allowed values. Call arguments
+ * are checked against the parameter types of functions declared in the file.
+ * @param types - Type inference of the document, if already built
+ * @param ctx - Reads imported files, so structs declared in them are checked too
+ * @param model - Model of the document, if already built
  */
-function extractSchemas(text: string): Map<string, SchemaProperty[]> {
-    const schemas = new Map<string, SchemaProperty[]>();
-
-    // Match schema declarations: schema Name { ... }
-    const schemaRegex = /\bschema\s+(\w+)\s*\{([^}]*)\}/g;
-    let match;
-
-    while ((match = schemaRegex.exec(text)) !== null) {
-        const schemaName = match[1];
-        const bodyText = match[2];
-        const properties: SchemaProperty[] = [];
-
-        // Parse properties: type name or type[] name
-        // Handle 'any' keyword specially
-        const propRegex = /\b(any|\w+)(\[\])?\s+(\w+)/g;
-        let propMatch;
-
-        while ((propMatch = propRegex.exec(bodyText)) !== null) {
-            const type = propMatch[1] + (propMatch[2] || '');
-            const name = propMatch[3];
-            properties.push({ name, type });
-        }
-
-        schemas.set(schemaName, properties);
-    }
-
-    return schemas;
-}
-
-/**
- * Check for type mismatches in a document.
- */
-export function checkTypeMismatches(document: TextDocument): Diagnostic[] {
+export function checkTypeMismatches(
+    document: TextDocument,
+    types: TypeInference = buildTypeInference(document.getText()),
+    ctx?: ImportedSymbolsContext,
+    model?: DocumentModel
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
-
-    // Extract schema definitions for resource property checking
-    const schemas = extractSchemas(text);
-
-    // Helper to check if position is inside a comment
-    function isInsideComment(pos: number): boolean {
-        // Check for single-line comment
-        const lineStart = text.lastIndexOf('\n', pos - 1) + 1;
-        const lineBeforePos = text.substring(lineStart, pos);
-        if (lineBeforePos.includes('//')) {
-            return true;
+    const structs = ctx && createStructResolver(document, ctx, model);
+
+    const report = (start: number, end: number, message: string, data?: MissingStructFieldsData) => {
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: Range.create(document.positionAt(start), document.positionAt(end)),
+            message,
+            source: 'kite',
+            ...(data && { data }),
+        });
+    };
+
+    /** Properties of a struct declared in the file or imported into it; null for any other type */
+    const structProperties = (typeName: string | null): TypeProperty[] | null => {
+        if (!typeName) return null;
+        if (structs) return structs(typeName);
+        if (!types.model.root.symbols.some(s => s.name === typeName && s.kind === 'struct')) return null;
+        return types.propertiesOf(typeName);
+    };
+
+    /**
+     * Check a value against the type it is assigned to
+     * @param mismatch - Message for a value of another type
+     */
+    const checkValue = (typeName: string, value: InferredExpression, mismatch: (actualType: string) => string) => {
+        const literals = types.unionLiterals(typeName);
+        if (literals && value.literal !== undefined) {
+            if (!literals.includes(value.literal)) {
+                const allowed = literals.map(l => `"${l}"`).join(', ');
+                report(value.start, value.end, `Value "${value.literal}" is not assignable to type '${typeName}'. Expected one of: ${allowed}`);
+            }
+            return;
         }
 
-        // Check for multi-line comment
-        const textBefore = text.substring(0, pos);
-        const lastBlockCommentStart = textBefore.lastIndexOf('/*');
-        if (lastBlockCommentStart !== -1) {
-            const lastBlockCommentEnd = textBefore.lastIndexOf('*/');
-            if (lastBlockCommentEnd < lastBlockCommentStart) {
-                return true;
+        const expectedType = types.resolveType(typeName) ?? typeName;
+
+        const properties = structProperties(expectedType);
+        if (properties) {
+            if (value.fields) {
+                checkStructLiteral(expectedType, properties, value);
+            } else if (value.type && !isStructCompatible(expectedType, value.type)) {
+                report(value.start, value.end, mismatch(value.type));
             }
+            return;
         }
-        return false;
-    }
 
-    // Helper to check if position is inside a string
-    function isInsideString(pos: number): boolean {
-        const textBefore = text.substring(0, pos);
-        let inDouble = false;
-        let inSingle = false;
-
-        for (let i = 0; i < textBefore.length; i++) {
-            const char = textBefore[i];
-            if (char === '"' && !inSingle && (i === 0 || textBefore[i - 1] !== '\\')) {
-                inDouble = !inDouble;
-            } else if (char === "'" && !inDouble && (i === 0 || textBefore[i - 1] !== '\\')) {
-                inSingle = !inSingle;
+        const element = elementType(typeName);
+        if (value.elements && element && (structProperties(element) || types.unionLiterals(element))) {
+            for (const item of value.elements) {
+                checkValue(element, item, actualType =>
+                    `Type mismatch: element expects '${element}' but got '${actualType}'`);
             }
+            return;
         }
 
-        return inDouble || inSingle;
-    }
-
-    // Check variable/input/output declarations with explicit types
-    // Pattern: (var|input|output) type name = value
-    const declRegex = /\b(var|input|output)\s+(\w+)(\[\])?\s+(\w+)\s*=\s*([^\n;]+)/g;
-    let declMatch;
-
-    while ((declMatch = declRegex.exec(text)) !== null) {
-        if (isInsideComment(declMatch.index) || isInsideString(declMatch.index)) {
-            continue;
+        if (value.type && !isTypeCompatible(expectedType, value.type)) {
+            report(value.start, value.end, mismatch(value.type));
+        }
+    };
+
+    /**
+     * Check an object literal against a struct: unknown keys, field values and required fields
+     */
+    const checkStructLiteral = (structName: string, properties: TypeProperty[], literal: InferredExpression) => {
+        const fields = literal.fields!;
+        for (const field of fields) {
+            const property = properties.find(p => p.name === field.name);
+            if (!property) {
+                report(field.nameStart, field.nameEnd, `Property '${field.name}' does not exist on struct '${structName}'`);
+                continue;
+            }
+            checkValue(property.typeName, field.value, actualType =>
+                `Type mismatch: property '${field.name}' expects '${property.typeName}' but got '${actualType}'`);
         }
 
-        const keyword = declMatch[1];
-        const declaredType = declMatch[2] + (declMatch[3] || '');
-        const varName = declMatch[4];
-        const valueText = declMatch[5].trim();
-
-        // Infer the value type
-        const valueType = inferValueType(valueText);
-
-        // If we can't infer the type (e.g., identifier reference), skip
-        if (!valueType) continue;
-
-        // Check for type mismatch
-        if (!isTypeCompatible(declaredType, valueType)) {
-            // Find position of the value for error highlighting
-            const valueStart = declMatch.index + declMatch[0].indexOf(valueText);
-            const valueEnd = valueStart + valueText.length;
-
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: Range.create(
-                    document.positionAt(valueStart),
-                    document.positionAt(valueEnd)
-                ),
-                message: `Type mismatch: expected '${declaredType}' but got '${valueType}'`,
-                source: 'kite'
+        const missing = properties.filter(p => !p.hasDefault && !fields.some(f => f.name === p.name));
+        if (missing.length === 0) return;
+
+        const names = missing.map(p => `'${p.name}'`).join(', ');
+        report(
+            literal.start,
+            literal.end,
+            `Missing required field${missing.length > 1 ? 's' : ''} ${names} in struct '${structName}'`,
+            {
+                type: 'missing-struct-fields',
+                structName,
+                fields: missing.map(p => ({ name: p.name, typeName: p.typeName })),
+                ...getObjectLiteralLayout(text, literal),
+            }
+        );
+    };
+
+    /**
+     * Check the arguments of calls to a function against its parameter types
+     */
+    const checkCallArguments = (functionSymbol: SemanticSymbol) => {
+        const functionScope = types.model.scopeAt(functionSymbol.nameStart);
+        if (functionScope.kind !== 'function') return;
+        const parameters = functionScope.symbols.filter(s => s.kind === 'parameter');
+
+        for (const args of types.callsOf(functionSymbol)) {
+            args.forEach((arg, position) => {
+                const parameter = arg.name === null
+                    ? parameters[position]
+                    : parameters.find(p => p.name === arg.name);
+                if (!parameter?.typeName) return;
+
+                const typeName = parameter.typeName;
+                checkValue(typeName, arg.value, actualType =>
+                    `Type mismatch: parameter '${parameter.name}' expects '${typeName}' but got '${actualType}'`);
             });
         }
-    }
+    };
 
-    // Check resource property type mismatches against schema definitions
-    // Pattern: resource SchemaName instanceName { ... }
-    const resourceRegex = /\bresource\s+(\w+)\s+\w+\s*\{([^}]*)\}/g;
-    let resourceMatch;
+    for (const symbol of types.model.symbols) {
+        // Pattern: fun name(type param) { ... } called as name(value)
+        if (symbol.kind === 'function') {
+            checkCallArguments(symbol);
+            continue;
+        }
+        if (!symbol.typeName || !symbol.value) continue;
 
-    while ((resourceMatch = resourceRegex.exec(text)) !== null) {
-        if (isInsideComment(resourceMatch.index)) continue;
+        // Pattern: (var|input|output) type name = value
+        if (TYPED_VALUE_KINDS.has(symbol.kind)) {
+            const value = types.expressionAt(symbol.value.start, symbol.value.end);
+            if (!value) continue;
 
-        const schemaName = resourceMatch[1];
-        const bodyText = resourceMatch[2];
-        const bodyOffset = resourceMatch.index + resourceMatch[0].indexOf('{') + 1;
+            const typeName = symbol.typeName;
+            checkValue(typeName, value, actualType => `Type mismatch: expected '${typeName}' but got '${actualType}'`);
+            continue;
+        }
 
-        // Get schema properties
-        const schemaProps = schemas.get(schemaName);
-        if (!schemaProps) continue;
+        // Pattern: resource SchemaName instanceName { prop = value }
+        if (symbol.kind === 'resource' || symbol.kind === 'component-instance') {
+            const properties = types.propertiesOf(symbol.typeName);
+            const body = types.expressionAt(symbol.value.start, symbol.value.end);
+            if (!properties || !body?.fields) continue;
 
-        // Create property type map
-        const propTypes = new Map<string, string>();
-        for (const prop of schemaProps) {
-            propTypes.set(prop.name, prop.type);
-        }
+            for (const field of body.fields) {
+                const property = properties.find(p => p.name === field.name);
+                if (!property) continue;
 
-        // Find property assignments in resource body: name = value
-        const propAssignRegex = /\b(\w+)\s*=\s*([^\n,}]+)/g;
-        let propMatch;
-
-        while ((propMatch = propAssignRegex.exec(bodyText)) !== null) {
-            const propName = propMatch[1];
-            const valueText = propMatch[2].trim();
-
-            // Get expected type from schema
-            const expectedType = propTypes.get(propName);
-            if (!expectedType) continue;
-
-            // Infer value type
-            const valueType = inferValueType(valueText);
-            if (!valueType) continue;
-
-            // Check for mismatch
-            if (!isTypeCompatible(expectedType, valueType)) {
-                const valueStart = bodyOffset + propMatch.index + propMatch[0].indexOf(valueText);
-                const valueEnd = valueStart + valueText.length;
-
-                diagnostics.push({
-                    severity: DiagnosticSeverity.Error,
-                    range: Range.create(
-                        document.positionAt(valueStart),
-                        document.positionAt(valueEnd)
-                    ),
-                    message: `Type mismatch: property '${propName}' expects '${expectedType}' but got '${valueType}'`,
-                    source: 'kite'
-                });
+                checkValue(property.typeName, field.value, actualType =>
+                    `Type mismatch: property '${field.name}' expects '${property.typeName}' but got '${actualType}'`);
             }
         }
     }
 
     return diagnostics;
 }
+
+/**
+ * Whether a value of a type can be assigned to a struct type.
+ * Unlike other custom types, known structs do not accept primitives or arrays.
+ */
+/**
+ * Look up struct properties by type name, following imports into other files
+ */
+function createStructResolver(
+    document: TextDocument,
+    ctx: ImportedSymbolsContext,
+    model?: DocumentModel
+): (typeName: string) => TypeProperty[] | null {
+    const filePath = URI.parse(document.uri).fsPath;
+    const loadModel: ModelLoader = createModelLoader(ctx, { filePath, text: document.getText() });
+    const currentModel = model ?? loadModel(filePath)!;
+
+    return typeName => {
+        const struct = resolveTypeDeclaration(typeName, 'struct', currentModel, loadModel);
+        return struct ? struct.model.types.propertiesOf(typeName) : null;
+    };
+}
+
+function isStructCompatible(structName: string, valueType: string): boolean {
+    return valueType === structName || valueType === 'object' || valueType === 'any' || valueType === 'null';
+}
+
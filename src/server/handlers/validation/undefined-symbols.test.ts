@@ -5,38 +5,17 @@
 import { describe, it, expect } from 'vitest';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { checkUndefinedSymbols } from './undefined-symbols';
-import { Declaration } from '../../types';
-import { Range } from 'vscode-languageserver/node';
 
 function createDocument(content: string, uri = 'file:///workspace/test.kite'): TextDocument {
     return TextDocument.create(uri, 'kite', 1, content);
 }
 
-function createDeclarations(names: {
-    name: string;
-    type: Declaration['type'];
-    scopeStart?: number;
-    scopeEnd?: number;
-    nameRange?: Range;
-}[]): Declaration[] {
-    return names.map((n, i) => ({
-        name: n.name,
-        type: n.type,
-        range: Range.create(i, 0, i, 10),
-        nameRange: n.nameRange || Range.create(i, 0, i, n.name.length),
-        uri: 'file:///workspace/test.kite',
-        scopeStart: n.scopeStart,
-        scopeEnd: n.scopeEnd,
-    }));
-}
-
 describe('checkUndefinedSymbols', () => {
     describe('Variable references', () => {
         it('should report error for undefined variable in assignment', () => {
             const doc = createDocument(`var x = undefinedVar`);
-            const declarations = createDeclarations([{ name: 'x', type: 'variable' }]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'undefinedVar'"));
             expect(errors).toHaveLength(1);
@@ -46,12 +25,8 @@ describe('checkUndefinedSymbols', () => {
         it('should not report error for defined variable', () => {
             const doc = createDocument(`var x = 10
 var y = x + 5`);
-            const declarations = createDeclarations([
-                { name: 'x', type: 'variable' },
-                { name: 'y', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'x'"));
             expect(errors).toHaveLength(0);
@@ -60,12 +35,8 @@ var y = x + 5`);
         it('should report error for undefined variable in expression', () => {
             const doc = createDocument(`var x = 10
 var y = x + unknownVar`);
-            const declarations = createDeclarations([
-                { name: 'x', type: 'variable' },
-                { name: 'y', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'unknownVar'"));
             expect(errors).toHaveLength(1);
@@ -78,12 +49,8 @@ var y = x + unknownVar`);
     input string name
     output string greeting = "Hello, " + name
 }`);
-            const declarations = createDeclarations([
-                { name: 'name', type: 'input' },
-                { name: 'greeting', type: 'output' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'name'"));
             expect(errors).toHaveLength(0);
@@ -94,12 +61,8 @@ var y = x + unknownVar`);
     output string endpoint = "http://localhost"
     var url = endpoint
 }`);
-            const declarations = createDeclarations([
-                { name: 'endpoint', type: 'output' },
-                { name: 'url', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'endpoint'"));
             expect(errors).toHaveLength(0);
@@ -112,13 +75,8 @@ var y = x + unknownVar`);
 for (item in items) {
     var x = item
 }`);
-            const declarations = createDeclarations([
-                { name: 'items', type: 'variable' },
-                { name: 'item', type: 'for' },
-                { name: 'x', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'item'"));
             expect(errors).toHaveLength(0);
@@ -130,13 +88,8 @@ for (item in items) {
             const doc = createDocument(`schema Config { string name }
 resource Config server { name = "test" }
 var serverName = server.name`);
-            const declarations = createDeclarations([
-                { name: 'Config', type: 'schema' },
-                { name: 'server', type: 'resource' },
-                { name: 'serverName', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'server'"));
             expect(errors).toHaveLength(0);
@@ -146,13 +99,8 @@ var serverName = server.name`);
             const doc = createDocument(`component WebServer { input string name }
 component WebServer api { name = "api" }
 var apiName = api.name`);
-            const declarations = createDeclarations([
-                { name: 'WebServer', type: 'component' },
-                { name: 'api', type: 'component' },
-                { name: 'apiName', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'api'"));
             expect(errors).toHaveLength(0);
@@ -164,13 +112,8 @@ var apiName = api.name`);
             const doc = createDocument(`var string x = "hello"
 var number y = 42
 var boolean z = true`);
-            const declarations = createDeclarations([
-                { name: 'x', type: 'variable' },
-                { name: 'y', type: 'variable' },
-                { name: 'z', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const typeErrors = diagnostics.filter(d =>
                 d.message.includes("'string'") ||
@@ -184,13 +127,8 @@ var boolean z = true`);
             const doc = createDocument(`var x = true
 var y = false
 var z = null`);
-            const declarations = createDeclarations([
-                { name: 'x', type: 'variable' },
-                { name: 'y', type: 'variable' },
-                { name: 'z', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const literalErrors = diagnostics.filter(d =>
                 d.message.includes("'true'") ||
@@ -205,12 +143,8 @@ var z = null`);
         it('should not report error for property names after dot', () => {
             const doc = createDocument(`var server = { host: "localhost" }
 var h = server.host`);
-            const declarations = createDeclarations([
-                { name: 'server', type: 'variable' },
-                { name: 'h', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // 'host' after dot should not be reported
             const errors = diagnostics.filter(d => d.message.includes("'host'"));
@@ -219,9 +153,8 @@ var h = server.host`);
 
         it('should report error for undefined base in property access', () => {
             const doc = createDocument(`var x = undefinedObj.property`);
-            const declarations = createDeclarations([{ name: 'x', type: 'variable' }]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'undefinedObj'"));
             expect(errors).toHaveLength(1);
@@ -231,9 +164,8 @@ var h = server.host`);
     describe('String interpolation', () => {
         it('should report error for undefined variable in interpolation', () => {
             const doc = createDocument(`var greeting = "Hello, \${undefinedName}!"`);
-            const declarations = createDeclarations([{ name: 'greeting', type: 'variable' }]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'undefinedName'"));
             expect(errors).toHaveLength(1);
@@ -242,12 +174,8 @@ var h = server.host`);
         it('should not report error for defined variable in interpolation', () => {
             const doc = createDocument(`var name = "World"
 var greeting = "Hello, \${name}!"`);
-            const declarations = createDeclarations([
-                { name: 'name', type: 'variable' },
-                { name: 'greeting', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'name'"));
             expect(errors).toHaveLength(0);
@@ -259,17 +187,11 @@ var greeting = "Hello, \${name}!"`);
             const doc = createDocument(`fun greet(string name) string {
     return "Hello, " + name
 }`);
-            const declarations = createDeclarations([
-                { name: 'greet', type: 'function' },
-                // Function parameters are typically in scope within the function
-            ]);
 
-            // Parameters should be handled - this test may need adjustment
-            // based on how the scanner handles function parameters
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
-            // We expect 'name' to either be declared or handled specially
-            expect(diagnostics.length).toBeLessThanOrEqual(1);
+            // 'name' resolves to the parameter in the function scope
+            expect(diagnostics).toHaveLength(0);
         });
     });
 
@@ -277,9 +199,8 @@ var greeting = "Hello, \${name}!"`);
         it('should ignore identifiers in single-line comments', () => {
             const doc = createDocument(`// var x = undefinedVar
 var y = 10`);
-            const declarations = createDeclarations([{ name: 'y', type: 'variable' }]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'undefinedVar'"));
             expect(errors).toHaveLength(0);
@@ -290,9 +211,8 @@ var y = 10`);
 var x = undefinedVar
 */
 var y = 10`);
-            const declarations = createDeclarations([{ name: 'y', type: 'variable' }]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'undefinedVar'"));
             expect(errors).toHaveLength(0);
@@ -302,9 +222,8 @@ var y = 10`);
     describe('Strings', () => {
         it('should ignore identifiers inside string literals', () => {
             const doc = createDocument(`var x = "undefinedVar is just text"`);
-            const declarations = createDeclarations([{ name: 'x', type: 'variable' }]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'undefinedVar'"));
             expect(errors).toHaveLength(0);
@@ -313,12 +232,8 @@ var y = 10`);
         it('should ignore text before interpolation in double-quoted strings', () => {
             const doc = createDocument(`var name = "test"
 var x = "Hello \${name}"`);
-            const declarations = createDeclarations([
-                { name: 'name', type: 'variable' },
-                { name: 'x', type: 'variable' }
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // "Hello" is just text, not a variable reference
             const helloErrors = diagnostics.filter(d => d.message.includes("'Hello'"));
@@ -327,9 +242,8 @@ var x = "Hello \${name}"`);
 
         it('should check variables inside interpolation', () => {
             const doc = createDocument(`var x = "Value: \${undefinedVar}"`);
-            const declarations = createDeclarations([{ name: 'x', type: 'variable' }]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // undefinedVar inside ${} should be flagged
             const errors = diagnostics.filter(d => d.message.includes("'undefinedVar'"));
@@ -338,9 +252,8 @@ var x = "Hello \${name}"`);
 
         it('should not check interpolation syntax in single-quoted strings', () => {
             const doc = createDocument(`var x = 'No \${interp}'`);
-            const declarations = createDeclarations([{ name: 'x', type: 'variable' }]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // Single quotes don't support interpolation, so 'interp' is just text
             const errors = diagnostics.filter(d => d.message.includes("'interp'") || d.message.includes("'No'"));
@@ -349,9 +262,8 @@ var x = "Hello \${name}"`);
 
         it('should handle simple $ without braces', () => {
             const doc = createDocument(`var x = "Price: $100"`);
-            const declarations = createDeclarations([{ name: 'x', type: 'variable' }]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // $ without {} is not interpolation
             expect(diagnostics).toHaveLength(0);
@@ -365,11 +277,8 @@ var x = "Hello \${name}"`);
     number port = 8080
     boolean ssl
 }`);
-            const declarations = createDeclarations([
-                { name: 'ServerConfig', type: 'schema' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // host, port, ssl are property names - not undefined symbols
             const hostErrors = diagnostics.filter(d => d.message.includes("'host'"));
@@ -383,12 +292,8 @@ var x = "Hello \${name}"`);
         it('should not report error for schema used as type', () => {
             const doc = createDocument(`schema User { string name }
 var User currentUser = { name: "John" }`);
-            const declarations = createDeclarations([
-                { name: 'User', type: 'schema' },
-                { name: 'currentUser', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'User'"));
             expect(errors).toHaveLength(0);
@@ -397,12 +302,8 @@ var User currentUser = { name: "John" }`);
         it('should not report error for type alias', () => {
             const doc = createDocument(`type Region = "us-east-1" | "us-west-2"
 var Region r = "us-east-1"`);
-            const declarations = createDeclarations([
-                { name: 'Region', type: 'type' },
-                { name: 'r', type: 'variable' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const errors = diagnostics.filter(d => d.message.includes("'Region'"));
             expect(errors).toHaveLength(0);
@@ -419,11 +320,8 @@ schema Config {
     string region
 }
 `);
-            const declarations = createDeclarations([
-                { name: 'Config', type: 'schema' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // Decorator names should not be flagged as undefined
             const allowedErrors = diagnostics.filter(d => d.message.includes("'allowed'"));
@@ -442,12 +340,8 @@ resource Config server {
     name = "test"
 }
 `);
-            const declarations = createDeclarations([
-                { name: 'Config', type: 'schema' },
-                { name: 'server', type: 'resource' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const customErrors = diagnostics.filter(d => d.message.includes("'customDecorator'"));
             const providerErrors = diagnostics.filter(d => d.message.includes("'provider'"));
@@ -462,12 +356,8 @@ resource Config server {
 resource DatabaseConfig db {
     host = "localhost"
 }`);
-            const declarations = createDeclarations([
-                { name: 'DatabaseConfig', type: 'import' },
-                { name: 'db', type: 'resource' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // DatabaseConfig is imported, should not be flagged
             const errors = diagnostics.filter(d => d.message.includes("'DatabaseConfig'"));
@@ -478,14 +368,8 @@ resource DatabaseConfig db {
             const doc = createDocument(`import formatName, CommonConfig from "common.kite"
 var result = formatName("test")
 resource CommonConfig config { name = "test" }`);
-            const declarations = createDeclarations([
-                { name: 'formatName', type: 'import' },
-                { name: 'CommonConfig', type: 'import' },
-                { name: 'result', type: 'variable' },
-                { name: 'config', type: 'resource' },
-            ]);
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             const formatNameErrors = diagnostics.filter(d => d.message.includes("'formatName'"));
             const commonConfigErrors = diagnostics.filter(d => d.message.includes("'CommonConfig'"));
@@ -497,9 +381,8 @@ resource CommonConfig config { name = "test" }`);
     describe('Edge cases', () => {
         it('should handle empty document', () => {
             const doc = createDocument('');
-            const declarations: Declaration[] = [];
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             expect(diagnostics).toHaveLength(0);
         });
@@ -507,9 +390,8 @@ resource CommonConfig config { name = "test" }`);
         it('should handle document with only comments', () => {
             const doc = createDocument(`// This is a comment
 /* Another comment */`);
-            const declarations: Declaration[] = [];
 
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             expect(diagnostics).toHaveLength(0);
         });
@@ -523,23 +405,7 @@ resource CommonConfig config { name = "test" }`);
 }`;
             const doc = createDocument(content);
 
-            // Simulate scanner output: variable 'result' declared in function scope
-            const funcStart = content.indexOf('{');
-            const funcEnd = content.lastIndexOf('}');
-            const declarations = createDeclarations([
-                {
-                    name: 'calculate',
-                    type: 'function',
-                },
-                {
-                    name: 'result',
-                    type: 'variable',
-                    scopeStart: funcStart,
-                    scopeEnd: funcEnd,
-                },
-            ]);
-
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // 'result' should be resolved within the function
             const resultErrors = diagnostics.filter(d => d.message.includes("'result'"));
@@ -553,29 +419,7 @@ resource CommonConfig config { name = "test" }`);
 }`;
             const doc = createDocument(content);
 
-            const funcStart = content.indexOf('{');
-            const funcEnd = content.lastIndexOf('}');
-            const varDeclOffset = content.indexOf('var x');
-
-            const declarations = createDeclarations([
-                {
-                    name: 'test',
-                    type: 'function',
-                },
-                {
-                    name: 'x',
-                    type: 'variable',
-                    scopeStart: funcStart,
-                    scopeEnd: funcEnd,
-                    // Override nameRange to position it at 'var x'
-                    nameRange: {
-                        start: doc.positionAt(varDeclOffset + 4), // Position of 'x' in 'var x'
-                        end: doc.positionAt(varDeclOffset + 5),
-                    },
-                },
-            ]);
-
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // 'x' should not be resolved before its declaration
             const xErrors = diagnostics.filter(d => d.message.includes("'x'"));
@@ -591,27 +435,7 @@ fun bar() {
 }`;
             const doc = createDocument(content);
 
-            const firstFuncStart = content.indexOf('{');
-            const firstFuncEnd = content.indexOf('}');
-
-            const declarations = createDeclarations([
-                {
-                    name: 'foo',
-                    type: 'function',
-                },
-                {
-                    name: 'bar',
-                    type: 'function',
-                },
-                {
-                    name: 'x',
-                    type: 'variable',
-                    scopeStart: firstFuncStart,
-                    scopeEnd: firstFuncEnd,
-                },
-            ]);
-
-            const diagnostics = checkUndefinedSymbols(doc, declarations);
+            const diagnostics = checkUndefinedSymbols(doc);
 
             // 'x' in bar() should not be resolved (different scope)
             const xErrors = diagnostics.filter(d => d.message.includes("'x'"));
@@ -5,6 +5,7 @@
 import { describe, it, expect } from 'vitest';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { checkUnknownDecorators } from './unknown-decorator';
+import { mergeDecorators } from '../../decorator-catalog';
 
 describe('Unknown decorator validation', () => {
     const createDoc = (content: string) =>
@@ -61,4 +62,18 @@ describe('Unknown decorator validation', () => {
 
         expect(diagnostics).toHaveLength(2);
     });
+
+    it('should accept workspace-defined decorators', () => {
+        const doc = createDoc(`
+            @provisionOn(["aws"])
+            @foo
+            resource Storage backup {}
+        `);
+        const decorators = mergeDecorators([{
+            name: 'provisionOn', category: 'resource', description: '', argType: 'array', example: '', sortOrder: 1000,
+        }]);
+        const diagnostics = checkUnknownDecorators(doc, decorators);
+
+        expect(diagnostics.map(d => d.message)).toEqual(["Unknown decorator '@foo'"]);
+    });
 });
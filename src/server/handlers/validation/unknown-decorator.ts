@@ -10,17 +10,20 @@ import {
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { DECORATORS } from '../../constants';
+import { DecoratorInfo } from '../../types';
 import { isInComment, isInString } from '../../utils/text-utils';
 
-/** Set of known decorator names */
-const KNOWN_DECORATORS = new Set(DECORATORS.map(d => d.name));
-
 /**
  * Check for unknown decorator names
+ * @param decorators - Decorator catalog, including workspace-defined decorators
  */
-export function checkUnknownDecorators(document: TextDocument): Diagnostic[] {
+export function checkUnknownDecorators(
+    document: TextDocument,
+    decorators: readonly DecoratorInfo[] = DECORATORS
+): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
     const text = document.getText();
+    const knownDecorators = new Set(decorators.map(d => d.name));
 
     // Match decorator usages: @name or @name(...)
     const decoratorRegex = /@(\w+)/g;
@@ -35,7 +38,7 @@ export function checkUnknownDecorators(document: TextDocument): Diagnostic[] {
 
         const decoratorName = match[1];
 
-        if (!KNOWN_DECORATORS.has(decoratorName)) {
+        if (!knownDecorators.has(decoratorName)) {
             const startPos = document.positionAt(offset);
             const endPos = document.positionAt(offset + match[0].length);
 
@@ -307,4 +307,100 @@ schema Config { }`);
             expect(schemaErrors).toHaveLength(0);
         });
     });
+
+    describe('rule configuration', () => {
+        const longFunction = `fun longFunction() {
+${Array.from({ length: 55 }, (_, i) => `    var x${i} = ${i}`).join('\n')}
+    return x0
+}
+var result = longFunction()`;
+
+        it('should report rules with default severity when not configured', () => {
+            const doc = createDocument(longFunction);
+            const diagnostics = validateDocument(doc, createContext());
+
+            const longFunctionWarnings = diagnostics.filter(d => d.message.includes('lines long'));
+            expect(longFunctionWarnings).toHaveLength(1);
+            expect(longFunctionWarnings[0].severity).toBe(DiagnosticSeverity.Warning);
+        });
+
+        it('should skip rules set to off', () => {
+            const doc = createDocument(longFunction);
+            const diagnostics = validateDocument(doc, {
+                ...createContext(),
+                rules: { 'long-function': 'off' },
+            });
+
+            expect(diagnostics.filter(d => d.message.includes('lines long'))).toHaveLength(0);
+        });
+
+        it('should apply configured severity', () => {
+            const doc = createDocument(longFunction);
+            const diagnostics = validateDocument(doc, {
+                ...createContext(),
+                rules: { 'long-function': 'error' },
+            });
+
+            const longFunctionErrors = diagnostics.filter(d => d.message.includes('lines long'));
+            expect(longFunctionErrors).toHaveLength(1);
+            expect(longFunctionErrors[0].severity).toBe(DiagnosticSeverity.Error);
+        });
+
+        it('should not affect other rules', () => {
+            const doc = createDocument(`fun unused() {
+    return 1
+}`);
+            const diagnostics = validateDocument(doc, {
+                ...createContext(),
+                rules: { 'long-function': 'off' },
+            });
+
+            expect(diagnostics.some(d => d.message.includes('never called'))).toBe(true);
+        });
+    });
+
+    describe('suppression comments', () => {
+        it('should tag diagnostics with their rule code and docs link', () => {
+            const doc = createDocument(`fun unused() {
+    return 1
+}`);
+            const diagnostics = validateDocument(doc, createContext());
+
+            const unusedFunction = diagnostics.find(d => d.message.includes('never called'));
+            expect(unusedFunction?.code).toBe('KITE1029');
+            expect(unusedFunction?.codeDescription?.href).toContain('docs/rules/unused-function.md');
+        });
+
+        it('should drop diagnostics suppressed on the next line', () => {
+            const doc = createDocument(`// kite-ignore-next-line unused-function
+fun unused() {
+    return 1
+}`);
+            const diagnostics = validateDocument(doc, createContext());
+
+            expect(diagnostics.filter(d => d.message.includes('never called'))).toHaveLength(0);
+            expect(diagnostics.filter(d => d.code === 'KITE1050')).toHaveLength(0);
+        });
+
+        it('should report unused suppressions', () => {
+            const doc = createDocument(`// kite-ignore-next-line constant-condition
+var x = 1`);
+            const diagnostics = validateDocument(doc, createContext());
+
+            const unused = diagnostics.filter(d => d.code === 'KITE1050');
+            expect(unused).toHaveLength(1);
+            expect(unused[0].severity).toBe(DiagnosticSeverity.Hint);
+        });
+
+        it('should not report unused suppressions when the rule is off', () => {
+            const doc = createDocument(`// kite-ignore-next-line constant-condition
+var x = 1`);
+            const diagnostics = validateDocument(doc, {
+                ...createContext(),
+                rules: { 'unused-suppression': 'off' },
+            });
+
+            expect(diagnostics.filter(d => d.code === 'KITE1050')).toHaveLength(0);
+        });
+    });
 });
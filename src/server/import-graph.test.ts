@@ -0,0 +1,106 @@
+/**
+ * Tests for the import graph.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as path from 'path';
+import { createImportGraph, resolveFileImports, ImportGraphSource } from './import-graph';
+
+const root = path.resolve('/workspace');
+const file = (name: string) => path.join(root, name);
+
+function createSource(files: Record<string, string>): ImportGraphSource {
+    return {
+        findKiteFilesInWorkspace: () => Object.keys(files),
+        getFileContent: vi.fn((filePath: string) => files[filePath] ?? null),
+    };
+}
+
+describe('import graph', () => {
+    describe('resolveFileImports', () => {
+        it('should resolve import paths relative to the file', () => {
+            const imports = resolveFileImports(file('app/main.kite'), [
+                'import * from "common.kite"',
+                'import Config from "../shared/config.kite"',
+                'import Database from "aws.Database"',
+                'import * from "common.kite"',
+            ].join('\n'));
+
+            expect(imports).toEqual([
+                file('app/common.kite'),
+                file('shared/config.kite'),
+                file('app/aws/Database.kite'),
+            ]);
+        });
+    });
+
+    describe('createImportGraph', () => {
+        const files = {
+            [file('common.kite')]: 'schema Config {\n}',
+            [file('network.kite')]: 'import Config from "common.kite"',
+            [file('main.kite')]: 'import * from "network.kite"',
+            [file('other.kite')]: 'var x = 1',
+        };
+
+        it('should find direct importers', () => {
+            const graph = createImportGraph(createSource(files));
+
+            expect(graph.getImporters(file('common.kite'))).toEqual([file('network.kite')]);
+            expect(graph.getImporters(file('other.kite'))).toEqual([]);
+        });
+
+        it('should find transitive importers and imports', () => {
+            const graph = createImportGraph(createSource(files));
+
+            expect(graph.getTransitiveImporters(file('common.kite'))).toEqual([
+                file('network.kite'),
+                file('main.kite'),
+            ]);
+            expect(graph.getTransitiveImports(file('main.kite'))).toEqual([
+                file('network.kite'),
+                file('common.kite'),
+            ]);
+        });
+
+        it('should handle import cycles', () => {
+            const graph = createImportGraph(createSource({
+                [file('a.kite')]: 'import * from "b.kite"',
+                [file('b.kite')]: 'import * from "a.kite"',
+            }));
+
+            expect(graph.getTransitiveImporters(file('a.kite'))).toEqual([file('b.kite')]);
+        });
+
+        it('should follow updated imports', () => {
+            const graph = createImportGraph(createSource(files));
+
+            graph.updateFile(file('network.kite'), 'var x = 1');
+            graph.updateFile(file('other.kite'), 'import * from "common.kite"');
+
+            expect(graph.getImporters(file('common.kite'))).toEqual([file('other.kite')]);
+            expect(graph.getTransitiveImporters(file('common.kite'))).toEqual([file('other.kite')]);
+        });
+
+        it('should forget removed files', () => {
+            const graph = createImportGraph(createSource(files));
+
+            graph.removeFile(file('network.kite'));
+
+            expect(graph.getImporters(file('common.kite'))).toEqual([]);
+            expect(graph.getTransitiveImports(file('network.kite'))).toEqual([]);
+        });
+
+        it('should read workspace files once until cleared', () => {
+            const source = createSource(files);
+            const graph = createImportGraph(source);
+
+            graph.getImporters(file('common.kite'));
+            graph.getImporters(file('network.kite'));
+            expect(source.getFileContent).toHaveBeenCalledTimes(4);
+
+            graph.clear();
+            graph.getImporters(file('common.kite'));
+            expect(source.getFileContent).toHaveBeenCalledTimes(8);
+        });
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * Import graph for the Kite language server.
+ *
+ * Records which files each .kite file imports and, in reverse, which files
+ * import it. When a file changes, every file that imports it directly or
+ * through other files may have stale cross-file diagnostics.
+ */
+
+import * as path from 'path';
+import { extractImports, resolveImportPath } from './utils/import-utils';
+
+/**
+ * File access needed to build the graph
+ */
+export interface ImportGraphSource {
+    findKiteFilesInWorkspace: () => string[];
+    getFileContent: (filePath: string) => string | null;
+}
+
+export interface ImportGraph {
+    /** Record a file's imports from its current text */
+    updateFile(filePath: string, text: string): void;
+    /** Forget a deleted file's imports */
+    removeFile(filePath: string): void;
+    /** Files that import a file directly */
+    getImporters(filePath: string): string[];
+    /** Files that import a file directly or through other files (never the file itself) */
+    getTransitiveImporters(filePath: string): string[];
+    /** Files a file imports directly or through other files (never the file itself) */
+    getTransitiveImports(filePath: string): string[];
+    /** Forget everything; the graph is rebuilt from the workspace on next use */
+    clear(): void;
+}
+
+/**
+ * Create an import graph. All workspace files are read on first use;
+ * after that the graph is kept up to date with updateFile and removeFile.
+ */
+export function createImportGraph(source: ImportGraphSource): ImportGraph {
+    // file -> files it imports
+    const imports = new Map<string, Set<string>>();
+    // file -> files importing it
+    const importers = new Map<string, Set<string>>();
+    let built = false;
+
+    const setImports = (filePath: string, targets: string[]) => {
+        for (const target of imports.get(filePath) ?? []) {
+            importers.get(target)?.delete(filePath);
+        }
+        imports.set(filePath, new Set(targets));
+        for (const target of targets) {
+            let set = importers.get(target);
+            if (!set) {
+                set = new Set();
+                importers.set(target, set);
+            }
+            set.add(filePath);
+        }
+    };
+
+    const ensureBuilt = () => {
+        if (built) return;
+        built = true;
+        for (const filePath of source.findKiteFilesInWorkspace()) {
+            if (imports.has(filePath)) continue;
+            const content = source.getFileContent(filePath);
+            if (content !== null) {
+                setImports(filePath, resolveFileImports(filePath, content));
+            }
+        }
+    };
+
+    return {
+        updateFile(filePath, text) {
+            ensureBuilt();
+            setImports(filePath, resolveFileImports(filePath, text));
+        },
+
+        removeFile(filePath) {
+            ensureBuilt();
+            setImports(filePath, []);
+            imports.delete(filePath);
+        },
+
+        getImporters(filePath) {
+            ensureBuilt();
+            return [...(importers.get(filePath) ?? [])];
+        },
+
+        getTransitiveImporters(filePath) {
+            ensureBuilt();
+            return collectReachable(filePath, importers);
+        },
+
+        getTransitiveImports(filePath) {
+            ensureBuilt();
+            return collectReachable(filePath, imports);
+        },
+
+        clear() {
+            imports.clear();
+            importers.clear();
+            built = false;
+        },
+    };
+}
+
+/**
+ * Resolve the files imported by a file's text to absolute paths
+ */
+export function resolveFileImports(filePath: string, text: string): string[] {
+    const currentDir = path.dirname(filePath);
+    return [...new Set(extractImports(text).map(imp => resolveImportPath(imp.path, currentDir)))];
+}
+
+/**
+ * Walk edges from a file, collecting every reachable file except the start (cycles are safe)
+ */
+function collectReachable(start: string, edges: Map<string, Set<string>>): string[] {
+    const visited = new Set<string>([start]);
+    const queue = [start];
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const next of edges.get(current) ?? []) {
+            if (!visited.has(next)) {
+                visited.add(next);
+                queue.push(next);
+            }
+        }
+    }
+
+    visited.delete(start);
+    return [...visited];
+}
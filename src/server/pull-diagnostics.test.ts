@@ -0,0 +1,129 @@
+/**
+ * Tests for pull diagnostics reports.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+    CancellationToken,
+    CancellationTokenSource,
+    Diagnostic,
+    DiagnosticSeverity,
+    DocumentDiagnosticReportKind,
+} from 'vscode-languageserver/node';
+import {
+    collectWorkspaceDiagnosticReports,
+    createDiagnosticResultId,
+    getDeclarationSignature,
+    WorkspaceDiagnosticSource,
+} from './pull-diagnostics';
+import { indexFileContent } from './workspace-index';
+
+const error: Diagnostic = {
+    range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+    message: 'Broken',
+    severity: DiagnosticSeverity.Error,
+};
+
+function createSource(resultIds: Record<string, string | undefined>): WorkspaceDiagnosticSource {
+    return {
+        getResultId: (filePath) => resultIds[filePath],
+        validate: vi.fn(async () => [error]),
+    };
+}
+
+describe('pull diagnostics', () => {
+    describe('createDiagnosticResultId', () => {
+        it('should change with the generation and the content key', () => {
+            const id = createDiagnosticResultId(1, 'open:3');
+
+            expect(createDiagnosticResultId(1, 'open:3')).toBe(id);
+            expect(createDiagnosticResultId(2, 'open:3')).not.toBe(id);
+            expect(createDiagnosticResultId(1, 'open:4')).not.toBe(id);
+        });
+    });
+
+    describe('getDeclarationSignature', () => {
+        it('should ignore edits that do not change declarations or imports', () => {
+            const before = indexFileContent('/workspace/a.kite', 'var x = 1');
+            const after = indexFileContent('/workspace/a.kite', '\n\nvar x = 2 + y');
+
+            expect(getDeclarationSignature(after)).toBe(getDeclarationSignature(before));
+        });
+
+        it('should change when declarations or imports change', () => {
+            const base = indexFileContent('/workspace/a.kite', 'var x = 1');
+            const renamed = indexFileContent('/workspace/a.kite', 'var y = 1');
+            const imported = indexFileContent('/workspace/a.kite', 'import * from "b.kite"\nvar x = 1');
+
+            expect(getDeclarationSignature(renamed)).not.toBe(getDeclarationSignature(base));
+            expect(getDeclarationSignature(imported)).not.toBe(getDeclarationSignature(base));
+        });
+    });
+
+    describe('collectWorkspaceDiagnosticReports', () => {
+        it('should report full diagnostics for new files', async () => {
+            const source = createSource({ '/workspace/a.kite': '1:a' });
+
+            const reports = await collectWorkspaceDiagnosticReports(
+                ['/workspace/a.kite'], new Map(), source, CancellationToken.None
+            );
+
+            expect(reports).toEqual([{
+                kind: DocumentDiagnosticReportKind.Full,
+                uri: 'file:///workspace/a.kite',
+                version: null,
+                resultId: '1:a',
+                items: [error],
+            }]);
+        });
+
+        it('should not re-validate files whose result ID is unchanged', async () => {
+            const source = createSource({ '/workspace/a.kite': '1:a', '/workspace/b.kite': '1:b2' });
+            const previous = new Map([
+                ['file:///workspace/a.kite', '1:a'],
+                ['file:///workspace/b.kite', '1:b1'],
+            ]);
+
+            const reports = await collectWorkspaceDiagnosticReports(
+                ['/workspace/a.kite', '/workspace/b.kite'], previous, source, CancellationToken.None
+            );
+
+            expect(reports?.map(r => r.kind)).toEqual([
+                DocumentDiagnosticReportKind.Unchanged,
+                DocumentDiagnosticReportKind.Full,
+            ]);
+            expect(source.validate).toHaveBeenCalledTimes(1);
+            expect(vi.mocked(source.validate).mock.calls[0][0]).toBe('/workspace/b.kite');
+        });
+
+        it('should skip files that no longer exist or cannot be read', async () => {
+            const source: WorkspaceDiagnosticSource = {
+                getResultId: (filePath) => filePath === '/workspace/gone.kite' ? undefined : '1:x',
+                validate: async (filePath) => filePath === '/workspace/unreadable.kite' ? undefined : [],
+            };
+
+            const reports = await collectWorkspaceDiagnosticReports(
+                ['/workspace/gone.kite', '/workspace/unreadable.kite', '/workspace/ok.kite'],
+                new Map(), source, CancellationToken.None
+            );
+
+            expect(reports?.map(r => r.uri)).toEqual(['file:///workspace/ok.kite']);
+        });
+
+        it('should stop when cancelled', async () => {
+            const tokenSource = new CancellationTokenSource();
+            const source = createSource({ '/workspace/a.kite': '1:a', '/workspace/b.kite': '1:b' });
+            vi.mocked(source.validate).mockImplementation(async () => {
+                tokenSource.cancel();
+                return [];
+            });
+
+            const reports = await collectWorkspaceDiagnosticReports(
+                ['/workspace/a.kite', '/workspace/b.kite'], new Map(), source, tokenSource.token
+            );
+
+            expect(reports).toBeUndefined();
+            expect(source.validate).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * Pull diagnostics for the Kite language server.
+ *
+ * Clients that support `textDocument/diagnostic` and `workspace/diagnostic` ask
+ * the server for diagnostics instead of receiving them. Every report carries a
+ * result ID built from the file's content key and a workspace generation, so
+ * files that did not change since the last pull are answered with an
+ * "unchanged" report instead of being validated and sent again.
+ */
+
+import {
+    CancellationToken,
+    Diagnostic,
+    DocumentDiagnosticReportKind,
+    WorkspaceDocumentDiagnosticReport,
+} from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { IndexedFile } from './workspace-index';
+import { yieldToEventLoop } from './validation-scheduler';
+
+/** Files validated between yields to the event loop during a workspace pull */
+const WORKSPACE_BATCH_SIZE = 10;
+
+/**
+ * Build a result ID for a file.
+ * @param generation - Workspace generation; bumped when settings or other files change,
+ *                     since cross-file checks depend on them
+ * @param contentKey - Identifies the file's content (document version, or mtime and size on disk)
+ */
+export function createDiagnosticResultId(generation: number, contentKey: string): string {
+    return `${generation}:${contentKey}`;
+}
+
+/**
+ * Summarize what other files can see of a file: its top-level declarations and imports.
+ * When the summary changes, diagnostics of other files may change too.
+ */
+export function getDeclarationSignature(file: IndexedFile | undefined): string {
+    if (!file) return '';
+    return JSON.stringify([file.symbols.map(s => `${s.kind}:${s.name}`), file.imports]);
+}
+
+/**
+ * File access and validation needed for a workspace pull
+ */
+export interface WorkspaceDiagnosticSource {
+    /** Current result ID of a file, or undefined if it no longer exists */
+    getResultId: (filePath: string) => string | undefined;
+    /** Validate a file from disk, or undefined if it cannot be read */
+    validate: (filePath: string, token: CancellationToken) => Promise<Diagnostic[] | undefined>;
+}
+
+/**
+ * Build workspace diagnostic reports for files, validating only those whose
+ * result ID differs from the one the client already has.
+ * @param previousResultIds - Result IDs the client holds, by URI
+ * @returns The reports, or undefined if the request was cancelled
+ */
+export async function collectWorkspaceDiagnosticReports(
+    filePaths: string[],
+    previousResultIds: Map<string, string>,
+    source: WorkspaceDiagnosticSource,
+    token: CancellationToken
+): Promise<WorkspaceDocumentDiagnosticReport[] | undefined> {
+    const reports: WorkspaceDocumentDiagnosticReport[] = [];
+    let validated = 0;
+
+    for (const filePath of filePaths) {
+        if (token.isCancellationRequested) return undefined;
+
+        const uri = URI.file(filePath).toString();
+        const resultId = source.getResultId(filePath);
+        if (resultId === undefined) continue;
+
+        if (previousResultIds.get(uri) === resultId) {
+            reports.push({ kind: DocumentDiagnosticReportKind.Unchanged, uri, version: null, resultId });
+            continue;
+        }
+
+        const items = await source.validate(filePath, token);
+        if (items === undefined) continue;
+        reports.push({ kind: DocumentDiagnosticReportKind.Full, uri, version: null, resultId, items });
+
+        if (++validated % WORKSPACE_BATCH_SIZE === 0) {
+            await yieldToEventLoop();
+        }
+    }
+
+    return token.isCancellationRequested ? undefined : reports;
+}
@@ -7,6 +7,7 @@ import {
     TextDocumentSyncKind,
     CompletionItem,
     TextDocumentPositionParams,
+    CompletionParams,
     Definition,
     Location,
     Hover,
@@ -46,6 +47,18 @@ import {
     DocumentLink,
     DocumentLinkParams,
     DocumentOnTypeFormattingParams,
+    DidChangeConfigurationNotification,
+    DidChangeWatchedFilesParams,
+    FileChangeType,
+    Diagnostic,
+    CancellationToken,
+    DocumentDiagnosticParams,
+    DocumentDiagnosticReport,
+    DocumentDiagnosticReportKind,
+    WorkspaceDiagnosticParams,
+    WorkspaceDiagnosticReport,
+    ResponseError,
+    LSPErrorCodes,
 } from 'vscode-languageserver/node';
 
 import { TextDocument } from 'vscode-languageserver-textdocument';
@@ -54,11 +67,30 @@ import * as path from 'path';
 import { URI } from 'vscode-uri';
 import {
     Declaration,
+    DecoratorInfo,
     ImportSuggestion,
 } from './types';
 import { getWordAtPosition, readFileContent, findEnclosingBlock } from './utils/text-utils';
 import { extractImports, isSymbolImported, resolveImportPath } from './utils/import-utils';
-import { validateDocument, ValidationContext } from './handlers/validation';
+import { createGlobMatcher, getEnabledGlobs } from './utils/glob-utils';
+import { createModelLoader } from './utils/imported-symbols';
+import { analyzeSensitiveFlow } from './utils/sensitive-flow';
+import {
+    collectDiagnostics,
+    applySuppressionComments,
+    ValidationContext,
+    ValidationStage,
+    VALIDATION_STAGES,
+} from './handlers/validation';
+import { createValidationScheduler, VALIDATION_DELAY, yieldToEventLoop } from './validation-scheduler';
+import { createDocumentModelStore, DocumentModel } from './document-model';
+import { createWorkspaceIndex, readWorkspaceIndexFile, writeWorkspaceIndexFile } from './workspace-index';
+import { createImportGraph } from './import-graph';
+import {
+    createDiagnosticResultId,
+    getDeclarationSignature,
+    collectWorkspaceDiagnosticReports,
+} from './pull-diagnostics';
 import { handleDocumentSymbol } from './handlers/document-symbols';
 import { handleHover } from './handlers/hover';
 import { handleCodeAction } from './handlers/code-actions';
@@ -83,7 +115,23 @@ import { handleTypeDefinition, TypeDefinitionContext } from './handlers/type-def
 import { handleImplementation, ImplementationContext } from './handlers/implementation';
 import { handleAutoImport, cleanupAutoImport, AutoImportContext } from './handlers/auto-import';
 import { organizeImports } from './handlers/code-actions/organize-imports';
-import { scanDocumentAST } from '../parser';
+import {
+    buildDependencyGraph,
+    exportDependencyGraph,
+    DependencyGraph,
+    DependencyGraphContext,
+    DependencyGraphParams,
+} from './handlers/dependency-graph';
+import {
+    KiteSettings,
+    KITE_CONFIG_FILENAME,
+    createDefaultSettings,
+    normalizeSettings,
+    parseKiteConfig,
+    findKiteConfigPath,
+    mergeSettings,
+} from './config';
+import { KITE_DECORATORS_FILENAME, mergeDecorators, parseDecoratorsFile } from './decorator-catalog';
 
 // Create a connection for the server using Node's IPC
 const connection = createConnection(ProposedFeatures.all);
@@ -94,23 +142,89 @@ connection.console.log('[Kite] Server module loaded');
 // Create a text document manager
 const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
-// Cache of declarations per document
-const declarationCache: Map<string, Declaration[]> = new Map();
+// Parse trees, tokens and declarations per file version, shared by all handlers and checks
+const documentModels = createDocumentModelStore();
+
+// Declarations, imports and references of all workspace files, shared by cross-file features
+const workspaceIndex = createWorkspaceIndex({
+    findKiteFilesInWorkspace,
+    getFileContent,
+    isOpenFile: filePath => documents.get(URI.file(filePath).toString()) !== undefined,
+});
+
+// Which files import which, to re-validate dependents when a file changes
+const importGraph = createImportGraph({ findKiteFilesInWorkspace, getFileContent });
+
+// Lookups for auto-import; only used once a paste-sized change has settled
+const autoImportCtx: AutoImportContext = {
+    findKiteFilesInWorkspace,
+    getFileContent,
+    getDeclarations,
+    workspaceIndex,
+};
+
+// Change stamp per file; pull result IDs include the newest stamp among a file's imports
+const fileChangeStamps: Map<string, number> = new Map();
+let fileChangeCounter = 0;
+
+// Open document version last recorded in the index and import graph
+const indexedVersions: Map<string, number> = new Map();
+
+// Directory to persist the workspace index in between sessions (unset = not persisted)
+let indexStoragePath: string | undefined;
 
 // Workspace folders for cross-file resolution
 let workspaceFolders: string[] = [];
 
-// Cache for workspace .kite files (invalidated on file changes)
+// Cache for workspace .kite files (invalidated when files are created or deleted)
 let kiteFilesCache: string[] | null = null;
-const fileWatchers: fs.FSWatcher[] = [];
+
+// Content of unopened workspace files (invalidated per file on workspace/didChangeWatchedFiles)
+const fileContentCache: Map<string, string | null> = new Map();
+
+// files.exclude and kite.exclude per workspace folder, matched against folder-relative paths
+let excludeMatchers: Map<string, (relativePath: string) => boolean> = new Map();
+let excludePatternsKey = '';
 
 // Diagnostic data for code actions (stores import suggestions)
 const diagnosticData: Map<string, Map<string, ImportSuggestion>> = new Map(); // uri -> (diagnosticKey -> suggestion)
 
+// Whether the client supports pulling settings via workspace/configuration
+let hasConfigurationCapability = false;
+
+// Editor settings used when the client cannot be asked per document
+let globalSettings: KiteSettings = createDefaultSettings();
+
+// Cache of resolved settings per document (editor settings merged with kite.config.json)
+const documentSettings: Map<string, Thenable<KiteSettings>> = new Map();
+
+// Cache of parsed kite.config.json files (null = missing or invalid)
+const configFileCache: Map<string, KiteSettings | null> = new Map();
+
+// Built-in decorators and those defined in the kite.decorators.json of each workspace folder
+let decoratorCatalog: DecoratorInfo[] = mergeDecorators();
+
+// Whether the client pulls diagnostics (textDocument/diagnostic) instead of receiving them
+let usePullDiagnostics = false;
+
+// Whether the client can be asked to pull diagnostics again (workspace/diagnostic/refresh)
+let hasDiagnosticRefreshSupport = false;
+
+// Part of every pull result ID; bumped when settings or other files change
+let diagnosticsGeneration = 0;
+
+// Debounced validation: newer edits cancel pending and running validation of the same document
+const validationScheduler = createValidationScheduler(validateTextDocument, VALIDATION_DELAY,
+    (error, document) => logError(`Validating ${document.uri} failed`, error));
+
+// Diagnostics per validation stage of the last validated version, shown until the stage re-runs
+const stageDiagnostics: Map<string, { version: number; stages: Map<ValidationStage, Diagnostic[]> }> = new Map();
+
 // Create validation context (lazily references functions defined later in the file)
-function createValidationContext(): ValidationContext {
+function createValidationContext(settings: KiteSettings = createDefaultSettings()): ValidationContext {
     return {
-        getDeclarations: (uri: string) => declarationCache.get(uri),
+        getDeclarations,
+        getDocumentModel,
         getDiagnosticData: (uri: string) => {
             if (!diagnosticData.has(uri)) {
                 diagnosticData.set(uri, new Map());
@@ -120,16 +234,27 @@ function createValidationContext(): ValidationContext {
         clearDiagnosticData: (uri: string) => diagnosticData.set(uri, new Map()),
         findKiteFilesInWorkspace,
         getFileContent,
+        workspaceIndex,
         extractImports,
         isSymbolImported,
-        findSchemaDefinition,
-        findComponentDefinition,
-        findFunctionDefinition,
+        findSchemaDefinition: (text, name, uri) => findSchemaDefinition(text, name, uri, getDocumentModel(uri, text).parseResult),
+        findComponentDefinition: (text, name, uri) => findComponentDefinition(text, name, uri, getDocumentModel(uri, text).parseResult),
+        findFunctionDefinition: (text, name, uri) => findFunctionDefinition(text, name, uri, getDocumentModel(uri, text).parseResult),
+        rules: settings.validation.rules,
+        decorators: decoratorCatalog,
+        tagPolicy: settings.validation.tags,
+        providers: settings.providers,
     };
 }
 
 connection.onInitialize((params: InitializeParams): InitializeResult => {
     connection.console.log('[Kite] Server initializing...');
+    hasConfigurationCapability = !!params.capabilities.workspace?.configuration;
+    // Pull diagnostics replace the debounced, staged push pipeline, so they are opt-in
+    usePullDiagnostics = params.initializationOptions?.pullDiagnostics === true
+        && !!params.capabilities.textDocument?.diagnostic;
+    hasDiagnosticRefreshSupport = !!params.capabilities.workspace?.diagnostics?.refreshSupport;
+
     // Store workspace folders for cross-file resolution
     if (params.workspaceFolders) {
         workspaceFolders = params.workspaceFolders.map(folder => URI.parse(folder.uri).fsPath);
@@ -139,8 +264,8 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
         workspaceFolders = [params.rootPath];
     }
 
-    // Set up file watchers for cache invalidation
-    setupFileWatchers();
+    // The client passes a storage directory when the index should be persisted
+    indexStoragePath = params.initializationOptions?.indexStoragePath;
 
     return {
         capabilities: {
@@ -151,7 +276,7 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
             },
             completionProvider: {
                 resolveProvider: false,
-                triggerCharacters: ['.', '@', '[']
+                triggerCharacters: ['.', '@', '[', '"']
             },
             signatureHelpProvider: {
                 triggerCharacters: ['(', ','],
@@ -190,31 +315,93 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
                 moreTriggerCharacter: ['}']
             },
             typeDefinitionProvider: true,
-            implementationProvider: true
+            implementationProvider: true,
+            // Only offered to clients that pull; others get diagnostics pushed for open documents
+            diagnosticProvider: usePullDiagnostics ? {
+                interFileDependencies: true,
+                workspaceDiagnostics: true,
+            } : undefined,
         }
     };
 });
 
-// Scan document for declarations when it changes
-documents.onDidChangeContent(change => {
-    const declarations = scanDocumentAST(change.document);
-    declarationCache.set(change.document.uri, declarations);
+connection.onInitialized(() => {
+    loadDecoratorCatalog();
 
-    // Validate document and publish diagnostics
-    const diagnostics = validateDocument(change.document, createValidationContext());
-    connection.sendDiagnostics({ uri: change.document.uri, diagnostics });
+    if (hasConfigurationCapability) {
+        // Ask to be notified when `kite.*` settings change
+        connection.client.register(DidChangeConfigurationNotification.type, { section: 'kite' });
+    }
 
-    // Auto-import on paste: detect paste and add missing imports automatically
-    const autoImportCtx: AutoImportContext = {
-        findKiteFilesInWorkspace,
-        getFileContent,
-        getDeclarations: (uri) => declarationCache.get(uri),
-    };
+    // Build the workspace index in the background, starting from the persisted one
+    loadExcludePatterns().then(() => {
+        if (indexStoragePath) {
+            workspaceIndex.restore(readWorkspaceIndexFile(indexStoragePath));
+        }
+        return workspaceIndex.build();
+    }).then(saveWorkspaceIndex).catch(error => logError('Building the workspace index failed', error));
+});
+
+connection.onShutdown(() => {
+    saveWorkspaceIndex();
+});
+
+// Settings changed - drop cached settings and re-validate open documents
+connection.onDidChangeConfiguration(change => {
+    if (hasConfigurationCapability) {
+        documentSettings.clear();
+    } else {
+        globalSettings = normalizeSettings(change.settings?.kite);
+    }
+    loadExcludePatterns().then(revalidateOpenDocuments).catch(error => logError('Reloading exclude patterns failed', error));
+});
+
+// Watched files changed - reload kite.config.json and kite.decorators.json when they are edited, created or deleted
+connection.onDidChangeWatchedFiles((params: DidChangeWatchedFilesParams) => {
+    const configChanged = params.changes.some(c => c.uri.endsWith('/' + KITE_CONFIG_FILENAME));
+    if (configChanged) {
+        configFileCache.clear();
+        documentSettings.clear();
+        loadExcludePatterns().then(revalidateOpenDocuments).catch(error => logError('Reloading exclude patterns failed', error));
+    }
+
+    const decoratorsChanged = params.changes.some(c => c.uri.endsWith('/' + KITE_DECORATORS_FILENAME));
+    if (decoratorsChanged) {
+        loadDecoratorCatalog();
+        revalidateOpenDocuments();
+    }
+
+    const kiteChanges = params.changes.filter(c => c.uri.endsWith('.kite'));
+    if (kiteChanges.some(c => c.type !== FileChangeType.Changed)) {
+        invalidateKiteFilesCache();
+    }
+    for (const change of kiteChanges) {
+        updateFileFromDisk(URI.parse(change.uri).fsPath);
+    }
+    if (kiteChanges.length > 0 && usePullDiagnostics) {
+        refreshPulledDiagnostics();
+    }
+});
+
+// Schedule validation when a document changes (declarations are rescanned on demand)
+documents.onDidChangeContent(change => {
+    // Pulling clients ask for diagnostics themselves
+    if (!usePullDiagnostics) {
+        validationScheduler.schedule(change.document);
+    }
+
+    // Auto-import on paste: only compares document lengths here, typing never reaches the workspace lookups
     handleAutoImport(change.document, connection, autoImportCtx);
 });
 
 documents.onDidClose(e => {
-    declarationCache.delete(e.document.uri);
+    documentModels.delete(e.document.uri);
+    validationScheduler.cancel(e.document.uri);
+    // Unsaved edits are gone; go back to the file on disk
+    indexedVersions.delete(e.document.uri);
+    updateFileFromDisk(URI.parse(e.document.uri).fsPath);
+    stageDiagnostics.delete(e.document.uri);
+    documentSettings.delete(e.document.uri);
     cleanupAutoImport(e.document.uri);
 });
 
@@ -234,45 +421,300 @@ documents.onWillSaveWaitUntil(event => {
 });
 
 // Completion handler
-connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] => {
+connection.onCompletion(async (params: CompletionParams): Promise<CompletionItem[]> => {
     const document = documents.get(params.textDocument.uri);
     if (!document) return [];
+    const settings = await getDocumentSettings(document.uri);
     const ctx: CompletionContext = {
-        getDeclarations: (uri) => declarationCache.get(uri),
+        getDeclarations,
+        getDocumentModel,
         findKiteFilesInWorkspace,
         getFileContent,
         findEnclosingBlock,
+        decorators: decoratorCatalog,
+        providers: settings.providers,
     };
     return handleCompletion(document, params.position, ctx);
 });
 
+// Helper: Get settings for a document (editor settings merged with kite.config.json)
+function getDocumentSettings(uri: string): Thenable<KiteSettings> {
+    let result = documentSettings.get(uri);
+    if (!result) {
+        const editorSettings: Thenable<KiteSettings> = hasConfigurationCapability
+            ? connection.workspace.getConfiguration({ scopeUri: uri, section: 'kite' }).then(normalizeSettings)
+            : Promise.resolve(globalSettings);
+        result = editorSettings.then(settings => mergeSettings(settings, getConfigFileSettings(uri)));
+        documentSettings.set(uri, result);
+    }
+    return result;
+}
+
+// Helper: Get settings from the kite.config.json that applies to a document (cached)
+function getConfigFileSettings(uri: string): KiteSettings | null {
+    const configPath = findKiteConfigPath(URI.parse(uri).fsPath, workspaceFolders);
+    if (!configPath) return null;
+
+    if (!configFileCache.has(configPath)) {
+        const content = readFileContent(configPath);
+        const settings = content !== null ? parseKiteConfig(content) : null;
+        if (content !== null && !settings) {
+            connection.console.warn(`[Kite] Ignoring invalid ${configPath}`);
+        }
+        configFileCache.set(configPath, settings);
+    }
+    return configFileCache.get(configPath)!;
+}
+
+// Helper: Load the decorator catalog from the kite.decorators.json of each workspace folder
+function loadDecoratorCatalog() {
+    const layers = workspaceFolders.map(folder => {
+        const filePath = path.join(folder, KITE_DECORATORS_FILENAME);
+        const content = readFileContent(filePath);
+        const decorators = content !== null ? parseDecoratorsFile(content) : null;
+        if (content !== null && !decorators) {
+            connection.console.warn(`[Kite] Ignoring invalid ${filePath}`);
+        }
+        return decorators;
+    });
+    decoratorCatalog = mergeDecorators(...layers);
+}
+
+// Helper: Get declarations of an open document (scanned once per version)
+function getDeclarations(uri: string): Declaration[] | undefined {
+    const document = documents.get(uri);
+    return document ? getOpenDocumentModel(document).declarations : undefined;
+}
+
+// Helper: Get the shared model of an open document version
+function getOpenDocumentModel(document: TextDocument): DocumentModel {
+    return documentModels.get(document.uri, document.getText(), document.version);
+}
+
+// Helper: Get the shared model for a file's text (open document or file on disk)
+function getDocumentModel(uriOrPath: string, text: string): DocumentModel {
+    return documentModels.get(uriOrPath, text);
+}
+
+// Helper: Validate a document stage by stage, publishing after each stage.
+// Cheap syntax checks show up first. When the same version is validated again, stages that have
+// not re-run yet keep their previous results; results of older versions are dropped, since their
+// ranges may no longer match the text and they would be published with the new version.
+async function validateTextDocument(document: TextDocument, token: CancellationToken): Promise<void> {
+    updateIndexedDocument(document);
+
+    const settings = await getDocumentSettings(document.uri);
+    if (token.isCancellationRequested) return;
+
+    const ctx = createValidationContext(settings);
+    let results = stageDiagnostics.get(document.uri);
+    if (!results || results.version !== document.version) {
+        results = { version: document.version, stages: new Map() };
+        stageDiagnostics.set(document.uri, results);
+    }
+
+    for (const stage of VALIDATION_STAGES) {
+        results.stages.set(stage, collectDiagnostics(document, ctx, [stage]));
+        const diagnostics = applySuppressionComments(document, [...results.stages.values()].flat(), ctx, [...results.stages.keys()]);
+        connection.sendDiagnostics({ uri: document.uri, version: document.version, diagnostics });
+
+        // Let newer edits arrive (and cancel this run) before the next, more expensive stage
+        await yieldToEventLoop();
+        if (token.isCancellationRequested) return;
+    }
+}
+
+// Helper: Validate a document with all stages for a pull request
+// @returns The diagnostics, or undefined if the request was cancelled
+async function pullDocumentDiagnostics(document: TextDocument, token: CancellationToken): Promise<Diagnostic[] | undefined> {
+    const settings = await getDocumentSettings(document.uri);
+    const ctx = createValidationContext(settings);
+    const diagnostics: Diagnostic[] = [];
+
+    for (const stage of VALIDATION_STAGES) {
+        if (token.isCancellationRequested) return undefined;
+        diagnostics.push(...collectDiagnostics(document, ctx, [stage]));
+        await yieldToEventLoop();
+    }
+    return token.isCancellationRequested ? undefined : applySuppressionComments(document, diagnostics, ctx);
+}
+
+// Helper: Result ID of an open document's pulled diagnostics
+function getOpenDocumentResultId(document: TextDocument): string {
+    const stamp = getDependencyStamp(URI.parse(document.uri).fsPath);
+    return createDiagnosticResultId(diagnosticsGeneration, `open:${document.version}:${stamp}`);
+}
+
+// Helper: Result ID of a file on disk, or undefined if it no longer exists
+function getFileResultId(filePath: string): string | undefined {
+    try {
+        const stats = fs.statSync(filePath);
+        const stamp = getDependencyStamp(filePath);
+        return createDiagnosticResultId(diagnosticsGeneration, `disk:${stats.mtimeMs}:${stats.size}:${stamp}`);
+    } catch {
+        return undefined;
+    }
+}
+
+// Helper: Validate a file on disk for a pull request
+async function pullFileDiagnostics(filePath: string, token: CancellationToken): Promise<Diagnostic[] | undefined> {
+    const content = getFileContent(filePath);
+    if (content === null) return undefined;
+    const document = TextDocument.create(URI.file(filePath).toString(), 'kite', 0, content);
+    return pullDocumentDiagnostics(document, token);
+}
+
+// Helper: Newest change stamp among the files a file imports, directly or transitively
+function getDependencyStamp(filePath: string): number {
+    let stamp = 0;
+    for (const dependency of importGraph.getTransitiveImports(filePath)) {
+        stamp = Math.max(stamp, fileChangeStamps.get(dependency) ?? 0);
+    }
+    return stamp;
+}
+
+// Helper: Re-index a new version of an open document and re-validate the files that import it.
+// When its declarations or imports change, pulled diagnostics of any file may be stale.
+function updateIndexedDocument(document: TextDocument) {
+    const previousVersion = indexedVersions.get(document.uri);
+    if (previousVersion === document.version) return;
+    indexedVersions.set(document.uri, document.version);
+
+    const filePath = URI.parse(document.uri).fsPath;
+    const before = getDeclarationSignature(workspaceIndex.getFile(filePath));
+    workspaceIndex.updateFile(filePath, document.getText());
+    importGraph.updateFile(filePath, document.getText());
+
+    if (usePullDiagnostics && getDeclarationSignature(workspaceIndex.getFile(filePath)) !== before) {
+        refreshPulledDiagnostics();
+    }
+    // Opening a document does not change it
+    if (previousVersion !== undefined) {
+        revalidateDependents(filePath);
+    }
+}
+
+// Helper: Re-read a file that changed on disk (open documents are tracked through their edits)
+function updateFileFromDisk(filePath: string) {
+    fileContentCache.delete(filePath);
+    if (findOpenDocument(filePath) || isExcludedFile(filePath)) return;
+
+    documentModels.delete(filePath);
+    workspaceIndex.invalidate(filePath);
+    const content = readFileContent(filePath);
+    if (content === null) {
+        importGraph.removeFile(filePath);
+    } else {
+        importGraph.updateFile(filePath, content);
+    }
+    revalidateDependents(filePath);
+}
+
+// Helper: Record that a file changed and re-validate the open files that import it
+function revalidateDependents(filePath: string) {
+    fileChangeStamps.set(filePath, ++fileChangeCounter);
+    const dependents = importGraph.getTransitiveImporters(filePath);
+
+    if (usePullDiagnostics) {
+        // Result IDs of dependents include the new stamp, so only they are validated again
+        if (dependents.length > 0) requestDiagnosticsRefresh();
+        return;
+    }
+    for (const dependent of dependents) {
+        const document = findOpenDocument(dependent);
+        if (document) {
+            validationScheduler.schedule(document);
+        }
+    }
+}
+
+// Helper: Invalidate all pulled diagnostics and ask the client to pull again
+function refreshPulledDiagnostics() {
+    diagnosticsGeneration++;
+    requestDiagnosticsRefresh();
+}
+
+// Helper: Ask the client to pull diagnostics again
+function requestDiagnosticsRefresh() {
+    if (hasDiagnosticRefreshSupport) {
+        connection.languages.diagnostics.refresh();
+    }
+}
+
+// Helper: Re-validate all open documents
+function revalidateOpenDocuments() {
+    if (usePullDiagnostics) {
+        refreshPulledDiagnostics();
+        return;
+    }
+    for (const doc of documents.all()) {
+        validationScheduler.schedule(doc);
+    }
+}
+
 // Helper: Invalidate the workspace files cache
 function invalidateKiteFilesCache() {
     kiteFilesCache = null;
 }
 
-// Helper: Set up file watchers to invalidate cache on .kite file changes
-function setupFileWatchers() {
-    // Clean up existing watchers
-    for (const watcher of fileWatchers) {
-        watcher.close();
+// Helper: Persist the workspace index if the client provided a storage directory
+function saveWorkspaceIndex() {
+    if (indexStoragePath) {
+        writeWorkspaceIndexFile(indexStoragePath, workspaceIndex);
     }
-    fileWatchers.length = 0;
+}
+
+// Helper: Log a failure of background work that nothing else reports
+function logError(message: string, error: unknown) {
+    connection.console.error(`[Kite] ${message}: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+// Helper: Load files.exclude, kite.exclude and the root kite.config.json exclude patterns
+// of each workspace folder. When they change, the workspace file list and index are rebuilt.
+async function loadExcludePatterns() {
+    const matchers = new Map<string, (relativePath: string) => boolean>();
+    const keys: string[] = [];
 
-    // Watch each workspace folder for changes
     for (const folder of workspaceFolders) {
-        try {
-            const watcher = fs.watch(folder, { recursive: true }, (eventType, filename) => {
-                // Invalidate cache when .kite files are added/removed/renamed
-                if (filename && (filename.endsWith('.kite') || eventType === 'rename')) {
-                    invalidateKiteFilesCache();
-                }
-            });
-            fileWatchers.push(watcher);
-        } catch {
-            // Ignore errors (e.g., folder doesn't exist)
+        const scopeUri = URI.file(folder).toString();
+        let patterns = globalSettings.exclude;
+        if (hasConfigurationCapability) {
+            const [filesExclude, kite] = await connection.workspace.getConfiguration([
+                { scopeUri, section: 'files.exclude' },
+                { scopeUri, section: 'kite' },
+            ]);
+            patterns = [...getEnabledGlobs(filesExclude), ...normalizeSettings(kite).exclude];
         }
+        const configSettings = getConfigFileSettings(URI.file(path.join(folder, KITE_CONFIG_FILENAME)).toString());
+        patterns = mergeSettings({ ...createDefaultSettings(), exclude: patterns }, configSettings).exclude;
+
+        matchers.set(folder, createGlobMatcher(patterns));
+        keys.push(`${folder}:${patterns.join(',')}`);
     }
+
+    excludeMatchers = matchers;
+    const key = keys.join('\n');
+    if (key !== excludePatternsKey) {
+        excludePatternsKey = key;
+        invalidateKiteFilesCache();
+        workspaceIndex.clear();
+        importGraph.clear();
+    }
+}
+
+// Helper: Check whether a file is excluded from the workspace by exclude patterns
+function isExcludedFile(filePath: string): boolean {
+    const folder = findWorkspaceFolder(filePath);
+    if (folder === undefined) return false;
+    return excludeMatchers.get(folder)?.(path.relative(folder, filePath)) ?? false;
+}
+
+// Helper: Find the workspace folder containing a file
+function findWorkspaceFolder(filePath: string): string | undefined {
+    return workspaceFolders.find(folder => {
+        const relativePath = path.relative(folder, filePath);
+        return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    });
 }
 
 // Helper: Find all Kite files in the workspace (cached)
@@ -284,15 +726,16 @@ function findKiteFilesInWorkspace(): string[] {
 
     const kiteFiles: string[] = [];
 
-    function scanDirectory(dir: string) {
+    function scanDirectory(dir: string, folder: string, isExcluded: (relativePath: string) => boolean) {
         try {
             const entries = fs.readdirSync(dir, { withFileTypes: true });
             for (const entry of entries) {
                 const fullPath = path.join(dir, entry.name);
+                if (isExcluded(path.relative(folder, fullPath))) continue;
                 if (entry.isDirectory()) {
                     // Skip node_modules, .git, etc.
                     if (!entry.name.startsWith('.') && entry.name !== 'node_modules') {
-                        scanDirectory(fullPath);
+                        scanDirectory(fullPath, folder, isExcluded);
                     }
                 } else if (entry.isFile() && entry.name.endsWith('.kite')) {
                     kiteFiles.push(fullPath);
@@ -304,7 +747,7 @@ function findKiteFilesInWorkspace(): string[] {
     }
 
     for (const folder of workspaceFolders) {
-        scanDirectory(folder);
+        scanDirectory(folder, folder, excludeMatchers.get(folder) ?? (() => false));
     }
 
     // Cache the result
@@ -312,6 +755,13 @@ function findKiteFilesInWorkspace(): string[] {
     return kiteFiles;
 }
 
+// Helper: Find the open document for a file path
+function findOpenDocument(filePath: string): TextDocument | undefined {
+    const openDoc = documents.get(URI.file(filePath).toString());
+    if (openDoc) return openDoc;
+    return documents.all().find(doc => URI.parse(doc.uri).fsPath === filePath);
+}
+
 // Helper: Get text content for a file (from open document or file system)
 function getFileContent(filePath: string, currentDocUri?: string): string | null {
     // First check if it's the current document
@@ -342,10 +792,57 @@ function getFileContent(filePath: string, currentDocUri?: string): string | null
         }
     }
 
-    // Read from file system
-    return readFileContent(filePath);
+    // Read from file system. Workspace files are cached until they change on disk;
+    // files outside the workspace are not watched, so they are always re-read.
+    if (!findWorkspaceFolder(filePath)) {
+        return readFileContent(filePath);
+    }
+    if (!fileContentCache.has(filePath)) {
+        fileContentCache.set(filePath, readFileContent(filePath));
+    }
+    return fileContentCache.get(filePath)!;
 }
 
+// Pull diagnostics for one document (open, or read from disk)
+connection.languages.diagnostics.on(async (params: DocumentDiagnosticParams, token): Promise<DocumentDiagnosticReport> => {
+    const document = documents.get(params.textDocument.uri);
+    const filePath = URI.parse(params.textDocument.uri).fsPath;
+    if (document) {
+        updateIndexedDocument(document);
+    }
+
+    const resultId = document ? getOpenDocumentResultId(document) : getFileResultId(filePath);
+    if (resultId === undefined) {
+        return { kind: DocumentDiagnosticReportKind.Full, items: [] };
+    }
+    if (resultId === params.previousResultId) {
+        return { kind: DocumentDiagnosticReportKind.Unchanged, resultId };
+    }
+
+    const items = document
+        ? await pullDocumentDiagnostics(document, token)
+        : await pullFileDiagnostics(filePath, token);
+    if (token.isCancellationRequested) {
+        throw new ResponseError(LSPErrorCodes.RequestCancelled, 'Diagnostics request cancelled');
+    }
+    return { kind: DocumentDiagnosticReportKind.Full, resultId, items: items ?? [] };
+});
+
+// Pull diagnostics for all workspace files that are not open (open ones are pulled per document)
+connection.languages.diagnostics.onWorkspace(async (params: WorkspaceDiagnosticParams, token): Promise<WorkspaceDiagnosticReport> => {
+    const previousResultIds = new Map(params.previousResultIds.map(p => [p.uri, p.value]));
+    const filePaths = findKiteFilesInWorkspace().filter(filePath => !documents.get(URI.file(filePath).toString()));
+
+    const items = await collectWorkspaceDiagnosticReports(filePaths, previousResultIds, {
+        getResultId: getFileResultId,
+        validate: pullFileDiagnostics,
+    }, token);
+    if (!items) {
+        throw new ResponseError(LSPErrorCodes.RequestCancelled, 'Workspace diagnostics request cancelled');
+    }
+    return { items };
+});
+
 // Go to Definition handler
 connection.onDefinition((params: TextDocumentPositionParams): Definition | null => {
     const document = documents.get(params.textDocument.uri);
@@ -356,7 +853,8 @@ connection.onDefinition((params: TextDocumentPositionParams): Definition | null
         extractImports,
         isSymbolImported,
         findEnclosingBlock,
-        getDeclarations: (uri) => declarationCache.get(uri)
+        getDeclarations,
+        getDocumentModel,
     };
     return handleDefinition(params, document, ctx);
 });
@@ -373,7 +871,8 @@ connection.onReferences((params): Location[] => {
     const cursorOffset = document.offsetAt(params.position);
     const ctx: ReferencesContext = {
         getDocument: (uri) => documents.get(uri),
-        getDeclarations: (uri) => declarationCache.get(uri),
+        getDeclarations,
+        getDocumentModel,
         findKiteFilesInWorkspace,
         getFileContent,
     };
@@ -393,16 +892,11 @@ connection.onRenameRequest((params: RenameParams): WorkspaceEdit | null => {
     if (!document) return null;
     const ctx: RenameContext = {
         getDocument: (uri) => documents.get(uri),
-        getDeclarations: (uri) => declarationCache.get(uri),
+        getDeclarations,
+        getDocumentModel,
         findKiteFilesInWorkspace,
         getFileContent,
-        refreshDiagnostics: () => {
-            const validationCtx = createValidationContext();
-            for (const doc of documents.all()) {
-                const diagnostics = validateDocument(doc, validationCtx);
-                connection.sendDiagnostics({ uri: doc.uri, diagnostics });
-            }
-        },
+        refreshDiagnostics: revalidateOpenDocuments,
     };
     return handleRename(document, params.position, params.newName, ctx);
 });
@@ -411,15 +905,21 @@ connection.onRenameRequest((params: RenameParams): WorkspaceEdit | null => {
 connection.onHover((params: TextDocumentPositionParams): Hover | null => {
     const document = documents.get(params.textDocument.uri);
     if (!document) return null;
-    const declarations = declarationCache.get(params.textDocument.uri) || [];
-    return handleHover(document, params.position, declarations);
+    const declarations = getDeclarations(params.textDocument.uri) || [];
+    const model = getOpenDocumentModel(document);
+    const loadModel = createModelLoader({ getFileContent, getDocumentModel }, {
+        filePath: URI.parse(document.uri).fsPath,
+        text: model.text,
+    });
+    const sensitive = analyzeSensitiveFlow(model, loadModel);
+    return handleHover(document, params.position, declarations, model.types, model.constants, sensitive, decoratorCatalog);
 });
 
 // Signature Help handler - shows function parameter hints
 connection.onSignatureHelp((params: TextDocumentPositionParams): SignatureHelp | null => {
     const document = documents.get(params.textDocument.uri);
     if (!document) return null;
-    const declarations = declarationCache.get(params.textDocument.uri) || [];
+    const declarations = getDeclarations(params.textDocument.uri) || [];
     return handleSignatureHelp(document, params.position, declarations);
 });
 
@@ -427,10 +927,11 @@ connection.onSignatureHelp((params: TextDocumentPositionParams): SignatureHelp |
 connection.onRequest('textDocument/inlayHint', (params: InlayHintParams): InlayHint[] => {
     const document = documents.get(params.textDocument.uri);
     if (!document) return [];
-    const declarations = declarationCache.get(params.textDocument.uri) || [];
+    const declarations = getDeclarations(params.textDocument.uri) || [];
     const ctx: InlayHintContext = {
         findKiteFilesInWorkspace,
-        getFileContent
+        getFileContent,
+        getDocumentModel,
     };
     return handleInlayHints(document, declarations, ctx);
 });
@@ -445,23 +946,25 @@ connection.onCodeAction((params: CodeActionParams): CodeAction[] => {
         findKiteFilesInWorkspace,
         getFileContent
     };
-    return handleCodeAction(params, document, docDiagnosticData, wildcardCtx);
+    return handleCodeAction(params, document, docDiagnosticData, wildcardCtx, getOpenDocumentModel(document).parseResult);
 });
 
 // Document Symbol handler - provides outline view
 connection.onDocumentSymbol((params: DocumentSymbolParams): DocumentSymbol[] => {
     const document = documents.get(params.textDocument.uri);
     if (!document) return [];
-    return handleDocumentSymbol(document);
+    return handleDocumentSymbol(document, getOpenDocumentModel(document).parseResult);
 });
 
 // Document Formatting handler - provides code formatting
 connection.onDocumentFormatting((params: DocumentFormattingParams): TextEdit[] => {
     const document = documents.get(params.textDocument.uri);
     if (!document) return [];
+    // Options pinned in kite.config.json win, so kite-fmt and the editor agree
+    const pinned = getConfigFileSettings(document.uri)?.format;
     return formatDocument(document, {
-        tabSize: params.options.tabSize,
-        insertSpaces: params.options.insertSpaces
+        tabSize: pinned?.tabSize ?? params.options.tabSize,
+        insertSpaces: pinned?.insertSpaces ?? params.options.insertSpaces
     });
 });
 
@@ -469,7 +972,7 @@ connection.onDocumentFormatting((params: DocumentFormattingParams): TextEdit[] =
 connection.onDocumentHighlight((params: DocumentHighlightParams): DocumentHighlight[] => {
     const document = documents.get(params.textDocument.uri);
     if (!document) return [];
-    return handleDocumentHighlight(document, params.position);
+    return handleDocumentHighlight(document, params.position, getOpenDocumentModel(document).semanticModel);
 });
 
 // Selection Range handler - provides smart expand selection (Cmd+Shift+→)
@@ -486,6 +989,7 @@ connection.onCodeLens((params: CodeLensParams): CodeLens[] => {
     const ctx: CodeLensContext = {
         findKiteFilesInWorkspace,
         getFileContent,
+        workspaceIndex,
     };
     return handleCodeLens(document, ctx);
 });
@@ -495,6 +999,7 @@ connection.onWorkspaceSymbol((params: WorkspaceSymbolParams): SymbolInformation[
     const ctx: WorkspaceSymbolsContext = {
         findKiteFilesInWorkspace,
         getFileContent,
+        workspaceIndex,
     };
     return handleWorkspaceSymbols(params.query, ctx);
 });
@@ -526,6 +1031,7 @@ connection.onRequest('callHierarchy/incomingCalls', (params: CallHierarchyIncomi
     const ctx: CallHierarchyContext = {
         findKiteFilesInWorkspace,
         getFileContent,
+        workspaceIndex,
     };
     return getIncomingCalls(params.item, document, ctx);
 });
@@ -536,6 +1042,7 @@ connection.onRequest('callHierarchy/outgoingCalls', (params: CallHierarchyOutgoi
     const ctx: CallHierarchyContext = {
         findKiteFilesInWorkspace,
         getFileContent,
+        workspaceIndex,
     };
     return getOutgoingCalls(params.item, document, ctx);
 });
@@ -588,10 +1095,29 @@ connection.onImplementation((params: TextDocumentPositionParams) => {
     const ctx: ImplementationContext = {
         findKiteFilesInWorkspace,
         getFileContent,
+        workspaceIndex,
     };
     return handleImplementation(document, params.position, ctx);
 });
 
+// Dependency graph of a file or the whole workspace, as data or exported as DOT or Mermaid
+function createDependencyGraphContext(): DependencyGraphContext {
+    return {
+        findKiteFilesInWorkspace,
+        getFileContent,
+        getDocumentModel,
+    };
+}
+
+connection.onRequest('kite/dependencyGraph', (params: DependencyGraphParams = {}): DependencyGraph => {
+    return buildDependencyGraph(createDependencyGraphContext(), params.uri);
+});
+
+connection.onRequest('kite/exportDependencyGraph', (params: DependencyGraphParams = {}): string => {
+    const graph = buildDependencyGraph(createDependencyGraphContext(), params.uri);
+    return exportDependencyGraph(graph, params.format ?? 'dot');
+});
+
 // Start the server
 documents.listen(connection);
 connection.listen();
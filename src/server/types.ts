@@ -3,6 +3,8 @@
  */
 
 import { Range, Location } from 'vscode-languageserver/node';
+import type { DocumentModel } from './document-model';
+import type { WorkspaceIndex } from './workspace-index';
 
 // Declaration types in Kite
 export type DeclarationType = 'variable' | 'input' | 'output' | 'resource' | 'component' | 'schema' | 'struct' | 'function' | 'type' | 'for' | 'import';
@@ -29,6 +31,8 @@ export interface IndexedResourceInfo {
     /** For range loops: the start and end values */
     rangeStart?: number;
     rangeEnd?: number;
+    /** Source offsets of a @count argument or loop iterable that is not a literal */
+    expression?: { start: number; end: number };
 }
 
 // Represents a function parameter
@@ -81,6 +85,39 @@ export interface DecoratorInfo {
     sortOrder: number;     // For sorting within category
 }
 
+/**
+ * Setting for a single validation rule: disabled, or the severity to report it with.
+ */
+export type RuleSetting = 'off' | 'error' | 'warning' | 'info' | 'hint';
+
+/**
+ * Per-rule validation configuration, keyed by rule id (e.g. 'long-function').
+ * Rules not listed keep their default severity.
+ */
+export type RuleConfiguration = Record<string, RuleSetting>;
+
+/**
+ * Tagging rules enforced on the `@tags` of resources and component instances.
+ */
+export interface TagPolicy {
+    /** Tag keys every resource must carry, itself or through an enclosing component instance */
+    required: string[];
+    /** Allowed values per tag key (e.g. Environment: dev, staging, prod) */
+    allowedValues: Record<string, string[]>;
+}
+
+/**
+ * Cloud provider accepted by `@provider`.
+ */
+export interface ProviderInfo {
+    /** Name used in `@provider` (e.g. aws) */
+    name: string;
+    /** Other names accepted for the provider (e.g. amazon) */
+    aliases: string[];
+    /** Schema namespaces of the provider's resources (e.g. S3 for S3.Bucket) */
+    namespaces: string[];
+}
+
 // Decorator target types
 export type DecoratorTarget = 'input' | 'output' | 'resource' | 'component' | 'schema' | 'struct' | 'schema property' | 'struct property' | 'var' | 'fun' | null;
 
@@ -141,4 +178,8 @@ export interface BaseContext {
     findKiteFilesInWorkspace: () => string[];
     /** Get file content by path (from open document or file system) */
     getFileContent: (filePath: string, currentDocUri?: string) => string | null;
+    /** Get the shared parse tree, tokens and declarations for a file's text (parsed on demand when absent) */
+    getDocumentModel?: (uriOrPath: string, text: string) => DocumentModel;
+    /** Shared index of declarations, imports and references in all workspace files */
+    workspaceIndex?: WorkspaceIndex;
 }
@@ -0,0 +1,84 @@
+/**
+ * Tests for glob-utils.ts utility functions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createGlobMatcher, getEnabledGlobs, globToRegExp } from './glob-utils';
+
+describe('globToRegExp', () => {
+    it('matches * within a single segment', () => {
+        const regex = globToRegExp('*.kite');
+        expect(regex.test('main.kite')).toBe(true);
+        expect(regex.test('app/main.kite')).toBe(false);
+    });
+
+    it('matches ** across segments', () => {
+        const regex = globToRegExp('**/generated/**');
+        expect(regex.test('generated/a.kite')).toBe(true);
+        expect(regex.test('app/generated/b/c.kite')).toBe(true);
+        expect(regex.test('app/generated.kite')).toBe(false);
+    });
+
+    it('matches ? as a single character', () => {
+        const regex = globToRegExp('v?.kite');
+        expect(regex.test('v1.kite')).toBe(true);
+        expect(regex.test('v10.kite')).toBe(false);
+    });
+
+    it('matches brace alternatives', () => {
+        const regex = globToRegExp('**/*.{tmp,bak}');
+        expect(regex.test('a/b.tmp')).toBe(true);
+        expect(regex.test('b.bak')).toBe(true);
+        expect(regex.test('b.kite')).toBe(false);
+    });
+
+    it('matches character classes', () => {
+        const regex = globToRegExp('env-[ab].kite');
+        expect(regex.test('env-a.kite')).toBe(true);
+        expect(regex.test('env-c.kite')).toBe(false);
+        expect(globToRegExp('env-[!ab].kite').test('env-c.kite')).toBe(true);
+    });
+
+    it('escapes regular expression characters', () => {
+        const regex = globToRegExp('a+b.kite');
+        expect(regex.test('a+b.kite')).toBe(true);
+        expect(regex.test('aab.kite')).toBe(false);
+    });
+
+    it('ignores a leading ./ and trailing slashes', () => {
+        expect(globToRegExp('./build/').test('build')).toBe(true);
+    });
+});
+
+describe('createGlobMatcher', () => {
+    it('matches paths inside matched folders', () => {
+        const isExcluded = createGlobMatcher(['**/node_modules', 'build']);
+        expect(isExcluded('node_modules/pkg/a.kite')).toBe(true);
+        expect(isExcluded('app/node_modules/a.kite')).toBe(true);
+        expect(isExcluded('build/out.kite')).toBe(true);
+        expect(isExcluded('app/build/out.kite')).toBe(false);
+        expect(isExcluded('app/main.kite')).toBe(false);
+    });
+
+    it('accepts Windows path separators', () => {
+        const isExcluded = createGlobMatcher(['**/vendor']);
+        expect(isExcluded('app\\vendor\\a.kite')).toBe(true);
+    });
+
+    it('matches nothing without patterns', () => {
+        expect(createGlobMatcher([])('main.kite')).toBe(false);
+        expect(createGlobMatcher(['  '])('main.kite')).toBe(false);
+    });
+});
+
+describe('getEnabledGlobs', () => {
+    it('returns patterns set to true', () => {
+        expect(getEnabledGlobs({ '**/.git': true, '**/dist': false, '**/*.js': { when: '$(basename).ts' } }))
+            .toEqual(['**/.git']);
+    });
+
+    it('ignores invalid settings', () => {
+        expect(getEnabledGlobs(undefined)).toEqual([]);
+        expect(getEnabledGlobs(['**/.git'])).toEqual([]);
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Glob utilities for the Kite language server.
+ * Matches workspace-relative paths against exclude patterns such as
+ * `files.exclude` and `kite.exclude`.
+ */
+
+/**
+ * Convert a glob pattern to a regular expression.
+ * Supports `**` (any number of path segments), `*` and `?` (within a segment),
+ * `{a,b}` alternatives and `[abc]` character classes.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+    const glob = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+
+        if (ch === '*') {
+            if (glob[i + 1] === '*') {
+                // `**/` matches zero or more segments; a trailing `**` matches the rest
+                i++;
+                if (glob[i + 1] === '/') {
+                    i++;
+                    source += '(?:[^/]*/)*';
+                } else {
+                    source += '.*';
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (ch === '?') {
+            source += '[^/]';
+        } else if (ch === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (ch === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (ch === ',' && braceDepth > 0) {
+            source += '|';
+        } else if (ch === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                const negate = glob[i + 1] === '!' || glob[i + 1] === '^';
+                const body = glob.substring(negate ? i + 2 : i + 1, end).replace(/\\/g, '\\\\');
+                source += `[${negate ? '^' : ''}${body}]`;
+                i = end;
+            }
+        } else {
+            source += ch.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Create a matcher for workspace-relative paths.
+ * A path is matched when it, or one of its parent folders, matches a pattern.
+ */
+export function createGlobMatcher(patterns: string[]): (relativePath: string) => boolean {
+    const regexes = patterns.filter(p => p.trim()).map(globToRegExp);
+    if (regexes.length === 0) return () => false;
+
+    return (relativePath: string) => {
+        const segments = relativePath.replace(/\\/g, '/').split('/').filter(Boolean);
+        for (let i = 1; i <= segments.length; i++) {
+            const prefix = segments.slice(0, i).join('/');
+            if (regexes.some(regex => regex.test(prefix))) return true;
+        }
+        return false;
+    };
+}
+
+/**
+ * Get the enabled patterns of a `files.exclude`-style setting (`{ "pattern": true }`).
+ * Conditional entries (`{ "when": ... }`) are not supported and ignored.
+ */
+export function getEnabledGlobs(setting: unknown): string[] {
+    if (typeof setting !== 'object' || setting === null || Array.isArray(setting)) return [];
+    return Object.entries(setting)
+        .filter(([, enabled]) => enabled === true)
+        .map(([pattern]) => pattern);
+}
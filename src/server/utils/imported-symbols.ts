@@ -0,0 +1,143 @@
+/**
+ * Cross-file symbol resolution for the Kite language server.
+ * Follows named and wildcard imports from a file's semantic model to the
+ * top-level declarations they refer to in other files.
+ */
+
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+import { Scope, SemanticSymbol, SymbolKind, SymbolReference } from '../../parser';
+import { DocumentModel, resolveDocumentModel } from '../document-model';
+import { BaseContext } from '../types';
+import { extractImports, resolveImportPath } from './import-utils';
+
+/**
+ * File access needed to load imported files
+ */
+export interface ImportedSymbolsContext {
+    getFileContent: (filePath: string) => string | null;
+    getDocumentModel?: BaseContext['getDocumentModel'];
+}
+
+/**
+ * Load the document model of a file by path, or null when the file cannot be read
+ */
+export type ModelLoader = (filePath: string) => DocumentModel | null;
+
+/**
+ * A declaration and the file it is declared in
+ */
+export interface ResolvedSymbol {
+    symbol: SemanticSymbol;
+    model: DocumentModel;
+}
+
+/**
+ * Create a model loader that reads each file once.
+ * @param current - File whose text is given instead of read (e.g. an edited document)
+ */
+export function createModelLoader(
+    ctx: ImportedSymbolsContext,
+    current?: { filePath: string; text: string }
+): ModelLoader {
+    const models = new Map<string, DocumentModel | null>();
+    const currentPath = current && path.normalize(current.filePath);
+
+    return (filePath) => {
+        const normalized = path.normalize(filePath);
+        if (!models.has(normalized)) {
+            const text = normalized === currentPath ? current!.text : ctx.getFileContent(normalized);
+            models.set(normalized, text === null ? null : resolveDocumentModel(ctx, normalized, text));
+        }
+        return models.get(normalized)!;
+    };
+}
+
+/**
+ * Declaration a symbol stands for: the symbol itself, or the declaration an import refers to
+ */
+export function resolveSymbol(symbol: SemanticSymbol, model: DocumentModel, loadModel: ModelLoader): ResolvedSymbol | null {
+    if (symbol.kind !== 'import') {
+        return { symbol, model };
+    }
+    const imports = extractImports(model.text).filter(imp => imp.symbols.includes(symbol.name));
+    return findInImportedFiles(symbol.name, imports.map(imp => imp.path), model, loadModel);
+}
+
+/**
+ * Declaration a reference refers to, following named imports and, for names
+ * not declared in the file, wildcard imports
+ */
+export function resolveReferenceTarget(
+    reference: SymbolReference,
+    model: DocumentModel,
+    loadModel: ModelLoader
+): ResolvedSymbol | null {
+    if (reference.symbol) {
+        return resolveSymbol(reference.symbol, model, loadModel);
+    }
+    const imports = extractImports(model.text).filter(imp => imp.symbols.length === 0);
+    return findInImportedFiles(reference.name, imports.map(imp => imp.path), model, loadModel);
+}
+
+/**
+ * Models of the files a file imports with `import * from`
+ */
+export function getWildcardImportedModels(model: DocumentModel, loadModel: ModelLoader): DocumentModel[] {
+    const currentDir = path.dirname(URI.parse(model.uri).fsPath);
+    return extractImports(model.text)
+        .filter(imp => imp.symbols.length === 0)
+        .map(imp => loadModel(resolveImportPath(imp.path, currentDir)))
+        .filter((imported): imported is DocumentModel => imported !== null);
+}
+
+/**
+ * Schema or component a type name refers to: declared in the file, imported by
+ * name, or declared in a file imported with `import *`
+ */
+export function resolveTypeDeclaration(
+    typeName: string,
+    kind: SymbolKind,
+    model: DocumentModel,
+    loadModel: ModelLoader
+): ResolvedSymbol | null {
+    const symbol = model.semanticModel.root.symbols.find(s => s.name === typeName && (s.kind === kind || s.kind === 'import'));
+    if (symbol) {
+        const target = resolveSymbol(symbol, model, loadModel);
+        return target?.symbol.kind === kind ? target : null;
+    }
+    for (const imported of getWildcardImportedModels(model, loadModel)) {
+        const found = imported.semanticModel.root.symbols.find(s => s.name === typeName && s.kind === kind);
+        if (found) return { symbol: found, model: imported };
+    }
+    return null;
+}
+
+/**
+ * Body scope of the component definition a component type name refers to, and the file it is declared in
+ */
+export function findComponentDefinition(
+    typeName: string,
+    model: DocumentModel,
+    loadModel: ModelLoader
+): { scope: Scope; model: DocumentModel } | null {
+    const component = resolveTypeDeclaration(typeName, 'component', model, loadModel);
+    const scope = component?.model.semanticModel.root.children
+        .find(s => s.kind === 'component-def' && s.name === typeName);
+    return component && scope ? { scope, model: component.model } : null;
+}
+
+function findInImportedFiles(
+    name: string,
+    importPaths: string[],
+    model: DocumentModel,
+    loadModel: ModelLoader
+): ResolvedSymbol | null {
+    const currentDir = path.dirname(URI.parse(model.uri).fsPath);
+    for (const importPath of importPaths) {
+        const imported = loadModel(resolveImportPath(importPath, currentDir));
+        const symbol = imported?.semanticModel.root.symbols.find(s => s.name === name && s.kind !== 'import');
+        if (imported && symbol) return { symbol, model: imported };
+    }
+    return null;
+}
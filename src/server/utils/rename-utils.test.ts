@@ -2,13 +2,8 @@ import { describe, it, expect } from 'vitest';
 import {
     escapeRegex,
     isInComment,
-    findScopeBlocks,
-    findEnclosingScope,
-    findComponentTypeForScope,
-    findSchemaNameForScope,
     getSchemaContextAtPosition,
     findWordOccurrences,
-    findWordOccurrencesInScope,
     findComponentInstantiations,
     findResourceInstantiations,
     findPropertyAssignments,
@@ -57,119 +52,6 @@ var y = 2`;
     });
 });
 
-describe('findScopeBlocks', () => {
-    it('should find function scopes', () => {
-        const text = `
-fun myFunc(string arg) number {
-    var x = 1
-    return x
-}`;
-        const scopes = findScopeBlocks(text);
-        expect(scopes.length).toBe(1);
-        expect(scopes[0].type).toBe('function');
-    });
-
-    it('should find component definition scopes', () => {
-        const text = `
-component MyComponent {
-    input string name
-    output string url
-}`;
-        const scopes = findScopeBlocks(text);
-        expect(scopes.length).toBe(1);
-        expect(scopes[0].type).toBe('component-def');
-    });
-
-    it('should not treat component instantiation as definition', () => {
-        const text = `
-component MyComponent myInstance {
-    name = "test"
-}`;
-        const scopes = findScopeBlocks(text);
-        // Should not find a component-def scope since this is an instantiation
-        const compDefScopes = scopes.filter(s => s.type === 'component-def');
-        expect(compDefScopes.length).toBe(0);
-    });
-
-    it('should find schema scopes', () => {
-        const text = `
-schema MySchema {
-    string name
-    number port
-}`;
-        const scopes = findScopeBlocks(text);
-        expect(scopes.length).toBe(1);
-        expect(scopes[0].type).toBe('schema');
-    });
-
-    it('should find multiple scopes', () => {
-        const text = `
-schema Config {
-    string host
-}
-
-component Server {
-    input string name
-}
-
-fun start() {
-    var x = 1
-}`;
-        const scopes = findScopeBlocks(text);
-        expect(scopes.length).toBe(3);
-    });
-});
-
-describe('findEnclosingScope', () => {
-    it('should find the enclosing scope for an offset', () => {
-        const text = `
-fun myFunc() {
-    var x = 1
-}`;
-        const scopes = findScopeBlocks(text);
-        const offset = text.indexOf('var x');
-        const enclosing = findEnclosingScope(scopes, offset);
-        expect(enclosing).not.toBeNull();
-        expect(enclosing!.type).toBe('function');
-    });
-
-    it('should return null for offset outside any scope', () => {
-        const text = `
-var global = 1
-fun myFunc() {
-    var x = 1
-}`;
-        const scopes = findScopeBlocks(text);
-        const offset = text.indexOf('global');
-        const enclosing = findEnclosingScope(scopes, offset);
-        expect(enclosing).toBeNull();
-    });
-});
-
-describe('findComponentTypeForScope', () => {
-    it('should find component type name for a scope', () => {
-        const text = `
-component WebServer {
-    input string host
-}`;
-        const scopes = findScopeBlocks(text);
-        const compScope = scopes.find(s => s.type === 'component-def');
-        const typeName = findComponentTypeForScope(text, compScope!.start);
-        expect(typeName).toBe('WebServer');
-    });
-
-    it('should return null for non-component scope', () => {
-        const text = `
-fun myFunc() {
-    var x = 1
-}`;
-        const scopes = findScopeBlocks(text);
-        const funcScope = scopes.find(s => s.type === 'function');
-        const typeName = findComponentTypeForScope(text, funcScope!.start);
-        expect(typeName).toBeNull();
-    });
-});
-
 describe('getSchemaContextAtPosition', () => {
     it('should return schema context when inside schema', () => {
         const text = `
@@ -215,22 +97,6 @@ describe('findWordOccurrences', () => {
     });
 });
 
-describe('findWordOccurrencesInScope', () => {
-    it('should only find occurrences within scope', () => {
-        const text = `
-var x = 1
-fun myFunc() {
-    var x = 2
-    return x
-}
-var y = x`;
-        const scopes = findScopeBlocks(text);
-        const funcScope = scopes.find(s => s.type === 'function')!;
-        const occurrences = findWordOccurrencesInScope(text, 'x', funcScope.start, funcScope.end);
-        expect(occurrences.length).toBe(2); // Only the ones inside the function
-    });
-});
-
 describe('findComponentInstantiations', () => {
     it('should find component instantiations', () => {
         const text = `
@@ -405,51 +271,6 @@ describe('isValidNewName', () => {
 });
 
 describe('Scope-Aware Rename Scenarios', () => {
-    it('should scope function parameters to function body', () => {
-        const text = `
-var name = "global"
-fun greet(string name) {
-    return "Hello " + name
-}
-var greeting = name`;
-
-        // Find function scope
-        const scopes = findScopeBlocks(text);
-        const funcScope = scopes.find(s => s.type === 'function')!;
-
-        // Find occurrences of 'name' in function scope
-        const inScope = findWordOccurrencesInScope(text, 'name', funcScope.start, funcScope.end);
-        expect(inScope.length).toBe(1); // Only the usage inside function body (return statement)
-
-        // Find all occurrences
-        const all = findWordOccurrences(text, 'name');
-        expect(all.length).toBe(4); // global var, param, usage in func, usage after func
-    });
-
-    it('should scope component inputs/outputs to component definition', () => {
-        const text = `
-var name = "global"
-
-component WebServer {
-    input string name = "default"
-    output string url = name
-}
-
-var serverName = name`;
-
-        // Find component scope
-        const scopes = findScopeBlocks(text);
-        const compScope = scopes.find(s => s.type === 'component-def')!;
-
-        // Find occurrences of 'name' in component scope
-        const inScope = findWordOccurrencesInScope(text, 'name', compScope.start, compScope.end);
-        expect(inScope.length).toBe(2); // input declaration and usage in output
-
-        // Verify component type can be found
-        const typeName = findComponentTypeForScope(text, compScope.start);
-        expect(typeName).toBe('WebServer');
-    });
-
     it('should find component instantiation property assignments', () => {
         const text = `
 component WebServer {
@@ -4,110 +4,17 @@
  */
 
 import { KEYWORDS, TYPES } from '../constants';
-import { escapeRegex, isInComment, findBraceEnd, wordBoundaryRegex } from './text-utils';
+import { escapeRegex, isInComment, wordBoundaryRegex } from './text-utils';
 
 // Re-export for backward compatibility
 export { escapeRegex, isInComment } from './text-utils';
 
-export interface ScopeBlock {
-    start: number;
-    end: number;
-    type: 'function' | 'component-def' | 'schema';
-}
-
 export interface ReferenceLocation {
     startOffset: number;
     endOffset: number;
     uri?: string;
 }
 
-/**
- * Find all scope blocks (functions, component definitions, schemas) in text
- */
-export function findScopeBlocks(text: string): ScopeBlock[] {
-    const scopeBlocks: ScopeBlock[] = [];
-
-    // Find function scopes: fun name(...) {
-    const funcScopeRegex = /\bfun\s+\w+\s*\([^)]*\)\s*\w*\s*\{/g;
-    let funcMatch;
-    while ((funcMatch = funcScopeRegex.exec(text)) !== null) {
-        const braceStart = funcMatch.index + funcMatch[0].length - 1;
-        const braceEnd = findBraceEnd(text, braceStart);
-        scopeBlocks.push({ start: braceStart, end: braceEnd, type: 'function' });
-    }
-
-    // Find component definition scopes: component TypeName { (without instance name)
-    const compDefRegex = /\bcomponent\s+(\w+)\s*\{/g;
-    let compMatch;
-    while ((compMatch = compDefRegex.exec(text)) !== null) {
-        // Check if this is a definition (not instantiation)
-        const afterComponent = text.substring(compMatch.index + 10, compMatch.index + compMatch[0].length);
-        const parts = afterComponent.trim().split(/\s+/);
-        // Definition: component TypeName { -> single word before {
-        // Instantiation: component TypeName instanceName { -> two words before {
-        if (parts.length === 2 && parts[1] === '{') {
-            const braceStart = compMatch.index + compMatch[0].length - 1;
-            const braceEnd = findBraceEnd(text, braceStart);
-            scopeBlocks.push({ start: braceStart, end: braceEnd, type: 'component-def' });
-        }
-    }
-
-    // Find schema scopes
-    const schemaRegex = /\bschema\s+\w+\s*\{/g;
-    let schemaMatch;
-    while ((schemaMatch = schemaRegex.exec(text)) !== null) {
-        const braceStart = schemaMatch.index + schemaMatch[0].length - 1;
-        const braceEnd = findBraceEnd(text, braceStart);
-        scopeBlocks.push({ start: braceStart, end: braceEnd, type: 'schema' });
-    }
-
-    return scopeBlocks;
-}
-
-/**
- * Find the enclosing scope for a given offset
- */
-export function findEnclosingScope(scopeBlocks: ScopeBlock[], offset: number): ScopeBlock | null {
-    for (const scope of scopeBlocks) {
-        if (offset > scope.start && offset < scope.end) {
-            return scope;
-        }
-    }
-    return null;
-}
-
-/**
- * Find the component type name that contains a given scope
- */
-export function findComponentTypeForScope(text: string, scopeStart: number): string | null {
-    const beforeScope = text.substring(0, scopeStart + 1);
-    const allCompDefs = [...beforeScope.matchAll(/\bcomponent\s+(\w+)\s*\{/g)];
-    if (allCompDefs.length > 0) {
-        const lastMatch = allCompDefs[allCompDefs.length - 1];
-        const bracePos = lastMatch.index! + lastMatch[0].length - 1;
-        if (bracePos === scopeStart) {
-            return lastMatch[1];
-        }
-    }
-    return null;
-}
-
-/**
- * Find the schema name that contains a given scope
- */
-export function findSchemaNameForScope(text: string, scopeStart: number): string | null {
-    const beforeScope = text.substring(0, scopeStart + 1);
-    const allSchemaDefs = [...beforeScope.matchAll(/\bschema\s+(\w+)\s*\{/g)];
-    if (allSchemaDefs.length > 0) {
-        const lastMatch = allSchemaDefs[allSchemaDefs.length - 1];
-        const bracePos = lastMatch.index! + lastMatch[0].length - 1;
-        if (bracePos === scopeStart) {
-            return lastMatch[1];
-        }
-    }
-    return null;
-}
-
 /**
  * Check if position is inside a schema definition and return schema info
  */
@@ -159,31 +66,6 @@ export function findWordOccurrences(text: string, word: string): ReferenceLocati
     return locations;
 }
 
-/**
- * Find all occurrences of a word within a specific scope
- */
-export function findWordOccurrencesInScope(
-    text: string,
-    word: string,
-    scopeStart: number,
-    scopeEnd: number
-): ReferenceLocation[] {
-    const locations: ReferenceLocation[] = [];
-    const regex = wordBoundaryRegex(word);
-    let match;
-
-    while ((match = regex.exec(text)) !== null) {
-        if (match.index < scopeStart || match.index > scopeEnd) continue;
-        if (isInComment(text, match.index)) continue;
-        locations.push({
-            startOffset: match.index,
-            endOffset: match.index + word.length
-        });
-    }
-
-    return locations;
-}
-
 /**
  * Find component instantiations and their property assignments
  */
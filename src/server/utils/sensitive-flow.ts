@@ -0,0 +1,175 @@
+/**
+ * Sensitive data flow for the Kite language server.
+ *
+ * Values are sensitive when they come from an `@sensitive` input or output:
+ * directly, through variables, loop variables, string interpolation and
+ * function call arguments, through resource properties (`db.password`), or
+ * across component boundaries through outputs of component instances
+ * (`api.connection`) that are marked `@sensitive`, derived from `@sensitive`
+ * inputs of the component, or derived from inputs the instance passes
+ * sensitive values to.
+ */
+
+import { DocumentModel } from '../document-model';
+import { OffsetRange, SemanticModel, SemanticSymbol, SymbolKind, SymbolReference } from '../../parser';
+import {
+    findComponentDefinition,
+    ModelLoader,
+    resolveReferenceTarget,
+    resolveSymbol,
+} from './imported-symbols';
+
+/**
+ * Sensitive data flow of one file
+ */
+export interface SensitiveFlow {
+    readonly model: SemanticModel;
+    /**
+     * Names of the `@sensitive` inputs and outputs a symbol's value comes from,
+     * the symbol itself when it is marked `@sensitive`; empty when it is not sensitive
+     */
+    sourcesOf(symbol: SemanticSymbol): string[];
+    /** Names of the `@sensitive` inputs and outputs the values referenced in a range come from */
+    sourcesIn(start: number, end: number): string[];
+}
+
+/**
+ * Whether a symbol is marked `@sensitive`
+ */
+export function isMarkedSensitive(symbol: SemanticSymbol): boolean {
+    return symbol.decorators?.some(d => d.name === 'sensitive') ?? false;
+}
+
+/**
+ * Analyze the sensitive data flow of a file. Values are computed on demand and cached.
+ * @param loadModel - Loads imported files and files of component definitions
+ */
+export function analyzeSensitiveFlow(model: DocumentModel, loadModel: ModelLoader): SensitiveFlow {
+    const symbolSources = new Map<SemanticSymbol, string[]>();
+    const inProgress = new Set<SemanticSymbol>();
+
+    function sourcesOf(symbol: SemanticSymbol, symbolModel: DocumentModel): string[] {
+        const cached = symbolSources.get(symbol);
+        if (cached) return cached;
+        // Recursive values (var a = b, var b = a) add nothing
+        if (inProgress.has(symbol)) return [];
+
+        inProgress.add(symbol);
+        const sources = computeSources(symbol, symbolModel);
+        inProgress.delete(symbol);
+        symbolSources.set(symbol, sources);
+        return sources;
+    }
+
+    function computeSources(symbol: SemanticSymbol, symbolModel: DocumentModel): string[] {
+        if ((symbol.kind === 'input' || symbol.kind === 'output') && isMarkedSensitive(symbol)) {
+            return [symbol.name];
+        }
+        if (symbol.kind === 'import') {
+            const target = resolveSymbol(symbol, symbolModel, loadModel);
+            return target ? sourcesOf(target.symbol, target.model) : [];
+        }
+        if (FLOW_KINDS.has(symbol.kind) && symbol.value) {
+            return sourcesInRange(symbolModel, symbol.value);
+        }
+        return [];
+    }
+
+    function sourcesInRange(rangeModel: DocumentModel, range: OffsetRange): string[] {
+        const sources = new Set<string>();
+        for (const reference of valueReferencesIn(rangeModel, range)) {
+            for (const source of sourcesOfReference(reference, rangeModel)) {
+                sources.add(source);
+            }
+        }
+        return [...sources];
+    }
+
+    function sourcesOfReference(reference: SymbolReference, referenceModel: DocumentModel): string[] {
+        const target = resolveReferenceTarget(reference, referenceModel, loadModel);
+        if (!target) return [];
+
+        const { symbol } = target;
+        if (symbol.kind === 'resource' || symbol.kind === 'component-instance') {
+            const member = memberAfter(referenceModel.text, reference.end);
+            if (!member) return [];
+            return symbol.kind === 'resource'
+                ? sourcesOfProperty(symbol, target.model, member)
+                : sourcesOfInstanceOutput(symbol, target.model, member);
+        }
+        return sourcesOf(symbol, target.model);
+    }
+
+    /**
+     * Sources of a property set in a resource body (`db.password`)
+     */
+    function sourcesOfProperty(resource: SemanticSymbol, resourceModel: DocumentModel, property: string): string[] {
+        if (!resource.value) return [];
+        const field = resourceModel.types.expressionAt(resource.value.start, resource.value.end)?.fields
+            ?.find(f => f.name === property);
+        return field ? sourcesInRange(resourceModel, field.value) : [];
+    }
+
+    /**
+     * Sources of an output read from a component instance (`api.connection`)
+     */
+    function sourcesOfInstanceOutput(instance: SemanticSymbol, instanceModel: DocumentModel, outputName: string): string[] {
+        if (!instance.typeName) return [];
+        const component = findComponentDefinition(instance.typeName, instanceModel, loadModel);
+        const output = component?.scope.symbols.find(s => s.kind === 'output' && s.name === outputName);
+        if (!component || !output) return [];
+
+        let sensitive = sourcesOf(output, component.model).length > 0;
+
+        // Inputs the output is derived from, set to sensitive values by the instance
+        if (!sensitive && instance.value) {
+            const inputs = inputsUsedBy(output, component.model, new Set());
+            const fields = instanceModel.types.expressionAt(instance.value.start, instance.value.end)?.fields ?? [];
+            sensitive = fields.some(f => inputs.has(f.name) && sourcesInRange(instanceModel, f.value).length > 0);
+        }
+        return sensitive ? [`${instance.name}.${outputName}`] : [];
+    }
+
+    return {
+        model: model.semanticModel,
+        sourcesOf: (symbol) => sourcesOf(symbol, model),
+        sourcesIn: (start, end) => sourcesInRange(model, { start, end }),
+    };
+}
+
+/** Declarations whose value is followed to where it comes from */
+const FLOW_KINDS: ReadonlySet<SymbolKind> = new Set(['variable', 'loop-variable', 'input', 'output']);
+
+/**
+ * Names of the inputs of a file a symbol's value is derived from, following variables
+ */
+function inputsUsedBy(symbol: SemanticSymbol, model: DocumentModel, visited: Set<SemanticSymbol>): Set<string> {
+    const inputs = new Set<string>();
+    if (visited.has(symbol) || !symbol.value) return inputs;
+    visited.add(symbol);
+
+    for (const reference of valueReferencesIn(model, symbol.value)) {
+        const target = reference.symbol;
+        if (!target) continue;
+        if (target.kind === 'input') {
+            inputs.add(target.name);
+        } else if (FLOW_KINDS.has(target.kind)) {
+            inputsUsedBy(target, model, visited).forEach(name => inputs.add(name));
+        }
+    }
+    return inputs;
+}
+
+/**
+ * Value references inside a range
+ */
+function valueReferencesIn(model: DocumentModel, range: OffsetRange): SymbolReference[] {
+    return model.semanticModel.references.filter(r => !r.isType && r.start >= range.start && r.end <= range.end);
+}
+
+/**
+ * Member read right after a reference: `password` in `db.password` or `server[0].password`
+ */
+function memberAfter(text: string, offset: number): string | null {
+    return /^(?:\s*\[[^\]]*\])?\s*\.\s*(\w+)/.exec(text.substring(offset, offset + 200))?.[1] ?? null;
+}
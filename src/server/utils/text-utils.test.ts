@@ -16,6 +16,7 @@ import {
     isInComment,
     escapeRegex,
     wordBoundaryRegex,
+    trimRange,
 } from './text-utils';
 
 describe('offsetToPosition', () => {
@@ -455,6 +456,21 @@ var y = 2`;
     });
 });
 
+describe('trimRange', () => {
+    it('excludes surrounding whitespace', () => {
+        expect(trimRange('@tags( \n { a: 1 } )', 6, 18)).toEqual({ start: 9, end: 17 });
+    });
+
+    it('leaves ranges without surrounding whitespace unchanged', () => {
+        expect(trimRange('f(x)', 2, 3)).toEqual({ start: 2, end: 3 });
+    });
+
+    it('makes all-whitespace ranges empty', () => {
+        const range = trimRange('f(   )', 2, 5);
+        expect(range.start).toBe(range.end);
+    });
+});
+
 describe('escapeRegex', () => {
     it('escapes special regex characters', () => {
         expect(escapeRegex('hello.world')).toBe('hello\\.world');
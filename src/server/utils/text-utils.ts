@@ -198,6 +198,20 @@ export function findEnclosingBlock(text: string, offset: number): BlockContext |
     return enclosing;
 }
 
+/**
+ * Narrow a range of text to exclude leading and trailing whitespace.
+ * An all-whitespace range becomes empty.
+ *
+ * @param text - The full text
+ * @param start - Start offset of the range
+ * @param end - End offset of the range (exclusive)
+ */
+export function trimRange(text: string, start: number, end: number): { start: number; end: number } {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return { start, end };
+}
+
 /**
  * Escape special regex characters in a string.
  * Use this when building regex patterns from user input or variable names.
@@ -3,12 +3,16 @@
  * Functions for searching across workspace files.
  */
 
+import { WorkspaceIndex } from '../workspace-index';
+
 /**
  * Context interface for workspace operations.
  */
 export interface WorkspaceContext {
     findKiteFilesInWorkspace: () => string[];
     getFileContent: (filePath: string, currentDocUri?: string) => string | null;
+    /** Shared workspace index, used to skip files that cannot contain a symbol */
+    workspaceIndex?: WorkspaceIndex;
 }
 
 /**
@@ -34,6 +38,7 @@ export interface SymbolSearchResult<T> {
  * @param currentFilePath - Path of the current file (will be skipped)
  * @param currentDocUri - URI of the current document (for content fetching)
  * @param finder - Function that searches for the symbol in file content
+ * @param symbolName - Name being searched; with a workspace index, only files mentioning it are searched
  * @returns Object with result and filePath where found, or null values if not found
  *
  * @example
@@ -42,7 +47,8 @@ export interface SymbolSearchResult<T> {
  *   ctx,
  *   currentFilePath,
  *   document.uri,
- *   (content, path) => findSchemaDefinition(content, schemaName, path)
+ *   (content, path) => findSchemaDefinition(content, schemaName, path),
+ *   schemaName
  * );
  * if (result.result) {
  *   console.log(`Found in ${result.filePath}`);
@@ -52,9 +58,12 @@ export function findSymbolInWorkspace<T>(
     ctx: WorkspaceContext,
     currentFilePath: string,
     currentDocUri: string,
-    finder: (fileContent: string, filePath: string) => T | null
+    finder: (fileContent: string, filePath: string) => T | null,
+    symbolName?: string
 ): SymbolSearchResult<T> {
-    const kiteFiles = ctx.findKiteFilesInWorkspace();
+    const kiteFiles = symbolName && ctx.workspaceIndex
+        ? ctx.workspaceIndex.findFilesMentioning(symbolName).map(file => file.filePath)
+        : ctx.findKiteFilesInWorkspace();
 
     for (const filePath of kiteFiles) {
         if (filePath === currentFilePath) continue;
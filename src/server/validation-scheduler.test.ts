@@ -0,0 +1,132 @@
+/**
+ * Tests for debounced, cancellable validation scheduling.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CancellationToken } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { createValidationScheduler, ValidationRun, VALIDATION_DELAY } from './validation-scheduler';
+
+function createDocument(version: number, uri = 'file:///test.kite'): TextDocument {
+    return TextDocument.create(uri, 'kite', version, `var x = ${version}`);
+}
+
+describe('validation scheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should validate after the debounce delay', async () => {
+        const run = vi.fn<ValidationRun>(async () => {});
+        const scheduler = createValidationScheduler(run);
+
+        scheduler.schedule(createDocument(1));
+        expect(run).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(VALIDATION_DELAY);
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only validate the latest version of rapid edits', async () => {
+        const run = vi.fn<ValidationRun>(async () => {});
+        const scheduler = createValidationScheduler(run, 100);
+
+        scheduler.schedule(createDocument(1));
+        await vi.advanceTimersByTimeAsync(50);
+        scheduler.schedule(createDocument(2));
+        await vi.advanceTimersByTimeAsync(50);
+        scheduler.schedule(createDocument(3));
+        await vi.advanceTimersByTimeAsync(100);
+
+        expect(run).toHaveBeenCalledTimes(1);
+        expect(run.mock.calls[0][0].version).toBe(3);
+    });
+
+    it('should debounce each document separately', async () => {
+        const run = vi.fn<ValidationRun>(async () => {});
+        const scheduler = createValidationScheduler(run, 100);
+
+        scheduler.schedule(createDocument(1, 'file:///a.kite'));
+        scheduler.schedule(createDocument(1, 'file:///b.kite'));
+        await vi.advanceTimersByTimeAsync(100);
+
+        expect(run.mock.calls.map(call => call[0].uri)).toEqual(['file:///a.kite', 'file:///b.kite']);
+    });
+
+    it('should cancel a running validation when a newer version is scheduled', async () => {
+        const tokens: CancellationToken[] = [];
+        let finishFirstRun: () => void = () => {};
+        const run = vi.fn((_document: TextDocument, token: CancellationToken) => {
+            tokens.push(token);
+            return tokens.length === 1
+                ? new Promise<void>(resolve => { finishFirstRun = resolve; })
+                : Promise.resolve();
+        });
+        const scheduler = createValidationScheduler(run, 100);
+
+        scheduler.schedule(createDocument(1));
+        await vi.advanceTimersByTimeAsync(100);
+        expect(tokens[0].isCancellationRequested).toBe(false);
+
+        scheduler.schedule(createDocument(2));
+        expect(tokens[0].isCancellationRequested).toBe(true);
+
+        finishFirstRun();
+        await vi.advanceTimersByTimeAsync(100);
+        expect(run).toHaveBeenCalledTimes(2);
+        expect(tokens[1].isCancellationRequested).toBe(false);
+    });
+
+    it('should validate immediately with validateNow', async () => {
+        const run = vi.fn<ValidationRun>(async () => {});
+        const scheduler = createValidationScheduler(run);
+
+        scheduler.schedule(createDocument(1));
+        await scheduler.validateNow(createDocument(2));
+
+        expect(run).toHaveBeenCalledTimes(1);
+        expect(run.mock.calls[0][0].version).toBe(2);
+
+        // The pending debounced run was cancelled
+        await vi.advanceTimersByTimeAsync(VALIDATION_DELAY);
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report failed runs and keep validating later versions', async () => {
+        const error = new Error('settings unavailable');
+        const run = vi.fn<ValidationRun>()
+            .mockRejectedValueOnce(error)
+            .mockResolvedValue(undefined);
+        const onError = vi.fn();
+        const scheduler = createValidationScheduler(run, 100, onError);
+
+        scheduler.schedule(createDocument(1));
+        await vi.advanceTimersByTimeAsync(100);
+        expect(onError).toHaveBeenCalledWith(error, expect.objectContaining({ version: 1 }));
+
+        scheduler.schedule(createDocument(2));
+        await vi.advanceTimersByTimeAsync(100);
+        expect(run).toHaveBeenCalledTimes(2);
+        expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop pending validation on cancel and dispose', async () => {
+        const run = vi.fn<ValidationRun>(async () => {});
+        const scheduler = createValidationScheduler(run);
+
+        scheduler.schedule(createDocument(1, 'file:///a.kite'));
+        scheduler.schedule(createDocument(1, 'file:///b.kite'));
+        scheduler.cancel('file:///a.kite');
+        await vi.advanceTimersByTimeAsync(VALIDATION_DELAY);
+        expect(run.mock.calls.map(call => call[0].uri)).toEqual(['file:///b.kite']);
+
+        scheduler.schedule(createDocument(2, 'file:///b.kite'));
+        scheduler.dispose();
+        await vi.advanceTimersByTimeAsync(VALIDATION_DELAY);
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Validation scheduling for the Kite language server.
+ *
+ * Edits are debounced per document: a validation run starts only after the
+ * document has been quiet for `delay` ms. Scheduling a newer version cancels
+ * the pending timer and any run still in progress for that document, so stale
+ * results are never published.
+ */
+
+import { CancellationToken, CancellationTokenSource } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+/** Default debounce delay in milliseconds */
+export const VALIDATION_DELAY = 200;
+
+/**
+ * A validation run for one document version.
+ * Long runs should check the token between steps and stop when it is cancelled.
+ */
+export type ValidationRun = (document: TextDocument, token: CancellationToken) => Promise<void>;
+
+/**
+ * Reports a validation run that failed; nothing else observes runs started by the debounce timer.
+ */
+export type ValidationErrorHandler = (error: unknown, document: TextDocument) => void;
+
+export interface ValidationScheduler {
+    /** Validate a document after the debounce delay, cancelling older runs */
+    schedule(document: TextDocument): void;
+    /** Validate a document right away, cancelling older runs */
+    validateNow(document: TextDocument): Promise<void>;
+    /** Cancel pending and running validation for a document */
+    cancel(uri: string): void;
+    /** Cancel everything */
+    dispose(): void;
+}
+
+interface ScheduledValidation {
+    timer?: ReturnType<typeof setTimeout>;
+    source: CancellationTokenSource;
+}
+
+/**
+ * Create a scheduler that debounces and cancels validation runs per document.
+ *
+ * @param run - Validates a document version
+ * @param delay - Debounce delay in milliseconds
+ * @param onError - Reports debounced runs that fail
+ */
+export function createValidationScheduler(
+    run: ValidationRun,
+    delay: number = VALIDATION_DELAY,
+    onError: ValidationErrorHandler = error => console.error(error)
+): ValidationScheduler {
+    const scheduled = new Map<string, ScheduledValidation>();
+
+    const cancel = (uri: string) => {
+        const entry = scheduled.get(uri);
+        if (!entry) return;
+        if (entry.timer) clearTimeout(entry.timer);
+        entry.source.cancel();
+        entry.source.dispose();
+        scheduled.delete(uri);
+    };
+
+    const start = async (document: TextDocument, entry: ScheduledValidation) => {
+        entry.timer = undefined;
+        try {
+            await run(document, entry.source.token);
+        } finally {
+            // A newer version may have replaced this entry while the run was in progress
+            if (scheduled.get(document.uri) === entry) {
+                scheduled.delete(document.uri);
+                entry.source.dispose();
+            }
+        }
+    };
+
+    return {
+        schedule(document) {
+            cancel(document.uri);
+            const entry: ScheduledValidation = { source: new CancellationTokenSource() };
+            entry.timer = setTimeout(() => {
+                start(document, entry).catch(error => onError(error, document));
+            }, delay);
+            scheduled.set(document.uri, entry);
+        },
+
+        validateNow(document) {
+            cancel(document.uri);
+            const entry: ScheduledValidation = { source: new CancellationTokenSource() };
+            scheduled.set(document.uri, entry);
+            return start(document, entry);
+        },
+
+        cancel,
+
+        dispose() {
+            for (const uri of [...scheduled.keys()]) {
+                cancel(uri);
+            }
+        },
+    };
+}
+
+/**
+ * Let pending messages (e.g. newer edits) be processed before continuing.
+ */
+export function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
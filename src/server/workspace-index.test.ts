@@ -0,0 +1,240 @@
+/**
+ * Tests for the workspace symbol index.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SymbolKind } from 'vscode-languageserver/node';
+import {
+    createWorkspaceIndex,
+    countReferenceSites,
+    extractIndexedImports,
+    extractWorkspaceSymbols,
+    getReferenceSites,
+    indexFileContent,
+    scanReferenceSites,
+    WorkspaceIndexSource,
+} from './workspace-index';
+
+function createSource(files: Map<string, string>): WorkspaceIndexSource {
+    return {
+        findKiteFilesInWorkspace: () => Array.from(files.keys()),
+        getFileContent: vi.fn((filePath: string) => files.get(filePath) ?? null),
+    };
+}
+
+function createStat(stats: Map<string, { mtimeMs: number; size: number }>) {
+    return (filePath: string) => stats.get(filePath) ?? null;
+}
+
+describe('workspace index', () => {
+    describe('scanReferenceSites', () => {
+        it('should record identifier positions', () => {
+            const sites = scanReferenceSites('var x = 1\nvar y = x + x');
+
+            expect(sites.get('x')).toEqual([0, 4, 1, 8, 1, 12]);
+            expect(sites.get('y')).toEqual([1, 4]);
+        });
+
+        it('should skip comments', () => {
+            const sites = scanReferenceSites('// uses foo\n/* foo\n foo */ var bar = 1');
+
+            expect(sites.has('foo')).toBe(false);
+            expect(sites.get('bar')).toEqual([2, 12]);
+        });
+
+        it('should skip plain string text', () => {
+            const sites = scanReferenceSites(`var a = "foo"\nvar b = 'foo'`);
+
+            expect(sites.has('foo')).toBe(false);
+        });
+
+        it('should record identifiers inside string interpolation', () => {
+            const sites = scanReferenceSites('var a = "${name}-$region-${tags["x"]}"');
+
+            expect(sites.get('name')).toEqual([0, 11]);
+            expect(sites.get('region')).toEqual([0, 18]);
+            expect(sites.get('tags')).toEqual([0, 27]);
+            expect(sites.has('x')).toBe(false);
+        });
+
+        it('should skip number literals', () => {
+            const sites = scanReferenceSites('var size = 10px');
+
+            expect(sites.has('px')).toBe(false);
+        });
+    });
+
+    describe('extractWorkspaceSymbols', () => {
+        it('should extract top-level declarations', () => {
+            const symbols = extractWorkspaceSymbols([
+                'schema Config {',
+                '}',
+                'fun greet(string name) string {',
+                '}',
+                'resource S3.Bucket data {',
+                '}',
+                'var string region = "us-east-1"',
+            ].join('\n'));
+
+            expect(symbols).toEqual([
+                { name: 'Config', kind: SymbolKind.Struct, line: 0, character: 7 },
+                { name: 'greet', kind: SymbolKind.Function, line: 2, character: 4 },
+                { name: 'data', kind: SymbolKind.Object, line: 4, character: 19 },
+                { name: 'region', kind: SymbolKind.Variable, line: 6, character: 11 },
+            ]);
+        });
+    });
+
+    describe('extractIndexedImports', () => {
+        it('should extract named and wildcard imports', () => {
+            const imports = extractIndexedImports('import a, b from "common.kite"\nimport * from \'all.kite\'');
+
+            expect(imports).toEqual([
+                { path: 'common.kite', symbols: ['a', 'b'] },
+                { path: 'all.kite', symbols: '*' },
+            ]);
+        });
+    });
+
+    describe('reference sites', () => {
+        it('should return positions and counts', () => {
+            const file = indexFileContent('/workspace/main.kite', 'var x = 1\nvar y = x');
+
+            expect(getReferenceSites(file, 'x')).toEqual([
+                { line: 0, character: 4 },
+                { line: 1, character: 8 },
+            ]);
+            expect(countReferenceSites(file, 'x')).toBe(2);
+            expect(countReferenceSites(file, 'missing')).toBe(0);
+        });
+    });
+
+    describe('createWorkspaceIndex', () => {
+        it('should index each file once', () => {
+            const source = createSource(new Map([['/workspace/main.kite', 'var x = 1']]));
+            const index = createWorkspaceIndex(source, { stat: () => null });
+
+            index.getFiles();
+            index.getFiles();
+
+            expect(source.getFileContent).toHaveBeenCalledTimes(1);
+        });
+
+        it('should find declarations by name', () => {
+            const index = createWorkspaceIndex(createSource(new Map([
+                ['/workspace/a.kite', 'fun helper() {\n}'],
+                ['/workspace/b.kite', 'var other = 1'],
+            ])), { stat: () => null });
+
+            const results = index.findDeclarations('helper');
+
+            expect(results).toHaveLength(1);
+            expect(results[0].file.filePath).toBe('/workspace/a.kite');
+            expect(results[0].symbol.kind).toBe(SymbolKind.Function);
+        });
+
+        it('should find files mentioning every part of a dotted name', () => {
+            const index = createWorkspaceIndex(createSource(new Map([
+                ['/workspace/a.kite', 'var x = server.size'],
+                ['/workspace/b.kite', 'var y = server.name'],
+                ['/workspace/c.kite', '// server.size'],
+            ])), { stat: () => null });
+
+            expect(index.findFilesMentioning('server').map(f => f.filePath)).toEqual([
+                '/workspace/a.kite',
+                '/workspace/b.kite',
+            ]);
+            expect(index.findFilesMentioning('server.size').map(f => f.filePath)).toEqual(['/workspace/a.kite']);
+        });
+
+        it('should re-index updated and invalidated files', () => {
+            const files = new Map([['/workspace/main.kite', 'var x = 1']]);
+            const index = createWorkspaceIndex(createSource(files), { stat: () => null });
+
+            index.updateFile('/workspace/main.kite', 'var y = 1');
+            expect(index.getFile('/workspace/main.kite')?.symbols.map(s => s.name)).toEqual(['y']);
+
+            index.invalidate('/workspace/main.kite');
+            expect(index.getFile('/workspace/main.kite')?.symbols.map(s => s.name)).toEqual(['x']);
+        });
+
+        it('should index all files in the background', async () => {
+            const files = new Map<string, string>();
+            for (let i = 0; i < 45; i++) {
+                files.set(`/workspace/file${i}.kite`, `var v${i} = ${i}`);
+            }
+            const source = createSource(files);
+            const index = createWorkspaceIndex(source, { stat: () => null });
+
+            await index.build();
+
+            expect(source.getFileContent).toHaveBeenCalledTimes(45);
+            index.getFiles();
+            expect(source.getFileContent).toHaveBeenCalledTimes(45);
+        });
+
+        it('should not persist the content of open files', () => {
+            const source: WorkspaceIndexSource = {
+                ...createSource(new Map([['/workspace/main.kite', 'var x = 1']])),
+                isOpenFile: () => true,
+            };
+            const index = createWorkspaceIndex(source, { stat: () => ({ mtimeMs: 1, size: 9 }) });
+
+            index.getFiles();
+
+            expect(index.toJSON().files).toHaveLength(0);
+        });
+    });
+
+    describe('persistence', () => {
+        const stats = new Map([
+            ['/workspace/a.kite', { mtimeMs: 100, size: 14 }],
+            ['/workspace/b.kite', { mtimeMs: 200, size: 13 }],
+        ]);
+        const files = new Map([
+            ['/workspace/a.kite', 'fun helper() {\n}'],
+            ['/workspace/b.kite', 'var x = helper()'],
+        ]);
+
+        it('should round-trip through JSON', () => {
+            const index = createWorkspaceIndex(createSource(files), { stat: createStat(stats) });
+            index.getFiles();
+            const data = JSON.parse(JSON.stringify(index.toJSON()));
+
+            const source = createSource(files);
+            const restored = createWorkspaceIndex(source, { stat: createStat(stats) });
+            restored.restore(data);
+
+            expect(restored.findDeclarations('helper')).toHaveLength(1);
+            expect(restored.findFilesMentioning('helper').map(f => f.filePath)).toEqual([
+                '/workspace/a.kite',
+                '/workspace/b.kite',
+            ]);
+            expect(source.getFileContent).not.toHaveBeenCalled();
+        });
+
+        it('should re-index restored files that changed on disk', () => {
+            const index = createWorkspaceIndex(createSource(files), { stat: createStat(stats) });
+            index.getFiles();
+            const data = JSON.parse(JSON.stringify(index.toJSON()));
+
+            const changedFiles = new Map(files).set('/workspace/b.kite', 'var y = 2');
+            const changedStats = new Map(stats).set('/workspace/b.kite', { mtimeMs: 300, size: 9 });
+            const source = createSource(changedFiles);
+            const restored = createWorkspaceIndex(source, { stat: createStat(changedStats) });
+            restored.restore(data);
+
+            expect(restored.findFilesMentioning('helper').map(f => f.filePath)).toEqual(['/workspace/a.kite']);
+            expect(source.getFileContent).toHaveBeenCalledTimes(1);
+        });
+
+        it('should ignore data in an unknown format', () => {
+            const index = createWorkspaceIndex(createSource(files), { stat: createStat(stats) });
+
+            index.restore({ version: -1, files: [] });
+            index.restore(null);
+
+            expect(index.getFiles()).toHaveLength(2);
+        });
+    });
+});
@@ -0,0 +1,565 @@
+/**
+ * Workspace symbol index for the Kite language server.
+ *
+ * Holds the top-level declarations, imports and identifier reference sites of
+ * every .kite file in the workspace, so cross-file features (workspace symbols,
+ * code lens, call hierarchy, implementation, symbol resolution) do not re-read
+ * and re-scan every file per request.
+ *
+ * The index is filled in the background and on demand, updated per file as
+ * open documents change and files change on disk, and can be persisted to
+ * disk between sessions.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CancellationToken, Position, SymbolKind } from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { yieldToEventLoop } from './validation-scheduler';
+
+/** Name of the persisted index file inside the storage directory */
+export const WORKSPACE_INDEX_FILENAME = 'workspace-index.json';
+
+/** Bump when the persisted format or the extraction logic changes */
+const INDEX_FORMAT_VERSION = 1;
+
+/** Files indexed between yields to the event loop during a background build */
+const BUILD_BATCH_SIZE = 20;
+
+/**
+ * A top-level declaration found in a file
+ */
+export interface IndexedSymbol {
+    name: string;
+    kind: SymbolKind;
+    line: number;
+    character: number;
+}
+
+/**
+ * An import statement: `import a, b from "path"` or `import * from "path"`
+ */
+export interface IndexedImport {
+    path: string;
+    /** Imported names, or '*' for a wildcard import */
+    symbols: string[] | '*';
+}
+
+/**
+ * Index entry for one file
+ */
+export interface IndexedFile {
+    filePath: string;
+    uri: string;
+    symbols: IndexedSymbol[];
+    imports: IndexedImport[];
+    /**
+     * Identifier occurrences outside comments and plain string text.
+     * Positions are flattened: [line, character, line, character, ...]
+     */
+    references: Map<string, number[]>;
+    /** Modification time of the indexed file on disk (unset for unsaved editor content) */
+    mtimeMs?: number;
+    /** Size of the indexed file on disk */
+    size?: number;
+}
+
+/**
+ * File access needed to build the index
+ */
+export interface WorkspaceIndexSource {
+    findKiteFilesInWorkspace: () => string[];
+    getFileContent: (filePath: string) => string | null;
+    /** Whether a file is open in the editor (its content may be unsaved, so it is not persisted) */
+    isOpenFile?: (filePath: string) => boolean;
+}
+
+export interface WorkspaceIndex {
+    /** Entries for all workspace files, indexing missing ones on demand */
+    getFiles(): IndexedFile[];
+    /** Entry for one file, indexing it on demand */
+    getFile(filePath: string): IndexedFile | undefined;
+    /** Top-level declarations with the given name */
+    findDeclarations(name: string): { file: IndexedFile; symbol: IndexedSymbol }[];
+    /** Files that mention every part of a (possibly dotted) name */
+    findFilesMentioning(name: string): IndexedFile[];
+    /** Re-index a file from new content (e.g. an edited open document) */
+    updateFile(filePath: string, content: string): void;
+    /** Drop a file's entry; it is re-read on next use */
+    invalidate(filePath: string): void;
+    /** Drop all entries */
+    clear(): void;
+    /** Index every workspace file not indexed yet, yielding between batches */
+    build(token?: CancellationToken): Promise<void>;
+    /** Serialize entries that match the files on disk */
+    toJSON(): PersistedWorkspaceIndex;
+    /** Restore entries from a persisted index; they are checked against the disk before use */
+    restore(data: unknown): void;
+}
+
+/**
+ * Options for creating a workspace index
+ */
+export interface WorkspaceIndexOptions {
+    /** Get modification time and size of a file (injectable for testing) */
+    stat?: (filePath: string) => { mtimeMs: number; size: number } | null;
+}
+
+/**
+ * Create a workspace index.
+ */
+export function createWorkspaceIndex(
+    source: WorkspaceIndexSource,
+    options: WorkspaceIndexOptions = {}
+): WorkspaceIndex {
+    const stat = options.stat ?? statFile;
+    const entries = new Map<string, IndexedFile>();
+    // Restored entries that have not been checked against the disk yet
+    const unverified = new Set<string>();
+
+    const indexFromSource = (filePath: string): IndexedFile | undefined => {
+        const content = source.getFileContent(filePath);
+        if (content === null) return undefined;
+        const entry = indexFileContent(filePath, content);
+        const stats = source.isOpenFile?.(filePath) ? null : stat(filePath);
+        if (stats) {
+            entry.mtimeMs = stats.mtimeMs;
+            entry.size = stats.size;
+        }
+        entries.set(filePath, entry);
+        return entry;
+    };
+
+    const getFile = (filePath: string): IndexedFile | undefined => {
+        let entry = entries.get(filePath);
+        if (entry && unverified.has(filePath)) {
+            unverified.delete(filePath);
+            const stats = stat(filePath);
+            if (!stats || stats.mtimeMs !== entry.mtimeMs || stats.size !== entry.size) {
+                entries.delete(filePath);
+                entry = undefined;
+            }
+        }
+        return entry ?? indexFromSource(filePath);
+    };
+
+    const getFiles = (): IndexedFile[] => {
+        const files: IndexedFile[] = [];
+        for (const filePath of source.findKiteFilesInWorkspace()) {
+            const entry = getFile(filePath);
+            if (entry) files.push(entry);
+        }
+        return files;
+    };
+
+    return {
+        getFiles,
+        getFile,
+
+        findDeclarations(name) {
+            const results: { file: IndexedFile; symbol: IndexedSymbol }[] = [];
+            for (const file of getFiles()) {
+                for (const symbol of file.symbols) {
+                    if (symbol.name === name) results.push({ file, symbol });
+                }
+            }
+            return results;
+        },
+
+        findFilesMentioning(name) {
+            const parts = name.split('.');
+            return getFiles().filter(file => parts.every(part => file.references.has(part)));
+        },
+
+        updateFile(filePath, content) {
+            // Editor content may differ from the disk, so it is not persisted
+            entries.set(filePath, indexFileContent(filePath, content));
+            unverified.delete(filePath);
+        },
+
+        invalidate(filePath) {
+            entries.delete(filePath);
+            unverified.delete(filePath);
+        },
+
+        clear() {
+            entries.clear();
+            unverified.clear();
+        },
+
+        async build(token = CancellationToken.None) {
+            const files = source.findKiteFilesInWorkspace();
+            for (let i = 0; i < files.length; i++) {
+                getFile(files[i]);
+                if ((i + 1) % BUILD_BATCH_SIZE === 0) {
+                    await yieldToEventLoop();
+                    if (token.isCancellationRequested) return;
+                }
+            }
+        },
+
+        toJSON() {
+            const files: PersistedFile[] = [];
+            for (const entry of entries.values()) {
+                if (entry.mtimeMs === undefined || entry.size === undefined) continue;
+                files.push({
+                    filePath: entry.filePath,
+                    mtimeMs: entry.mtimeMs,
+                    size: entry.size,
+                    symbols: entry.symbols,
+                    imports: entry.imports,
+                    references: Object.fromEntries(entry.references),
+                });
+            }
+            return { version: INDEX_FORMAT_VERSION, files };
+        },
+
+        restore(data) {
+            if (!isPersistedIndex(data)) return;
+            for (const file of data.files) {
+                if (entries.has(file.filePath)) continue;
+                entries.set(file.filePath, {
+                    filePath: file.filePath,
+                    uri: URI.file(file.filePath).toString(),
+                    symbols: file.symbols,
+                    imports: file.imports,
+                    references: new Map(Object.entries(file.references)),
+                    mtimeMs: file.mtimeMs,
+                    size: file.size,
+                });
+                unverified.add(file.filePath);
+            }
+        },
+    };
+}
+
+/**
+ * Get the reference sites of a name in an indexed file
+ */
+export function getReferenceSites(file: IndexedFile, name: string): Position[] {
+    const flat = file.references.get(name) ?? [];
+    const positions: Position[] = [];
+    for (let i = 0; i < flat.length; i += 2) {
+        positions.push(Position.create(flat[i], flat[i + 1]));
+    }
+    return positions;
+}
+
+/**
+ * Count the reference sites of a name in an indexed file
+ */
+export function countReferenceSites(file: IndexedFile, name: string): number {
+    return (file.references.get(name)?.length ?? 0) / 2;
+}
+
+/**
+ * Get the index from a context, or build a throwaway one from the context's file access.
+ */
+export function getWorkspaceIndex(ctx: WorkspaceIndexSource & { workspaceIndex?: WorkspaceIndex }): WorkspaceIndex {
+    return ctx.workspaceIndex ?? createWorkspaceIndex(ctx);
+}
+
+/**
+ * Index the content of a single file
+ */
+export function indexFileContent(filePath: string, content: string): IndexedFile {
+    return {
+        filePath,
+        uri: URI.file(filePath).toString(),
+        symbols: extractWorkspaceSymbols(content),
+        imports: extractIndexedImports(content),
+        references: scanReferenceSites(content),
+    };
+}
+
+/**
+ * Extract top-level declarations from file content
+ */
+export function extractWorkspaceSymbols(content: string): IndexedSymbol[] {
+    const symbols: IndexedSymbol[] = [];
+    const lines = content.split('\n');
+
+    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
+        const line = lines[lineNum];
+
+        // Skip comment lines
+        const trimmedLine = line.trim();
+        if (trimmedLine.startsWith('//') || trimmedLine.startsWith('/*')) {
+            continue;
+        }
+
+        // Schema: schema Name {
+        const schemaMatch = line.match(/^\s*schema\s+(\w+)\s*\{/);
+        if (schemaMatch) {
+            const name = schemaMatch[1];
+            const character = line.indexOf(name);
+            symbols.push({ name, kind: SymbolKind.Struct, line: lineNum, character });
+            continue;
+        }
+
+        // Component definition: component Name { (only one word between component and {)
+        const componentDefMatch = line.match(/^\s*component\s+(\w+)\s*\{/);
+        if (componentDefMatch) {
+            const name = componentDefMatch[1];
+            const character = line.indexOf(name);
+            symbols.push({ name, kind: SymbolKind.Class, line: lineNum, character });
+            continue;
+        }
+
+        // Component instance: component Type instanceName {
+        const componentInstMatch = line.match(/^\s*component\s+\w+\s+(\w+)\s*\{/);
+        if (componentInstMatch) {
+            const name = componentInstMatch[1];
+            const character = line.lastIndexOf(name);
+            symbols.push({ name, kind: SymbolKind.Object, line: lineNum, character });
+            continue;
+        }
+
+        // Resource: resource Type name {
+        const resourceMatch = line.match(/^\s*resource\s+[\w.]+\s+(\w+)\s*\{/);
+        if (resourceMatch) {
+            const name = resourceMatch[1];
+            const character = line.lastIndexOf(name);
+            symbols.push({ name, kind: SymbolKind.Object, line: lineNum, character });
+            continue;
+        }
+
+        // Function: fun name(
+        const funcMatch = line.match(/^\s*fun\s+(\w+)\s*\(/);
+        if (funcMatch) {
+            const name = funcMatch[1];
+            const character = line.indexOf(name);
+            symbols.push({ name, kind: SymbolKind.Function, line: lineNum, character });
+            continue;
+        }
+
+        // Type alias: type Name =
+        const typeMatch = line.match(/^\s*type\s+(\w+)\s*=/);
+        if (typeMatch) {
+            const name = typeMatch[1];
+            const character = line.indexOf(name);
+            symbols.push({ name, kind: SymbolKind.TypeParameter, line: lineNum, character });
+            continue;
+        }
+
+        // Variable: var [type] name =
+        const varMatch = line.match(/^\s*var\s+(?:\w+\s+)?(\w+)\s*=/);
+        if (varMatch) {
+            // Find the actual variable name (last word before =)
+            const eqPos = line.indexOf('=');
+            const beforeEq = line.substring(0, eqPos).trim();
+            const words = beforeEq.split(/\s+/);
+            const varName = words[words.length - 1];
+            const character = line.lastIndexOf(varName, eqPos);
+            symbols.push({ name: varName, kind: SymbolKind.Variable, line: lineNum, character });
+            continue;
+        }
+    }
+
+    return symbols;
+}
+
+/**
+ * Extract import statements from file content
+ */
+export function extractIndexedImports(content: string): IndexedImport[] {
+    const imports: IndexedImport[] = [];
+    const importRegex = /import\s+([^"']+)\s+from\s+["']([^"']+)["']/g;
+    let match;
+
+    while ((match = importRegex.exec(content)) !== null) {
+        const symbols = match[1].trim();
+        imports.push({
+            path: match[2],
+            symbols: symbols === '*' ? '*' : symbols.split(',').map(s => s.trim()).filter(Boolean),
+        });
+    }
+
+    return imports;
+}
+
+/**
+ * Find identifier occurrences outside comments and plain string text.
+ * Identifiers inside string interpolation (`${expr}` and `$name`) count as references.
+ */
+export function scanReferenceSites(text: string): Map<string, number[]> {
+    const sites = new Map<string, number[]>();
+    let line = 0;
+    let lineStart = 0;
+    // Brace depth of each open `${...}`; the scanner is in a double-quoted string when
+    // inString is set and no interpolation is open above it
+    const interpolationDepths: number[] = [];
+    let inString = false;
+
+    const addSite = (start: number, end: number) => {
+        const name = text.substring(start, end);
+        let list = sites.get(name);
+        if (!list) {
+            list = [];
+            sites.set(name, list);
+        }
+        list.push(line, start - lineStart);
+    };
+
+    const readIdentifier = (start: number): number => {
+        let end = start + 1;
+        while (end < text.length && isIdentifierPart(text[end])) end++;
+        return end;
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (ch === '\n') {
+            line++;
+            lineStart = i + 1;
+            i++;
+            continue;
+        }
+
+        if (inString) {
+            if (ch === '\\') {
+                if (text[i + 1] === '\n') {
+                    line++;
+                    lineStart = i + 2;
+                }
+                i += 2;
+            } else if (ch === '"') {
+                inString = false;
+                i++;
+            } else if (ch === '$' && text[i + 1] === '{') {
+                inString = false;
+                interpolationDepths.push(0);
+                i += 2;
+            } else if (ch === '$' && isIdentifierStart(text[i + 1])) {
+                const end = readIdentifier(i + 1);
+                addSite(i + 1, end);
+                i = end;
+            } else {
+                i++;
+            }
+            continue;
+        }
+
+        // Code (top level or inside an interpolation)
+        if (ch === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') i++;
+        } else if (ch === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            const stop = end === -1 ? text.length : end + 2;
+            for (let j = i; j < stop; j++) {
+                if (text[j] === '\n') {
+                    line++;
+                    lineStart = j + 1;
+                }
+            }
+            i = stop;
+        } else if (ch === "'") {
+            // Single-quoted strings have no interpolation
+            i++;
+            while (i < text.length && text[i] !== "'" && text[i] !== '\n') {
+                i += text[i] === '\\' ? 2 : 1;
+            }
+            i++;
+        } else if (ch === '"') {
+            inString = true;
+            i++;
+        } else if (ch === '{' && interpolationDepths.length > 0) {
+            interpolationDepths[interpolationDepths.length - 1]++;
+            i++;
+        } else if (ch === '}' && interpolationDepths.length > 0) {
+            const depth = interpolationDepths[interpolationDepths.length - 1];
+            if (depth === 0) {
+                // End of `${...}`: back in the enclosing string
+                interpolationDepths.pop();
+                inString = true;
+            } else {
+                interpolationDepths[interpolationDepths.length - 1]--;
+            }
+            i++;
+        } else if (isIdentifierStart(ch)) {
+            const end = readIdentifier(i);
+            addSite(i, end);
+            i = end;
+        } else if (isDigit(ch)) {
+            // Skip number literals (including suffixes like 10px)
+            i = readIdentifier(i);
+        } else {
+            i++;
+        }
+    }
+
+    return sites;
+}
+
+/**
+ * Read a persisted index file
+ * @returns The parsed content, or null if the file is missing or invalid
+ */
+export function readWorkspaceIndexFile(storagePath: string): unknown {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(storagePath, WORKSPACE_INDEX_FILENAME), 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Write an index to the storage directory
+ */
+export function writeWorkspaceIndexFile(storagePath: string, index: WorkspaceIndex): void {
+    try {
+        fs.mkdirSync(storagePath, { recursive: true });
+        fs.writeFileSync(path.join(storagePath, WORKSPACE_INDEX_FILENAME), JSON.stringify(index.toJSON()));
+    } catch {
+        // Persisting is best effort; the index is rebuilt next session
+    }
+}
+
+/**
+ * Persisted form of an index entry
+ */
+interface PersistedFile {
+    filePath: string;
+    mtimeMs: number;
+    size: number;
+    symbols: IndexedSymbol[];
+    imports: IndexedImport[];
+    references: Record<string, number[]>;
+}
+
+/**
+ * Persisted form of the index
+ */
+export interface PersistedWorkspaceIndex {
+    version: number;
+    files: PersistedFile[];
+}
+
+function isPersistedIndex(data: unknown): data is PersistedWorkspaceIndex {
+    return typeof data === 'object' && data !== null
+        && (data as PersistedWorkspaceIndex).version === INDEX_FORMAT_VERSION
+        && Array.isArray((data as PersistedWorkspaceIndex).files);
+}
+
+function statFile(filePath: string): { mtimeMs: number; size: number } | null {
+    try {
+        const stats = fs.statSync(filePath);
+        return { mtimeMs: stats.mtimeMs, size: stats.size };
+    } catch {
+        return null;
+    }
+}
+
+function isIdentifierStart(ch: string | undefined): boolean {
+    return ch !== undefined && /[A-Za-z_]/.test(ch);
+}
+
+function isIdentifierPart(ch: string): boolean {
+    return /\w/.test(ch);
+}
+
+function isDigit(ch: string): boolean {
+    return ch >= '0' && ch <= '9';
+}